@@ -3,6 +3,7 @@
 
 import { useState, useEffect } from 'react';
 import EditBookingModal from '@/components/admin/EditBookingModal';
+import LoanItemList, { type LoanItem } from '@/components/admin/LoanItemList';
 
 interface Booking {
     id: string;
@@ -13,6 +14,7 @@ interface Booking {
     groupSize: number;
     weddingDate: { _seconds: number };
     status: string;
+    items: LoanItem[];
     gownPickedUp: boolean;
     gownReturned: boolean;
     donationPaid: boolean;
@@ -79,7 +81,7 @@ export default function KanbanBoardPage() {
         },
         {
             id: 'out',
-            title: 'Gowns Out',
+            title: 'Items Out',
             color: 'bg-purple-50 border-purple-100',
             textColor: 'text-purple-800',
             filter: (b: Booking) => b.status === 'confirmed' && b.gownPickedUp && !b.gownReturned,
@@ -133,6 +135,11 @@ export default function KanbanBoardPage() {
                                             </button>
                                         </div>
 
+                                        <LoanItemList
+                                            items={booking.items}
+                                            onChange={(items) => updateBooking(booking.id, { items })}
+                                        />
+
                                         <div className="space-y-2 mt-3 pt-3 border-t border-gray-50">
                                             {/* Action Buttons based on state */}
                                             {col.id === 'upcoming' && (
@@ -140,7 +147,7 @@ export default function KanbanBoardPage() {
                                                     onClick={() => updateBooking(booking.id, { gownPickedUp: true })}
                                                     className="w-full py-1.5 bg-blue-600 text-white text-xs font-medium rounded hover:bg-blue-700 transition"
                                                 >
-                                                    Mark Picked Up →
+                                                    Mark All Picked Up →
                                                 </button>
                                             )}
                                             {col.id === 'out' && (
@@ -148,7 +155,7 @@ export default function KanbanBoardPage() {
                                                     onClick={() => updateBooking(booking.id, { gownReturned: true })}
                                                     className="w-full py-1.5 bg-purple-600 text-white text-xs font-medium rounded hover:bg-purple-700 transition"
                                                 >
-                                                    Mark Returned →
+                                                    Mark All Returned →
                                                 </button>
                                             )}
                                             {col.id === 'returned' && (
@@ -3,6 +3,8 @@
 
 import { useState, useEffect } from 'react';
 import EditBookingModal from '@/components/admin/EditBookingModal';
+import type { Gown } from '@/components/admin/GownModal';
+import LoanItemList, { type LoanItem } from '@/components/admin/LoanItemList';
 
 interface Booking {
     id: string;
@@ -14,15 +16,30 @@ interface Booking {
     weddingDate: { _seconds: number };
     status: string;
     gownSelected: boolean;
-    gownDescription?: string;
+    items: LoanItem[];
+    gownIds?: string[];
     gownPickedUp: boolean;
     gownReturned: boolean;
     donationPaid: boolean;
     notes?: string;
+    deliveryProblem?: { messageType: string; status: string; errorCode?: string };
+    smsOptedOut?: boolean;
 }
 
+// Texts whose failed delivery flags a booking (see delivery-status)
+const MESSAGE_LABELS: Record<string, string> = {
+    'confirmation': 'Confirmation',
+    'booking-rescheduled': 'Reschedule notice',
+    'pickup-confirmed': 'Pickup confirmation',
+    'day-before-reminder': 'Day-before reminder',
+    'pickup-reminder': 'Pickup reminder',
+    'arrange-pickup': 'Arrange-pickup reminder',
+    'return-reminder': 'Return reminder',
+};
+
 export default function AllBookingsPage() {
     const [bookings, setBookings] = useState<Booking[]>([]);
+    const [freeGowns, setFreeGowns] = useState<Record<string, Gown[]>>({});
     const [loading, setLoading] = useState(true);
     const [updating, setUpdating] = useState<string | null>(null);
     const [search, setSearch] = useState('');
@@ -31,9 +48,7 @@ export default function AllBookingsPage() {
     // Edit Modal State
     const [editingBooking, setEditingBooking] = useState<Booking | null>(null);
 
-    // Inline gown description editing
-    const [editingGownId, setEditingGownId] = useState<string | null>(null);
-    const [gownDescInput, setGownDescInput] = useState('');
+    const [error, setError] = useState('');
 
     const fetchBookings = async () => {
         try {
@@ -60,12 +75,39 @@ export default function AllBookingsPage() {
 
     const updateBooking = async (bookingId: string, updates: Partial<Booking>) => {
         setUpdating(bookingId);
+        setError('');
         try {
-            await fetch('/api/admin/bookings', {
+            const res = await fetch('/api/admin/bookings', {
                 method: 'PATCH',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({ bookingId, action: 'update', updates }),
             });
+            if (!res.ok) {
+                const data = await res.json();
+                setError(data.error || 'Failed to update booking');
+            }
+            await fetchBookings();
+            if (updates.items || updates.gownPickedUp !== undefined || updates.gownReturned !== undefined) {
+                setFreeGowns({});
+            }
+        } finally {
+            setUpdating(null);
+        }
+    };
+
+    const clearDeliveryProblem = async (booking: Booking) => {
+        setUpdating(booking.id);
+        setError('');
+        try {
+            const res = await fetch('/api/admin/bookings', {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ bookingId: booking.id, action: 'clearDeliveryProblem' }),
+            });
+            if (!res.ok) {
+                const data = await res.json();
+                setError(data.error || 'Failed to update booking');
+            }
             await fetchBookings();
         } finally {
             setUpdating(null);
@@ -132,10 +174,23 @@ export default function AllBookingsPage() {
         return { dateStr, status: 'future', daysText: `in ${diffDays}d` };
     };
 
-    const handleGownDescSave = async (bookingId: string) => {
-        await updateBooking(bookingId, { gownDescription: gownDescInput } as any);
-        setEditingGownId(null);
-        setGownDescInput('');
+    // Only offer gowns nobody else has during this bride's pickup-to-return window
+    const loadFreeGowns = async (booking: Booking) => {
+        if (freeGowns[booking.id]) return;
+        const weddingDateStr = new Date(booking.weddingDate._seconds * 1000).toISOString().split('T')[0];
+        try {
+            const res = await fetch(`/api/admin/gowns?freeFor=${weddingDateStr}`);
+            const data = await res.json();
+            setFreeGowns(prev => ({ ...prev, [booking.id]: data.gowns || [] }));
+        } catch (error) {
+            console.error('Failed to fetch free gowns:', error);
+        }
+    };
+
+    const linkGown = async (booking: Booking, gownId: string) => {
+        if (!gownId) return;
+        const gownItem: LoanItem = { type: 'Gown', gownId, description: '', pickedUp: false, returned: false };
+        await updateBooking(booking.id, { items: [...booking.items, gownItem] });
     };
 
     const filteredBookings = bookings.filter((b) => {
@@ -144,7 +199,7 @@ export default function AllBookingsPage() {
         return (
             b.customerName.toLowerCase().includes(term) ||
             b.customerPhone.includes(term) ||
-            (b.gownDescription?.toLowerCase().includes(term))
+            b.items.some(item => item.description.toLowerCase().includes(term))
         );
     });
 
@@ -161,7 +216,7 @@ export default function AllBookingsPage() {
         </button>
     );
 
-    // Count gowns out
+    // Count bookings with items out
     const gownsOutCount = bookings.filter(b => b.gownPickedUp && !b.gownReturned).length;
 
     if (loading) {
@@ -177,7 +232,7 @@ export default function AllBookingsPage() {
                 <div className="flex flex-col sm:flex-row gap-3 w-full sm:w-auto">
                     <input
                         type="text"
-                        placeholder="Search name, phone, gown..."
+                        placeholder="Search name, phone, item..."
                         value={search}
                         onChange={(e) => setSearch(e.target.value)}
                         className="px-4 py-2 border border-gray-200 rounded-lg min-w-[250px] focus:outline-none focus:ring-2 focus:ring-gray-200"
@@ -185,6 +240,10 @@ export default function AllBookingsPage() {
                 </div>
             </div>
 
+            {error && (
+                <div className="bg-red-50 text-red-600 px-4 py-3 rounded-lg mb-6">{error}</div>
+            )}
+
             {/* Filter Buttons */}
             <div className="flex flex-wrap gap-2 mb-6">
                 <FilterButton label="All" value="all" />
@@ -204,8 +263,8 @@ export default function AllBookingsPage() {
                                 <th className="px-4 py-4 font-semibold text-gray-900">Customer</th>
                                 <th className="px-4 py-4 font-semibold text-gray-900">Wedding</th>
                                 <th className="px-4 py-4 font-semibold text-gray-900 text-center">Status</th>
-                                <th className="px-4 py-4 font-semibold text-gray-900">Gown Selected</th>
-                                <th className="px-4 py-4 font-semibold text-gray-900 text-center">Gown Progress</th>
+                                <th className="px-4 py-4 font-semibold text-gray-900">Items</th>
+                                <th className="px-4 py-4 font-semibold text-gray-900 text-center">Progress</th>
                                 <th className="px-4 py-4 font-semibold text-gray-900 text-right">Actions</th>
                             </tr>
                         </thead>
@@ -223,6 +282,32 @@ export default function AllBookingsPage() {
                                             <a href={`tel:${booking.customerPhone}`} className="text-gray-500 hover:text-blue-600 transition-colors text-xs">
                                                 {booking.customerPhone}
                                             </a>
+                                            {booking.smsOptedOut && (
+                                                <div className="mt-1">
+                                                    <span
+                                                        className="px-2 py-0.5 rounded bg-gray-100 text-gray-600 text-xs font-medium"
+                                                        title="Replied STOP - no reminders or notices are sent until they text START"
+                                                    >
+                                                        🔕 Opted out of texts
+                                                    </span>
+                                                </div>
+                                            )}
+                                            {booking.deliveryProblem && (
+                                                <div className="mt-1 flex items-center gap-2 text-xs">
+                                                    <span
+                                                        className="px-2 py-0.5 rounded bg-red-100 text-red-700 font-medium"
+                                                        title={booking.deliveryProblem.errorCode ? `Twilio error ${booking.deliveryProblem.errorCode}` : undefined}
+                                                    >
+                                                        📵 {MESSAGE_LABELS[booking.deliveryProblem.messageType] || 'Text'} not delivered - call
+                                                    </span>
+                                                    <button
+                                                        onClick={() => clearDeliveryProblem(booking)}
+                                                        className="text-blue-600 hover:text-blue-900"
+                                                    >
+                                                        Reached
+                                                    </button>
+                                                </div>
+                                            )}
                                         </td>
                                         <td className="px-4 py-4">
                                             <div className="font-medium text-gray-900">{wedding.dateStr}</div>
@@ -240,47 +325,30 @@ export default function AllBookingsPage() {
                                                 {booking.status.charAt(0).toUpperCase() + booking.status.slice(1)}
                                             </span>
                                         </td>
-                                        <td className="px-4 py-4 min-w-[180px]">
-                                            {booking.gownSelected ? (
-                                                editingGownId === booking.id ? (
-                                                    <div className="flex gap-1">
-                                                        <input
-                                                            type="text"
-                                                            value={gownDescInput}
-                                                            onChange={(e) => setGownDescInput(e.target.value)}
-                                                            placeholder="e.g., White A-line, size 8"
-                                                            className="flex-1 px-2 py-1 text-xs border rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
-                                                            autoFocus
-                                                            onKeyDown={(e) => {
-                                                                if (e.key === 'Enter') handleGownDescSave(booking.id);
-                                                                if (e.key === 'Escape') setEditingGownId(null);
-                                                            }}
-                                                        />
-                                                        <button
-                                                            onClick={() => handleGownDescSave(booking.id)}
-                                                            className="px-2 py-1 bg-blue-600 text-white text-xs rounded hover:bg-blue-700"
-                                                        >
-                                                            Save
-                                                        </button>
-                                                    </div>
-                                                ) : (
-                                                    <div
-                                                        onClick={() => {
-                                                            setEditingGownId(booking.id);
-                                                            setGownDescInput(booking.gownDescription || '');
-                                                        }}
-                                                        className="cursor-pointer hover:bg-gray-100 rounded px-2 py-1 -mx-2"
-                                                    >
-                                                        {booking.gownDescription ? (
-                                                            <span className="text-gray-900">{booking.gownDescription}</span>
-                                                        ) : (
-                                                            <span className="text-blue-500 text-xs italic">+ Add gown details</span>
-                                                        )}
-                                                    </div>
-                                                )
-                                            ) : (
-                                                <span className="text-gray-300 text-xs italic">No gown selected</span>
-                                            )}
+                                        <td className="px-4 py-4 min-w-[240px]">
+                                            <div className="space-y-1">
+                                                <LoanItemList
+                                                    items={booking.items}
+                                                    onChange={(items) => updateBooking(booking.id, { items })}
+                                                    editable
+                                                />
+                                                <select
+                                                    value=""
+                                                    onFocus={() => loadFreeGowns(booking)}
+                                                    onChange={(e) => linkGown(booking, e.target.value)}
+                                                    className="w-full px-2 py-1 text-xs border rounded text-blue-600 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                                                >
+                                                    <option value="">+ Link gown</option>
+                                                    {!freeGowns[booking.id] && <option disabled>Loading...</option>}
+                                                    {(freeGowns[booking.id] || [])
+                                                        .filter(g => !booking.gownIds?.includes(g.id))
+                                                        .map(g => (
+                                                            <option key={g.id} value={g.id}>
+                                                                {g.sku} — size {g.size}{g.silhouette ? `, ${g.silhouette}` : ''}
+                                                            </option>
+                                                        ))}
+                                                </select>
+                                            </div>
                                         </td>
                                         <td className="px-4 py-4">
                                             <div className="flex justify-center gap-1">
@@ -21,6 +21,18 @@ interface Booking {
     notes?: string;
 }
 
+interface Pickup {
+    id: string;
+    bookingId: string;
+    kind: 'pickup' | 'return';
+    customerName: string;
+    dateStr: string;
+    slotTime: string;
+}
+
+// Schedule config keys, indexed by getDay()
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
 export default function CalendarPage() {
     const [currentDate, setCurrentDate] = useState(new Date());
     const [bookings, setBookings] = useState<Booking[]>([]);
@@ -28,11 +40,51 @@ export default function CalendarPage() {
     const [editingBooking, setEditingBooking] = useState<Booking | null>(null);
     const [showAddModal, setShowAddModal] = useState(false);
     const [preselectedDate, setPreselectedDate] = useState<Date | undefined>(undefined);
+    const [openWeekdays, setOpenWeekdays] = useState<number[]>([3, 6]);
+    const [extraSessionDates, setExtraSessionDates] = useState<string[]>([]);
+    const [closures, setClosures] = useState<Record<string, string>>({});
+    const [blockedDays, setBlockedDays] = useState<Record<string, string>>({});
+    const [pickups, setPickups] = useState<Pickup[]>([]);
 
     useEffect(() => {
         fetchBookings();
+        fetchSchedule();
     }, []);
 
+    useEffect(() => {
+        fetchPickups();
+    }, [currentDate]);
+
+    const fetchSchedule = async () => {
+        try {
+            const res = await fetch('/api/admin/schedule');
+            const data = await res.json();
+            if (data.config) {
+                setOpenWeekdays(WEEKDAYS
+                    .map((day, index) => (data.config[day]?.enabled && data.config[day].slots.length > 0 ? index : -1))
+                    .filter(index => index !== -1));
+            }
+            setExtraSessionDates((data.dateOverrides || []).map((o: { dateStr: string }) => o.dateStr));
+            setClosures(Object.fromEntries((data.calendarClosures || []).map((c: { dateStr: string; reason: string }) => [c.dateStr, c.reason])));
+
+            // Whole days closed by hand or by a recurring rule
+            const blocked: Record<string, string> = {};
+            for (const rule of data.blockRules || []) {
+                for (const dateStr of rule.upcomingDates as string[]) {
+                    blocked[dateStr] = rule.reason || 'Blocked';
+                }
+            }
+            for (const b of data.blockedDates || []) {
+                if (b.blockedSlots.length === 0) {
+                    blocked[b.dateStr] = b.reason || 'Blocked';
+                }
+            }
+            setBlockedDays(blocked);
+        } catch (error) {
+            console.error('Failed to fetch schedule', error);
+        }
+    };
+
     const fetchBookings = async () => {
         try {
             const res = await fetch('/api/admin/bookings');
@@ -45,6 +97,35 @@ export default function CalendarPage() {
         }
     };
 
+    // Pickups and returns for every day shown, including the edges of the next and previous months
+    const fetchPickups = async () => {
+        try {
+            const from = format(startOfWeek(startOfMonth(currentDate)), 'yyyy-MM-dd');
+            const to = format(endOfWeek(endOfMonth(currentDate)), 'yyyy-MM-dd');
+            const res = await fetch(`/api/admin/pickups?from=${from}&to=${to}`);
+            const data = await res.json();
+            setPickups(data.pickups || []);
+        } catch (error) {
+            console.error('Failed to fetch pickups', error);
+        }
+    };
+
+    const handleCancelPickup = async (pickup: Pickup) => {
+        const label = pickup.kind === 'pickup' ? 'pickup' : 'return';
+        if (!confirm(`Cancel ${pickup.customerName}'s ${label} at ${pickup.slotTime}?`)) return;
+
+        const res = await fetch('/api/admin/pickups', {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ action: 'cancel', appointmentId: pickup.id }),
+        });
+        if (!res.ok) {
+            const data = await res.json();
+            alert(data.error || 'Failed to cancel');
+        }
+        await fetchPickups();
+    };
+
     const updateBooking = async (bookingId: string, updates: Partial<Booking>) => {
         try {
             await fetch('/api/admin/bookings', {
@@ -166,9 +247,12 @@ export default function CalendarPage() {
                 <div className="grid grid-cols-7 flex-1 auto-rows-fr">
                     {calendarDays.map((day) => {
                         const dayBookings = getBookingsForDay(day);
+                        const dayPickups = pickups.filter(p => p.dateStr === format(day, 'yyyy-MM-dd'));
                         const isCurrentMonth = isSameMonth(day, monthStart);
                         const dayOfWeek = day.getDay();
-                        const isAppointmentDay = dayOfWeek === 3 || dayOfWeek === 6; // Wed or Sat
+                        const isExtraSession = extraSessionDates.includes(format(day, 'yyyy-MM-dd'));
+                        const closure = closures[format(day, 'yyyy-MM-dd')] || blockedDays[format(day, 'yyyy-MM-dd')];
+                        const isAppointmentDay = (openWeekdays.includes(dayOfWeek) || isExtraSession) && !closure;
                         const isFutureOrToday = day >= new Date(new Date().setHours(0, 0, 0, 0));
 
                         return (
@@ -184,6 +268,12 @@ export default function CalendarPage() {
                                 <div className="flex justify-between items-start mb-2">
                                     <div className={`text-sm font-medium ${isToday(day) ? 'text-blue-600' : 'text-gray-700'}`}>
                                         {format(day, 'd')}
+                                        {isExtraSession && isCurrentMonth && (
+                                            <span className="ml-1 text-xs font-normal text-green-700">Extra session</span>
+                                        )}
+                                        {closure && isCurrentMonth && (
+                                            <span className="ml-1 text-xs font-normal text-amber-700">{closure}</span>
+                                        )}
                                     </div>
                                     {isAppointmentDay && isFutureOrToday && isCurrentMonth && (
                                         <button
@@ -215,6 +305,22 @@ export default function CalendarPage() {
                                             <span className="font-semibold">{booking.slotTime}</span> {booking.customerName}
                                         </button>
                                     ))}
+                                    {dayPickups.map(pickup => (
+                                        <button
+                                            key={pickup.id}
+                                            onClick={() => handleCancelPickup(pickup)}
+                                            className={`
+                                                w-full text-left text-xs px-2 py-1 rounded border
+                                                truncate transition-all hover:shadow-sm
+                                                ${pickup.kind === 'pickup'
+                                                    ? 'bg-amber-50 text-amber-800 border-amber-100'
+                                                    : 'bg-teal-50 text-teal-800 border-teal-100'}
+                                            `}
+                                            title="Click to cancel"
+                                        >
+                                            <span className="font-semibold">{pickup.slotTime}</span> {pickup.kind === 'pickup' ? 'Pickup' : 'Return'}: {pickup.customerName}
+                                        </button>
+                                    ))}
                                 </div>
                             </div>
                         );
@@ -0,0 +1,245 @@
+// Admin Gown Detail - history timeline and usage stats
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import GownModal, { type Gown } from '@/components/admin/GownModal';
+
+interface GownEvent {
+    id: string;
+    type: 'selected' | 'picked_up' | 'returned' | 'sent_to_cleaner' | 'repaired' | 'retired';
+    bookingId?: string;
+    customerName?: string;
+    daysOut?: number;
+    notes?: string;
+    createdAt: { _seconds: number };
+}
+
+const EVENT_LABELS: Record<GownEvent['type'], { label: string; color: string }> = {
+    selected: { label: 'Selected', color: 'bg-blue-500' },
+    picked_up: { label: 'Picked up', color: 'bg-purple-500' },
+    returned: { label: 'Returned', color: 'bg-green-500' },
+    sent_to_cleaner: { label: 'Sent to cleaner', color: 'bg-amber-500' },
+    repaired: { label: 'Repaired', color: 'bg-pink-500' },
+    retired: { label: 'Retired', color: 'bg-gray-500' },
+};
+
+export default function GownDetailPage() {
+    const params = useParams<{ id: string }>();
+    const gownId = decodeURIComponent(params.id);
+
+    const [gown, setGown] = useState<Gown | null>(null);
+    const [events, setEvents] = useState<GownEvent[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [updating, setUpdating] = useState(false);
+    const [showEditModal, setShowEditModal] = useState(false);
+    const [note, setNote] = useState('');
+    const [error, setError] = useState('');
+
+    const fetchGown = async () => {
+        try {
+            const res = await fetch(`/api/admin/gowns?id=${encodeURIComponent(gownId)}`);
+            const data = await res.json();
+            if (data.error) {
+                setError(data.error);
+            } else {
+                setGown(data.gown);
+                setEvents(data.events || []);
+            }
+        } catch (err) {
+            setError('Failed to load gown');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchGown();
+    }, [gownId]);
+
+    const patchGown = async (body: Record<string, unknown>) => {
+        setUpdating(true);
+        setError('');
+        try {
+            const res = await fetch('/api/admin/gowns', {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ gownId, ...body }),
+            });
+            if (!res.ok) {
+                const data = await res.json();
+                setError(data.error || 'Failed to update gown');
+            }
+            setNote('');
+            await fetchGown();
+        } finally {
+            setUpdating(false);
+        }
+    };
+
+    const formatDate = (timestamp: { _seconds: number }) => {
+        return new Date(timestamp._seconds * 1000).toLocaleDateString('en-US', {
+            month: 'short',
+            day: 'numeric',
+            year: 'numeric',
+        });
+    };
+
+    if (loading) {
+        return <div className="text-center py-12 text-gray-400">Loading...</div>;
+    }
+
+    if (!gown) {
+        return (
+            <div className="text-center py-12">
+                <div className="text-gray-500 mb-4">{error || 'Gown not found'}</div>
+                <Link href="/admin/gowns" className="text-blue-600 hover:text-blue-800">← Back to inventory</Link>
+            </div>
+        );
+    }
+
+    // Current stretch out with a bride counts toward days out too
+    const lastPickup = events.find(e => e.type === 'picked_up');
+    const currentDaysOut = gown.status === 'out' && lastPickup
+        ? Math.floor((Date.now() - lastPickup.createdAt._seconds * 1000) / (1000 * 60 * 60 * 24))
+        : 0;
+    const timesSelected = events.filter(e => e.type === 'selected').length;
+    const repairs = events.filter(e => e.type === 'repaired').length;
+
+    const stats = [
+        { label: 'Times Worn', value: gown.wearCount || 0 },
+        { label: 'Total Days Out', value: (gown.totalDaysOut || 0) + currentDaysOut },
+        { label: 'Times Selected', value: timesSelected },
+        { label: 'Repairs', value: repairs },
+    ];
+
+    return (
+        <div className="space-y-6">
+            <div className="flex justify-between items-start">
+                <div>
+                    <Link href="/admin/gowns" className="text-sm text-gray-500 hover:text-gray-900">← Inventory</Link>
+                    <h2 className="text-2xl font-bold text-gray-900 mt-1">
+                        Gown <span className="font-mono">{gown.sku}</span>
+                    </h2>
+                    <p className="text-gray-500">
+                        Size {gown.size}
+                        {[gown.color, gown.silhouette, gown.neckline, gown.sleeve && `${gown.sleeve} sleeve`]
+                            .filter(Boolean)
+                            .map(part => ` · ${part}`)}
+                    </p>
+                </div>
+                <button
+                    onClick={() => setShowEditModal(true)}
+                    className="px-4 py-2 bg-white border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 transition text-sm font-medium"
+                >
+                    Edit Details
+                </button>
+            </div>
+
+            {error && (
+                <div className="bg-red-50 text-red-600 px-4 py-3 rounded-lg">{error}</div>
+            )}
+
+            {/* Usage Stats */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {stats.map(stat => (
+                    <div key={stat.label} className="bg-white rounded-lg shadow p-6">
+                        <p className="text-sm font-medium text-gray-500 uppercase">{stat.label}</p>
+                        <p className="text-3xl font-bold text-gray-900 mt-2">{stat.value}</p>
+                    </div>
+                ))}
+            </div>
+
+            <div className="grid md:grid-cols-3 gap-6">
+                {/* Actions */}
+                <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+                    <h3 className="text-lg font-semibold text-gray-900">Log Event</h3>
+                    <p className="text-sm text-gray-500">
+                        Current status: <span className="font-medium text-gray-900">{gown.status}</span>
+                        {gown.condition && <> · Condition: <span className="font-medium text-gray-900">{gown.condition}</span></>}
+                    </p>
+                    <textarea
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        rows={2}
+                        className="w-full px-3 py-2 border rounded-lg text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                        placeholder="Note (e.g., which cleaner, what was fixed)"
+                    />
+                    <div className="grid grid-cols-2 gap-2">
+                        {gown.status === 'cleaning' ? (
+                            <button
+                                onClick={() => patchGown({ updates: { status: 'available' } })}
+                                disabled={updating}
+                                className="px-3 py-2 bg-green-600 text-white text-sm rounded-lg hover:bg-green-700 transition disabled:opacity-50"
+                            >
+                                Back from Cleaner
+                            </button>
+                        ) : (
+                            <button
+                                onClick={() => patchGown({ updates: { status: 'cleaning' }, event: note ? { type: 'sent_to_cleaner', notes: note } : undefined })}
+                                disabled={updating || gown.status === 'out' || gown.status === 'retired'}
+                                className="px-3 py-2 bg-amber-500 text-white text-sm rounded-lg hover:bg-amber-600 transition disabled:opacity-50"
+                            >
+                                Send to Cleaner
+                            </button>
+                        )}
+                        <button
+                            onClick={() => patchGown({ event: { type: 'repaired', notes: note || undefined } })}
+                            disabled={updating}
+                            className="px-3 py-2 bg-pink-500 text-white text-sm rounded-lg hover:bg-pink-600 transition disabled:opacity-50"
+                        >
+                            Log Repair
+                        </button>
+                        {gown.status !== 'retired' && (
+                            <button
+                                onClick={() => {
+                                    if (!confirm(`Retire gown ${gown.sku}? It will no longer be offered to brides.`)) return;
+                                    patchGown({ updates: { status: 'retired' }, event: note ? { type: 'retired', notes: note } : undefined });
+                                }}
+                                disabled={updating || gown.status === 'out'}
+                                className="col-span-2 px-3 py-2 bg-gray-700 text-white text-sm rounded-lg hover:bg-gray-800 transition disabled:opacity-50"
+                            >
+                                Retire Gown
+                            </button>
+                        )}
+                    </div>
+                </div>
+
+                {/* Timeline */}
+                <div className="md:col-span-2 bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+                    <h3 className="text-lg font-semibold text-gray-900 mb-4">History</h3>
+                    {events.length === 0 ? (
+                        <p className="text-gray-400 text-center py-4">No history yet</p>
+                    ) : (
+                        <ol className="relative border-l border-gray-200 ml-2 space-y-5">
+                            {events.map(event => (
+                                <li key={event.id} className="ml-4">
+                                    <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full ${EVENT_LABELS[event.type].color}`} />
+                                    <div className="flex items-baseline gap-2">
+                                        <span className="font-medium text-gray-900">{EVENT_LABELS[event.type].label}</span>
+                                        <span className="text-xs text-gray-400">{formatDate(event.createdAt)}</span>
+                                    </div>
+                                    {event.customerName && (
+                                        <div className="text-sm text-gray-600">
+                                            {event.customerName}
+                                            {event.daysOut !== undefined && <span className="text-gray-400"> · {event.daysOut} days out</span>}
+                                        </div>
+                                    )}
+                                    {event.notes && <div className="text-sm text-gray-500 italic">{event.notes}</div>}
+                                </li>
+                            ))}
+                        </ol>
+                    )}
+                </div>
+            </div>
+
+            <GownModal
+                gown={gown}
+                isOpen={showEditModal}
+                onClose={() => setShowEditModal(false)}
+                onSuccess={fetchGown}
+            />
+        </div>
+    );
+}
@@ -0,0 +1,329 @@
+// Admin Gown Inventory
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import GownModal, { type Gown } from '@/components/admin/GownModal';
+
+interface Booking {
+    id: string;
+    customerName: string;
+    customerPhone: string;
+}
+
+const STATUS_STYLES: Record<Gown['status'], string> = {
+    available: 'bg-green-100 text-green-800',
+    reserved: 'bg-blue-100 text-blue-800',
+    out: 'bg-purple-100 text-purple-800',
+    cleaning: 'bg-amber-100 text-amber-800',
+    retired: 'bg-gray-100 text-gray-500',
+};
+
+const STATUS_LABELS: Record<Gown['status'], string> = {
+    available: 'Available',
+    reserved: 'Reserved',
+    out: 'Out',
+    cleaning: 'At cleaner',
+    retired: 'Retired',
+};
+
+export default function GownsPage() {
+    const [gowns, setGowns] = useState<Gown[]>([]);
+    const [bookings, setBookings] = useState<Booking[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [search, setSearch] = useState('');
+    const [statusFilter, setStatusFilter] = useState<Gown['status'] | 'all'>('all');
+    const [editingGown, setEditingGown] = useState<Gown | null>(null);
+    const [showModal, setShowModal] = useState(false);
+    const [error, setError] = useState('');
+
+    // Availability lookup
+    const [freeForDate, setFreeForDate] = useState('');
+    const [freeSize, setFreeSize] = useState('');
+    const [freeResults, setFreeResults] = useState<Gown[] | null>(null);
+    const [searchingFree, setSearchingFree] = useState(false);
+
+    const fetchGowns = async () => {
+        try {
+            const [gownsRes, bookingsRes] = await Promise.all([
+                fetch('/api/admin/gowns'),
+                fetch('/api/admin/bookings'),
+            ]);
+            const gownsData = await gownsRes.json();
+            const bookingsData = await bookingsRes.json();
+            setGowns(gownsData.gowns || []);
+            setBookings(bookingsData.bookings || []);
+        } catch (err) {
+            console.error('Failed to fetch gowns:', err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchGowns();
+    }, []);
+
+    const handleDelete = async (gown: Gown) => {
+        if (!confirm(`Delete gown ${gown.sku} from the inventory?`)) return;
+        setError('');
+
+        const res = await fetch(`/api/admin/gowns?id=${encodeURIComponent(gown.id)}`, { method: 'DELETE' });
+        if (!res.ok) {
+            const data = await res.json();
+            setError(data.error || 'Failed to delete gown');
+            return;
+        }
+        await fetchGowns();
+    };
+
+    const handleFindFree = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!freeForDate) return;
+
+        setSearchingFree(true);
+        try {
+            const params = new URLSearchParams({ freeFor: freeForDate });
+            if (freeSize) params.set('size', freeSize);
+            const res = await fetch(`/api/admin/gowns?${params}`);
+            const data = await res.json();
+            setFreeResults(data.gowns || []);
+        } catch (err) {
+            setError('Failed to check availability');
+        } finally {
+            setSearchingFree(false);
+        }
+    };
+
+    const bookingFor = (gown: Gown) => bookings.find(b => b.id === gown.currentBookingId);
+
+    const filteredGowns = gowns.filter((g) => {
+        if (statusFilter !== 'all' && g.status !== statusFilter) return false;
+        if (!search) return true;
+        const term = search.toLowerCase();
+        return (
+            g.sku.toLowerCase().includes(term) ||
+            g.size.toLowerCase().includes(term) ||
+            (g.silhouette?.toLowerCase().includes(term)) ||
+            (g.color?.toLowerCase().includes(term)) ||
+            (bookingFor(g)?.customerName.toLowerCase().includes(term))
+        );
+    });
+
+    const FilterButton = ({ label, value }: { label: string, value: Gown['status'] | 'all' }) => (
+        <button
+            onClick={() => setStatusFilter(value)}
+            className={`px-4 py-2 text-sm font-medium rounded-lg transition-colors ${statusFilter === value
+                ? 'bg-gray-900 text-white'
+                : 'bg-white text-gray-600 hover:bg-gray-50 border border-gray-200'
+                }`}
+        >
+            {label}
+            <span className="ml-1 opacity-70">
+                ({value === 'all' ? gowns.length : gowns.filter(g => g.status === value).length})
+            </span>
+        </button>
+    );
+
+    if (loading) {
+        return <div className="text-center py-12 text-gray-400">Loading...</div>;
+    }
+
+    return (
+        <div>
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-8">
+                <h2 className="text-2xl font-bold text-gray-900">Gown Inventory</h2>
+
+                <div className="flex flex-col sm:flex-row gap-3 w-full sm:w-auto">
+                    <input
+                        type="text"
+                        placeholder="Search tag, size, style, bride..."
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                        className="px-4 py-2 border border-gray-200 rounded-lg min-w-[250px] focus:outline-none focus:ring-2 focus:ring-gray-200"
+                    />
+                    <button
+                        onClick={() => {
+                            setEditingGown(null);
+                            setShowModal(true);
+                        }}
+                        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition flex items-center gap-2 text-sm font-medium"
+                    >
+                        <span className="text-lg leading-none">+</span> Add Gown
+                    </button>
+                </div>
+            </div>
+
+            {error && (
+                <div className="bg-red-50 text-red-600 px-4 py-3 rounded-lg mb-6">{error}</div>
+            )}
+
+            {/* Availability Lookup */}
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-1">Which gowns are free?</h3>
+                <p className="text-sm text-gray-500 mb-4">
+                    Gowns are held from pickup (2 weeks before the wedding) until the Motzei Shabbos after.
+                </p>
+                <form onSubmit={handleFindFree} className="flex flex-wrap gap-3">
+                    <div>
+                        <label className="block text-sm text-gray-600 mb-1">Wedding Date</label>
+                        <input
+                            type="date"
+                            value={freeForDate}
+                            onChange={(e) => setFreeForDate(e.target.value)}
+                            className="px-3 py-2 border rounded-lg"
+                            required
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm text-gray-600 mb-1">Size (optional)</label>
+                        <input
+                            type="text"
+                            value={freeSize}
+                            onChange={(e) => setFreeSize(e.target.value)}
+                            className="px-3 py-2 border rounded-lg w-32"
+                            placeholder="e.g., 8"
+                        />
+                    </div>
+                    <div className="flex items-end">
+                        <button
+                            type="submit"
+                            disabled={searchingFree || !freeForDate}
+                            className="px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition disabled:opacity-50"
+                        >
+                            {searchingFree ? 'Checking...' : 'Check'}
+                        </button>
+                    </div>
+                </form>
+
+                {freeResults && (
+                    <div className="mt-4">
+                        {freeResults.length === 0 ? (
+                            <p className="text-amber-600 text-sm">No gowns free for that wedding date.</p>
+                        ) : (
+                            <div className="flex flex-wrap gap-2">
+                                {freeResults.map(g => (
+                                    <span key={g.id} className="px-3 py-1 bg-green-50 text-green-800 border border-green-100 rounded-lg text-sm">
+                                        <span className="font-mono font-medium">{g.sku}</span>
+                                        <span className="text-green-600"> · size {g.size}</span>
+                                        {g.silhouette && <span className="text-green-600"> · {g.silhouette}</span>}
+                                    </span>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+
+            {/* Filter Buttons */}
+            <div className="flex flex-wrap gap-2 mb-6">
+                <FilterButton label="All" value="all" />
+                <FilterButton label="Available" value="available" />
+                <FilterButton label="Reserved" value="reserved" />
+                <FilterButton label="Out" value="out" />
+                <FilterButton label="At Cleaner" value="cleaning" />
+                <FilterButton label="Retired" value="retired" />
+            </div>
+
+            {/* Table */}
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm text-left">
+                        <thead className="bg-gray-50 border-b border-gray-200">
+                            <tr>
+                                <th className="px-4 py-4 font-semibold text-gray-900">Tag</th>
+                                <th className="px-4 py-4 font-semibold text-gray-900">Size</th>
+                                <th className="px-4 py-4 font-semibold text-gray-900">Style</th>
+                                <th className="px-4 py-4 font-semibold text-gray-900">Condition</th>
+                                <th className="px-4 py-4 font-semibold text-gray-900 text-center">Worn</th>
+                                <th className="px-4 py-4 font-semibold text-gray-900 text-center">Status</th>
+                                <th className="px-4 py-4 font-semibold text-gray-900">With</th>
+                                <th className="px-4 py-4 font-semibold text-gray-900 text-right">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {filteredGowns.map((gown) => {
+                                const booking = bookingFor(gown);
+                                return (
+                                    <tr key={gown.id} className="hover:bg-gray-50/50 transition-colors">
+                                        <td className="px-4 py-4">
+                                            <div className="flex items-center gap-3">
+                                                {gown.photos[0] ? (
+                                                    // eslint-disable-next-line @next/next/no-img-element
+                                                    <img src={gown.photos[0]} alt={gown.sku} className="w-10 h-10 rounded object-cover" />
+                                                ) : (
+                                                    <div className="w-10 h-10 rounded bg-gray-100" />
+                                                )}
+                                                <Link href={`/admin/gowns/${encodeURIComponent(gown.id)}`} className="font-medium text-gray-900 font-mono hover:text-blue-600">
+                                                    {gown.sku}
+                                                </Link>
+                                            </div>
+                                        </td>
+                                        <td className="px-4 py-4 font-medium">{gown.size}</td>
+                                        <td className="px-4 py-4 text-gray-600">
+                                            {[gown.color, gown.silhouette, gown.neckline, gown.sleeve && `${gown.sleeve} sleeve`]
+                                                .filter(Boolean)
+                                                .join(' · ') || <span className="text-gray-300 italic">—</span>}
+                                        </td>
+                                        <td className="px-4 py-4 text-gray-600">{gown.condition || '—'}</td>
+                                        <td className="px-4 py-4 text-center">
+                                            <div className="font-medium">{gown.wearCount || 0}×</div>
+                                            <div className="text-gray-400 text-xs">{gown.totalDaysOut || 0} days out</div>
+                                        </td>
+                                        <td className="px-4 py-4 text-center">
+                                            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[gown.status]}`}>
+                                                {STATUS_LABELS[gown.status]}
+                                            </span>
+                                        </td>
+                                        <td className="px-4 py-4">
+                                            {booking ? (
+                                                <>
+                                                    <div className="font-medium text-gray-900">{booking.customerName}</div>
+                                                    <a href={`tel:${booking.customerPhone}`} className="text-gray-500 hover:text-blue-600 transition-colors text-xs">
+                                                        {booking.customerPhone}
+                                                    </a>
+                                                </>
+                                            ) : (
+                                                <span className="text-gray-300 text-xs italic">—</span>
+                                            )}
+                                        </td>
+                                        <td className="px-4 py-4 text-right space-x-3">
+                                            <button
+                                                onClick={() => {
+                                                    setEditingGown(gown);
+                                                    setShowModal(true);
+                                                }}
+                                                className="text-blue-600 hover:text-blue-900 font-medium text-sm transition-colors"
+                                            >
+                                                Edit
+                                            </button>
+                                            <button
+                                                onClick={() => handleDelete(gown)}
+                                                className="text-red-600 hover:text-red-800 font-medium text-sm transition-colors"
+                                            >
+                                                Delete
+                                            </button>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+                {filteredGowns.length === 0 && (
+                    <div className="text-center py-12">
+                        <div className="text-gray-400 mb-2">No gowns found</div>
+                        <p className="text-sm text-gray-500">Add gowns with their tag numbers to start tracking them</p>
+                    </div>
+                )}
+            </div>
+
+            <GownModal
+                gown={editingGown}
+                isOpen={showModal}
+                onClose={() => setShowModal(false)}
+                onSuccess={fetchGowns}
+            />
+        </div>
+    );
+}
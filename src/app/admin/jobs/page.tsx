@@ -0,0 +1,261 @@
+// Admin Jobs - scheduled reminders and summaries, and how their runs went
+'use client';
+
+import { useState, useEffect } from 'react';
+
+type RunStatus = 'success' | 'partial' | 'failed';
+
+interface JobRun {
+    id: string;
+    jobId: string;
+    trigger: 'cron' | 'manual';
+    status: RunStatus;
+    counts: Record<string, number>;
+    errors: string[];
+    startedAt: { _seconds: number };
+    durationMs: number;
+}
+
+interface UndeliveredText {
+    id: string;
+    to: string;
+    body: string;
+    type: string;
+    status: 'pending' | 'sending' | 'failed';
+    attempts: number;
+    lastError?: string;
+    nextAttemptAt: { _seconds: number };
+    createdAt: { _seconds: number };
+}
+
+interface Job {
+    id: string;
+    name: string;
+    description: string;
+    schedule: string;
+    lastRun: JobRun | null;
+}
+
+const STATUS_STYLES: Record<RunStatus, string> = {
+    success: 'bg-green-100 text-green-700',
+    partial: 'bg-yellow-100 text-yellow-700',
+    failed: 'bg-red-100 text-red-700',
+};
+
+export default function JobsPage() {
+    const [jobs, setJobs] = useState<Job[]>([]);
+    const [runs, setRuns] = useState<JobRun[]>([]);
+    const [undelivered, setUndelivered] = useState<UndeliveredText[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [running, setRunning] = useState<string | null>(null);
+    const [error, setError] = useState('');
+
+    const fetchJobs = async () => {
+        try {
+            const [jobsRes, outboxRes] = await Promise.all([
+                fetch('/api/admin/jobs'),
+                fetch('/api/admin/outbox'),
+            ]);
+            const data = await jobsRes.json();
+            const outbox = await outboxRes.json();
+            setJobs(data.jobs || []);
+            setRuns(data.runs || []);
+            setUndelivered(outbox.messages || []);
+        } catch (err) {
+            setError('Failed to load jobs');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchJobs();
+    }, []);
+
+    const runNow = async (job: Job) => {
+        if (!confirm(`Run "${job.name}" now? Any texts it sends go out right away.`)) return;
+
+        setRunning(job.id);
+        setError('');
+        try {
+            const res = await fetch('/api/admin/jobs', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ jobId: job.id }),
+            });
+            if (!res.ok) {
+                const data = await res.json();
+                setError(data.error || data.run?.errors?.join('; ') || 'Job failed');
+            }
+            await fetchJobs();
+        } finally {
+            setRunning(null);
+        }
+    };
+
+    const retryText = async (message: UndeliveredText) => {
+        setRunning(message.id);
+        setError('');
+        try {
+            const res = await fetch('/api/admin/outbox', {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ action: 'retry', messageId: message.id }),
+            });
+            const data = await res.json();
+            if (!res.ok || !data.success) {
+                setError(data.error || `Still couldn't send to ${message.to}: ${data.message?.lastError || 'unknown error'}`);
+            }
+            await fetchJobs();
+        } finally {
+            setRunning(null);
+        }
+    };
+
+    const formatTime = (timestamp: { _seconds: number }) => {
+        return new Date(timestamp._seconds * 1000).toLocaleString('en-US', {
+            month: 'short',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: '2-digit',
+        });
+    };
+
+    const formatCounts = (counts: Record<string, number>) => {
+        const entries = Object.entries(counts);
+        return entries.length > 0 ? entries.map(([key, value]) => `${key}: ${value}`).join(', ') : '—';
+    };
+
+    const jobName = (jobId: string) => jobs.find(job => job.id === jobId)?.name || jobId;
+
+    if (loading) {
+        return <div className="text-center py-12 text-gray-400">Loading...</div>;
+    }
+
+    return (
+        <div className="space-y-6">
+            <h2 className="text-2xl font-bold text-gray-900">Scheduled Jobs</h2>
+
+            {error && (
+                <div className="bg-red-50 text-red-600 px-4 py-3 rounded-lg">{error}</div>
+            )}
+
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+                <table className="w-full text-sm text-left">
+                    <thead className="bg-gray-50 border-b border-gray-200">
+                        <tr>
+                            <th className="px-4 py-4 font-semibold text-gray-900">Job</th>
+                            <th className="px-4 py-4 font-semibold text-gray-900">Schedule</th>
+                            <th className="px-4 py-4 font-semibold text-gray-900">Last Run</th>
+                            <th className="px-4 py-4 font-semibold text-gray-900 text-right">Actions</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                        {jobs.map(job => (
+                            <tr key={job.id} className={running === job.id ? 'opacity-50' : ''}>
+                                <td className="px-4 py-4">
+                                    <div className="font-medium">{job.name}</div>
+                                    <div className="text-xs text-gray-500">{job.description}</div>
+                                </td>
+                                <td className="px-4 py-4 text-gray-600">{job.schedule}</td>
+                                <td className="px-4 py-4">
+                                    {job.lastRun ? (
+                                        <div className="flex items-center gap-2">
+                                            <span className={`px-2 py-1 rounded text-xs font-medium ${STATUS_STYLES[job.lastRun.status]}`}>
+                                                {job.lastRun.status}
+                                            </span>
+                                            <span className="text-gray-500">{formatTime(job.lastRun.startedAt)}</span>
+                                        </div>
+                                    ) : (
+                                        <span className="text-gray-400">Never</span>
+                                    )}
+                                </td>
+                                <td className="px-4 py-4 text-right">
+                                    <button
+                                        onClick={() => runNow(job)}
+                                        disabled={running !== null}
+                                        className="text-blue-600 hover:text-blue-900 font-medium disabled:opacity-50"
+                                    >
+                                        Run Now
+                                    </button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            {/* Texts the outbox couldn't get out */}
+            {undelivered.length > 0 && (
+                <div className="bg-white rounded-xl shadow-sm border border-red-200 p-6">
+                    <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                        Undelivered Texts ({undelivered.length})
+                    </h3>
+                    <div className="space-y-2">
+                        {undelivered.map(message => (
+                            <div
+                                key={message.id}
+                                className={`border rounded-lg px-4 py-3 text-sm ${message.status === 'failed' ? 'bg-red-50' : ''} ${running === message.id ? 'opacity-50' : ''}`}
+                            >
+                                <div className="flex flex-wrap items-center gap-3">
+                                    <span className={`px-2 py-1 rounded text-xs font-medium ${message.status === 'failed' ? STATUS_STYLES.failed : STATUS_STYLES.partial}`}>
+                                        {message.status === 'failed' ? 'failed' : 'retrying'}
+                                    </span>
+                                    <span className="font-medium">{message.to}</span>
+                                    <span className="text-gray-500">{message.type}</span>
+                                    <span className="text-gray-400">
+                                        {message.attempts} attempt{message.attempts === 1 ? '' : 's'}
+                                        {message.status !== 'failed' && ` · next ${formatTime(message.nextAttemptAt)}`}
+                                    </span>
+                                    {message.status === 'failed' && (
+                                        <button
+                                            onClick={() => retryText(message)}
+                                            disabled={running !== null}
+                                            className="ml-auto text-blue-600 hover:text-blue-900 font-medium disabled:opacity-50"
+                                        >
+                                            Retry
+                                        </button>
+                                    )}
+                                </div>
+                                <div className="text-gray-600 mt-1 whitespace-pre-line line-clamp-2">{message.body}</div>
+                                {message.lastError && (
+                                    <div className="mt-1 text-red-600 text-xs">{message.lastError}</div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {/* Run log */}
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Recent Runs</h3>
+                {runs.length === 0 ? (
+                    <p className="text-gray-400 text-center py-4">No runs yet</p>
+                ) : (
+                    <div className="space-y-2">
+                        {runs.map(run => (
+                            <div key={run.id} className="border rounded-lg px-4 py-3 text-sm">
+                                <div className="flex flex-wrap items-center gap-3">
+                                    <span className={`px-2 py-1 rounded text-xs font-medium ${STATUS_STYLES[run.status]}`}>
+                                        {run.status}
+                                    </span>
+                                    <span className="font-medium">{jobName(run.jobId)}</span>
+                                    <span className="text-gray-500">{formatTime(run.startedAt)}</span>
+                                    {run.trigger === 'manual' && <span className="text-xs text-gray-400">(run by hand)</span>}
+                                    <span className="text-gray-400">{(run.durationMs / 1000).toFixed(1)}s</span>
+                                </div>
+                                <div className="text-gray-600 mt-1">{formatCounts(run.counts)}</div>
+                                {run.errors.length > 0 && (
+                                    <ul className="mt-1 text-red-600 text-xs list-disc list-inside">
+                                        {run.errors.map((err, i) => <li key={i}>{err}</li>)}
+                                    </ul>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -3,93 +3,52 @@
 
 import { useState, useEffect, ReactNode } from 'react';
 import Link from 'next/link';
-import { usePathname } from 'next/navigation';
+import { usePathname, useRouter } from 'next/navigation';
 
 interface AdminLayoutProps {
     children: ReactNode;
 }
 
+interface AdminUser {
+    id: string;
+    name: string;
+    role: 'owner' | 'volunteer' | 'readonly';
+}
+
+const ROLE_LABELS: Record<AdminUser['role'], string> = {
+    owner: 'Owner',
+    volunteer: 'Volunteer',
+    readonly: 'Read-only',
+};
+
 export default function AdminLayout({ children }: AdminLayoutProps) {
-    const [isAuthenticated, setIsAuthenticated] = useState(false);
-    const [password, setPassword] = useState('');
-    const [error, setError] = useState('');
-    const [loading, setLoading] = useState(true);
+    const [user, setUser] = useState<AdminUser | null>(null);
     const pathname = usePathname();
+    const router = useRouter();
 
+    // Middleware guards every request; this catches a session expiring while a page is open
     useEffect(() => {
-        // Check if already authenticated
-        const auth = sessionStorage.getItem('admin_auth');
-        if (auth === 'true') {
-            setIsAuthenticated(true);
-        }
-        setLoading(false);
-    }, []);
-
-    const handleLogin = async (e: React.FormEvent) => {
-        e.preventDefault();
-        setError('');
+        if (pathname === '/admin/login') return;
+        fetch('/api/admin/auth').then(async (res) => {
+            if (res.status === 401) {
+                router.replace(`/admin/login?next=${encodeURIComponent(pathname)}`);
+                return;
+            }
+            const data = await res.json();
+            setUser(data.user || null);
+        }).catch(() => { });
+    }, [pathname, router]);
 
+    const handleLogout = async () => {
         try {
-            const res = await fetch('/api/admin/auth', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ password }),
-            });
-
-            if (res.ok) {
-                sessionStorage.setItem('admin_auth', 'true');
-                setIsAuthenticated(true);
-            } else {
-                setError('Invalid password');
-            }
-        } catch {
-            setError('Login failed');
+            await fetch('/api/admin/auth', { method: 'DELETE' });
+        } finally {
+            router.replace('/admin/login');
         }
     };
 
-    if (loading) {
-        return (
-            <div className="min-h-screen bg-gray-50 flex items-center justify-center">
-                <div className="text-gray-400">Loading...</div>
-            </div>
-        );
-    }
-
-    if (!isAuthenticated) {
-        return (
-            <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
-                <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-8 max-w-md w-full">
-                    <div className="text-center mb-8">
-                        <h1 className="text-2xl font-semibold text-gray-900 mb-2">
-                            Gelber Gown Gemach
-                        </h1>
-                        <p className="text-gray-500">Admin Dashboard</p>
-                    </div>
-
-                    <form onSubmit={handleLogin}>
-                        <div className="space-y-4">
-                            <input
-                                type="password"
-                                value={password}
-                                onChange={(e) => setPassword(e.target.value)}
-                                placeholder="Password"
-                                className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-black/5 focus:border-gray-400 transition-all"
-                                autoFocus
-                            />
-                            {error && (
-                                <p className="text-red-500 text-sm text-center">{error}</p>
-                            )}
-                            <button
-                                type="submit"
-                                className="w-full bg-gray-900 text-white py-3 rounded-lg font-medium hover:bg-gray-800 transition-colors"
-                            >
-                                Enter Dashboard
-                            </button>
-                        </div>
-                    </form>
-                </div>
-            </div>
-        );
+    if (pathname === '/admin/login') {
+        return <>{children}</>;
     }
 
     const navItems = [
@@ -98,7 +57,10 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
         { href: '/admin/board', label: 'Board' },
         { href: '/admin/bookings', label: 'All Bookings' },
         { href: '/admin/outstanding', label: 'Outstanding' },
+        { href: '/admin/gowns', label: 'Gowns' },
         { href: '/admin/schedule', label: 'Schedule' },
+        { href: '/admin/jobs', label: 'Jobs' },
+        ...(user?.role === 'owner' ? [{ href: '/admin/users', label: 'Team' }] : []),
     ];
 
     return (
@@ -149,11 +111,15 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
                                 />
                             </div>
 
+                            {user && (
+                                <div className="text-right leading-tight hidden sm:block">
+                                    <div className="text-sm font-medium text-gray-900">{user.name}</div>
+                                    <div className="text-xs text-gray-400">{ROLE_LABELS[user.role]}</div>
+                                </div>
+                            )}
+
                             <button
-                                onClick={() => {
-                                    sessionStorage.removeItem('admin_auth');
-                                    setIsAuthenticated(false);
-                                }}
+                                onClick={handleLogout}
                                 className="text-sm text-gray-500 hover:text-gray-900 font-medium"
                             >
                                 Logout
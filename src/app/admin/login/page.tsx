@@ -0,0 +1,97 @@
+// Admin Login - exchanges an admin's credentials for a session cookie
+'use client';
+
+import { useState, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+
+function LoginForm() {
+    const [username, setUsername] = useState('');
+    const [password, setPassword] = useState('');
+    const [error, setError] = useState('');
+    const [submitting, setSubmitting] = useState(false);
+    const router = useRouter();
+    const searchParams = useSearchParams();
+
+    // Only send people back to dashboard pages
+    const next = searchParams.get('next');
+    const destination = next && next.startsWith('/admin') ? next : '/admin';
+
+    const handleLogin = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        setSubmitting(true);
+
+        try {
+            const res = await fetch('/api/admin/auth', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ username, password }),
+            });
+
+            if (res.ok) {
+                router.replace(destination);
+                return;
+            }
+
+            const data = await res.json();
+            setError(data.error || 'Invalid username or password');
+        } catch {
+            setError('Login failed');
+        }
+        setSubmitting(false);
+    };
+
+    return (
+        <form onSubmit={handleLogin}>
+            <div className="space-y-4">
+                <input
+                    type="text"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    placeholder="Username"
+                    autoComplete="username"
+                    className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-black/5 focus:border-gray-400 transition-all"
+                    autoFocus
+                />
+                <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder="Password"
+                    autoComplete="current-password"
+                    className="w-full px-4 py-3 bg-gray-50 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-black/5 focus:border-gray-400 transition-all"
+                />
+                {error && (
+                    <p className="text-red-500 text-sm text-center">{error}</p>
+                )}
+                <button
+                    type="submit"
+                    disabled={submitting}
+                    className="w-full bg-gray-900 text-white py-3 rounded-lg font-medium hover:bg-gray-800 transition-colors disabled:opacity-50"
+                >
+                    {submitting ? 'Signing in...' : 'Enter Dashboard'}
+                </button>
+            </div>
+        </form>
+    );
+}
+
+export default function AdminLoginPage() {
+    return (
+        <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+            <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-8 max-w-md w-full">
+                <div className="text-center mb-8">
+                    <h1 className="text-2xl font-semibold text-gray-900 mb-2">
+                        Gelber Gown Gemach
+                    </h1>
+                    <p className="text-gray-500">Admin Dashboard</p>
+                </div>
+
+                {/* useSearchParams needs a Suspense boundary */}
+                <Suspense>
+                    <LoginForm />
+                </Suspense>
+            </div>
+        </div>
+    );
+}
@@ -1,7 +1,8 @@
-// Admin Dashboard - Outstanding Gowns (not returned)
+// Admin Dashboard - Outstanding Items (not all returned)
 'use client';
 
 import { useState, useEffect } from 'react';
+import LoanItemList, { type LoanItem } from '@/components/admin/LoanItemList';
 
 interface Booking {
     id: string;
@@ -9,9 +10,13 @@ interface Booking {
     customerPhone: string;
     appointmentDate: { _seconds: number };
     weddingDate: { _seconds: number };
+    items: LoanItem[];
     gownPickedUp: boolean;
     gownReturned: boolean;
     donationPaid: boolean;
+    daysLate: number;    // Days since the wedding
+    overdue: boolean;    // Past the day the manager is alerted
+    smsOptedOut: boolean; // Texted STOP - gets no return reminders
 }
 
 export default function OutstandingPage() {
@@ -56,13 +61,6 @@ export default function OutstandingPage() {
         });
     };
 
-    const daysSinceWedding = (timestamp: { _seconds: number }) => {
-        const wedding = new Date(timestamp._seconds * 1000);
-        const today = new Date();
-        const diff = Math.floor((today.getTime() - wedding.getTime()) / (1000 * 60 * 60 * 24));
-        return diff;
-    };
-
     if (loading) {
         return <div className="text-center py-12 text-gray-500">Loading...</div>;
     }
@@ -70,12 +68,17 @@ export default function OutstandingPage() {
     return (
         <div>
             <h2 className="text-2xl font-bold text-gray-800 mb-6">
-                Outstanding Gowns ({bookings.length})
+                Outstanding Items ({bookings.length})
+                {bookings.some(b => b.overdue) && (
+                    <span className="ml-3 text-base font-medium text-red-600">
+                        {bookings.filter(b => b.overdue).length} overdue
+                    </span>
+                )}
             </h2>
 
             {bookings.length === 0 ? (
                 <div className="bg-white rounded-lg shadow p-8 text-center text-gray-500">
-                    All gowns have been returned!
+                    Everything has been returned!
                 </div>
             ) : (
                 <div className="bg-white rounded-lg shadow overflow-hidden">
@@ -84,22 +87,37 @@ export default function OutstandingPage() {
                             <tr>
                                 <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Name</th>
                                 <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Phone</th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Items</th>
                                 <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Wedding</th>
                                 <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Days Out</th>
-                                <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">Returned</th>
+                                <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">All Returned</th>
                                 <th className="px-4 py-3 text-center text-xs font-medium text-gray-500 uppercase">Paid</th>
                             </tr>
                         </thead>
                         <tbody className="divide-y divide-gray-200">
                             {bookings.map((booking) => {
-                                const days = daysSinceWedding(booking.weddingDate);
+                                const days = booking.daysLate;
                                 return (
-                                    <tr key={booking.id} className={updating === booking.id ? 'opacity-50' : ''}>
+                                    <tr
+                                        key={booking.id}
+                                        className={`${updating === booking.id ? 'opacity-50' : ''} ${booking.overdue ? 'bg-red-50/40' : ''}`}
+                                    >
                                         <td className="px-4 py-4 font-medium">{booking.customerName}</td>
                                         <td className="px-4 py-4 text-gray-500">
                                             <a href={`tel:${booking.customerPhone}`} className="hover:text-blue-600">
                                                 {booking.customerPhone}
                                             </a>
+                                            {booking.smsOptedOut && (
+                                                <div className="text-xs text-gray-500" title="Replied STOP - reminders aren't sent">🔕 No texts - call</div>
+                                            )}
+                                        </td>
+                                        <td className="px-4 py-4 max-w-xs">
+                                            <LoanItemList
+                                                items={booking.items.filter(i => i.pickedUp)}
+                                                onChange={(changed) => updateBooking(booking.id, {
+                                                    items: booking.items.map(i => changed.find(c => c.id === i.id) || i),
+                                                })}
+                                            />
                                         </td>
                                         <td className="px-4 py-4">{formatDate(booking.weddingDate)}</td>
                                         <td className="px-4 py-4">
@@ -109,6 +127,11 @@ export default function OutstandingPage() {
                                                 }`}>
                                                 {days} days
                                             </span>
+                                            {booking.overdue && (
+                                                <span className="ml-2 px-2 py-1 rounded text-xs font-semibold bg-red-600 text-white">
+                                                    Overdue
+                                                </span>
+                                            )}
                                         </td>
                                         <td className="px-4 py-4 text-center">
                                             <input
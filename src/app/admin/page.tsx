@@ -16,6 +16,7 @@ interface Booking {
     gownReturned: boolean;
     donationPaid: boolean;
     notes?: string;
+    deliveryProblem?: { messageType: string };
 }
 
 interface UpcomingDay {
@@ -236,6 +237,9 @@ export default function AdminDashboard() {
                                                     <a href={`tel:${booking.customerPhone}`} className="hover:text-blue-600">
                                                         {booking.customerPhone}
                                                     </a>
+                                                    {booking.deliveryProblem && (
+                                                        <div className="text-xs text-red-600 font-medium">📵 Text not delivered - call</div>
+                                                    )}
                                                 </td>
                                                 <td className="px-4 py-4">{booking.groupSize} people</td>
                                                 <td className="px-4 py-4 text-sm">{formatDate(booking.weddingDate)}</td>
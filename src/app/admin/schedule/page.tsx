@@ -3,15 +3,125 @@
 
 import { useState, useEffect } from 'react';
 
-interface ScheduleConfig {
-    wednesday: {
-        enabled: boolean;
-        slots: string[];
-    };
-    saturday: {
-        enabled: boolean;
-        slots: string[];
+interface TimeWindow {
+    start: string;
+    end: string;
+}
+
+interface DaySchedule {
+    enabled: boolean;
+    windows: TimeWindow[];
+    slots: string[];
+    slotDuration: number;
+    maxParties: number;
+    maxPeople: number;
+    largeGroupSize: number;
+    maxGroupSize: number;
+}
+
+type Day = 'sunday' | 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday';
+
+interface CalendarSettings {
+    blockCholHamoed: boolean;
+    blockSefirah: boolean;
+    blockThreeWeeks: boolean;
+    motzeiShabbosAfterTzeis: number;
+}
+
+interface PickupSettings {
+    enabled: boolean;
+    returns: boolean;
+    windows: Partial<Record<Day, TimeWindow[]>>;
+    slotDuration: number;
+    perSlot: number;
+}
+
+interface ReturnReminderSettings {
+    reminderDays: number[];
+    managerAlertDays: number;
+}
+
+type ScheduleConfig = Record<Day, DaySchedule> & {
+    calendar: CalendarSettings;
+    pickups: PickupSettings;
+    returnReminders: ReturnReminderSettings;
+};
+
+const DAYS: { day: Day; label: string }[] = [
+    { day: 'sunday', label: 'Sunday' },
+    { day: 'monday', label: 'Monday' },
+    { day: 'tuesday', label: 'Tuesday' },
+    { day: 'wednesday', label: 'Wednesday' },
+    { day: 'thursday', label: 'Thursday' },
+    { day: 'friday', label: 'Friday' },
+    { day: 'saturday', label: 'Saturday (Motzei Shabbos)' },
+];
+type SlotSetting = 'slotDuration' | 'maxParties' | 'maxPeople' | 'largeGroupSize' | 'maxGroupSize';
+
+const SLOT_SETTINGS: { field: SlotSetting; label: string; hint: string }[] = [
+    { field: 'slotDuration', label: 'Minutes per slot', hint: 'Length of one slot' },
+    { field: 'maxParties', label: 'Groups per slot', hint: 'Groups fitted at the same time' },
+    { field: 'maxPeople', label: 'People per slot', hint: 'How many the fitting room holds' },
+    { field: 'largeGroupSize', label: 'Regular group size', hint: 'Bigger groups take two slots in a row' },
+    { field: 'maxGroupSize', label: 'Largest group', hint: 'Bigger groups cannot book' },
+];
+
+const CALENDAR_PERIODS: { field: 'blockCholHamoed' | 'blockSefirah' | 'blockThreeWeeks'; label: string }[] = [
+    { field: 'blockCholHamoed', label: 'Closed Chol Hamoed' },
+    { field: 'blockSefirah', label: 'Closed during Sefirah (after Pesach until Lag BaOmer)' },
+    { field: 'blockThreeWeeks', label: "Closed during the Three Weeks (17 Tammuz through Tisha B'Av)" },
+];
+
+interface CalendarClosure {
+    dateStr: string;
+    reason: string;
+}
+
+interface DateOverride {
+    id: string;
+    dateStr: string;
+    date: { _seconds: number };
+    windows: TimeWindow[];
+    reason?: string;
+}
+
+type BlockRulePattern =
+    | { type: 'weekly'; weekday: number; startDate: string; endDate: string }
+    | { type: 'monthly'; weekday: number; nth: number; startDate?: string; endDate?: string }
+    | { type: 'dates'; dates: string[] };
+
+interface BlockRule {
+    id: string;
+    pattern: BlockRulePattern;
+    reason?: string;
+    description: string;
+    upcomingDates: string[];
+}
+
+const RULE_TYPES: { type: BlockRulePattern['type']; label: string }[] = [
+    { type: 'weekly', label: 'Every week, between two dates' },
+    { type: 'monthly', label: 'Once a month' },
+    { type: 'dates', label: 'A list of dates' },
+];
+
+const NTH_OPTIONS = [
+    { nth: 1, label: 'First' },
+    { nth: 2, label: 'Second' },
+    { nth: 3, label: 'Third' },
+    { nth: 4, label: 'Fourth' },
+    { nth: -1, label: 'Last' },
+];
+
+interface AffectedBooking {
+    date: string;
+    booking: {
+        id: string;
+        customerName: string;
+        customerPhone: string;
+        slotTime: string;
+        groupSize: number;
     };
+    suggestions: { date: string; slotTime: string; label: string }[];
 }
 
 interface BlockedDate {
@@ -25,6 +135,9 @@ interface BlockedDate {
 export default function SchedulePage() {
     const [config, setConfig] = useState<ScheduleConfig | null>(null);
     const [blockedDates, setBlockedDates] = useState<BlockedDate[]>([]);
+    const [blockRules, setBlockRules] = useState<BlockRule[]>([]);
+    const [dateOverrides, setDateOverrides] = useState<DateOverride[]>([]);
+    const [calendarClosures, setCalendarClosures] = useState<CalendarClosure[]>([]);
     const [loading, setLoading] = useState(true);
     const [saving, setSaving] = useState(false);
     const [error, setError] = useState('');
@@ -35,6 +148,30 @@ export default function SchedulePage() {
     const [blockReason, setBlockReason] = useState('');
     const [blockingDate, setBlockingDate] = useState(false);
 
+    // Bookings on a date (or a recurring block's dates) that was just blocked, and the
+    // slot picked for each (-1 = leave it)
+    const [affected, setAffected] = useState<{ dateStr: string | null; bookings: AffectedBooking[] } | null>(null);
+    const [moveChoices, setMoveChoices] = useState<Record<string, number>>({});
+    const [resolving, setResolving] = useState(false);
+
+    // Recurring block form
+    const [ruleType, setRuleType] = useState<BlockRulePattern['type']>('weekly');
+    const [ruleWeekday, setRuleWeekday] = useState(6);
+    const [ruleNth, setRuleNth] = useState(1);
+    const [ruleStart, setRuleStart] = useState('');
+    const [ruleEnd, setRuleEnd] = useState('');
+    const [ruleDates, setRuleDates] = useState<string[]>([]);
+    const [ruleDateInput, setRuleDateInput] = useState('');
+    const [ruleReason, setRuleReason] = useState('');
+    const [addingRule, setAddingRule] = useState(false);
+
+    // Extra session form
+    const [sessionDateStr, setSessionDateStr] = useState('');
+    const [sessionStart, setSessionStart] = useState('');
+    const [sessionEnd, setSessionEnd] = useState('');
+    const [sessionReason, setSessionReason] = useState('');
+    const [addingSession, setAddingSession] = useState(false);
+
     useEffect(() => {
         fetchSchedule();
     }, []);
@@ -45,6 +182,9 @@ export default function SchedulePage() {
             const data = await res.json();
             setConfig(data.config);
             setBlockedDates(data.blockedDates || []);
+            setBlockRules(data.blockRules || []);
+            setDateOverrides(data.dateOverrides || []);
+            setCalendarClosures(data.calendarClosures || []);
         } catch (err) {
             setError('Failed to load schedule');
         } finally {
@@ -64,13 +204,23 @@ export default function SchedulePage() {
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
                     action: 'updateConfig',
-                    wednesday: config.wednesday,
-                    saturday: config.saturday,
+                    days: config,
+                    calendar: config.calendar,
+                    pickups: config.pickups,
+                    returnReminders: config.returnReminders,
                 }),
             });
 
-            if (!res.ok) throw new Error('Failed to save');
-            setSuccess('Schedule saved successfully');
+            const data = await res.json();
+            if (!res.ok) {
+                setError(data.error || 'Failed to save schedule');
+                return;
+            }
+            setConfig(data.config);
+            setCalendarClosures(data.calendarClosures || []);
+            setSuccess(data.assistantSynced === false
+                ? 'Schedule saved (the phone agent could not be updated)'
+                : 'Schedule saved successfully');
             setTimeout(() => setSuccess(''), 3000);
         } catch (err) {
             setError('Failed to save schedule');
@@ -99,6 +249,11 @@ export default function SchedulePage() {
 
             if (!res.ok) throw new Error('Failed to block date');
 
+            const data = await res.json();
+            const bookings: AffectedBooking[] = data.affectedBookings || [];
+            setAffected(bookings.length > 0 ? { dateStr: blockDateStr, bookings } : null);
+            setMoveChoices(Object.fromEntries(bookings.map(a => [a.booking.id, a.suggestions.length > 0 ? 0 : -1])));
+
             setBlockDateStr('');
             setBlockReason('');
             await fetchSchedule();
@@ -109,6 +264,182 @@ export default function SchedulePage() {
         }
     };
 
+    const resolveAffected = async (resolution: 'cancel' | 'move') => {
+        if (!affected) return;
+        setResolving(true);
+        setError('');
+
+        const body = resolution === 'cancel'
+            ? { action: 'cancelMany', bookingIds: affected.bookings.map(a => a.booking.id) }
+            : {
+                action: 'rescheduleMany',
+                moves: affected.bookings
+                    .filter(a => moveChoices[a.booking.id] >= 0)
+                    .map(a => {
+                        const slot = a.suggestions[moveChoices[a.booking.id]];
+                        return { bookingId: a.booking.id, newDate: slot.date, newSlotTime: slot.slotTime };
+                    }),
+            };
+
+        try {
+            const res = await fetch('/api/admin/bookings', {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body),
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                setError(data.error || 'Failed to update bookings');
+                return;
+            }
+
+            const failed = (data.results || []).filter((r: { success: boolean }) => !r.success);
+            if (failed.length > 0) {
+                const names = failed.map((r: { bookingId: string; error: string }) => {
+                    const name = affected.bookings.find(a => a.booking.id === r.bookingId)?.booking.customerName;
+                    return `${name}: ${r.error}`;
+                });
+                setError(`Some bookings could not be changed - ${names.join('; ')}`);
+            } else {
+                setSuccess(resolution === 'cancel' ? 'Bookings cancelled and customers texted' : 'Bookings moved and customers texted');
+                setTimeout(() => setSuccess(''), 3000);
+            }
+            setAffected(null);
+        } catch (err) {
+            setError('Failed to update bookings');
+        } finally {
+            setResolving(false);
+        }
+    };
+
+    const handleAddBlockRule = async (e: React.FormEvent) => {
+        e.preventDefault();
+
+        let pattern: BlockRulePattern;
+        if (ruleType === 'dates') {
+            pattern = { type: 'dates', dates: ruleDates };
+        } else if (ruleType === 'weekly') {
+            pattern = { type: 'weekly', weekday: ruleWeekday, startDate: ruleStart, endDate: ruleEnd };
+        } else {
+            pattern = { type: 'monthly', weekday: ruleWeekday, nth: ruleNth };
+            if (ruleStart || ruleEnd) {
+                pattern.startDate = ruleStart;
+                pattern.endDate = ruleEnd;
+            }
+        }
+
+        setAddingRule(true);
+        setError('');
+
+        try {
+            const res = await fetch('/api/admin/schedule', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    action: 'addBlockRule',
+                    pattern,
+                    reason: ruleReason || undefined,
+                }),
+            });
+
+            const data = await res.json();
+            if (!res.ok) {
+                setError(data.error || 'Failed to add recurring block');
+                return;
+            }
+
+            const bookings: AffectedBooking[] = data.affectedBookings || [];
+            setAffected(bookings.length > 0 ? { dateStr: null, bookings } : null);
+            setMoveChoices(Object.fromEntries(bookings.map(a => [a.booking.id, a.suggestions.length > 0 ? 0 : -1])));
+
+            setRuleStart('');
+            setRuleEnd('');
+            setRuleDates([]);
+            setRuleReason('');
+            await fetchSchedule();
+        } catch (err) {
+            setError('Failed to add recurring block');
+        } finally {
+            setAddingRule(false);
+        }
+    };
+
+    const handleRemoveBlockRule = async (ruleId: string) => {
+        try {
+            await fetch('/api/admin/schedule', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    action: 'removeBlockRule',
+                    ruleId,
+                }),
+            });
+            await fetchSchedule();
+        } catch (err) {
+            setError('Failed to remove recurring block');
+        }
+    };
+
+    const addRuleDate = () => {
+        if (ruleDateInput && !ruleDates.includes(ruleDateInput)) {
+            setRuleDates([...ruleDates, ruleDateInput].sort());
+        }
+        setRuleDateInput('');
+    };
+
+    const handleAddSession = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!sessionDateStr || !sessionStart || !sessionEnd) return;
+
+        setAddingSession(true);
+        setError('');
+
+        try {
+            const res = await fetch('/api/admin/schedule', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    action: 'addSession',
+                    date: sessionDateStr,
+                    start: sessionStart,
+                    end: sessionEnd,
+                    reason: sessionReason || undefined,
+                }),
+            });
+
+            const data = await res.json();
+            if (!res.ok) {
+                setError(data.error || 'Failed to add session');
+                return;
+            }
+
+            setSessionStart('');
+            setSessionEnd('');
+            setSessionReason('');
+            await fetchSchedule();
+        } catch (err) {
+            setError('Failed to add session');
+        } finally {
+            setAddingSession(false);
+        }
+    };
+
+    const handleRemoveSessions = async (dateStr: string) => {
+        try {
+            await fetch('/api/admin/schedule', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    action: 'removeSessions',
+                    dateStr,
+                }),
+            });
+            await fetchSchedule();
+        } catch (err) {
+            setError('Failed to remove sessions');
+        }
+    };
+
     const handleUnblockDate = async (dateStr: string) => {
         try {
             await fetch('/api/admin/schedule', {
@@ -125,23 +456,88 @@ export default function SchedulePage() {
         }
     };
 
-    const updateSlots = (day: 'wednesday' | 'saturday', slots: string[]) => {
+    const updateWindows = (day: Day, windows: TimeWindow[]) => {
+        if (!config) return;
+        setConfig({
+            ...config,
+            [day]: { ...config[day], windows },
+        });
+    };
+
+    const updateWindow = (day: Day, index: number, field: keyof TimeWindow, value: string) => {
+        if (!config) return;
+        updateWindows(day, config[day].windows.map((w, i) => (i === index ? { ...w, [field]: value } : w)));
+    };
+
+    const updateCalendar = (updates: Partial<CalendarSettings>) => {
+        if (!config) return;
+        setConfig({ ...config, calendar: { ...config.calendar, ...updates } });
+    };
+
+    const updatePickups = (updates: Partial<PickupSettings>) => {
+        if (!config) return;
+        setConfig({ ...config, pickups: { ...config.pickups, ...updates } });
+    };
+
+    const updatePickupWindows = (day: Day, windows: TimeWindow[]) => {
+        if (!config) return;
+        updatePickups({ windows: { ...config.pickups.windows, [day]: windows } });
+    };
+
+    const updateReturnReminders = (updates: Partial<ReturnReminderSettings>) => {
+        if (!config) return;
+        setConfig({ ...config, returnReminders: { ...config.returnReminders, ...updates } });
+    };
+
+    const toggleDay = (day: Day) => {
         if (!config) return;
         setConfig({
             ...config,
-            [day]: { ...config[day], slots },
+            [day]: {
+                ...config[day],
+                enabled: !config[day].enabled,
+                // Start a newly opened day with one evening to edit
+                windows: config[day].windows.length > 0 ? config[day].windows : [{ start: '7:30 PM', end: '9:30 PM' }],
+            },
         });
     };
 
-    const toggleDay = (day: 'wednesday' | 'saturday') => {
+    const updateSetting = (day: Day, field: SlotSetting, value: number) => {
         if (!config) return;
         setConfig({
             ...config,
-            [day]: { ...config[day], enabled: !config[day].enabled },
+            [day]: { ...config[day], [field]: value },
+        });
+    };
+
+    const renderSlotSettings = (day: Day) => (
+        <div className="grid grid-cols-2 gap-3 mt-4">
+            {SLOT_SETTINGS.map(({ field, label, hint }) => (
+                <label key={field} className="block">
+                    <span className="text-sm text-gray-600">{label}</span>
+                    <input
+                        type="number"
+                        min={1}
+                        value={config?.[day][field] ?? ''}
+                        onChange={(e) => updateSetting(day, field, Number(e.target.value))}
+                        disabled={!config?.[day].enabled}
+                        className="w-full px-3 py-1.5 border rounded-lg text-sm disabled:bg-gray-50 disabled:text-gray-400"
+                    />
+                    <span className="text-xs text-gray-400">{hint}</span>
+                </label>
+            ))}
+        </div>
+    );
+
+    const formatDateKey = (dateStr: string) => {
+        return new Date(dateStr + 'T12:00:00').toLocaleDateString('en-US', {
+            weekday: 'short',
+            month: 'short',
+            day: 'numeric',
         });
     };
 
-    const formatBlockedDate = (date: { _seconds: number }) => {
+    const formatListDate = (date: { _seconds: number }) => {
         return new Date(date._seconds * 1000).toLocaleDateString('en-US', {
             weekday: 'short',
             month: 'short',
@@ -179,64 +575,351 @@ export default function SchedulePage() {
             <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
                 <h3 className="text-lg font-semibold text-gray-900 mb-4">Default Time Slots</h3>
                 <p className="text-sm text-gray-500 mb-6">
-                    Configure the available appointment slots for each day. The Vapi phone agent will use these slots when checking availability.
+                    Set the hours for any day of the week; they are cut into slots of the length you choose, and you set how many can be fitted in each one. SMS booking, the phone agent and reminders all use these slots and hours.
                 </p>
 
                 <div className="grid md:grid-cols-2 gap-6">
-                    {/* Wednesday */}
-                    <div className="border rounded-lg p-4">
-                        <div className="flex items-center justify-between mb-4">
-                            <h4 className="font-medium text-gray-900">Wednesday</h4>
-                            <label className="flex items-center gap-2">
-                                <input
-                                    type="checkbox"
-                                    checked={config?.wednesday.enabled}
-                                    onChange={() => toggleDay('wednesday')}
-                                    className="w-4 h-4 rounded"
-                                />
-                                <span className="text-sm text-gray-600">Enabled</span>
-                            </label>
+                    {DAYS.map(({ day, label }) => (
+                        <div key={day} className="border rounded-lg p-4">
+                            <div className="flex items-center justify-between mb-4">
+                                <h4 className="font-medium text-gray-900">{label}</h4>
+                                <label className="flex items-center gap-2">
+                                    <input
+                                        type="checkbox"
+                                        checked={config?.[day].enabled}
+                                        onChange={() => toggleDay(day)}
+                                        className="w-4 h-4 rounded"
+                                    />
+                                    <span className="text-sm text-gray-600">Enabled</span>
+                                </label>
+                            </div>
+                            {config?.[day].enabled && (
+                                <>
+                                    <div className="space-y-2">
+                                        <label className="text-sm text-gray-600">Open from / until</label>
+                                        {config[day].windows.map((window, index) => (
+                                            <div key={index} className="flex items-center gap-2">
+                                                <input
+                                                    type="text"
+                                                    value={window.start}
+                                                    onChange={(e) => updateWindow(day, index, 'start', e.target.value)}
+                                                    className="w-28 px-3 py-1.5 border rounded-lg text-sm font-mono"
+                                                    placeholder="7:30 PM"
+                                                />
+                                                <span className="text-gray-400">–</span>
+                                                <input
+                                                    type="text"
+                                                    value={window.end}
+                                                    onChange={(e) => updateWindow(day, index, 'end', e.target.value)}
+                                                    className="w-28 px-3 py-1.5 border rounded-lg text-sm font-mono"
+                                                    placeholder="9:30 PM"
+                                                />
+                                                <button
+                                                    type="button"
+                                                    onClick={() => updateWindows(day, config[day].windows.filter((_, i) => i !== index))}
+                                                    className="text-red-600 hover:text-red-800 text-sm"
+                                                >
+                                                    Remove
+                                                </button>
+                                            </div>
+                                        ))}
+                                        <button
+                                            type="button"
+                                            onClick={() => updateWindows(day, [...config[day].windows, { start: '', end: '' }])}
+                                            className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+                                        >
+                                            + Add hours
+                                        </button>
+                                    </div>
+                                    {renderSlotSettings(day)}
+                                    <p className="text-xs text-gray-400 mt-3">
+                                        Slots: {config[day].slots.length > 0 ? config[day].slots.join(', ') : 'none yet'} (updated on save)
+                                    </p>
+                                </>
+                            )}
                         </div>
-                        <div className="space-y-2">
-                            <label className="text-sm text-gray-600">Slots (one per line)</label>
-                            <textarea
-                                value={config?.wednesday.slots.join('\n') || ''}
-                                onChange={(e) => updateSlots('wednesday', e.target.value.split('\n').filter(s => s.trim()))}
-                                disabled={!config?.wednesday.enabled}
-                                rows={5}
-                                className="w-full px-3 py-2 border rounded-lg text-sm font-mono disabled:bg-gray-50 disabled:text-gray-400"
-                                placeholder="11:30 AM&#10;11:45 AM&#10;12:00 PM"
+                    ))}
+                </div>
+            </div>
+
+            {/* Pickups & Returns */}
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Pickups &amp; Returns</h3>
+                <p className="text-sm text-gray-500 mb-6">
+                    Gown pickups and drop-offs have their own hours, separate from fittings. Brides can book a pickup up to two weeks before the wedding, and a return from the wedding on, by text or phone.
+                </p>
+
+                <div className="space-y-3 mb-6">
+                    <label className="flex items-center gap-2">
+                        <input
+                            type="checkbox"
+                            checked={config?.pickups.enabled}
+                            onChange={(e) => updatePickups({ enabled: e.target.checked })}
+                            className="w-4 h-4 rounded"
+                        />
+                        <span className="text-sm text-gray-700">Book pickup appointments</span>
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <input
+                            type="checkbox"
+                            checked={config?.pickups.returns}
+                            onChange={(e) => updatePickups({ returns: e.target.checked })}
+                            className="w-4 h-4 rounded"
+                        />
+                        <span className="text-sm text-gray-700">Book return appointments</span>
+                    </label>
+                    <div className="flex flex-wrap gap-6">
+                        <label className="flex items-center gap-2">
+                            <span className="text-sm text-gray-700">Minutes per handoff</span>
+                            <input
+                                type="number"
+                                min={1}
+                                value={config?.pickups.slotDuration}
+                                onChange={(e) => updatePickups({ slotDuration: parseInt(e.target.value) || 0 })}
+                                className="w-20 px-3 py-1.5 border rounded-lg text-sm"
                             />
-                        </div>
+                        </label>
+                        <label className="flex items-center gap-2">
+                            <span className="text-sm text-gray-700">Handoffs at the same time</span>
+                            <input
+                                type="number"
+                                min={1}
+                                value={config?.pickups.perSlot}
+                                onChange={(e) => updatePickups({ perSlot: parseInt(e.target.value) || 0 })}
+                                className="w-20 px-3 py-1.5 border rounded-lg text-sm"
+                            />
+                        </label>
                     </div>
+                </div>
 
-                    {/* Saturday */}
-                    <div className="border rounded-lg p-4">
-                        <div className="flex items-center justify-between mb-4">
-                            <h4 className="font-medium text-gray-900">Saturday (Motzei Shabbos)</h4>
-                            <label className="flex items-center gap-2">
-                                <input
-                                    type="checkbox"
-                                    checked={config?.saturday.enabled}
-                                    onChange={() => toggleDay('saturday')}
-                                    className="w-4 h-4 rounded"
-                                />
-                                <span className="text-sm text-gray-600">Enabled</span>
-                            </label>
-                        </div>
-                        <div className="space-y-2">
-                            <label className="text-sm text-gray-600">Slots (one per line)</label>
-                            <textarea
-                                value={config?.saturday.slots.join('\n') || ''}
-                                onChange={(e) => updateSlots('saturday', e.target.value.split('\n').filter(s => s.trim()))}
-                                disabled={!config?.saturday.enabled}
-                                rows={5}
-                                className="w-full px-3 py-2 border rounded-lg text-sm font-mono disabled:bg-gray-50 disabled:text-gray-400"
-                                placeholder="7:30 PM&#10;7:45 PM&#10;8:00 PM"
+                <div className="grid md:grid-cols-2 gap-4">
+                    {config && DAYS.map(({ day, label }) => {
+                        const windows = config.pickups.windows[day] || [];
+                        return (
+                            <div key={day} className="border rounded-lg p-4 space-y-2">
+                                <h4 className="font-medium text-gray-900">{label}</h4>
+                                {windows.map((window, index) => (
+                                    <div key={index} className="flex items-center gap-2">
+                                        <input
+                                            type="text"
+                                            value={window.start}
+                                            onChange={(e) => updatePickupWindows(day, windows.map((w, i) => (i === index ? { ...w, start: e.target.value } : w)))}
+                                            className="w-28 px-3 py-1.5 border rounded-lg text-sm font-mono"
+                                            placeholder="12:30 PM"
+                                        />
+                                        <span className="text-gray-400">–</span>
+                                        <input
+                                            type="text"
+                                            value={window.end}
+                                            onChange={(e) => updatePickupWindows(day, windows.map((w, i) => (i === index ? { ...w, end: e.target.value } : w)))}
+                                            className="w-28 px-3 py-1.5 border rounded-lg text-sm font-mono"
+                                            placeholder="1:00 PM"
+                                        />
+                                        <button
+                                            type="button"
+                                            onClick={() => updatePickupWindows(day, windows.filter((_, i) => i !== index))}
+                                            className="text-red-600 hover:text-red-800 text-sm"
+                                        >
+                                            Remove
+                                        </button>
+                                    </div>
+                                ))}
+                                <button
+                                    type="button"
+                                    onClick={() => updatePickupWindows(day, [...windows, { start: '', end: '' }])}
+                                    className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+                                >
+                                    + Add pickup hours
+                                </button>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+
+            {/* Return Reminders */}
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Return Reminders</h3>
+                <p className="text-sm text-gray-500 mb-6">
+                    Brides with items still out after the wedding get a text on each of these days, each one firmer than the last. Past the alert day the manager is texted once and the return shows as overdue on the Outstanding page.
+                </p>
+
+                <div className="flex flex-wrap gap-6">
+                    <label className="flex items-center gap-2">
+                        <span className="text-sm text-gray-700">Text the bride</span>
+                        <input
+                            type="text"
+                            key={config?.returnReminders.reminderDays.join(',')}
+                            defaultValue={config?.returnReminders.reminderDays.join(', ')}
+                            onBlur={(e) => updateReturnReminders({
+                                reminderDays: e.target.value.split(',').map(d => parseInt(d.trim())).filter(d => !isNaN(d)),
+                            })}
+                            className="w-32 px-3 py-1.5 border rounded-lg text-sm font-mono"
+                            placeholder="1, 5, 10"
+                        />
+                        <span className="text-sm text-gray-700">days after the wedding</span>
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <span className="text-sm text-gray-700">Alert the manager after</span>
+                        <input
+                            type="number"
+                            min={1}
+                            value={config?.returnReminders.managerAlertDays}
+                            onChange={(e) => updateReturnReminders({ managerAlertDays: parseInt(e.target.value) || 0 })}
+                            className="w-20 px-3 py-1.5 border rounded-lg text-sm"
+                        />
+                        <span className="text-sm text-gray-700">days</span>
+                    </label>
+                </div>
+            </div>
+
+            {/* Jewish Calendar */}
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Jewish Calendar</h3>
+                <p className="text-sm text-gray-500 mb-6">
+                    Yom Tov and Erev Yom Tov are always closed, and Friday hours stop at candle lighting. Motzei Shabbos slots move later when Shabbos ends late. Times are worked out for Brooklyn.
+                </p>
+
+                <div className="space-y-3">
+                    {CALENDAR_PERIODS.map(({ field, label }) => (
+                        <label key={field} className="flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                checked={config?.calendar[field]}
+                                onChange={(e) => updateCalendar({ [field]: e.target.checked })}
+                                className="w-4 h-4 rounded"
                             />
-                        </div>
-                    </div>
+                            <span className="text-sm text-gray-700">{label}</span>
+                        </label>
+                    ))}
+                    <label className="flex items-center gap-2">
+                        <span className="text-sm text-gray-700">First Motzei Shabbos slot at least</span>
+                        <input
+                            type="number"
+                            min={0}
+                            value={config?.calendar.motzeiShabbosAfterTzeis}
+                            onChange={(e) => updateCalendar({ motzeiShabbosAfterTzeis: parseInt(e.target.value) || 0 })}
+                            className="w-20 px-3 py-1.5 border rounded-lg text-sm"
+                        />
+                        <span className="text-sm text-gray-700">minutes after Shabbos ends</span>
+                    </label>
                 </div>
+
+                <h4 className="font-medium text-gray-900 mt-6 mb-2">Closed in the next three months</h4>
+                {calendarClosures.length === 0 ? (
+                    <p className="text-gray-400 text-center py-4">No calendar closures</p>
+                ) : (
+                    <div className="flex flex-wrap gap-2">
+                        {calendarClosures.map((closure) => (
+                            <span
+                                key={closure.dateStr}
+                                className="px-3 py-1 bg-amber-50 text-amber-800 rounded-lg border border-amber-100 text-sm"
+                            >
+                                {new Date(closure.dateStr + 'T12:00:00').toLocaleDateString('en-US', {
+                                    weekday: 'short',
+                                    month: 'short',
+                                    day: 'numeric',
+                                })} — {closure.reason}
+                            </span>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {/* Extra Sessions */}
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Extra Sessions</h3>
+                <p className="text-sm text-gray-500 mb-6">
+                    Open extra hours on a single date - a whole session on a day you're usually closed, or a later finish on a regular night. The day's slot settings apply.
+                </p>
+
+                {/* Add Session Form */}
+                <form onSubmit={handleAddSession} className="flex flex-wrap gap-3 mb-6 p-4 bg-gray-50 rounded-lg">
+                    <div>
+                        <label className="block text-sm text-gray-600 mb-1">Date</label>
+                        <input
+                            type="date"
+                            value={sessionDateStr}
+                            onChange={(e) => setSessionDateStr(e.target.value)}
+                            min={new Date().toISOString().split('T')[0]}
+                            className="px-3 py-2 border rounded-lg"
+                            required
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm text-gray-600 mb-1">From</label>
+                        <input
+                            type="text"
+                            value={sessionStart}
+                            onChange={(e) => setSessionStart(e.target.value)}
+                            className="w-28 px-3 py-2 border rounded-lg font-mono"
+                            placeholder="9:30 PM"
+                            required
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm text-gray-600 mb-1">Until</label>
+                        <input
+                            type="text"
+                            value={sessionEnd}
+                            onChange={(e) => setSessionEnd(e.target.value)}
+                            className="w-28 px-3 py-2 border rounded-lg font-mono"
+                            placeholder="10:30 PM"
+                            required
+                        />
+                    </div>
+                    <div className="flex-1 min-w-[200px]">
+                        <label className="block text-sm text-gray-600 mb-1">Reason (optional)</label>
+                        <input
+                            type="text"
+                            value={sessionReason}
+                            onChange={(e) => setSessionReason(e.target.value)}
+                            className="w-full px-3 py-2 border rounded-lg"
+                            placeholder="e.g., Before Pesach"
+                        />
+                    </div>
+                    <div className="flex items-end">
+                        <button
+                            type="submit"
+                            disabled={addingSession || !sessionDateStr}
+                            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition disabled:opacity-50"
+                        >
+                            {addingSession ? 'Adding...' : 'Add Session'}
+                        </button>
+                    </div>
+                </form>
+
+                {/* List of Extra Sessions */}
+                {dateOverrides.length === 0 ? (
+                    <p className="text-gray-400 text-center py-4">No extra sessions</p>
+                ) : (
+                    <div className="space-y-2">
+                        {dateOverrides.map((override) => (
+                            <div
+                                key={override.id}
+                                className="flex items-center justify-between p-3 bg-green-50 rounded-lg border border-green-100"
+                            >
+                                <div>
+                                    <span className="font-medium text-green-800">
+                                        {formatListDate(override.date)}
+                                    </span>
+                                    <span className="text-green-700 text-sm ml-2">
+                                        {override.windows.map(w => `${w.start} – ${w.end}`).join(', ')}
+                                    </span>
+                                    {override.reason && (
+                                        <span className="text-green-600 ml-2">— {override.reason}</span>
+                                    )}
+                                </div>
+                                <button
+                                    onClick={() => handleRemoveSessions(override.dateStr)}
+                                    className="text-red-600 hover:text-red-800 text-sm font-medium"
+                                >
+                                    Remove
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
             </div>
 
             {/* Block Dates */}
@@ -280,6 +963,64 @@ export default function SchedulePage() {
                     </div>
                 </form>
 
+                {/* Bookings on the date or recurring block just added */}
+                {affected && (
+                    <div className="mb-6 p-4 bg-amber-50 rounded-lg border border-amber-200">
+                        <h4 className="font-medium text-amber-900 mb-1">
+                            {affected.bookings.length} booking{affected.bookings.length === 1 ? '' : 's'} on {affected.dateStr ? formatDateKey(affected.dateStr) : 'the newly blocked dates'}
+                        </h4>
+                        <p className="text-sm text-amber-800 mb-4">
+                            These customers are still booked. Move them to an open slot or cancel - either way they get a text.
+                        </p>
+                        <div className="space-y-2 mb-4">
+                            {affected.bookings.map(({ date, booking, suggestions }) => (
+                                <div key={booking.id} className="flex flex-wrap items-center justify-between gap-2 p-2 bg-white rounded border border-amber-100">
+                                    <span className="text-sm text-gray-800">
+                                        <span className="font-medium">{booking.customerName}</span> · {affected.dateStr ? '' : `${formatDateKey(date)} `}{booking.slotTime} · {booking.groupSize}p · {booking.customerPhone}
+                                    </span>
+                                    {suggestions.length === 0 ? (
+                                        <span className="text-sm text-gray-400">No open slot nearby</span>
+                                    ) : (
+                                        <select
+                                            value={moveChoices[booking.id] ?? -1}
+                                            onChange={(e) => setMoveChoices({ ...moveChoices, [booking.id]: Number(e.target.value) })}
+                                            className="px-2 py-1 border rounded text-sm"
+                                        >
+                                            {suggestions.map((slot, index) => (
+                                                <option key={`${slot.date}-${slot.slotTime}`} value={index}>Move to {slot.label}</option>
+                                            ))}
+                                            <option value={-1}>Leave as is</option>
+                                        </select>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                            <button
+                                onClick={() => resolveAffected('move')}
+                                disabled={resolving || !Object.values(moveChoices).some(choice => choice >= 0)}
+                                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+                            >
+                                Move &amp; Text Customers
+                            </button>
+                            <button
+                                onClick={() => resolveAffected('cancel')}
+                                disabled={resolving}
+                                className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition disabled:opacity-50"
+                            >
+                                Cancel All &amp; Text Customers
+                            </button>
+                            <button
+                                onClick={() => setAffected(null)}
+                                disabled={resolving}
+                                className="px-4 py-2 text-gray-600 hover:text-gray-800"
+                            >
+                                Keep Bookings
+                            </button>
+                        </div>
+                    </div>
+                )}
+
                 {/* List of Blocked Dates */}
                 {blockedDates.length === 0 ? (
                     <p className="text-gray-400 text-center py-4">No blocked dates</p>
@@ -292,7 +1033,7 @@ export default function SchedulePage() {
                             >
                                 <div>
                                     <span className="font-medium text-red-800">
-                                        {formatBlockedDate(blocked.date)}
+                                        {formatListDate(blocked.date)}
                                     </span>
                                     {blocked.reason && (
                                         <span className="text-red-600 ml-2">— {blocked.reason}</span>
@@ -314,6 +1055,174 @@ export default function SchedulePage() {
                     </div>
                 )}
             </div>
+
+            {/* Recurring Blocks */}
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Recurring Blocks</h3>
+                <p className="text-sm text-gray-500 mb-6">
+                    Close the same day again and again - every Motzei Shabbos in August, the first Wednesday of each month, or a list of dates. Whole days are closed, just like blocked dates.
+                </p>
+
+                {/* Add Rule Form */}
+                <form onSubmit={handleAddBlockRule} className="flex flex-wrap gap-3 mb-6 p-4 bg-gray-50 rounded-lg">
+                    <div>
+                        <label className="block text-sm text-gray-600 mb-1">Repeat</label>
+                        <select
+                            value={ruleType}
+                            onChange={(e) => setRuleType(e.target.value as BlockRulePattern['type'])}
+                            className="px-3 py-2 border rounded-lg"
+                        >
+                            {RULE_TYPES.map(({ type, label }) => (
+                                <option key={type} value={type}>{label}</option>
+                            ))}
+                        </select>
+                    </div>
+                    {ruleType === 'monthly' && (
+                        <div>
+                            <label className="block text-sm text-gray-600 mb-1">Which</label>
+                            <select
+                                value={ruleNth}
+                                onChange={(e) => setRuleNth(Number(e.target.value))}
+                                className="px-3 py-2 border rounded-lg"
+                            >
+                                {NTH_OPTIONS.map(({ nth, label }) => (
+                                    <option key={nth} value={nth}>{label}</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+                    {ruleType !== 'dates' && (
+                        <div>
+                            <label className="block text-sm text-gray-600 mb-1">Day</label>
+                            <select
+                                value={ruleWeekday}
+                                onChange={(e) => setRuleWeekday(Number(e.target.value))}
+                                className="px-3 py-2 border rounded-lg"
+                            >
+                                {DAYS.map(({ day, label }, index) => (
+                                    <option key={day} value={index}>{label}</option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+                    {ruleType !== 'dates' && (
+                        <>
+                            <div>
+                                <label className="block text-sm text-gray-600 mb-1">
+                                    From{ruleType === 'monthly' && ' (optional)'}
+                                </label>
+                                <input
+                                    type="date"
+                                    value={ruleStart}
+                                    onChange={(e) => setRuleStart(e.target.value)}
+                                    className="px-3 py-2 border rounded-lg"
+                                    required={ruleType === 'weekly'}
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm text-gray-600 mb-1">
+                                    Until{ruleType === 'monthly' && ' (optional)'}
+                                </label>
+                                <input
+                                    type="date"
+                                    value={ruleEnd}
+                                    onChange={(e) => setRuleEnd(e.target.value)}
+                                    min={ruleStart || undefined}
+                                    className="px-3 py-2 border rounded-lg"
+                                    required={ruleType === 'weekly'}
+                                />
+                            </div>
+                        </>
+                    )}
+                    {ruleType === 'dates' && (
+                        <div>
+                            <label className="block text-sm text-gray-600 mb-1">Dates</label>
+                            <div className="flex gap-2">
+                                <input
+                                    type="date"
+                                    value={ruleDateInput}
+                                    onChange={(e) => setRuleDateInput(e.target.value)}
+                                    min={new Date().toISOString().split('T')[0]}
+                                    className="px-3 py-2 border rounded-lg"
+                                />
+                                <button
+                                    type="button"
+                                    onClick={addRuleDate}
+                                    className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+                                >
+                                    + Add
+                                </button>
+                            </div>
+                            {ruleDates.length > 0 && (
+                                <div className="flex flex-wrap gap-1 mt-2">
+                                    {ruleDates.map((dateStr) => (
+                                        <button
+                                            key={dateStr}
+                                            type="button"
+                                            onClick={() => setRuleDates(ruleDates.filter(d => d !== dateStr))}
+                                            className="px-2 py-0.5 bg-white border rounded text-xs text-gray-700 hover:text-red-600"
+                                            title="Remove"
+                                        >
+                                            {formatDateKey(dateStr)} ×
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
+                    <div className="flex-1 min-w-[200px]">
+                        <label className="block text-sm text-gray-600 mb-1">Reason (optional)</label>
+                        <input
+                            type="text"
+                            value={ruleReason}
+                            onChange={(e) => setRuleReason(e.target.value)}
+                            className="w-full px-3 py-2 border rounded-lg"
+                            placeholder="e.g., Summer break"
+                        />
+                    </div>
+                    <div className="flex items-end">
+                        <button
+                            type="submit"
+                            disabled={addingRule || (ruleType === 'dates' && ruleDates.length === 0)}
+                            className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition disabled:opacity-50"
+                        >
+                            {addingRule ? 'Adding...' : 'Add Rule'}
+                        </button>
+                    </div>
+                </form>
+
+                {/* List of Rules */}
+                {blockRules.length === 0 ? (
+                    <p className="text-gray-400 text-center py-4">No recurring blocks</p>
+                ) : (
+                    <div className="space-y-2">
+                        {blockRules.map((rule) => (
+                            <div
+                                key={rule.id}
+                                className="flex items-center justify-between p-3 bg-red-50 rounded-lg border border-red-100"
+                            >
+                                <div>
+                                    <span className="font-medium text-red-800">{rule.description}</span>
+                                    {rule.reason && (
+                                        <span className="text-red-600 ml-2">— {rule.reason}</span>
+                                    )}
+                                    <div className="text-red-500 text-sm mt-1">
+                                        {rule.upcomingDates.length === 0
+                                            ? 'No dates in the next six months'
+                                            : `Closes ${rule.upcomingDates.slice(0, 6).map(formatDateKey).join(', ')}${rule.upcomingDates.length > 6 ? ` and ${rule.upcomingDates.length - 6} more` : ''}`}
+                                    </div>
+                                </div>
+                                <button
+                                    onClick={() => handleRemoveBlockRule(rule.id)}
+                                    className="text-red-600 hover:text-red-800 text-sm font-medium"
+                                >
+                                    Remove
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
         </div>
     );
 }
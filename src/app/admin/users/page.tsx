@@ -0,0 +1,264 @@
+// Admin Team - named dashboard accounts and their roles (owners only)
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+
+type Role = 'owner' | 'volunteer' | 'readonly';
+
+interface AdminUser {
+    id: string;
+    name: string;
+    role: Role;
+    active: boolean;
+    lastLoginAt?: { _seconds: number };
+}
+
+const ROLE_OPTIONS: { value: Role; label: string; description: string }[] = [
+    { value: 'owner', label: 'Owner', description: 'Everything, including schedule and team' },
+    { value: 'volunteer', label: 'Volunteer', description: 'Bookings and gowns' },
+    { value: 'readonly', label: 'Read-only', description: 'Can look, cannot change' },
+];
+
+export default function TeamPage() {
+    const router = useRouter();
+    const [users, setUsers] = useState<AdminUser[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [updating, setUpdating] = useState<string | null>(null);
+    const [error, setError] = useState('');
+
+    // New account form
+    const [username, setUsername] = useState('');
+    const [name, setName] = useState('');
+    const [role, setRole] = useState<Role>('volunteer');
+    const [password, setPassword] = useState('');
+    const [saving, setSaving] = useState(false);
+
+    const fetchUsers = async () => {
+        try {
+            const res = await fetch('/api/admin/users');
+            const data = await res.json();
+            if (data.error) {
+                setError(data.error);
+            } else {
+                setUsers(data.users || []);
+            }
+        } catch (err) {
+            setError('Failed to load team');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        fetchUsers();
+    }, []);
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        setError('');
+        try {
+            const isFirstAccount = users.length === 0;
+            const res = await fetch('/api/admin/users', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ username, name, role: isFirstAccount ? 'owner' : role, password }),
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                setError(data.error || 'Failed to add account');
+                return;
+            }
+
+            // The shared setup password stops working once the first account exists
+            if (isFirstAccount) {
+                await fetch('/api/admin/auth', { method: 'DELETE' });
+                router.replace('/admin/login');
+                return;
+            }
+
+            setUsername('');
+            setName('');
+            setPassword('');
+            await fetchUsers();
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const updateUser = async (userId: string, updates: Partial<AdminUser> & { password?: string }) => {
+        setUpdating(userId);
+        setError('');
+        try {
+            const res = await fetch('/api/admin/users', {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ userId, updates }),
+            });
+            if (!res.ok) {
+                const data = await res.json();
+                setError(data.error || 'Failed to update account');
+            }
+            await fetchUsers();
+        } finally {
+            setUpdating(null);
+        }
+    };
+
+    const resetPassword = (user: AdminUser) => {
+        const newPassword = prompt(`New password for ${user.name} (at least 8 characters):`);
+        if (newPassword) {
+            updateUser(user.id, { password: newPassword });
+        }
+    };
+
+    const formatDate = (timestamp?: { _seconds: number }) => {
+        if (!timestamp) return 'Never';
+        return new Date(timestamp._seconds * 1000).toLocaleDateString('en-US', {
+            month: 'short',
+            day: 'numeric',
+            year: 'numeric',
+        });
+    };
+
+    if (loading) {
+        return <div className="text-center py-12 text-gray-400">Loading...</div>;
+    }
+
+    return (
+        <div className="space-y-6">
+            <h2 className="text-2xl font-bold text-gray-900">Team</h2>
+
+            {error && (
+                <div className="bg-red-50 text-red-600 px-4 py-3 rounded-lg">{error}</div>
+            )}
+
+            {users.length === 0 && (
+                <div className="bg-amber-50 text-amber-700 px-4 py-3 rounded-lg text-sm">
+                    You are signed in with the shared setup password. Create your own owner account below;
+                    after that everyone signs in with their own username and the shared password stops working.
+                </div>
+            )}
+
+            {users.length > 0 && (
+                <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+                    <table className="w-full text-sm text-left">
+                        <thead className="bg-gray-50 border-b border-gray-200">
+                            <tr>
+                                <th className="px-4 py-4 font-semibold text-gray-900">Name</th>
+                                <th className="px-4 py-4 font-semibold text-gray-900">Username</th>
+                                <th className="px-4 py-4 font-semibold text-gray-900">Role</th>
+                                <th className="px-4 py-4 font-semibold text-gray-900">Last Sign-in</th>
+                                <th className="px-4 py-4 font-semibold text-gray-900 text-right">Actions</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                            {users.map(user => (
+                                <tr key={user.id} className={`${updating === user.id ? 'opacity-50' : ''} ${user.active ? '' : 'text-gray-400'}`}>
+                                    <td className="px-4 py-4 font-medium">
+                                        {user.name}
+                                        {!user.active && <span className="ml-2 text-xs">(deactivated)</span>}
+                                    </td>
+                                    <td className="px-4 py-4 font-mono text-gray-500">{user.id}</td>
+                                    <td className="px-4 py-4">
+                                        <select
+                                            value={user.role}
+                                            onChange={(e) => updateUser(user.id, { role: e.target.value as Role })}
+                                            disabled={!user.active}
+                                            className="px-2 py-1 border rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                                        >
+                                            {ROLE_OPTIONS.map(option => (
+                                                <option key={option.value} value={option.value}>{option.label}</option>
+                                            ))}
+                                        </select>
+                                    </td>
+                                    <td className="px-4 py-4 text-gray-500">{formatDate(user.lastLoginAt)}</td>
+                                    <td className="px-4 py-4 text-right space-x-3">
+                                        <button
+                                            onClick={() => resetPassword(user)}
+                                            className="text-blue-600 hover:text-blue-900 font-medium"
+                                        >
+                                            Reset Password
+                                        </button>
+                                        <button
+                                            onClick={() => updateUser(user.id, { active: !user.active })}
+                                            className={user.active ? 'text-red-600 hover:text-red-900 font-medium' : 'text-green-600 hover:text-green-900 font-medium'}
+                                        >
+                                            {user.active ? 'Deactivate' : 'Reactivate'}
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {/* Add Account */}
+            <form onSubmit={handleCreate} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4 max-w-xl">
+                <h3 className="text-lg font-semibold text-gray-900">Add Account</h3>
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                        <input
+                            type="text"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                            placeholder="Shown in booking history"
+                            required
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Username</label>
+                        <input
+                            type="text"
+                            value={username}
+                            onChange={(e) => setUsername(e.target.value)}
+                            className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                            required
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Role</label>
+                        <select
+                            value={users.length === 0 ? 'owner' : role}
+                            onChange={(e) => setRole(e.target.value as Role)}
+                            disabled={users.length === 0}
+                            className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                        >
+                            {ROLE_OPTIONS.map(option => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                        </select>
+                        <p className="text-xs text-gray-500 mt-1">
+                            {ROLE_OPTIONS.find(o => o.value === (users.length === 0 ? 'owner' : role))?.description}
+                        </p>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Password</label>
+                        <input
+                            type="password"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                            minLength={8}
+                            autoComplete="new-password"
+                            required
+                        />
+                    </div>
+                </div>
+                <div className="flex justify-end">
+                    <button
+                        type="submit"
+                        disabled={saving}
+                        className="px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition text-sm font-medium disabled:opacity-50"
+                    >
+                        {saving ? 'Adding...' : 'Add Account'}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+}
@@ -1,22 +1,162 @@
-// Admin Authentication API
+// Admin Authentication API - sign in, check and end admin sessions
+import { createHash, timingSafeEqual } from 'crypto';
 import { NextRequest, NextResponse } from 'next/server';
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import {
+    SESSION_COOKIE,
+    createSessionToken,
+    verifySessionToken,
+    getSessionCookieOptions,
+} from '@/lib/auth/session';
+import { ACCOUNT_MAX_FAILURES, getLockoutSeconds, recordFailedLogin, clearFailedLogins } from '@/lib/auth/login-throttle';
+import { BOOTSTRAP_ADMIN_ID, authenticateAdminUser, hasAdminUsers, normalizeUsername } from '@/lib/auth/admin-users';
+import { authorizeAdmin, AdminActor } from '@/lib/auth/authorize';
+import { revokeSession } from '@/lib/auth/revoked-sessions';
 
+function getDb() {
+    if (!getApps().length) {
+        const projectId = process.env.FIREBASE_PROJECT_ID || process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+        if (process.env.FIREBASE_SERVICE_ACCOUNT_KEY) {
+            const serviceAccount = JSON.parse(process.env.FIREBASE_SERVICE_ACCOUNT_KEY);
+            initializeApp({ credential: cert(serviceAccount), projectId });
+        } else {
+            initializeApp({ projectId });
+        }
+    }
+    return getFirestore();
+}
+
+// Compare digests so the check takes the same time whatever the input
+function passwordMatches(password: string, expected: string): boolean {
+    const a = createHash('sha256').update(password).digest();
+    const b = createHash('sha256').update(expected).digest();
+    return timingSafeEqual(a, b);
+}
+
+// The address our proxy saw. Vercel sets x-real-ip itself; otherwise take the last
+// x-forwarded-for hop, since the client can put anything in the earlier ones
+function getClientKey(request: NextRequest): string {
+    const ip = request.headers.get('x-real-ip')
+        || request.headers.get('x-forwarded-for')?.split(',').pop()?.trim()
+        || 'unknown';
+    return `ip:${ip}`;
+}
+
+// Failures against one account are also counted across every client
+function getAccountKey(username: unknown): string {
+    const userId = typeof username === 'string' ? normalizeUsername(username) : '';
+    return `account:${userId || BOOTSTRAP_ADMIN_ID}`;
+}
+
+function tooManyAttempts(retryAfter: number) {
+    return NextResponse.json(
+        { error: `Too many failed attempts. Try again in ${Math.ceil(retryAfter / 60)} minutes.` },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+    );
+}
+
+// GET - Check the current session and who it belongs to
+export async function GET(request: NextRequest) {
+    try {
+        const { actor, denied } = await authorizeAdmin(getDb(), request);
+        if (denied) {
+            return NextResponse.json({ authenticated: false }, { status: 401 });
+        }
+
+        const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+        return NextResponse.json({
+            authenticated: true,
+            user: actor,
+            expiresAt: session ? session.exp * 1000 : null,
+        });
+    } catch (error: any) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
+
+// POST - Sign in with a username and password
+// Until the first account is created, the shared ADMIN_PASSWORD signs in as a temporary owner
 export async function POST(request: NextRequest) {
+    let username: unknown;
+    let password: unknown;
     try {
-        const { password } = await request.json();
-        const adminPassword = process.env.ADMIN_PASSWORD;
+        ({ username, password } = await request.json());
+    } catch {
+        return NextResponse.json({ error: 'Invalid request' }, { status: 400 });
+    }
 
-        if (!adminPassword) {
-            console.error('ADMIN_PASSWORD not configured');
-            return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    if (!process.env.ADMIN_SESSION_SECRET) {
+        console.error('ADMIN_SESSION_SECRET not configured');
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+
+    try {
+        const db = getDb();
+        const clientKey = getClientKey(request);
+        const accountKey = getAccountKey(username);
+
+        const lockout = Math.max(
+            await getLockoutSeconds(db, clientKey),
+            await getLockoutSeconds(db, accountKey)
+        );
+        if (lockout > 0) {
+            return tooManyAttempts(lockout);
         }
 
-        if (password === adminPassword) {
-            return NextResponse.json({ success: true });
+        let actor: AdminActor | null = null;
+        if (typeof password === 'string') {
+            if (await hasAdminUsers(db)) {
+                const user = typeof username === 'string'
+                    ? await authenticateAdminUser(db, username, password)
+                    : null;
+                if (user) {
+                    actor = { id: user.id, name: user.name, role: user.role };
+                }
+            } else {
+                const adminPassword = process.env.ADMIN_PASSWORD;
+                if (adminPassword && passwordMatches(password, adminPassword)) {
+                    actor = { id: BOOTSTRAP_ADMIN_ID, name: 'Owner (setup)', role: 'owner' };
+                }
+            }
         }
 
-        return NextResponse.json({ error: 'Invalid password' }, { status: 401 });
-    } catch (error) {
-        return NextResponse.json({ error: 'Invalid request' }, { status: 400 });
+        if (!actor) {
+            const lockedFor = Math.max(
+                await recordFailedLogin(db, clientKey),
+                await recordFailedLogin(db, accountKey, ACCOUNT_MAX_FAILURES)
+            );
+            if (lockedFor > 0) {
+                return tooManyAttempts(lockedFor);
+            }
+            return NextResponse.json({ error: 'Invalid username or password' }, { status: 401 });
+        }
+
+        await clearFailedLogins(db, clientKey);
+        await clearFailedLogins(db, accountKey);
+
+        const response = NextResponse.json({ success: true, user: actor });
+        response.cookies.set(SESSION_COOKIE, await createSessionToken(actor), getSessionCookieOptions());
+        return response;
+    } catch (error: any) {
+        console.error('Admin login error:', error);
+        return NextResponse.json({ error: 'Server error' }, { status: 500 });
+    }
+}
+
+// DELETE - Sign out, revoking the token so a copy of the cookie stops working too
+export async function DELETE(request: NextRequest) {
+    const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+    if (session?.sid) {
+        try {
+            await revokeSession(getDb(), session);
+        } catch (error: any) {
+            console.error('Failed to revoke admin session:', error);
+            return NextResponse.json({ error: 'Server error' }, { status: 500 });
+        }
     }
+
+    const response = NextResponse.json({ success: true });
+    response.cookies.set(SESSION_COOKIE, '', getSessionCookieOptions(0));
+    return response;
 }
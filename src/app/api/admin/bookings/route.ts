@@ -1,7 +1,7 @@
 // Admin Bookings API
 import { NextRequest, NextResponse } from 'next/server';
 import { initializeApp, getApps, cert } from 'firebase-admin/app';
-import { getFirestore } from 'firebase-admin/firestore';
+import { getFirestore, Firestore } from 'firebase-admin/firestore';
 import {
     getAllBookings,
     getBookingsForDate,
@@ -12,9 +12,21 @@ import {
     getBookingById,
     createBooking,
 } from '@/lib/sms/booking-handler';
-import { sendSms } from '@/lib/sms/twilio-sender';
+import { enqueueSms } from '@/lib/sms/outbox';
 import { getAdminCancelledTemplate, getAdminRescheduledTemplate } from '@/lib/sms/templates';
-import { formatDate } from '@/lib/sms/date-utils';
+import { formatDate, formatDateShort, fromDateKey } from '@/lib/sms/date-utils';
+import { getLoanItems } from '@/lib/sms/loan-items';
+import { getBookingChanges } from '@/lib/sms/booking-history';
+import { suggestAlternativeSlots } from '@/lib/sms/blocked-bookings';
+import { offerFreedSlots } from '@/lib/sms/waitlist';
+import { getScheduleConfig } from '@/lib/sms/schedule-config';
+import { getReturnStatus } from '@/lib/sms/return-reminders';
+import { clearDeliveryProblem } from '@/lib/sms/delivery-status';
+import { getOptedOutPhones } from '@/lib/sms/consent';
+import { cancelPickupsForBooking } from '@/lib/sms/pickup-appointments';
+import type { Booking, BookingActor } from '@/lib/sms/types';
+import { authorizeAdmin } from '@/lib/auth/authorize';
+import type { AdminAction } from '@/lib/auth/roles';
 
 function getDb() {
     if (!getApps().length) {
@@ -29,6 +41,18 @@ function getDb() {
     return getFirestore();
 }
 
+// Text the waitlist about a freed place - a failure here never fails the change itself
+async function notifyWaitlist(db: Firestore, date: Date) {
+    await offerFreedSlots(db, date).catch((error) => {
+        console.error('Failed to offer freed slot to waitlist:', error);
+    });
+}
+
+// Older bookings predate per-item tracking, so always hand the dashboard an item list
+function withLoanItems(booking: Booking) {
+    return { ...booking, items: getLoanItems(booking) };
+}
+
 // GET - Fetch bookings or statistics
 export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
@@ -38,9 +62,20 @@ export async function GET(request: NextRequest) {
     const unpaid = searchParams.get('unpaid') === 'true';
     const stats = searchParams.get('stats') === 'true';
     const upcoming = searchParams.get('upcoming') === 'true';
+    const history = searchParams.get('history');
 
     try {
         const db = getDb();
+        const { denied } = await authorizeAdmin(db, request);
+        if (denied) {
+            return denied;
+        }
+
+        // Change log for one booking (shown in the edit modal)
+        if (history) {
+            const changes = await getBookingChanges(db, history);
+            return NextResponse.json({ changes });
+        }
 
         // Return statistics if requested
         if (stats) {
@@ -55,36 +90,112 @@ export async function GET(request: NextRequest) {
             });
         }
 
-        // Return upcoming Wednesday and Motzei Shabbos appointments
+        // Return appointments for the next occurrence of each open day
         if (upcoming) {
             const upcomingData = await getUpcomingAppointments(db);
             return NextResponse.json({ upcoming: upcomingData });
         }
 
         if (date) {
-            const bookings = await getBookingsForDate(db, new Date(date));
-            return NextResponse.json({ bookings });
+            const bookings = await getBookingsForDate(db, fromDateKey(date));
+            return NextResponse.json({ bookings: bookings.map(withLoanItems) });
+        }
+
+        // Customers who texted STOP get no reminders - the lists below mark them
+        const optedOut = await getOptedOutPhones(db);
+        const withConsent = (booking: Booking) => ({
+            ...withLoanItems(booking),
+            smsOptedOut: optedOut.has(booking.customerPhone),
+        });
+
+        // Items still out, most days late first, with the overdue flag
+        if (outstanding) {
+            const config = await getScheduleConfig(db);
+            const bookings = await getAllBookings(db, { status: status || 'all', outstandingGowns: true });
+            const withStatus = bookings
+                .map(booking => ({ ...withConsent(booking), ...getReturnStatus(booking, config.returnReminders) }))
+                .sort((a, b) => b.daysLate - a.daysLate);
+            return NextResponse.json({ bookings: withStatus });
         }
 
         const bookings = await getAllBookings(db, {
             status: status || 'all',
-            outstandingGowns: outstanding,
             unpaid: unpaid,
             limit: 100,
         });
 
-        return NextResponse.json({ bookings });
+        return NextResponse.json({ bookings: bookings.map(withConsent) });
     } catch (error: any) {
         return NextResponse.json({ error: error.message }, { status: 500 });
     }
 }
 
+// Cancel a booking with its pickup and return, and text the customer (with open
+// slots to move to, when it was cancelled because the date was blocked)
+async function cancelAndNotify(
+    db: Firestore,
+    bookingId: string,
+    actor: BookingActor,
+    offerAlternatives: boolean = false
+): Promise<Booking | null> {
+    const booking = await cancelBooking(db, bookingId, actor);
+    if (booking) {
+        await cancelPickupsForBooking(db, booking.id, actor);
+        const alternatives = offerAlternatives
+            ? (await suggestAlternativeSlots(db, booking, 2)).map(slot => slot.label)
+            : undefined;
+        await enqueueSms(db, {
+            to: booking.customerPhone,
+            body: getAdminCancelledTemplate({
+                name: booking.customerName,
+                date: formatDateShort(booking.appointmentDate.toDate()),
+                alternatives,
+            }),
+            type: 'booking-cancelled',
+            bookingId: booking.id,
+        });
+        await notifyWaitlist(db, booking.appointmentDate.toDate());
+    }
+    return booking;
+}
+
+// Move a booking and text the customer the new time
+async function rescheduleAndNotify(
+    db: Firestore,
+    bookingId: string,
+    newDate: string,
+    newSlotTime: string,
+    actor: BookingActor
+): Promise<Booking | null> {
+    const previous = await getBookingById(db, bookingId);
+    const booking = await rescheduleBooking(db, bookingId, fromDateKey(newDate), newSlotTime, actor);
+    if (booking) {
+        await enqueueSms(db, {
+            to: booking.customerPhone,
+            body: getAdminRescheduledTemplate({
+                name: booking.customerName,
+                newDate: formatDateShort(booking.appointmentDate.toDate()),
+                newTime: newSlotTime,
+            }),
+            type: 'booking-rescheduled',
+            bookingId: booking.id,
+        });
+        if (previous) {
+            await notifyWaitlist(db, previous.appointmentDate.toDate());
+        }
+    }
+    return booking;
+}
+
 // POST - Create new booking
 export async function POST(request: NextRequest) {
     try {
         const { customerName, customerPhone, appointmentDate, slotTime, groupSize, weddingDate, notes } = await request.json();
         const db = getDb();
 
+        const { actor, denied } = await authorizeAdmin(db, request, 'bookings:create');
+        if (denied) return denied;
+
         // Normalize phone number
         let normalizedPhone = customerPhone.replace(/\D/g, '');
         if (normalizedPhone.length === 10) {
@@ -96,15 +207,15 @@ export async function POST(request: NextRequest) {
         const booking = await createBooking(db, {
             customerName,
             customerPhone: normalizedPhone,
-            appointmentDate: new Date(appointmentDate + 'T12:00:00'),
+            appointmentDate: fromDateKey(appointmentDate),
             slotTime,
             groupSize: Number(groupSize),
-            weddingDate: new Date(weddingDate + 'T12:00:00'),
-        });
+            weddingDate: fromDateKey(weddingDate),
+        }, actor);
 
         // Update with notes if provided
         if (notes) {
-            await updateBooking(db, booking.id, { notes });
+            await updateBooking(db, booking.id, { notes }, actor);
         }
 
         return NextResponse.json({ success: true, booking });
@@ -116,47 +227,72 @@ export async function POST(request: NextRequest) {
 // PATCH - Update booking
 export async function PATCH(request: NextRequest) {
     try {
-        const { bookingId, action, updates, newDate, newSlotTime } = await request.json();
+        const { bookingId, bookingIds, moves, action, updates, newDate, newSlotTime } = await request.json();
         const db = getDb();
 
+        const permissions: Record<string, AdminAction> = {
+            cancel: 'bookings:cancel',
+            cancelMany: 'bookings:cancel',
+            reschedule: 'bookings:reschedule',
+            rescheduleMany: 'bookings:reschedule',
+            update: 'bookings:update',
+            clearDeliveryProblem: 'bookings:update',
+        };
+        if (!permissions[action]) {
+            return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+        }
+
+        const { actor, denied } = await authorizeAdmin(db, request, permissions[action]);
+        if (denied) return denied;
+
         if (action === 'cancel') {
-            const booking = await cancelBooking(db, bookingId);
-            if (booking) {
-                // Send SMS notification
-                const dateStr = booking.appointmentDate.toDate().toLocaleDateString('en-US', {
-                    weekday: 'short', month: 'short', day: 'numeric'
-                });
-                await sendSms(
-                    booking.customerPhone,
-                    getAdminCancelledTemplate({ name: booking.customerName, date: dateStr })
-                );
-            }
+            const booking = await cancelAndNotify(db, bookingId, actor);
             return NextResponse.json({ success: true, booking });
         }
 
         if (action === 'reschedule') {
-            const booking = await rescheduleBooking(db, bookingId, new Date(newDate), newSlotTime);
-            if (booking) {
-                const dateStr = booking.appointmentDate.toDate().toLocaleDateString('en-US', {
-                    weekday: 'short', month: 'short', day: 'numeric'
-                });
-                await sendSms(
-                    booking.customerPhone,
-                    getAdminRescheduledTemplate({
-                        name: booking.customerName,
-                        newDate: dateStr,
-                        newTime: newSlotTime
-                    })
-                );
-            }
+            const booking = await rescheduleAndNotify(db, bookingId, newDate, newSlotTime, actor);
             return NextResponse.json({ success: true, booking });
         }
 
+        // Bookings caught by a blocked date - each one succeeds or fails on its own
+        if (action === 'cancelMany') {
+            const results = [];
+            for (const id of bookingIds as string[]) {
+                try {
+                    await cancelAndNotify(db, id, actor, true);
+                    results.push({ bookingId: id, success: true });
+                } catch (error: any) {
+                    results.push({ bookingId: id, success: false, error: error.message });
+                }
+            }
+            return NextResponse.json({ success: results.every(r => r.success), results });
+        }
+
+        if (action === 'rescheduleMany') {
+            const results = [];
+            for (const move of moves as { bookingId: string; newDate: string; newSlotTime: string }[]) {
+                try {
+                    await rescheduleAndNotify(db, move.bookingId, move.newDate, move.newSlotTime, actor);
+                    results.push({ bookingId: move.bookingId, success: true });
+                } catch (error: any) {
+                    results.push({ bookingId: move.bookingId, success: false, error: error.message });
+                }
+            }
+            return NextResponse.json({ success: results.every(r => r.success), results });
+        }
+
         if (action === 'update') {
-            const booking = await updateBooking(db, bookingId, updates);
+            const booking = await updateBooking(db, bookingId, updates, actor);
             return NextResponse.json({ success: true, booking });
         }
 
+        // The customer was reached some other way after a text didn't arrive
+        if (action === 'clearDeliveryProblem') {
+            await clearDeliveryProblem(db, bookingId);
+            return NextResponse.json({ success: true });
+        }
+
         return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
     } catch (error: any) {
         return NextResponse.json({ error: error.message }, { status: 500 });
@@ -0,0 +1,164 @@
+// Admin Gowns API - Manage the tagged gown inventory
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import {
+    getGowns,
+    getGownById,
+    createGown,
+    updateGown,
+    deleteGown,
+} from '@/lib/sms/gown-inventory';
+import { getGownsFreeForWedding, refreshGownStatus } from '@/lib/sms/gown-reservations';
+import { fromDateKey } from '@/lib/sms/date-utils';
+import { getGownEvents, logGownEvent } from '@/lib/sms/gown-history';
+import { GOWN_EVENT_TYPES, GownEventType } from '@/lib/sms/types';
+import { authorizeAdmin } from '@/lib/auth/authorize';
+
+function getDb() {
+    if (!getApps().length) {
+        const projectId = process.env.FIREBASE_PROJECT_ID || process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+        if (process.env.FIREBASE_SERVICE_ACCOUNT_KEY) {
+            const serviceAccount = JSON.parse(process.env.FIREBASE_SERVICE_ACCOUNT_KEY);
+            initializeApp({ credential: cert(serviceAccount), projectId });
+        } else {
+            initializeApp({ projectId });
+        }
+    }
+    return getFirestore();
+}
+
+// GET - List gowns, fetch one by ID (with history), or find gowns free for a wedding date
+export async function GET(request: NextRequest) {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+    const freeFor = searchParams.get('freeFor');
+    const status = searchParams.get('status') as any;
+    const size = searchParams.get('size');
+
+    try {
+        const db = getDb();
+        const { denied } = await authorizeAdmin(db, request);
+        if (denied) {
+            return denied;
+        }
+
+        if (id) {
+            const gown = await getGownById(db, id);
+            if (!gown) {
+                return NextResponse.json({ error: 'Gown not found' }, { status: 404 });
+            }
+            const events = await getGownEvents(db, id);
+            return NextResponse.json({ gown, events });
+        }
+
+        // Gowns not promised to anyone whose pickup-to-return window overlaps this wedding
+        if (freeFor) {
+            const gowns = await getGownsFreeForWedding(db, fromDateKey(freeFor), {
+                size: size || undefined,
+            });
+            return NextResponse.json({ gowns });
+        }
+
+        const gowns = await getGowns(db, {
+            status: status || 'all',
+            size: size || undefined,
+        });
+
+        return NextResponse.json({ gowns });
+    } catch (error: any) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
+
+// POST - Add a gown
+export async function POST(request: NextRequest) {
+    try {
+        const { sku, size, silhouette, neckline, sleeve, color, condition, photos, status, notes } = await request.json();
+        const db = getDb();
+
+        const { denied } = await authorizeAdmin(db, request, 'gowns:edit');
+        if (denied) return denied;
+
+        const gown = await createGown(db, {
+            sku,
+            size,
+            silhouette,
+            neckline,
+            sleeve,
+            color,
+            condition,
+            photos: photos || [],
+            status,
+            notes,
+        });
+
+        return NextResponse.json({ success: true, gown });
+    } catch (error: any) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+}
+
+// PATCH - Update a gown and/or log a history event (e.g., a repair)
+export async function PATCH(request: NextRequest) {
+    try {
+        const { gownId, updates = {}, event } = await request.json();
+        const db = getDb();
+
+        const { denied } = await authorizeAdmin(db, request, 'gowns:edit');
+        if (denied) return denied;
+
+        if (event?.type !== undefined && !GOWN_EVENT_TYPES.includes(event.type)) {
+            return NextResponse.json({ error: `Unknown event type: ${event.type}` }, { status: 400 });
+        }
+
+        const previous = await getGownById(db, gownId);
+        if (!previous) {
+            return NextResponse.json({ error: 'Gown not found' }, { status: 404 });
+        }
+
+        let gown = await updateGown(db, gownId, updates);
+
+        // Sending to the cleaner and retiring are recorded in the history automatically
+        let eventType: GownEventType | undefined = event?.type;
+        if (!eventType && updates.status !== previous.status) {
+            if (updates.status === 'cleaning') eventType = 'sent_to_cleaner';
+            if (updates.status === 'retired') eventType = 'retired';
+        }
+        if (eventType) {
+            await logGownEvent(db, gownId, eventType, { notes: event?.notes });
+        }
+
+        // A gown marked available may still be reserved for an upcoming wedding
+        if (updates.status) {
+            await refreshGownStatus(db, gownId);
+            gown = await getGownById(db, gownId);
+        }
+
+        return NextResponse.json({ success: true, gown });
+    } catch (error: any) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
+
+// DELETE - Remove a gown from the inventory
+export async function DELETE(request: NextRequest) {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id) {
+        return NextResponse.json({ error: 'id parameter required' }, { status: 400 });
+    }
+
+    try {
+        const db = getDb();
+
+        const { denied } = await authorizeAdmin(db, request, 'gowns:edit');
+        if (denied) return denied;
+
+        await deleteGown(db, id);
+        return NextResponse.json({ success: true });
+    } catch (error: any) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+}
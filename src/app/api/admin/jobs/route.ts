@@ -0,0 +1,69 @@
+// Admin Jobs API - scheduled jobs and their recent runs
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import { JOBS, getJob } from '@/lib/jobs/registry';
+import { claimJobRun, describeSchedule, getRecentJobRuns, runJob } from '@/lib/jobs/job-runs';
+import { authorizeAdmin } from '@/lib/auth/authorize';
+
+function getDb() {
+    if (!getApps().length) {
+        const projectId = process.env.FIREBASE_PROJECT_ID || process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+        if (process.env.FIREBASE_SERVICE_ACCOUNT_KEY) {
+            const serviceAccount = JSON.parse(process.env.FIREBASE_SERVICE_ACCOUNT_KEY);
+            initializeApp({ credential: cert(serviceAccount), projectId });
+        } else {
+            initializeApp({ projectId });
+        }
+    }
+    return getFirestore();
+}
+
+// GET - Every job with its schedule and last run, plus the recent run log
+export async function GET(request: NextRequest) {
+    const { searchParams } = new URL(request.url);
+    const jobId = searchParams.get('jobId') || undefined;
+
+    try {
+        const db = getDb();
+        const { denied } = await authorizeAdmin(db, request);
+        if (denied) {
+            return denied;
+        }
+        const runs = await getRecentJobRuns(db, 50, jobId);
+        const jobs = await Promise.all(JOBS.map(async job => ({
+            id: job.id,
+            name: job.name,
+            description: job.description,
+            schedule: describeSchedule(job.schedule),
+            lastRun: runs.find(run => run.jobId === job.id) || (await getRecentJobRuns(db, 1, job.id))[0] || null,
+        })));
+
+        return NextResponse.json({ jobs, runs });
+    } catch (error: any) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
+
+// POST - Run a job now (counts as today's run for daily and weekly jobs)
+export async function POST(request: NextRequest) {
+    try {
+        const { jobId } = await request.json();
+        const db = getDb();
+
+        const { denied } = await authorizeAdmin(db, request, 'schedule:edit');
+        if (denied) return denied;
+
+        const job = getJob(jobId);
+        if (!job) {
+            return NextResponse.json({ error: 'Unknown job' }, { status: 400 });
+        }
+
+        const now = new Date();
+        await claimJobRun(db, job, now, true);
+        const run = await runJob(db, job, now, 'manual');
+        return NextResponse.json({ success: run.status !== 'failed', run });
+    } catch (error: any) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
@@ -0,0 +1,54 @@
+// Admin Outbox API - texts that haven't gone out yet, and retrying failed ones
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import { getUndeliveredMessages, retryMessage } from '@/lib/sms/outbox';
+import { authorizeAdmin } from '@/lib/auth/authorize';
+
+function getDb() {
+    if (!getApps().length) {
+        const projectId = process.env.FIREBASE_PROJECT_ID || process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+        if (process.env.FIREBASE_SERVICE_ACCOUNT_KEY) {
+            const serviceAccount = JSON.parse(process.env.FIREBASE_SERVICE_ACCOUNT_KEY);
+            initializeApp({ credential: cert(serviceAccount), projectId });
+        } else {
+            initializeApp({ projectId });
+        }
+    }
+    return getFirestore();
+}
+
+// GET - Failed texts and ones still being retried
+export async function GET(request: NextRequest) {
+    try {
+        const db = getDb();
+        const { denied } = await authorizeAdmin(db, request);
+        if (denied) {
+            return denied;
+        }
+        const messages = await getUndeliveredMessages(db);
+        return NextResponse.json({ messages });
+    } catch (error: any) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
+
+// PATCH - Try a failed text again
+export async function PATCH(request: NextRequest) {
+    try {
+        const { action, messageId } = await request.json();
+        const db = getDb();
+
+        if (action !== 'retry') {
+            return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+        }
+
+        const { denied } = await authorizeAdmin(db, request, 'bookings:update');
+        if (denied) return denied;
+
+        const message = await retryMessage(db, messageId);
+        return NextResponse.json({ success: message?.status === 'sent', message });
+    } catch (error: any) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+}
@@ -0,0 +1,130 @@
+// Admin Pickups API - gown pickup and return appointments
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import { getBookingById } from '@/lib/sms/booking-handler';
+import {
+    cancelPickup,
+    getPickupOptions,
+    getPickupsForBooking,
+    getPickupsInRange,
+    schedulePickup,
+    PickupKind,
+} from '@/lib/sms/pickup-appointments';
+import { getScheduleConfig } from '@/lib/sms/schedule-config';
+import { enqueueSms } from '@/lib/sms/outbox';
+import { getPickupConfirmedTemplate } from '@/lib/sms/templates';
+import { formatDateShort, fromDateKey, toDateKey } from '@/lib/sms/date-utils';
+import { authorizeAdmin } from '@/lib/auth/authorize';
+
+function getDb() {
+    if (!getApps().length) {
+        const projectId = process.env.FIREBASE_PROJECT_ID || process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+        if (process.env.FIREBASE_SERVICE_ACCOUNT_KEY) {
+            const serviceAccount = JSON.parse(process.env.FIREBASE_SERVICE_ACCOUNT_KEY);
+            initializeApp({ credential: cert(serviceAccount), projectId });
+        } else {
+            initializeApp({ projectId });
+        }
+    }
+    return getFirestore();
+}
+
+// GET - Pickups in a date range, or one booking's pickups with times it could book
+export async function GET(request: NextRequest) {
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    const bookingId = searchParams.get('bookingId');
+    const kind = (searchParams.get('kind') || 'pickup') as PickupKind;
+
+    try {
+        const db = getDb();
+        const { denied } = await authorizeAdmin(db, request);
+        if (denied) {
+            return denied;
+        }
+
+        if (bookingId) {
+            const booking = await getBookingById(db, bookingId);
+            if (!booking) {
+                return NextResponse.json({ error: 'Booking not found' }, { status: 404 });
+            }
+            const config = await getScheduleConfig(db);
+            const options = await getPickupOptions(db, booking, kind, config, 5);
+            return NextResponse.json({
+                pickups: await getPickupsForBooking(db, bookingId),
+                options: options.map(option => ({
+                    date: toDateKey(option.date),
+                    label: formatDateShort(option.date),
+                    slots: option.slots,
+                })),
+            });
+        }
+
+        if (!from || !to) {
+            return NextResponse.json({ error: 'from and to are required' }, { status: 400 });
+        }
+        const pickups = await getPickupsInRange(db, fromDateKey(from), fromDateKey(to));
+        return NextResponse.json({ pickups });
+    } catch (error: any) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
+
+// POST - Book (or move) a pickup or return and text the customer
+export async function POST(request: NextRequest) {
+    try {
+        const { bookingId, kind, date, slotTime } = await request.json();
+        const db = getDb();
+
+        const { actor, denied } = await authorizeAdmin(db, request, 'bookings:update');
+        if (denied) return denied;
+
+        const appointment = await schedulePickup(db, {
+            bookingId,
+            kind,
+            date: fromDateKey(date),
+            slotTime,
+        }, actor);
+
+        await enqueueSms(db, {
+            to: appointment.customerPhone,
+            body: getPickupConfirmedTemplate({
+                name: appointment.customerName,
+                kind: appointment.kind,
+                date: formatDateShort(appointment.date.toDate()),
+                time: appointment.slotTime,
+            }),
+            type: 'pickup-confirmed',
+            bookingId: appointment.bookingId,
+        });
+
+        return NextResponse.json({ success: true, appointment });
+    } catch (error: any) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+}
+
+// PATCH - Cancel a pickup or return
+export async function PATCH(request: NextRequest) {
+    try {
+        const { action, appointmentId } = await request.json();
+        const db = getDb();
+
+        if (action !== 'cancel') {
+            return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+        }
+
+        const { actor, denied } = await authorizeAdmin(db, request, 'bookings:cancel');
+        if (denied) return denied;
+
+        const appointment = await cancelPickup(db, appointmentId, actor);
+        if (!appointment) {
+            return NextResponse.json({ error: 'Pickup not found' }, { status: 404 });
+        }
+        return NextResponse.json({ success: true, appointment });
+    } catch (error: any) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
@@ -3,12 +3,29 @@ import { NextRequest, NextResponse } from 'next/server';
 import { initializeApp, getApps, cert } from 'firebase-admin/app';
 import { getFirestore } from 'firebase-admin/firestore';
 import {
+    ScheduleConfig,
     getScheduleConfig,
     updateScheduleConfig,
     getBlockedDates,
     blockDate,
     unblockDate,
+    getDateOverrides,
+    addExtraSession,
+    removeDateOverride,
 } from '@/lib/sms/schedule-config';
+import { getUpcomingClosures } from '@/lib/sms/jewish-calendar';
+import { fromDateKey, toDateKey } from '@/lib/sms/date-utils';
+import {
+    BlockRule,
+    getBlockRules,
+    addBlockRule,
+    removeBlockRule,
+    describeBlockRule,
+    expandBlockRule,
+} from '@/lib/sms/block-rules';
+import { getAffectedBookings, getAffectedBookingsForRule } from '@/lib/sms/blocked-bookings';
+import { authorizeAdmin } from '@/lib/auth/authorize';
+import { getAssistantConfig } from '@/lib/vapi/assistant-config';
 
 function getDb() {
     if (!getApps().length) {
@@ -23,6 +40,56 @@ function getDb() {
     return getFirestore();
 }
 
+// The phone agent's prompt lists hours and slots, so push the new schedule to Vapi
+// (null when no assistant is configured)
+async function syncVapiAssistant(config: ScheduleConfig): Promise<boolean | null> {
+    const apiKey = process.env.VAPI_API_KEY;
+    const assistantId = process.env.VAPI_ASSISTANT_ID;
+    if (!apiKey || !assistantId) return null;
+
+    const serverUrl = process.env.VERCEL_URL
+        ? `https://${process.env.VERCEL_URL}`
+        : process.env.NEXT_PUBLIC_URL || 'http://localhost:3000';
+
+    try {
+        const response = await fetch(`https://api.vapi.ai/assistant/${assistantId}`, {
+            method: 'PATCH',
+            headers: {
+                'Authorization': `Bearer ${apiKey}`,
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ model: getAssistantConfig(serverUrl, config).model }),
+        });
+        if (!response.ok) {
+            console.error('[SCHEDULE] Failed to update Vapi assistant:', await response.text());
+        }
+        return response.ok;
+    } catch (error) {
+        console.error('[SCHEDULE] Failed to update Vapi assistant:', error);
+        return false;
+    }
+}
+
+// Yom Tov and other calendar closures for the next three months
+function getCalendarClosures(config: ScheduleConfig) {
+    return getUpcomingClosures(new Date(), 90, config.calendar).map(closure => ({
+        dateStr: toDateKey(closure.date),
+        reason: closure.reason,
+    }));
+}
+
+// Recurring rules with the dates they close in the next six months
+// How far ahead a recurring block's dates are listed and checked for bookings
+const RULE_LOOKAHEAD_DAYS = 180;
+
+function withUpcomingDates(rule: BlockRule) {
+    return {
+        ...rule,
+        description: describeBlockRule(rule),
+        upcomingDates: expandBlockRule(rule, new Date(), RULE_LOOKAHEAD_DAYS),
+    };
+}
+
 // GET - Get schedule config and blocked dates
 export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
@@ -30,17 +97,24 @@ export async function GET(request: NextRequest) {
 
     try {
         const db = getDb();
+        const { denied } = await authorizeAdmin(db, request);
+        if (denied) {
+            return denied;
+        }
 
         if (type === 'blocked') {
             const blockedDates = await getBlockedDates(db, { futureOnly: true });
             return NextResponse.json({ blockedDates });
         }
 
-        // Default: return config and upcoming blocked dates
+        // Default: return config, upcoming blocked dates, block rules, extra sessions and calendar closures
         const config = await getScheduleConfig(db);
         const blockedDates = await getBlockedDates(db, { futureOnly: true, limit: 50 });
+        const blockRules = (await getBlockRules(db)).map(withUpcomingDates);
+        const dateOverrides = await getDateOverrides(db, { futureOnly: true, limit: 50 });
+        const calendarClosures = getCalendarClosures(config);
 
-        return NextResponse.json({ config, blockedDates });
+        return NextResponse.json({ config, blockedDates, blockRules, dateOverrides, calendarClosures });
     } catch (error: any) {
         return NextResponse.json({ error: error.message }, { status: 500 });
     }
@@ -52,19 +126,53 @@ export async function POST(request: NextRequest) {
         const { action, ...data } = await request.json();
         const db = getDb();
 
+        const { denied } = await authorizeAdmin(db, request, 'schedule:edit');
+        if (denied) return denied;
+
         if (action === 'updateConfig') {
-            const { wednesday, saturday } = data;
-            const config = await updateScheduleConfig(db, { wednesday, saturday });
-            return NextResponse.json({ success: true, config });
+            const config = await updateScheduleConfig(db, { ...data.days, calendar: data.calendar, pickups: data.pickups, returnReminders: data.returnReminders });
+            const assistantSynced = await syncVapiAssistant(config);
+            const calendarClosures = getCalendarClosures(config);
+            return NextResponse.json({ success: true, config, assistantSynced, calendarClosures });
         }
 
         if (action === 'blockDate') {
             const { date, reason, blockedSlots } = data;
-            const blocked = await blockDate(db, new Date(date + 'T12:00:00'), {
+            const blocked = await blockDate(db, fromDateKey(date), {
                 reason,
                 blockedSlots,
             });
-            return NextResponse.json({ success: true, blocked });
+
+            // Bookings already on the blocked date or slots, for the admin to cancel or move
+            const affectedBookings = await getAffectedBookings(db, blocked.date.toDate(), blocked.blockedSlots);
+            return NextResponse.json({ success: true, blocked, affectedBookings });
+        }
+
+        if (action === 'addBlockRule') {
+            const { pattern, reason } = data;
+            const rule = await addBlockRule(db, pattern, reason);
+
+            // Bookings already on the dates the rule closes, for the admin to cancel or move
+            const affectedBookings = await getAffectedBookingsForRule(db, rule, RULE_LOOKAHEAD_DAYS);
+            return NextResponse.json({ success: true, rule: withUpcomingDates(rule), affectedBookings });
+        }
+
+        if (action === 'removeBlockRule') {
+            const { ruleId } = data;
+            await removeBlockRule(db, ruleId);
+            return NextResponse.json({ success: true });
+        }
+
+        if (action === 'addSession') {
+            const { date, start, end, reason } = data;
+            const override = await addExtraSession(db, fromDateKey(date), { start, end }, reason);
+            return NextResponse.json({ success: true, override });
+        }
+
+        if (action === 'removeSessions') {
+            const { dateStr } = data;
+            await removeDateOverride(db, dateStr);
+            return NextResponse.json({ success: true });
         }
 
         if (action === 'unblockDate') {
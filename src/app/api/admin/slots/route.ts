@@ -3,7 +3,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { initializeApp, getApps, cert } from 'firebase-admin/app';
 import { getFirestore } from 'firebase-admin/firestore';
 import { getAvailableSlotsForDate } from '@/lib/sms/booking-handler';
-import { getConfiguredSlotsForDate, getScheduleConfig } from '@/lib/sms/schedule-config';
+import { BUSINESS_TIME_ZONE, fromDateKey, getBusinessDay } from '@/lib/sms/date-utils';
+import { describeOpenDays, getConfiguredSlotsForDate, getOpenDay, getScheduleConfig } from '@/lib/sms/schedule-config';
+import { authorizeAdmin } from '@/lib/auth/authorize';
 
 function getDb() {
     if (!getApps().length) {
@@ -22,25 +24,29 @@ function getDb() {
 export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const dateStr = searchParams.get('date');
+    const groupSize = Number(searchParams.get('groupSize')) || 1;
 
     if (!dateStr) {
         return NextResponse.json({ error: 'Date parameter required' }, { status: 400 });
     }
 
     try {
-        const date = new Date(dateStr + 'T12:00:00');
-        const dayOfWeek = date.getDay();
+        const date = fromDateKey(dateStr);
+        const dayOfWeek = getBusinessDay(date);
         const db = getDb();
+        const { denied } = await authorizeAdmin(db, request);
+        if (denied) {
+            return denied;
+        }
 
-        // Get schedule config
+        // Weekly schedule plus any extra sessions, respecting blocked dates
         const config = await getScheduleConfig(db);
+        const configuredSlots = await getConfiguredSlotsForDate(db, date);
+        const openDay = getOpenDay(config, date);
 
-        // Check if it's a valid appointment day based on config
-        const dayConfig = dayOfWeek === 3 ? config.wednesday : dayOfWeek === 6 ? config.saturday : null;
-
-        if (!dayConfig || !dayConfig.enabled) {
+        if (configuredSlots.allSlots.length === 0) {
             return NextResponse.json({
-                error: 'Appointments are only available on Wednesday or Saturday',
+                error: `Appointments are only available on ${describeOpenDays(config)}`,
                 dayOfWeek,
                 slots: [],
                 allSlots: [],
@@ -48,23 +54,26 @@ export async function GET(request: NextRequest) {
             });
         }
 
-        // Get configured slots (respecting blocked dates)
-        const configuredSlots = await getConfiguredSlotsForDate(db, date);
+        const dayName = openDay?.name || date.toLocaleDateString('en-US', { weekday: 'long', timeZone: BUSINESS_TIME_ZONE });
+        const extraSession = configuredSlots.override
+            ? { reason: configuredSlots.override.reason || null }
+            : null;
 
         if (configuredSlots.blocked) {
             return NextResponse.json({
                 date: dateStr,
                 dayOfWeek,
-                dayName: dayOfWeek === 3 ? 'Wednesday' : 'Saturday',
+                dayName,
                 slots: [],
-                allSlots: [...dayConfig.slots],
+                allSlots: configuredSlots.allSlots,
                 blocked: true,
                 blockReason: configuredSlots.reason,
+                extraSession,
             });
         }
 
         // Filter out already booked slots
-        const availableSlots = await getAvailableSlotsForDate(db, date);
+        const availableSlots = await getAvailableSlotsForDate(db, date, groupSize);
 
         // Intersection of configured slots and not-yet-booked slots
         const finalSlots = configuredSlots.slots.filter(slot => availableSlots.includes(slot));
@@ -72,10 +81,11 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({
             date: dateStr,
             dayOfWeek,
-            dayName: dayOfWeek === 3 ? 'Wednesday' : 'Saturday',
+            dayName,
             slots: finalSlots,
-            allSlots: [...dayConfig.slots],
+            allSlots: configuredSlots.allSlots,
             blocked: false,
+            extraSession,
         });
     } catch (error: any) {
         return NextResponse.json({ error: error.message }, { status: 500 });
@@ -0,0 +1,75 @@
+// Admin Users API - Manage dashboard accounts (owners only)
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import { getAdminUsers, createAdminUser, updateAdminUser } from '@/lib/auth/admin-users';
+import { authorizeAdmin } from '@/lib/auth/authorize';
+
+function getDb() {
+    if (!getApps().length) {
+        const projectId = process.env.FIREBASE_PROJECT_ID || process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+        if (process.env.FIREBASE_SERVICE_ACCOUNT_KEY) {
+            const serviceAccount = JSON.parse(process.env.FIREBASE_SERVICE_ACCOUNT_KEY);
+            initializeApp({ credential: cert(serviceAccount), projectId });
+        } else {
+            initializeApp({ projectId });
+        }
+    }
+    return getFirestore();
+}
+
+// GET - List accounts
+export async function GET(request: NextRequest) {
+    try {
+        const db = getDb();
+
+        const { denied } = await authorizeAdmin(db, request, 'users:manage');
+        if (denied) return denied;
+
+        const users = await getAdminUsers(db);
+        return NextResponse.json({ users });
+    } catch (error: any) {
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
+
+// POST - Add an account
+export async function POST(request: NextRequest) {
+    try {
+        const { username, name, role, password } = await request.json();
+        const db = getDb();
+
+        const { denied } = await authorizeAdmin(db, request, 'users:manage');
+        if (denied) return denied;
+
+        const user = await createAdminUser(db, { username, name, role, password });
+        return NextResponse.json({ success: true, user });
+    } catch (error: any) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+}
+
+// PATCH - Change an account's name, role, password or active flag
+export async function PATCH(request: NextRequest) {
+    try {
+        const { userId, updates = {} } = await request.json();
+        const db = getDb();
+
+        const { denied } = await authorizeAdmin(db, request, 'users:manage');
+        if (denied) return denied;
+
+        const user = await updateAdminUser(db, userId, {
+            name: updates.name,
+            role: updates.role,
+            password: updates.password,
+            active: updates.active,
+        });
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true, user });
+    } catch (error: any) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+}
@@ -0,0 +1,55 @@
+// Cron entrypoint - runs every scheduled job that is due (see lib/jobs/registry)
+// Called every 15 minutes; each run is recorded in jobRuns. Vercel only runs
+// sub-daily crons on Pro plans - see CRON_SECRET in .env.example for Hobby.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+
+import { JOBS } from '@/lib/jobs/registry';
+import { claimJobRun, runJob } from '@/lib/jobs/job-runs';
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+function getDb() {
+    if (!getApps().length) {
+        const projectId = process.env.FIREBASE_PROJECT_ID || process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+        if (process.env.FIREBASE_SERVICE_ACCOUNT_KEY) {
+            const serviceAccount = JSON.parse(process.env.FIREBASE_SERVICE_ACCOUNT_KEY);
+            initializeApp({ credential: cert(serviceAccount), projectId });
+        } else {
+            initializeApp({ projectId });
+        }
+    }
+    return getFirestore();
+}
+
+export async function GET(request: NextRequest) {
+    // Verify cron secret
+    const authHeader = request.headers.get('authorization');
+    if (CRON_SECRET && authHeader !== `Bearer ${CRON_SECRET}`) {
+        return new NextResponse('Unauthorized', { status: 401 });
+    }
+
+    try {
+        const db = getDb();
+        const now = new Date();
+
+        // One at a time - several jobs text the same people
+        const runs = [];
+        for (const job of JOBS) {
+            if (await claimJobRun(db, job, now)) {
+                runs.push(await runJob(db, job, now));
+            }
+        }
+
+        return NextResponse.json({
+            success: runs.every(run => run.status !== 'failed'),
+            timestamp: now.toISOString(),
+            runs: runs.map(({ jobId, status, counts, errors }) => ({ jobId, status, counts, errors })),
+        });
+    } catch (error: any) {
+        console.error('Cron error:', error);
+        return NextResponse.json({ success: false, error: error.message }, { status: 500 });
+    }
+}
@@ -0,0 +1,64 @@
+// Twilio Status Callback - delivery reports for the texts we send
+// (queued, sent, delivered, undelivered, failed); see sendSms
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+
+import { isValidTwilioSignature, getPublicUrl } from '@/lib/sms/twilio-sender';
+import { recordDeliveryStatus } from '@/lib/sms/delivery-status';
+
+function getDb() {
+    if (!getApps().length) {
+        const projectId = process.env.FIREBASE_PROJECT_ID || process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+        if (process.env.FIREBASE_SERVICE_ACCOUNT_KEY) {
+            const serviceAccount = JSON.parse(process.env.FIREBASE_SERVICE_ACCOUNT_KEY);
+            initializeApp({ credential: cert(serviceAccount), projectId });
+        } else {
+            initializeApp({ projectId });
+        }
+    }
+    return getFirestore();
+}
+
+// Twilio sends form-urlencoded data
+export async function POST(request: NextRequest) {
+    try {
+        const formData = await request.formData();
+        const params: Record<string, string> = {};
+        formData.forEach((value, key) => {
+            if (typeof value === 'string') {
+                params[key] = value;
+            }
+        });
+
+        // Reject anything not signed by Twilio with our auth token
+        const signature = request.headers.get('x-twilio-signature');
+        if (!isValidTwilioSignature(signature, getPublicUrl(request), params)) {
+            console.warn('[STATUS] Invalid Twilio signature');
+            return new NextResponse('Invalid signature', { status: 403 });
+        }
+
+        const twilioSid = params.MessageSid;
+        const status = params.MessageStatus;
+        if (!twilioSid || !status) {
+            return new NextResponse('Missing required fields', { status: 400 });
+        }
+
+        const result = await recordDeliveryStatus(getDb(), {
+            twilioSid,
+            status,
+            errorCode: params.ErrorCode || undefined,
+        });
+
+        if (result.outcome === 'recorded' && (status === 'undelivered' || status === 'failed')) {
+            const { log } = result;
+            console.warn(`[STATUS] ${status} text to ${log.phone} (${log.messageType || 'unknown'}), error ${params.ErrorCode || 'none'}`);
+        }
+
+        // Twilio only needs a 2xx
+        return new NextResponse(null, { status: 204 });
+    } catch (error: any) {
+        console.error('Status callback error:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
@@ -15,10 +15,18 @@ import {
     isSlotAvailable,
     getAvailableSlotsForDate,
     cancelBooking,
-    getActiveBookingByPhone
+    getActiveBookingByPhone,
+    markReminderSent
 } from '@/lib/sms/booking-handler';
-import { parseDate, formatDate, getNextAvailableDates, isValidAppointmentTime } from '@/lib/sms/date-utils';
-import { sendSms, normalizePhone } from '@/lib/sms/twilio-sender';
+import { parseDate, formatDate, formatDateShort } from '@/lib/sms/date-utils';
+import {
+    ScheduleConfig,
+    getScheduleConfig,
+    getDateOverrides,
+    getNextSessionDates,
+    parseAppointmentDate,
+} from '@/lib/sms/schedule-config';
+import { sendSms, normalizePhone, isValidTwilioSignature, getPublicUrl } from '@/lib/sms/twilio-sender';
 import {
     getConfirmationTemplate,
     getMissingInfoTemplate,
@@ -26,8 +34,31 @@ import {
     getGreetingTemplate,
     getFaqResponse,
     getCustomerCancelledTemplate,
+    getWaitlistJoinedTemplate,
+    getPickupConfirmedTemplate,
+    getPickupTimesTemplate,
+    getOptOutTemplate,
+    getOptInTemplate,
+    getHelpTemplate,
 } from '@/lib/sms/templates';
-import { SmsLog, COLLECTIONS } from '@/lib/sms/types';
+import { ConversationState, SmsLog } from '@/lib/sms/types';
+import { CUSTOMER_SMS } from '@/lib/sms/booking-history';
+import { saveSmsLog } from '@/lib/sms/delivery-status';
+import { claimInboundMessage, recordInboundReply, releaseInboundMessage } from '@/lib/sms/inbound-messages';
+import { WaitlistEntry, acceptWaitlistOffer, getOpenOffer, joinWaitlist, offerFreedSlots } from '@/lib/sms/waitlist';
+import {
+    PICKUP_LABELS,
+    cancelPickupsForBooking,
+    findBookingForPickup,
+    getAvailablePickupSlots,
+    getPickupOptions,
+    isPickupKindOpen,
+    matchPickupSlot,
+    schedulePickup,
+} from '@/lib/sms/pickup-appointments';
+import { ConsentKeyword, matchConsentKeyword, setSmsConsent } from '@/lib/sms/consent';
+
+const EMPTY_TWIML = '<?xml version="1.0" encoding="UTF-8"?><Response></Response>';
 
 // Initialize Firebase Admin if not already done
 function getDb() {
@@ -58,19 +89,41 @@ function getDb() {
     return getAdminFirestore();
 }
 
+function twimlResponse() {
+    return new NextResponse(EMPTY_TWIML, {
+        status: 200,
+        headers: { 'Content-Type': 'text/xml' }
+    });
+}
 
 // Twilio sends form-urlencoded data
 export async function POST(request: NextRequest) {
     console.log('[WEBHOOK] POST request received');
+    let db: ReturnType<typeof getDb> | null = null;
+    let claimedSid: string | null = null;
     try {
         const formData = await request.formData();
-        const from = formData.get('From') as string;
-        const body = formData.get('Body') as string;
-        const messageSid = formData.get('MessageSid') as string;
+        const params: Record<string, string> = {};
+        formData.forEach((value, key) => {
+            if (typeof value === 'string') {
+                params[key] = value;
+            }
+        });
+
+        // Reject anything not signed by Twilio with our auth token
+        const signature = request.headers.get('x-twilio-signature');
+        if (!isValidTwilioSignature(signature, getPublicUrl(request), params)) {
+            console.warn('[WEBHOOK] Invalid Twilio signature');
+            return new NextResponse('Invalid signature', { status: 403 });
+        }
+
+        const from = params.From;
+        const body = params.Body;
+        const messageSid = params.MessageSid;
 
         console.log('[WEBHOOK] Parsed form data:', { from, body: body?.substring(0, 50), messageSid });
 
-        if (!from || !body) {
+        if (!from || !body || !messageSid) {
             console.log('[WEBHOOK] Missing required fields');
             return new NextResponse('Missing required fields', { status: 400 });
         }
@@ -79,26 +132,61 @@ export async function POST(request: NextRequest) {
         console.log('[WEBHOOK] Normalized phone:', phone);
 
         console.log('[WEBHOOK] Initializing Firebase...');
-        const db = getDb();
+        db = getDb();
         console.log('[WEBHOOK] Firebase initialized');
 
+        // Twilio retries deliver the same MessageSid again - never parse or book it twice
+        const claim = await claimInboundMessage(db, messageSid, phone);
+        if (claim.status === 'in_progress') {
+            console.log('[WEBHOOK] Duplicate delivery while still processing:', messageSid);
+            return twimlResponse();
+        }
+        if (claim.status === 'replied') {
+            console.log('[WEBHOOK] Duplicate delivery, reusing previous reply:', messageSid);
+            if (!claim.replySent) {
+                const retryResult = await sendSms(phone, claim.reply, { transactional: true });
+                if (retryResult.success) {
+                    await recordInboundReply(db, messageSid, claim.reply, true);
+                    await logMessage(db, 'outbound', phone, claim.reply, retryResult.messageSid);
+                }
+            }
+            return twimlResponse();
+        }
+        claimedSid = messageSid;
+
         // Log incoming message
         console.log('[WEBHOOK] Logging message to Firestore...');
         await logMessage(db, 'inbound', phone, body, messageSid);
         console.log('[WEBHOOK] Message logged');
 
+        // STOP / START / HELP are handled before the parser ever sees them, as is
+        // anything Twilio's opt-out handling already acted on (e.g. CANCEL)
+        const keyword = matchConsentKeyword(body, params.OptOutType);
+        if (keyword) {
+            const reply = await handleConsentKeyword(db, phone, keyword, body);
+            const keywordResult = await sendSms(phone, reply, { transactional: true });
+            await recordInboundReply(db, messageSid, reply, keywordResult.success);
+            claimedSid = null;
+            await logMessage(db, 'outbound', phone, reply, keywordResult.messageSid);
+            return twimlResponse();
+        }
+
         // Get existing conversation state
         console.log('[WEBHOOK] Getting conversation state...');
         const existingState = await getConversationState(db as any, phone);
         console.log('[WEBHOOK] Got conversation state:', existingState ? 'exists' : 'new');
 
+        // Hours and slots in replies all come from the admin schedule settings
+        const schedule = await getScheduleConfig(db);
+        const extraSessions = await getDateOverrides(db, { futureOnly: true, limit: 5 });
+
         // Parse the incoming message
         console.log('[WEBHOOK] Parsing message with OpenAI...');
-        const parsed = await parseMessage(body, existingState);
+        const parsed = await parseMessage(body, schedule, existingState, extraSessions);
         console.log('[WEBHOOK] Parsed intent:', parsed.intent);
 
         let responseMessage: string;
-
+        let confirmedBookingId: string | undefined;  // Set when the reply confirms a new booking
 
         // Handle different intents
         switch (parsed.intent) {
@@ -107,7 +195,7 @@ export async function POST(request: NextRequest) {
                 break;
 
             case 'question':
-                const faqAnswer = getFaqResponse(body);
+                const faqAnswer = getFaqResponse(body, schedule, extraSessions);
                 responseMessage = faqAnswer || getGreetingTemplate();
                 break;
 
@@ -116,11 +204,13 @@ export async function POST(request: NextRequest) {
                 const activeBooking = await getActiveBookingByPhone(db, phone);
                 if (activeBooking) {
                     // Cancel the actual booking
-                    await cancelBooking(db, activeBooking.id);
-                    const dateStr = activeBooking.appointmentDate.toDate().toLocaleDateString('en-US', {
-                        weekday: 'short', month: 'short', day: 'numeric'
-                    });
+                    await cancelBooking(db, activeBooking.id, CUSTOMER_SMS);
+                    await cancelPickupsForBooking(db, activeBooking.id, CUSTOMER_SMS);
+                    const dateStr = formatDateShort(activeBooking.appointmentDate.toDate());
                     responseMessage = getCustomerCancelledTemplate({ date: dateStr });
+                    await offerFreedSlots(db, activeBooking.appointmentDate.toDate()).catch((waitlistError) => {
+                        console.error('[WEBHOOK] Failed to offer freed slot to waitlist:', waitlistError);
+                    });
                 } else {
                     // Just clear conversation state
                     await clearConversationState(db as any, phone);
@@ -129,14 +219,34 @@ export async function POST(request: NextRequest) {
                 break;
 
             case 'confirmation':
-                if (existingState && isBookingComplete(existingState)) {
+                // A YES to a waitlist offer takes priority over a half-finished booking
+                const offer = await getOpenOffer(db, phone);
+                if (offer) {
+                    const reply = await acceptOffer(db, offer, phone);
+                    responseMessage = reply.message;
+                    confirmedBookingId = reply.bookingId;
+                } else if (existingState && isBookingComplete(existingState)) {
                     // Try to complete the booking
-                    responseMessage = await processBooking(db, existingState, phone);
+                    const reply = await processBooking(db, schedule, existingState, phone);
+                    responseMessage = reply.message;
+                    confirmedBookingId = reply.bookingId;
                 } else {
                     responseMessage = 'I don\'t have a pending booking to confirm. Would you like to book an appointment?';
                 }
                 break;
 
+            case 'waitlist':
+                const waitlistState = await updateConversationState(db as any, phone, parsed, existingState);
+                responseMessage = isBookingComplete(waitlistState)
+                    ? await processWaitlist(db, schedule, waitlistState, phone)
+                    : getMissingInfoTemplate(waitlistState.missingFields);
+                break;
+
+            case 'pickup':
+                const pickupState = await updateConversationState(db as any, phone, parsed, existingState);
+                responseMessage = await processPickup(db, schedule, pickupState, phone);
+                break;
+
             case 'booking':
             default:
                 // Update conversation state with new data
@@ -145,8 +255,6 @@ export async function POST(request: NextRequest) {
                 if (isBookingComplete(newState)) {
                     // All info collected - ask for confirmation
                     const data = newState.collectedData;
-                    const appointmentDate = parseDate(data.appointmentDate || '');
-
                     responseMessage = `Great! Here's what I have:
 📅 ${data.appointmentDate} at ${data.slotTime || 'TBD'}
 👤 ${data.name}
@@ -164,26 +272,33 @@ Reply YES to confirm or CANCEL to start over.`;
 
         // Send response
         console.log('[WEBHOOK] Sending SMS response:', { to: phone, messageLength: responseMessage.length });
-        const smsResult = await sendSms(phone, responseMessage);
+        const smsResult = await sendSms(phone, responseMessage, { transactional: true });
         console.log('[WEBHOOK] SMS send result:', smsResult);
 
         if (!smsResult.success) {
             console.error('[WEBHOOK] SMS failed to send:', smsResult.error);
         }
 
-        await logMessage(db, 'outbound', phone, responseMessage);
+        // From here on a retry reuses this reply instead of re-running the booking
+        await recordInboundReply(db, messageSid, responseMessage, smsResult.success);
+        claimedSid = null;
+
+        // The confirmation is tracked on the booking so a failed delivery can flag it
+        await logMessage(db, 'outbound', phone, responseMessage, smsResult.messageSid, confirmedBookingId);
+        if (confirmedBookingId && smsResult.success) {
+            await markReminderSent(db, confirmedBookingId, 'confirmation');
+        }
 
         // Return TwiML response (empty - we send via API)
-        return new NextResponse(
-            '<?xml version="1.0" encoding="UTF-8"?><Response></Response>',
-            {
-                status: 200,
-                headers: { 'Content-Type': 'text/xml' }
-            }
-        );
+        return twimlResponse();
 
     } catch (error: any) {
         console.error('Webhook error:', error);
+        if (db && claimedSid) {
+            await releaseInboundMessage(db, claimedSid).catch((releaseError) => {
+                console.error('Failed to release inbound message claim:', releaseError);
+            });
+        }
         // Return detailed error for debugging (remove in production)
         return new NextResponse(
             JSON.stringify({
@@ -196,30 +311,54 @@ Reply YES to confirm or CANCEL to start over.`;
     }
 }
 
+/**
+ * Opt out, opt back in, or explain how texting works. Opting out leaves bookings
+ * as they are - it only stops reminders and notices.
+ */
+async function handleConsentKeyword(db: any, phone: string, keyword: ConsentKeyword, body: string): Promise<string> {
+    if (keyword === 'help') {
+        return getHelpTemplate();
+    }
+
+    await setSmsConsent(db, phone, keyword === 'stop', body);
+    if (keyword === 'stop') {
+        await clearConversationState(db, phone);
+        return getOptOutTemplate();
+    }
+    return getOptInTemplate();
+}
+
+// A reply that may have confirmed a booking
+interface BookingReply {
+    message: string;
+    bookingId?: string;
+}
+
 /**
  * Process a complete booking
  */
-async function processBooking(db: any, state: any, phone: string): Promise<string> {
+async function processBooking(db: any, schedule: ScheduleConfig, state: any, phone: string): Promise<BookingReply> {
     try {
         const data = state.collectedData;
 
         // Parse dates
-        const appointmentDate = parseDate(data.appointmentDate);
+        const appointmentDate = parseAppointmentDate(schedule, data.appointmentDate);
         const weddingDate = parseDate(data.weddingDate);
 
         if (!appointmentDate || !weddingDate) {
-            return 'I couldn\'t understand the dates. Please try again with clear dates like "this Wednesday" or "January 25".';
+            return { message: 'I couldn\'t understand the dates. Please try again with clear dates like "this Wednesday" or "January 25".' };
         }
 
         // Determine slot time
         let slotTime = data.slotTime;
         if (!slotTime) {
             // Default to first available slot
-            const availableSlots = await getAvailableSlotsForDate(db, appointmentDate);
+            const availableSlots = await getAvailableSlotsForDate(db, appointmentDate, data.groupSize);
             if (availableSlots.length === 0) {
-                const nextDates = getNextAvailableDates(new Date(), 3);
+                // Keep the conversation so a WAITLIST reply has everything it needs
+                const nextDates = await getNextSessionDates(db, schedule, new Date(), 3);
                 const alternatives = nextDates.map(d => formatDate(d));
-                return getSlotUnavailableTemplate(data.appointmentDate, alternatives);
+                return { message: getSlotUnavailableTemplate(data.appointmentDate, alternatives, formatDateShort(appointmentDate)) };
             }
             slotTime = availableSlots[0];
         }
@@ -232,30 +371,144 @@ async function processBooking(db: any, state: any, phone: string): Promise<strin
             slotTime,
             groupSize: data.groupSize,
             weddingDate,
-        });
+        }, CUSTOMER_SMS);
 
         // Clear conversation state
         await clearConversationState(db, phone);
 
         // Return confirmation
-        return getConfirmationTemplate({
-            name: data.name,
-            date: formatDate(appointmentDate),
-            time: slotTime,
-            groupSize: data.groupSize,
-        });
+        return {
+            message: getConfirmationTemplate({
+                name: data.name,
+                date: formatDate(appointmentDate),
+                time: slotTime,
+                groupSize: data.groupSize,
+            }),
+            bookingId: booking.id,
+        };
 
     } catch (error: any) {
         console.error('Booking error:', error);
 
+        if (error.message?.startsWith('Maximum group size') || error.message?.includes('back-to-back')) {
+            return { message: `Sorry - ${error.message}. Reply with a different time or group size, or call 718-614-8390.` };
+        }
+
         if (error.message?.includes('not available')) {
-            const nextDates = getNextAvailableDates(new Date(), 3);
+            const nextDates = await getNextSessionDates(db, schedule, new Date(), 3);
             const alternatives = nextDates.map(d => formatDate(d));
-            return getSlotUnavailableTemplate('that time', alternatives);
+            return { message: getSlotUnavailableTemplate('that time', alternatives) };
         }
 
-        return 'Sorry, there was an error creating your booking. Please try again or call 718-614-8390.';
+        return { message: 'Sorry, there was an error creating your booking. Please try again or call 718-614-8390.' };
+    }
+}
+
+/**
+ * Put a customer with a complete request on the waitlist for their date
+ */
+async function processWaitlist(db: any, schedule: ScheduleConfig, state: any, phone: string): Promise<string> {
+    const data = state.collectedData;
+    const date = parseAppointmentDate(schedule, data.appointmentDate);
+    const weddingDate = parseDate(data.weddingDate);
+
+    if (!date || !weddingDate) {
+        return 'I couldn\'t understand the dates. Please try again with clear dates like "this Wednesday" or "January 25".';
+    }
+
+    // No need to wait if there's room
+    const availableSlots = await getAvailableSlotsForDate(db, date, data.groupSize);
+    if (availableSlots.length > 0) {
+        return `Good news - ${formatDateShort(date)} still has openings: ${availableSlots.slice(0, 5).join(', ')}. Reply with a time to book!`;
+    }
+
+    try {
+        await joinWaitlist(db, {
+            customerPhone: phone,
+            customerName: data.name,
+            date,
+            groupSize: data.groupSize,
+            weddingDate,
+        }, CUSTOMER_SMS);
+    } catch (error: any) {
+        console.error('Waitlist error:', error);
+        return `Sorry - ${error.message}. Text us a different date, or call 718-614-8390.`;
+    }
+
+    await clearConversationState(db, phone);
+    return getWaitlistJoinedTemplate({ name: data.name, date: formatDateShort(date) });
+}
+
+/**
+ * Book the slot a waitlisted customer was offered
+ */
+async function acceptOffer(db: any, offer: WaitlistEntry, phone: string): Promise<BookingReply> {
+    try {
+        const booking = await acceptWaitlistOffer(db, offer, CUSTOMER_SMS);
+        await clearConversationState(db, phone);
+
+        return {
+            message: getConfirmationTemplate({
+                name: booking.customerName,
+                date: formatDate(booking.appointmentDate.toDate()),
+                time: booking.slotTime,
+                groupSize: booking.groupSize,
+            }),
+            bookingId: booking.id,
+        };
+    } catch (error: any) {
+        console.error('Waitlist booking error:', error);
+        return { message: 'Sorry, that spot was just taken. You\'re still on the waitlist - we\'ll text you if another one opens up.' };
+    }
+}
+
+/**
+ * Arrange a gown pickup or drop-off: book the day and time once both are known,
+ * otherwise offer the open times (the conversation keeps what was said so far)
+ */
+async function processPickup(db: any, schedule: ScheduleConfig, state: ConversationState, phone: string): Promise<string> {
+    const data = state.collectedData;
+    const kind = data.pickupKind || 'pickup';
+
+    if (!isPickupKindOpen(schedule, kind)) {
+        await clearConversationState(db, phone);
+        return `To arrange your ${PICKUP_LABELS[kind]}, please call 718-614-8390.`;
+    }
+
+    const booking = await findBookingForPickup(db, phone);
+    if (!booking) {
+        await clearConversationState(db, phone);
+        return `I couldn't find a booking for this number. Please call 718-614-8390 to arrange your ${PICKUP_LABELS[kind]}.`;
+    }
+
+    const date = data.appointmentDate ? parseDate(data.appointmentDate) : null;
+    let problem = '';
+    if (date) {
+        const slots = await getAvailablePickupSlots(db, date, schedule);
+        const slotTime = data.slotTime ? matchPickupSlot(slots, data.slotTime) : null;
+
+        if (slotTime) {
+            try {
+                await schedulePickup(db, { bookingId: booking.id, kind, date, slotTime }, CUSTOMER_SMS);
+                await clearConversationState(db, phone);
+                return getPickupConfirmedTemplate({ name: booking.customerName, kind, date: formatDateShort(date), time: slotTime });
+            } catch (error: any) {
+                console.error('Pickup error:', error);
+                problem = `Sorry - ${error.message}.`;
+            }
+        } else if (slots.length > 0 && !data.slotTime) {
+            return `Open times on ${formatDateShort(date)}: ${slots.join(', ')}. Reply with the time you'd like!`;
+        } else {
+            problem = `Sorry, ${data.slotTime ? `${data.slotTime} on ` : ''}${formatDateShort(date)} isn't available.`;
+        }
     }
+
+    const options = await getPickupOptions(db, booking, kind, schedule);
+    const times = getPickupTimesTemplate({
+        kind,
+        options: options.map(option => ({ date: formatDateShort(option.date), slots: option.slots })),
+    });
+    return problem ? `${problem}\n\n${times}` : times;
 }
 
 /**
@@ -266,7 +519,8 @@ async function logMessage(
     direction: 'inbound' | 'outbound',
     phone: string,
     message: string,
-    twilioSid?: string
+    twilioSid?: string,
+    confirmedBookingId?: string
 ): Promise<void> {
     try {
         const logId = `${Date.now()}_${direction}`;
@@ -275,11 +529,19 @@ async function logMessage(
             direction,
             phone,
             message,
-            twilioSid,
             createdAt: Timestamp.now() as any,
         };
+        if (twilioSid) {
+            log.twilioSid = twilioSid;
+        }
+        if (direction === 'outbound') {
+            log.messageType = confirmedBookingId ? 'confirmation' : 'reply';
+        }
+        if (confirmedBookingId) {
+            log.bookingId = confirmedBookingId;
+        }
 
-        await db.collection(COLLECTIONS.SMS_LOGS).doc(logId).set(log);
+        await saveSmsLog(db, log);
     } catch (error) {
         console.error('Failed to log message:', error);
     }
@@ -2,7 +2,23 @@
 // Run this once after deploying, then save the assistant ID
 
 import { NextRequest, NextResponse } from 'next/server';
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
 import { getAssistantConfig } from '@/lib/vapi/assistant-config';
+import { getScheduleConfig } from '@/lib/sms/schedule-config';
+
+function getDb() {
+  if (!getApps().length) {
+    const projectId = process.env.FIREBASE_PROJECT_ID || process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+    if (process.env.FIREBASE_SERVICE_ACCOUNT_KEY) {
+      const serviceAccount = JSON.parse(process.env.FIREBASE_SERVICE_ACCOUNT_KEY);
+      initializeApp({ credential: cert(serviceAccount), projectId });
+    } else {
+      initializeApp({ projectId });
+    }
+  }
+  return getFirestore();
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -20,8 +36,9 @@ export async function POST(request: NextRequest) {
       ? `https://${process.env.VERCEL_URL}`
       : process.env.NEXT_PUBLIC_URL || 'http://localhost:3000';
 
-    // Get assistant configuration with the server URL
-    const assistantConfig = getAssistantConfig(serverUrl);
+    // Get assistant configuration with the server URL and current schedule
+    const schedule = await getScheduleConfig(getDb());
+    const assistantConfig = getAssistantConfig(serverUrl, schedule);
 
     console.log('[VAPI] Creating assistant with config:', JSON.stringify(assistantConfig, null, 2));
 
@@ -6,10 +6,35 @@ import { getFirestore as getAdminFirestore, Timestamp } from 'firebase-admin/fir
 import {
   createBooking,
   getAvailableSlotsForDate,
-  APPOINTMENT_SLOTS
 } from '@/lib/sms/booking-handler';
-import { parseDate, formatDate, getNextAvailableDates, isValidAppointmentTime } from '@/lib/sms/date-utils';
+import { parseDate, formatDate } from '@/lib/sms/date-utils';
+import {
+  ScheduleConfig,
+  getScheduleConfig,
+  DateOverride,
+  getOpenDay,
+  getScheduleForDate,
+  getDateOverrides,
+  getNextSessionDates,
+  parseAppointmentDate,
+  describeHours,
+  describeOpenDays,
+  describeGroupRules,
+} from '@/lib/sms/schedule-config';
+import { getClosureReason } from '@/lib/sms/jewish-calendar';
 import { normalizePhone } from '@/lib/sms/twilio-sender';
+import { CUSTOMER_PHONE } from '@/lib/sms/booking-history';
+import { joinWaitlist } from '@/lib/sms/waitlist';
+import {
+  PickupKind,
+  PICKUP_LABELS,
+  findBookingForPickup,
+  getAvailablePickupSlots,
+  getPickupOptions,
+  isPickupKindOpen,
+  matchPickupSlot,
+  schedulePickup,
+} from '@/lib/sms/pickup-appointments';
 
 // Initialize Firebase Admin
 function getDb() {
@@ -35,11 +60,10 @@ function getDb() {
   return getAdminFirestore();
 }
 
-// Business info database
-const BUSINESS_INFO: Record<string, string> = {
+// Business info database (hours and group rules follow the admin schedule settings)
+const getBusinessInfo = (schedule: ScheduleConfig, extraSessions: DateOverride[] = []): Record<string, string> => ({
   hours: `We're open by appointment only:
-• Wednesday: 11:30 AM to 12:30 PM
-• Motzei Shabbos (Saturday night): 7:30 PM to 9:30 PM`,
+${describeHours(schedule, extraSessions).map(line => `• ${line}`).join('\n')}`,
 
   location: `1327 East 26th Street, Brooklyn, NY 11210. Enter through the garage at the end of the driveway, on the left side of the house.`,
 
@@ -54,12 +78,12 @@ const BUSINESS_INFO: Record<string, string> = {
 • Tzivi Fromowitz: 347-743-7335
 • Esti Kohnfelder: 718-810-7110`,
 
-  pickup: `You can pick up your gown 2 weeks before your wedding. Just text or call us to arrange a pickup time.`,
+  pickup: `You can pick up your gown 2 weeks before your wedding. I can book a pickup time for you right now, or text PICKUP to choose one.`,
 
   return: `Please return the gown by Motzei Shabbos (Saturday night) after your wedding, along with your donation. The door to the Gemach is always open for returns.`,
 
-  groupSize: `Maximum 4 people per regular appointment. Groups of 5-6 need to book the last slot of the evening (12:15 PM Wednesday or 9:15 PM Motzei Shabbos) which is 30 minutes. We cannot accommodate groups larger than 6.`
-};
+  groupSize: `${describeGroupRules(schedule)} Large groups can start at any time with two open slots in a row.`
+});
 
 // Handle tool calls from Vapi
 async function handleToolCall(
@@ -67,11 +91,12 @@ async function handleToolCall(
   args: Record<string, any>
 ): Promise<any> {
   const db = getDb();
+  const schedule = await getScheduleConfig(db);
 
   switch (toolName) {
     case 'checkAvailability': {
       const dateStr = args.date;
-      const parsedDate = parseDate(dateStr);
+      const parsedDate = parseAppointmentDate(schedule, dateStr);
 
       if (!parsedDate) {
         return {
@@ -80,17 +105,21 @@ async function handleToolCall(
         };
       }
 
-      const dayOfWeek = parsedDate.getDay();
-
-      // Check if it's a valid appointment day
-      if (dayOfWeek !== 3 && dayOfWeek !== 6) {
-        const nextDates = getNextAvailableDates(new Date(), 4);
+      // Check if it's a valid appointment day (extra sessions count, blocked dates don't)
+      if (!(await getScheduleForDate(db, parsedDate, schedule))) {
+        const nextDates = await getNextSessionDates(db, schedule, new Date(), 4);
         const alternatives = nextDates.map(d => formatDate(d)).join(', ');
+        const closure = getClosureReason(parsedDate, schedule.calendar);
+        const reason = closure
+          ? `We're closed on ${formatDate(parsedDate)} for ${closure}.`
+          : getOpenDay(schedule, parsedDate)
+          ? `We're closed on ${formatDate(parsedDate)}.`
+          : `We only have appointments on ${describeOpenDays(schedule, 'and')}.`;
 
         return {
           success: false,
           available: false,
-          message: `We only have appointments on Wednesdays and Motzei Shabbos. The next available dates are: ${alternatives}.`
+          message: `${reason} The next available dates are: ${alternatives}.`
         };
       }
 
@@ -99,7 +128,7 @@ async function handleToolCall(
       const dateFormatted = formatDate(parsedDate);
 
       if (availableSlots.length === 0) {
-        const nextDates = getNextAvailableDates(parsedDate, 3);
+        const nextDates = await getNextSessionDates(db, schedule, parsedDate, 3);
         const alternatives = nextDates.map(d => formatDate(d)).join(', ');
 
         return {
@@ -107,7 +136,7 @@ async function handleToolCall(
           available: false,
           date: dateFormatted,
           slots: [],
-          message: `Sorry, ${dateFormatted} is fully booked. Would you like to try: ${alternatives}?`
+          message: `Sorry, ${dateFormatted} is fully booked. Would you like to try: ${alternatives}? Or I can put you on the waitlist for ${dateFormatted} and we'll text you if a spot opens up.`
         };
       }
 
@@ -124,7 +153,7 @@ async function handleToolCall(
       const { name, appointmentDate, slotTime, groupSize, weddingDate, phone } = args;
 
       // Parse dates
-      const parsedAppointmentDate = parseDate(appointmentDate);
+      const parsedAppointmentDate = parseAppointmentDate(schedule, appointmentDate);
       const parsedWeddingDate = parseDate(weddingDate);
 
       if (!parsedAppointmentDate) {
@@ -141,26 +170,7 @@ async function handleToolCall(
         };
       }
 
-      // Validate group size
       const groupSizeNum = typeof groupSize === 'string' ? parseInt(groupSize) : groupSize;
-      if (groupSizeNum > 6) {
-        return {
-          success: false,
-          message: "I'm sorry, we can only accommodate groups of up to 6 people. Would you like to book with a smaller group?"
-        };
-      }
-
-      // Check if large group needs last slot
-      const dayOfWeek = parsedAppointmentDate.getDay();
-      const slots = dayOfWeek === 3 ? APPOINTMENT_SLOTS.wednesday : APPOINTMENT_SLOTS.motzeiShabbos;
-      const lastSlot = slots[slots.length - 1];
-
-      if (groupSizeNum > 4 && slotTime !== lastSlot) {
-        return {
-          success: false,
-          message: `For groups of ${groupSizeNum}, you'll need our 30-minute slot which is the last slot of the evening at ${lastSlot}. Would that work for you?`
-        };
-      }
 
       // Normalize phone
       const normalizedPhone = normalizePhone(phone);
@@ -173,7 +183,7 @@ async function handleToolCall(
           slotTime,
           groupSize: groupSizeNum,
           weddingDate: parsedWeddingDate,
-        });
+        }, CUSTOMER_PHONE);
 
         const formattedDate = formatDate(parsedAppointmentDate);
 
@@ -192,15 +202,33 @@ async function handleToolCall(
           name: error.name
         }));
 
+        // Group size limits come from the schedule settings
+        if (error.message?.startsWith('Maximum group size')) {
+          return {
+            success: false,
+            message: `I'm sorry, that group is too large for us - the ${error.message.toLowerCase()}. Would you like to book with a smaller group?`
+          };
+        }
+
+        if (error.message?.includes('back-to-back')) {
+          const availableSlots = await getAvailableSlotsForDate(db, parsedAppointmentDate, groupSizeNum);
+          return {
+            success: false,
+            message: availableSlots.length > 0
+              ? `For a group of ${groupSizeNum} we need two back-to-back slots, so ${slotTime} won't work. I can start you at: ${availableSlots.join(', ')}. Would one of those work?`
+              : `For a group of ${groupSizeNum} we need two back-to-back slots, and there aren't two free in a row that day. Would you like to try another date?`
+          };
+        }
+
         if (error.message?.includes('not available')) {
-          const availableSlots = await getAvailableSlotsForDate(db, parsedAppointmentDate);
+          const availableSlots = await getAvailableSlotsForDate(db, parsedAppointmentDate, groupSizeNum);
           if (availableSlots.length > 0) {
             return {
               success: false,
               message: `Sorry, ${slotTime} is no longer available. I do have these slots open: ${availableSlots.join(', ')}. Would one of those work?`
             };
           } else {
-            const nextDates = getNextAvailableDates(parsedAppointmentDate, 3);
+            const nextDates = await getNextSessionDates(db, schedule, parsedAppointmentDate, 3);
             const alternatives = nextDates.map(d => formatDate(d)).join(', ');
             return {
               success: false,
@@ -216,9 +244,136 @@ async function handleToolCall(
       }
     }
 
+    case 'joinWaitlist': {
+      const { name, date, groupSize, weddingDate, phone } = args;
+
+      const parsedDate = parseAppointmentDate(schedule, date);
+      const parsedWeddingDate = parseDate(weddingDate);
+
+      if (!parsedDate) {
+        return {
+          success: false,
+          message: "I couldn't understand which date you'd like to wait for. Could you tell me the date again?"
+        };
+      }
+
+      if (!parsedWeddingDate) {
+        return {
+          success: false,
+          message: "I couldn't understand the wedding date. Could you tell me when your wedding is?"
+        };
+      }
+
+      const groupSizeNum = typeof groupSize === 'string' ? parseInt(groupSize) : groupSize;
+      const dateFormatted = formatDate(parsedDate);
+
+      // Only wait when there's really no room
+      const availableSlots = await getAvailableSlotsForDate(db, parsedDate, groupSizeNum);
+      if (availableSlots.length > 0) {
+        return {
+          success: false,
+          available: true,
+          slots: availableSlots,
+          message: `Actually, ${dateFormatted} has openings right now: ${availableSlots.join(', ')}. Would you like one of those instead?`
+        };
+      }
+
+      try {
+        await joinWaitlist(db, {
+          customerPhone: normalizePhone(phone),
+          customerName: name,
+          date: parsedDate,
+          groupSize: groupSizeNum,
+          weddingDate: parsedWeddingDate,
+        }, CUSTOMER_PHONE);
+
+        return {
+          success: true,
+          message: `You're on the waitlist for ${dateFormatted}. If a spot opens up we'll text you at ${phone}, and you just reply YES to take it.`
+        };
+      } catch (error: any) {
+        console.error('Waitlist error:', error);
+        return {
+          success: false,
+          message: `I'm sorry, I couldn't add you to the waitlist - ${error.message}. Would you like to try another date?`
+        };
+      }
+    }
+
+    case 'checkPickupTimes':
+    case 'schedulePickup': {
+      const kind: PickupKind = args.kind === 'return' ? 'return' : 'pickup';
+      const label = PICKUP_LABELS[kind];
+
+      if (!isPickupKindOpen(schedule, kind)) {
+        return {
+          success: false,
+          message: `We're not booking ${label}s by phone right now. Please call the manager at 718-614-8390 to arrange it.`
+        };
+      }
+
+      const booking = await findBookingForPickup(db, normalizePhone(args.phone || ''));
+      if (!booking) {
+        return {
+          success: false,
+          message: "I couldn't find a booking under that phone number. Could you give me the number you booked your fitting with?"
+        };
+      }
+
+      const parsedDate = args.date ? parseDate(args.date) : null;
+
+      if (toolName === 'schedulePickup' && parsedDate && args.slotTime) {
+        const slotTime = matchPickupSlot(await getAvailablePickupSlots(db, parsedDate, schedule), args.slotTime);
+        if (slotTime) {
+          try {
+            await schedulePickup(db, { bookingId: booking.id, kind, date: parsedDate, slotTime }, CUSTOMER_PHONE);
+            return {
+              success: true,
+              message: `You're all set - your ${label} is ${formatDate(parsedDate)} at ${slotTime}. We'll text you a reminder the day before.`
+            };
+          } catch (error: any) {
+            console.error('Pickup error:', error);
+            return {
+              success: false,
+              message: `I'm sorry, ${error.message.charAt(0).toLowerCase()}${error.message.slice(1)}. Would another time work?`
+            };
+          }
+        }
+      }
+
+      if (parsedDate) {
+        const slots = await getAvailablePickupSlots(db, parsedDate, schedule);
+        if (slots.length > 0) {
+          return {
+            success: true,
+            available: true,
+            date: formatDate(parsedDate),
+            slots,
+            message: `For ${formatDate(parsedDate)}, ${label} times are: ${slots.join(', ')}. Which works for you?`
+          };
+        }
+      }
+
+      const options = await getPickupOptions(db, booking, kind, schedule);
+      if (options.length === 0) {
+        return {
+          success: false,
+          available: false,
+          message: `I don't see any open ${label} times right now. Please call the manager at 718-614-8390 and we'll work something out.`
+        };
+      }
+      const list = options.map(option => `${formatDate(option.date)}: ${option.slots.join(', ')}`).join('; ');
+      return {
+        success: true,
+        available: false,
+        message: `${parsedDate ? `${formatDate(parsedDate)} doesn't work for a ${label}. ` : ''}The open ${label} times are - ${list}. Which would you like?`
+      };
+    }
+
     case 'getBusinessInfo': {
       const topic = args.topic?.toLowerCase();
-      const info = BUSINESS_INFO[topic];
+      const extraSessions = topic === 'hours' ? await getDateOverrides(db, { futureOnly: true, limit: 5 }) : [];
+      const info = getBusinessInfo(schedule, extraSessions)[topic];
 
       if (info) {
         return {
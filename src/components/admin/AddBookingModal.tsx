@@ -10,9 +10,6 @@ interface AddBookingModalProps {
     preselectedDate?: Date;
 }
 
-const WEDNESDAY_SLOTS = ['11:30 AM', '11:45 AM', '12:00 PM', '12:15 PM'];
-const SATURDAY_SLOTS = ['7:30 PM', '7:45 PM', '8:00 PM', '8:15 PM', '8:30 PM', '8:45 PM', '9:00 PM', '9:15 PM'];
-
 export default function AddBookingModal({ isOpen, onClose, onSuccess, preselectedDate }: AddBookingModalProps) {
     const [name, setName] = useState('');
     const [phone, setPhone] = useState('');
@@ -25,6 +22,8 @@ export default function AddBookingModal({ isOpen, onClose, onSuccess, preselecte
     const [error, setError] = useState('');
     const [availableSlots, setAvailableSlots] = useState<string[]>([]);
     const [loadingSlots, setLoadingSlots] = useState(false);
+    const [dateInfo, setDateInfo] = useState<{ day: string } | null>(null);
+    const [dayError, setDayError] = useState('');
 
     // Reset form when modal opens/closes
     useEffect(() => {
@@ -52,6 +51,8 @@ export default function AddBookingModal({ isOpen, onClose, onSuccess, preselecte
         if (!appointmentDate) {
             setAvailableSlots([]);
             setSlotTime('');
+            setDateInfo(null);
+            setDayError('');
             return;
         }
 
@@ -59,13 +60,18 @@ export default function AddBookingModal({ isOpen, onClose, onSuccess, preselecte
             setLoadingSlots(true);
             setError('');
             try {
-                const res = await fetch(`/api/admin/slots?date=${appointmentDate}`);
+                // Large groups can only start where two slots in a row are free
+                const res = await fetch(`/api/admin/slots?date=${appointmentDate}&groupSize=${groupSize}`);
                 const data = await res.json();
 
                 if (data.error) {
-                    setError(data.error);
+                    // The schedule decides which weekdays are open
+                    setDayError(data.error);
+                    setDateInfo(null);
                     setAvailableSlots([]);
                 } else {
+                    setDayError('');
+                    setDateInfo({ day: data.dayName });
                     setAvailableSlots(data.slots || []);
                     if (data.slots?.length > 0) {
                         setSlotTime(data.slots[0]);
@@ -75,6 +81,7 @@ export default function AddBookingModal({ isOpen, onClose, onSuccess, preselecte
                 }
             } catch (err) {
                 setError('Failed to fetch available slots');
+                setDateInfo(null);
                 setAvailableSlots([]);
             } finally {
                 setLoadingSlots(false);
@@ -82,19 +89,7 @@ export default function AddBookingModal({ isOpen, onClose, onSuccess, preselecte
         };
 
         fetchSlots();
-    }, [appointmentDate]);
-
-    // Get day type for selected date
-    const getDateInfo = (dateStr: string) => {
-        if (!dateStr) return null;
-        const date = new Date(dateStr + 'T12:00:00');
-        const day = date.getDay();
-        if (day === 3) return { day: 'Wednesday', slots: WEDNESDAY_SLOTS };
-        if (day === 6) return { day: 'Saturday', slots: SATURDAY_SLOTS };
-        return null;
-    };
-
-    const dateInfo = getDateInfo(appointmentDate);
+    }, [appointmentDate, groupSize]);
 
     if (!isOpen) return null;
 
@@ -103,7 +98,7 @@ export default function AddBookingModal({ isOpen, onClose, onSuccess, preselecte
         setError('');
 
         if (!dateInfo) {
-            setError('Please select a Wednesday or Saturday');
+            setError(dayError || 'Please select an open appointment day');
             return;
         }
 
@@ -112,19 +107,6 @@ export default function AddBookingModal({ isOpen, onClose, onSuccess, preselecte
             return;
         }
 
-        if (groupSize > 4 && groupSize <= 6) {
-            const lastSlot = dateInfo.slots[dateInfo.slots.length - 1];
-            if (slotTime !== lastSlot) {
-                setError(`Groups of 5-6 must book the last slot (${lastSlot})`);
-                return;
-            }
-        }
-
-        if (groupSize > 6) {
-            setError('Maximum group size is 6');
-            return;
-        }
-
         setSaving(true);
         try {
             const res = await fetch('/api/admin/bookings', {
@@ -227,9 +209,9 @@ export default function AddBookingModal({ isOpen, onClose, onSuccess, preselecte
                             className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
                             required
                         />
-                        {appointmentDate && !dateInfo && (
+                        {appointmentDate && dayError && (
                             <p className="text-amber-600 text-sm mt-1">
-                                Appointments are only available on Wednesday or Saturday (Motzei Shabbos)
+                                {dayError}
                             </p>
                         )}
                         {dateInfo && (
@@ -282,7 +264,7 @@ export default function AddBookingModal({ isOpen, onClose, onSuccess, preselecte
                             {[1, 2, 3, 4, 5, 6].map(n => (
                                 <option key={n} value={n}>
                                     {n} {n === 1 ? 'person' : 'people'}
-                                    {n > 4 && ' (requires last slot)'}
+                                    {n > 4 && ' (two back-to-back slots)'}
                                 </option>
                             ))}
                         </select>
@@ -14,6 +14,31 @@ interface Booking {
     weddingDate: { _seconds: number };
 }
 
+interface BookingChange {
+    id: string;
+    action: 'created' | 'updated' | 'cancelled' | 'rescheduled';
+    by: { id: string; name: string };
+    changes: { field: string; from: string | null; to: string | null }[];
+    createdAt: { _seconds: number };
+}
+
+const FIELD_LABELS: Record<string, string> = {
+    customerName: 'Name',
+    customerPhone: 'Phone',
+    appointmentDate: 'Appointment',
+    slotTime: 'Time',
+    groupSize: 'Group size',
+    weddingDate: 'Wedding',
+    status: 'Status',
+    items: 'Items',
+    gownSelected: 'Gown selected',
+    gownPickedUp: 'Picked up',
+    gownReturned: 'Returned',
+    donationPaid: 'Paid',
+    donationAmount: 'Donation',
+    notes: 'Notes',
+};
+
 interface EditBookingModalProps {
     booking: Booking;
     isOpen: boolean;
@@ -40,7 +65,10 @@ export default function EditBookingModal({ booking, isOpen, onClose, onSave }: E
 
     const [availableSlots, setAvailableSlots] = useState<string[]>([]);
     const [loadingSlots, setLoadingSlots] = useState(false);
+    const [dateInfo, setDateInfo] = useState<{ day: string; isValid: boolean } | null>(null);
+    const [dayError, setDayError] = useState('');
     const [error, setError] = useState('');
+    const [history, setHistory] = useState<BookingChange[] | null>(null);
 
     // Reset when booking changes
     useEffect(() => {
@@ -58,6 +86,16 @@ export default function EditBookingModal({ booking, isOpen, onClose, onSave }: E
         }
     }, [booking, isOpen]);
 
+    // Load who changed what on this booking
+    useEffect(() => {
+        if (!isOpen) return;
+        setHistory(null);
+        fetch(`/api/admin/bookings?history=${encodeURIComponent(booking.id)}`)
+            .then(res => res.json())
+            .then(data => setHistory(data.changes || []))
+            .catch(() => setHistory([]));
+    }, [booking.id, isOpen]);
+
     // Fetch available slots when date changes
     useEffect(() => {
         if (!appointmentDate) return;
@@ -65,12 +103,17 @@ export default function EditBookingModal({ booking, isOpen, onClose, onSave }: E
         const fetchSlots = async () => {
             setLoadingSlots(true);
             try {
-                const res = await fetch(`/api/admin/slots?date=${appointmentDate}`);
+                const res = await fetch(`/api/admin/slots?date=${appointmentDate}&groupSize=${groupSize}`);
                 const data = await res.json();
 
                 if (data.error) {
+                    // The schedule decides which weekdays are open
+                    setDayError(data.error);
+                    setDateInfo({ day: '', isValid: false });
                     setAvailableSlots([]);
                 } else {
+                    setDayError('');
+                    setDateInfo({ day: data.dayName, isValid: true });
                     // Include current slot if same date, plus available slots
                     let slots = data.slots || [];
                     if (appointmentDate === originalDateStr && !slots.includes(booking.slotTime)) {
@@ -91,19 +134,8 @@ export default function EditBookingModal({ booking, isOpen, onClose, onSave }: E
         };
 
         fetchSlots();
-    }, [appointmentDate, originalDateStr, booking.slotTime]);
-
-    // Get day info for validation
-    const getDateInfo = (dateStr: string) => {
-        if (!dateStr) return null;
-        const date = new Date(dateStr + 'T12:00:00');
-        const day = date.getDay();
-        if (day === 3) return { day: 'Wednesday', isValid: true };
-        if (day === 6) return { day: 'Saturday', isValid: true };
-        return { day: '', isValid: false };
-    };
+    }, [appointmentDate, originalDateStr, booking.slotTime, groupSize]);
 
-    const dateInfo = getDateInfo(appointmentDate);
     const isDateChanged = appointmentDate !== originalDateStr;
     const isTimeChanged = slotTime !== booking.slotTime;
     const isRescheduling = isDateChanged || isTimeChanged;
@@ -115,7 +147,7 @@ export default function EditBookingModal({ booking, isOpen, onClose, onSave }: E
         setError('');
 
         if (!dateInfo?.isValid) {
-            setError('Please select a Wednesday or Saturday');
+            setError(dayError || 'Please select an open appointment day');
             return;
         }
 
@@ -232,9 +264,9 @@ export default function EditBookingModal({ booking, isOpen, onClose, onSave }: E
                             className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
                             required
                         />
-                        {appointmentDate && !dateInfo?.isValid && (
+                        {appointmentDate && dayError && (
                             <p className="text-amber-600 text-sm mt-1">
-                                Appointments are only available on Wednesday or Saturday
+                                {dayError}
                             </p>
                         )}
                     </div>
@@ -316,6 +348,40 @@ export default function EditBookingModal({ booking, isOpen, onClose, onSave }: E
                         </button>
                     </div>
                 </form>
+
+                {/* History */}
+                <div className="px-6 pb-6">
+                    <h4 className="text-sm font-semibold text-gray-900 border-t border-gray-100 pt-4 mb-3">History</h4>
+                    {history === null ? (
+                        <p className="text-sm text-gray-400">Loading...</p>
+                    ) : history.length === 0 ? (
+                        <p className="text-sm text-gray-400">No changes recorded</p>
+                    ) : (
+                        <ul className="space-y-3">
+                            {history.map(entry => (
+                                <li key={entry.id} className="text-sm">
+                                    <div className="flex justify-between gap-2">
+                                        <span>
+                                            <span className="font-medium text-gray-900">{entry.by.name}</span>
+                                            <span className="text-gray-500"> {entry.action} this booking</span>
+                                        </span>
+                                        <span className="text-xs text-gray-400 whitespace-nowrap">
+                                            {new Date(entry.createdAt._seconds * 1000).toLocaleString('en-US', {
+                                                month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit',
+                                            })}
+                                        </span>
+                                    </div>
+                                    {entry.changes.map(change => (
+                                        <div key={change.field} className="text-xs text-gray-500 ml-2">
+                                            {FIELD_LABELS[change.field] || change.field}:{' '}
+                                            <span className="line-through">{change.from ?? '—'}</span> → {change.to ?? '—'}
+                                        </div>
+                                    ))}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
             </div>
         </div>
     );
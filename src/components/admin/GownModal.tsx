@@ -0,0 +1,266 @@
+// Add / Edit Gown Modal Component
+'use client';
+
+import { useState, useEffect } from 'react';
+
+export interface Gown {
+    id: string;
+    sku: string;
+    size: string;
+    silhouette?: string;
+    neckline?: string;
+    sleeve?: string;
+    color?: string;
+    condition?: string;
+    photos: string[];
+    status: 'available' | 'reserved' | 'out' | 'cleaning' | 'retired';
+    currentBookingId?: string;
+    wearCount?: number;
+    totalDaysOut?: number;
+    notes?: string;
+}
+
+interface GownModalProps {
+    gown?: Gown | null;
+    isOpen: boolean;
+    onClose: () => void;
+    onSuccess: () => void;
+}
+
+const SILHOUETTES = ['A-line', 'Ball gown', 'Mermaid', 'Trumpet', 'Sheath', 'Empire'];
+const NECKLINES = ['High neck', 'Jewel', 'Boat', 'Sweetheart', 'Square', 'V-neck'];
+const SLEEVES = ['Long', '3/4', 'Elbow', 'Cap'];
+const CONDITIONS = ['Excellent', 'Good', 'Fair', 'Needs repair'];
+
+export default function GownModal({ gown, isOpen, onClose, onSuccess }: GownModalProps) {
+    const isEditing = !!gown;
+
+    const [sku, setSku] = useState('');
+    const [size, setSize] = useState('');
+    const [silhouette, setSilhouette] = useState('');
+    const [neckline, setNeckline] = useState('');
+    const [sleeve, setSleeve] = useState('');
+    const [color, setColor] = useState('White');
+    const [condition, setCondition] = useState('Good');
+    const [photos, setPhotos] = useState('');
+    const [status, setStatus] = useState<Gown['status']>('available');
+    const [notes, setNotes] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    // Reset form when modal opens
+    useEffect(() => {
+        if (isOpen) {
+            setSku(gown?.sku || '');
+            setSize(gown?.size || '');
+            setSilhouette(gown?.silhouette || '');
+            setNeckline(gown?.neckline || '');
+            setSleeve(gown?.sleeve || '');
+            setColor(gown?.color || 'White');
+            setCondition(gown?.condition || 'Good');
+            setPhotos((gown?.photos || []).join('\n'));
+            setStatus(gown?.status || 'available');
+            setNotes(gown?.notes || '');
+            setError('');
+        }
+    }, [gown, isOpen]);
+
+    if (!isOpen) return null;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        setSaving(true);
+
+        const fields = {
+            size,
+            silhouette: silhouette || undefined,
+            neckline: neckline || undefined,
+            sleeve: sleeve || undefined,
+            color: color || undefined,
+            condition: condition || undefined,
+            photos: photos.split('\n').map(p => p.trim()).filter(Boolean),
+            status,
+            notes: notes || undefined,
+        };
+
+        try {
+            const res = await fetch('/api/admin/gowns', {
+                method: isEditing ? 'PATCH' : 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(isEditing
+                    ? { gownId: gown!.id, updates: fields }
+                    : { sku, ...fields }),
+            });
+
+            const data = await res.json();
+
+            if (!res.ok) {
+                throw new Error(data.error || 'Failed to save gown');
+            }
+
+            onSuccess();
+            onClose();
+        } catch (err: any) {
+            setError(err.message || 'Failed to save gown');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const inputClass = 'w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none';
+
+    return (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+            <div className="bg-white rounded-xl shadow-xl max-w-lg w-full overflow-hidden max-h-[90vh] overflow-y-auto">
+                <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center sticky top-0 bg-white">
+                    <h3 className="font-semibold text-lg text-gray-900">
+                        {isEditing ? `Edit Gown ${gown!.sku}` : 'Add Gown'}
+                    </h3>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl leading-none">&times;</button>
+                </div>
+
+                <form onSubmit={handleSubmit} className="p-6 space-y-4">
+                    {error && (
+                        <div className="bg-red-50 text-red-600 px-4 py-3 rounded-lg text-sm">
+                            {error}
+                        </div>
+                    )}
+
+                    {/* Tag & Size */}
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Tag Number *</label>
+                            <input
+                                type="text"
+                                value={sku}
+                                onChange={e => setSku(e.target.value)}
+                                disabled={isEditing}
+                                className={`${inputClass} disabled:bg-gray-50 disabled:text-gray-500`}
+                                placeholder="e.g., G-104"
+                                required
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Size *</label>
+                            <input
+                                type="text"
+                                value={size}
+                                onChange={e => setSize(e.target.value)}
+                                className={inputClass}
+                                placeholder="e.g., 8, Girls 6, 1X"
+                                required
+                            />
+                        </div>
+                    </div>
+
+                    {/* Style */}
+                    <div className="grid grid-cols-3 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Silhouette</label>
+                            <select value={silhouette} onChange={e => setSilhouette(e.target.value)} className={inputClass}>
+                                <option value="">—</option>
+                                {SILHOUETTES.map(s => <option key={s} value={s}>{s}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Neckline</label>
+                            <select value={neckline} onChange={e => setNeckline(e.target.value)} className={inputClass}>
+                                <option value="">—</option>
+                                {NECKLINES.map(n => <option key={n} value={n}>{n}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Sleeve</label>
+                            <select value={sleeve} onChange={e => setSleeve(e.target.value)} className={inputClass}>
+                                <option value="">—</option>
+                                {SLEEVES.map(s => <option key={s} value={s}>{s}</option>)}
+                            </select>
+                        </div>
+                    </div>
+
+                    {/* Color & Condition */}
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Color</label>
+                            <input
+                                type="text"
+                                value={color}
+                                onChange={e => setColor(e.target.value)}
+                                className={inputClass}
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Condition</label>
+                            <select value={condition} onChange={e => setCondition(e.target.value)} className={inputClass}>
+                                {CONDITIONS.map(c => <option key={c} value={c}>{c}</option>)}
+                            </select>
+                        </div>
+                    </div>
+
+                    {/* Status */}
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+                        <select
+                            value={status}
+                            onChange={e => setStatus(e.target.value as Gown['status'])}
+                            className={inputClass}
+                        >
+                            <option value="available">Available</option>
+                            <option value="reserved">Reserved</option>
+                            <option value="out">Out</option>
+                            <option value="cleaning">At cleaner</option>
+                            <option value="retired">Retired</option>
+                        </select>
+                        {isEditing && gown!.currentBookingId && status === 'retired' && (
+                            <p className="text-amber-600 text-sm mt-1">
+                                This gown is still linked to a booking. Swap it on the booking first.
+                            </p>
+                        )}
+                    </div>
+
+                    {/* Photos */}
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Photo URLs (one per line)</label>
+                        <textarea
+                            value={photos}
+                            onChange={e => setPhotos(e.target.value)}
+                            rows={2}
+                            className={`${inputClass} text-sm font-mono`}
+                        />
+                    </div>
+
+                    {/* Notes */}
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                        <textarea
+                            value={notes}
+                            onChange={e => setNotes(e.target.value)}
+                            rows={2}
+                            className={inputClass}
+                            placeholder="Internal notes..."
+                        />
+                    </div>
+
+                    {/* Actions */}
+                    <div className="pt-4 flex justify-end gap-3">
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            className="px-4 py-2 text-gray-600 hover:bg-gray-50 rounded-lg transition"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={saving}
+                            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+                        >
+                            {saving ? 'Saving...' : isEditing ? 'Save Changes' : 'Add Gown'}
+                        </button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,116 @@
+// Loan Item List - chips for the gown and accessories a booking takes home
+'use client';
+
+import { useState } from 'react';
+import type { ItemType } from '@/lib/types';
+import { getItemTypeClass } from '@/lib/utils';
+
+export interface LoanItem {
+    id?: string;
+    type: ItemType;
+    description: string;
+    gownId?: string;
+    pickedUp: boolean;
+    returned: boolean;
+}
+
+interface LoanItemListProps {
+    items: LoanItem[];
+    onChange?: (items: LoanItem[]) => void;  // Enables per-item pick up / return
+    editable?: boolean;                      // Enables removing and adding accessories
+}
+
+const ACCESSORY_TYPES: ItemType[] = ['Accessory', 'Other'];
+
+export default function LoanItemList({ items, onChange, editable = false }: LoanItemListProps) {
+    const [newType, setNewType] = useState<ItemType>('Accessory');
+    const [newDescription, setNewDescription] = useState('');
+
+    // Each click moves an item one step: waiting -> picked up -> returned
+    const advance = (index: number) => {
+        if (!onChange) return;
+        const item = items[index];
+        if (item.returned) return;
+        const next = item.pickedUp ? { ...item, returned: true } : { ...item, pickedUp: true };
+        onChange(items.map((i, idx) => (idx === index ? next : i)));
+    };
+
+    const remove = (index: number) => {
+        onChange?.(items.filter((_, idx) => idx !== index));
+    };
+
+    const add = () => {
+        if (!newDescription.trim()) return;
+        onChange?.([...items, { type: newType, description: newDescription.trim(), pickedUp: false, returned: false }]);
+        setNewDescription('');
+    };
+
+    const stepLabel = (item: LoanItem) => {
+        if (item.returned) return '✓';
+        if (item.pickedUp) return 'out';
+        return 'waiting';
+    };
+
+    return (
+        <div className="space-y-1">
+            {items.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                    {items.map((item, index) => (
+                        <span
+                            key={item.id || index}
+                            className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium ${getItemTypeClass(item.type)} ${item.returned ? 'opacity-60' : ''}`}
+                        >
+                            <span>{item.description}</span>
+                            <button
+                                onClick={() => advance(index)}
+                                disabled={!onChange || item.returned}
+                                className="px-1 rounded bg-white/60 text-[10px] uppercase tracking-wide disabled:cursor-default"
+                                title={item.returned ? 'Returned' : item.pickedUp ? 'Mark returned' : 'Mark picked up'}
+                            >
+                                {stepLabel(item)}
+                            </button>
+                            {editable && (
+                                <button
+                                    onClick={() => remove(index)}
+                                    className="opacity-60 hover:opacity-100 leading-none"
+                                    title="Remove item"
+                                >
+                                    &times;
+                                </button>
+                            )}
+                        </span>
+                    ))}
+                </div>
+            )}
+
+            {editable && (
+                <div className="flex gap-1">
+                    <select
+                        value={newType}
+                        onChange={(e) => setNewType(e.target.value as ItemType)}
+                        className="px-1 py-1 text-xs border rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    >
+                        {ACCESSORY_TYPES.map(type => (
+                            <option key={type} value={type}>{type}</option>
+                        ))}
+                    </select>
+                    <input
+                        type="text"
+                        value={newDescription}
+                        onChange={(e) => setNewDescription(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && add()}
+                        placeholder="Veil, slip, flower girl..."
+                        className="flex-1 min-w-0 px-2 py-1 text-xs border rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    />
+                    <button
+                        onClick={add}
+                        disabled={!newDescription.trim()}
+                        className="px-2 py-1 text-xs text-blue-600 border rounded hover:bg-blue-50 disabled:opacity-40"
+                    >
+                        Add
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,218 @@
+// Admin Users - named dashboard accounts with their own passwords and roles
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import { Firestore, Timestamp } from 'firebase-admin/firestore';
+import { AdminRole, ADMIN_ROLES } from './roles';
+
+const COLLECTIONS = {
+    ADMIN_USERS: 'adminUsers',
+} as const;
+
+const MIN_PASSWORD_LENGTH = 8;
+
+// Session ID used when signing in with ADMIN_PASSWORD before any accounts exist
+export const BOOTSTRAP_ADMIN_ID = 'bootstrap';
+
+export interface AdminUser {
+    id: string;            // Normalized username, also the document ID
+    name: string;          // Shown in booking history
+    role: AdminRole;
+    passwordHash: string;  // scrypt$salt$hash
+    active: boolean;
+    lastLoginAt?: Timestamp;
+    createdAt: Timestamp;
+    updatedAt: Timestamp;
+}
+
+export type PublicAdminUser = Omit<AdminUser, 'passwordHash'>;
+
+/**
+ * Normalize a username into a document ID (e.g., " Rivky " -> "rivky")
+ */
+export function normalizeUsername(username: string): string {
+    return username.trim().toLowerCase().replace(/[^a-z0-9._-]/g, '');
+}
+
+export function hashPassword(password: string): string {
+    const salt = randomBytes(16).toString('hex');
+    const hash = scryptSync(password, salt, 64).toString('hex');
+    return `scrypt$${salt}$${hash}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+    const [scheme, salt, hash] = stored.split('$');
+    if (scheme !== 'scrypt' || !salt || !hash) {
+        return false;
+    }
+
+    const expected = Buffer.from(hash, 'hex');
+    const actual = scryptSync(password, salt, expected.length);
+    return timingSafeEqual(actual, expected);
+}
+
+function toPublic(user: AdminUser): PublicAdminUser {
+    const { passwordHash, ...rest } = user;
+    return rest;
+}
+
+function validatePassword(password: string | undefined) {
+    if (!password || password.length < MIN_PASSWORD_LENGTH) {
+        throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+}
+
+function validateRole(role: string) {
+    if (!ADMIN_ROLES.includes(role as AdminRole)) {
+        throw new Error(`Unknown role: ${role}`);
+    }
+}
+
+/**
+ * Whether any admin accounts have been set up yet
+ */
+export async function hasAdminUsers(db: Firestore): Promise<boolean> {
+    const snapshot = await db.collection(COLLECTIONS.ADMIN_USERS).limit(1).get();
+    return !snapshot.empty;
+}
+
+/**
+ * List all admin accounts (without password hashes)
+ */
+export async function getAdminUsers(db: Firestore): Promise<PublicAdminUser[]> {
+    const snapshot = await db.collection(COLLECTIONS.ADMIN_USERS).orderBy('name', 'asc').get();
+    return snapshot.docs.map((d) => toPublic(d.data() as AdminUser));
+}
+
+/**
+ * Get an admin account by ID (without password hash)
+ */
+export async function getAdminUserById(
+    db: Firestore,
+    userId: string
+): Promise<PublicAdminUser | null> {
+    const doc = await db.collection(COLLECTIONS.ADMIN_USERS).doc(userId).get();
+    return doc.exists ? toPublic(doc.data() as AdminUser) : null;
+}
+
+/**
+ * Check a username and password; returns the account if they match an active user
+ */
+export async function authenticateAdminUser(
+    db: Firestore,
+    username: string,
+    password: string
+): Promise<PublicAdminUser | null> {
+    const userId = normalizeUsername(username);
+    if (!userId) {
+        return null;
+    }
+
+    const ref = db.collection(COLLECTIONS.ADMIN_USERS).doc(userId);
+    const doc = await ref.get();
+    if (!doc.exists) {
+        return null;
+    }
+
+    const user = doc.data() as AdminUser;
+    if (!user.active || !verifyPassword(password, user.passwordHash)) {
+        return null;
+    }
+
+    await ref.update({ lastLoginAt: Timestamp.now() });
+    return toPublic(user);
+}
+
+/**
+ * Add an admin account
+ */
+export async function createAdminUser(
+    db: Firestore,
+    data: { username: string; name: string; role: AdminRole; password: string }
+): Promise<PublicAdminUser> {
+    const userId = normalizeUsername(data.username || '');
+    if (!userId || userId === BOOTSTRAP_ADMIN_ID) {
+        throw new Error('A valid username is required');
+    }
+    if (!data.name?.trim()) {
+        throw new Error('Name is required');
+    }
+    validateRole(data.role);
+    validatePassword(data.password);
+
+    if (data.role !== 'owner' && !(await hasAdminUsers(db))) {
+        throw new Error('The first account must be an owner');
+    }
+
+    const ref = db.collection(COLLECTIONS.ADMIN_USERS).doc(userId);
+    const existing = await ref.get();
+    if (existing.exists) {
+        throw new Error(`The username ${userId} is already taken`);
+    }
+
+    const now = Timestamp.now();
+    const user: AdminUser = {
+        id: userId,
+        name: data.name.trim(),
+        role: data.role,
+        passwordHash: hashPassword(data.password),
+        active: true,
+        createdAt: now,
+        updatedAt: now,
+    };
+
+    await ref.set(user);
+    return toPublic(user);
+}
+
+/**
+ * Change an account's name, role, password or active flag.
+ * The last active owner cannot be demoted or deactivated.
+ */
+export async function updateAdminUser(
+    db: Firestore,
+    userId: string,
+    updates: Partial<{ name: string; role: AdminRole; password: string; active: boolean }>
+): Promise<PublicAdminUser | null> {
+    const ref = db.collection(COLLECTIONS.ADMIN_USERS).doc(userId);
+    const doc = await ref.get();
+    if (!doc.exists) {
+        return null;
+    }
+
+    const user = doc.data() as AdminUser;
+    const updateData: Partial<AdminUser> = { updatedAt: Timestamp.now() };
+
+    if (updates.name !== undefined) {
+        if (!updates.name.trim()) {
+            throw new Error('Name is required');
+        }
+        updateData.name = updates.name.trim();
+    }
+    if (updates.role !== undefined) {
+        validateRole(updates.role);
+        updateData.role = updates.role;
+    }
+    if (updates.password !== undefined) {
+        validatePassword(updates.password);
+        updateData.passwordHash = hashPassword(updates.password);
+    }
+    if (updates.active !== undefined) {
+        updateData.active = updates.active;
+    }
+
+    const losesOwner = user.role === 'owner' && user.active
+        && ((updateData.role && updateData.role !== 'owner') || updateData.active === false);
+    if (losesOwner) {
+        const owners = await db.collection(COLLECTIONS.ADMIN_USERS)
+            .where('role', '==', 'owner')
+            .where('active', '==', true)
+            .get();
+        if (owners.size <= 1) {
+            throw new Error('There must be at least one active owner');
+        }
+    }
+
+    await ref.update(updateData);
+
+    const updated = await ref.get();
+    return toPublic(updated.data() as AdminUser);
+}
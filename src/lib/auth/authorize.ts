@@ -0,0 +1,59 @@
+// Admin authorization - resolves who is calling an admin route and whether they may act
+import { NextRequest, NextResponse } from 'next/server';
+import { Firestore } from 'firebase-admin/firestore';
+import { SESSION_COOKIE, verifySessionToken } from './session';
+import { AdminAction, AdminRole, ROLE_LABELS, can } from './roles';
+import { BOOTSTRAP_ADMIN_ID, getAdminUserById, hasAdminUsers } from './admin-users';
+import { isSessionRevoked } from './revoked-sessions';
+
+export interface AdminActor {
+    id: string;
+    name: string;
+    role: AdminRole;
+}
+
+type AuthorizeResult =
+    | { actor: AdminActor; denied: null }
+    | { actor: null; denied: NextResponse };
+
+function deny(error: string, status: number): AuthorizeResult {
+    return { actor: null, denied: NextResponse.json({ error }, { status }) };
+}
+
+/**
+ * Look up the signed-in admin and check the action against their current role.
+ * Roles are re-read from Firestore so demoted or deactivated accounts lose access immediately,
+ * and signed-out tokens are refused. Called without an action, it only checks the session.
+ */
+export async function authorizeAdmin(
+    db: Firestore,
+    request: NextRequest,
+    action?: AdminAction
+): Promise<AuthorizeResult> {
+    const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+    // Tokens issued before sessions had IDs can't be revoked, so they must sign in again
+    if (!session || !session.sid || await isSessionRevoked(db, session.sid)) {
+        return deny('Unauthorized', 401);
+    }
+
+    let actor: AdminActor;
+    if (session.sub === BOOTSTRAP_ADMIN_ID) {
+        // The shared password only works until the first named account exists
+        if (await hasAdminUsers(db)) {
+            return deny('Please sign in with your own account', 401);
+        }
+        actor = { id: session.sub, name: session.name, role: 'owner' };
+    } else {
+        const user = await getAdminUserById(db, session.sub);
+        if (!user || !user.active) {
+            return deny('Unauthorized', 401);
+        }
+        actor = { id: user.id, name: user.name, role: user.role };
+    }
+
+    if (action && !can(actor.role, action)) {
+        return deny(`${ROLE_LABELS[actor.role]} accounts are not allowed to do this`, 403);
+    }
+
+    return { actor, denied: null };
+}
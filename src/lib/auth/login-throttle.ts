@@ -0,0 +1,79 @@
+// Login throttling - locks out a client after repeated wrong passwords, and an
+// account after many more from any number of clients
+import { createHash } from 'crypto';
+import { Firestore, Timestamp } from 'firebase-admin/firestore';
+
+const COLLECTIONS = {
+    LOGIN_ATTEMPTS: 'loginAttempts',
+} as const;
+
+const MAX_FAILURES = 5;
+// Higher for an account, so one client can't lock its owner out as easily
+export const ACCOUNT_MAX_FAILURES = 20;
+const WINDOW_MS = 15 * 60 * 1000;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+interface LoginAttempts {
+    failures: number;
+    windowStart: Timestamp;
+    lockedUntil?: Timestamp;
+}
+
+/**
+ * One document per client, keyed by a hash so raw IPs aren't stored
+ */
+function attemptsRef(db: Firestore, clientKey: string) {
+    const id = createHash('sha256').update(clientKey).digest('hex');
+    return db.collection(COLLECTIONS.LOGIN_ATTEMPTS).doc(id);
+}
+
+/**
+ * Seconds until this client may try again (0 if not locked out)
+ */
+export async function getLockoutSeconds(db: Firestore, clientKey: string): Promise<number> {
+    const doc = await attemptsRef(db, clientKey).get();
+    const lockedUntil = (doc.data() as LoginAttempts | undefined)?.lockedUntil;
+    if (!lockedUntil) {
+        return 0;
+    }
+
+    return Math.max(0, Math.ceil((lockedUntil.toMillis() - Date.now()) / 1000));
+}
+
+/**
+ * Count a wrong password; returns the lockout in seconds if this one tipped it over
+ */
+export async function recordFailedLogin(
+    db: Firestore,
+    clientKey: string,
+    maxFailures: number = MAX_FAILURES
+): Promise<number> {
+    const ref = attemptsRef(db, clientKey);
+
+    return db.runTransaction(async (tx) => {
+        const doc = await tx.get(ref);
+        const existing = doc.data() as LoginAttempts | undefined;
+        const now = Date.now();
+
+        const inWindow = existing && now - existing.windowStart.toMillis() < WINDOW_MS;
+        const failures = inWindow ? existing.failures + 1 : 1;
+        const attempts: LoginAttempts = {
+            failures,
+            windowStart: inWindow ? existing.windowStart : Timestamp.fromMillis(now),
+        };
+
+        if (failures >= maxFailures) {
+            attempts.lockedUntil = Timestamp.fromMillis(now + LOCKOUT_MS);
+        }
+
+        tx.set(ref, attempts);
+        return attempts.lockedUntil ? Math.ceil(LOCKOUT_MS / 1000) : 0;
+    });
+}
+
+/**
+ * Forget past failures after a successful login
+ */
+export async function clearFailedLogins(db: Firestore, clientKey: string): Promise<void> {
+    await attemptsRef(db, clientKey).delete();
+}
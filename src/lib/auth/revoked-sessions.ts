@@ -0,0 +1,33 @@
+// Revoked sessions - tokens that were signed out before they expired
+import { Firestore, Timestamp } from 'firebase-admin/firestore';
+import type { AdminSession } from './session';
+
+const COLLECTIONS = {
+    REVOKED_SESSIONS: 'revokedSessions',
+} as const;
+
+interface RevokedSession {
+    sub: string;
+    revokedAt: Timestamp;
+    expiresAt: Timestamp;  // After this the token is rejected anyway (set a TTL policy on this field)
+}
+
+/**
+ * Stop a session's token from working, e.g. on sign out
+ */
+export async function revokeSession(db: Firestore, session: AdminSession): Promise<void> {
+    const revoked: RevokedSession = {
+        sub: session.sub,
+        revokedAt: Timestamp.now(),
+        expiresAt: Timestamp.fromMillis(session.exp * 1000),
+    };
+    await db.collection(COLLECTIONS.REVOKED_SESSIONS).doc(session.sid).set(revoked);
+}
+
+/**
+ * Whether a session was signed out
+ */
+export async function isSessionRevoked(db: Firestore, sid: string): Promise<boolean> {
+    const doc = await db.collection(COLLECTIONS.REVOKED_SESSIONS).doc(sid).get();
+    return doc.exists;
+}
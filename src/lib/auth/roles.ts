@@ -0,0 +1,48 @@
+// Admin roles - what each kind of admin account may change
+
+export type AdminRole = 'owner' | 'volunteer' | 'readonly';
+
+export const ADMIN_ROLES: AdminRole[] = ['owner', 'volunteer', 'readonly'];
+
+export const ROLE_LABELS: Record<AdminRole, string> = {
+    owner: 'Owner',
+    volunteer: 'Volunteer',
+    readonly: 'Read-only',
+};
+
+export type AdminAction =
+    | 'bookings:create'
+    | 'bookings:update'
+    | 'bookings:cancel'
+    | 'bookings:reschedule'
+    | 'gowns:edit'
+    | 'schedule:edit'
+    | 'users:manage';
+
+// Read-only accounts can look at everything but change nothing
+const PERMISSIONS: Record<AdminRole, AdminAction[]> = {
+    owner: [
+        'bookings:create',
+        'bookings:update',
+        'bookings:cancel',
+        'bookings:reschedule',
+        'gowns:edit',
+        'schedule:edit',
+        'users:manage',
+    ],
+    volunteer: [
+        'bookings:create',
+        'bookings:update',
+        'bookings:cancel',
+        'bookings:reschedule',
+        'gowns:edit',
+    ],
+    readonly: [],
+};
+
+/**
+ * Check whether a role may perform an action
+ */
+export function can(role: AdminRole, action: AdminAction): boolean {
+    return PERMISSIONS[role]?.includes(action) ?? false;
+}
@@ -0,0 +1,118 @@
+// Admin sessions - signed, expiring tokens carried in an HttpOnly cookie
+// Uses Web Crypto so the same code runs in middleware (Edge) and route handlers (Node)
+import type { AdminRole } from './roles';
+
+export const SESSION_COOKIE = 'admin_session';
+export const SESSION_TTL_SECONDS = 60 * 60 * 12; // One working day
+
+export interface AdminSession {
+    sid: string;   // Session ID, so signing out can revoke this token
+    sub: string;   // Admin user ID
+    name: string;
+    role: AdminRole;
+    iat: number;   // Issued at (seconds since epoch)
+    exp: number;   // Expires at (seconds since epoch)
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+    let binary = '';
+    bytes.forEach(b => { binary += String.fromCharCode(b); });
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
+
+async function getKey(secret: string): Promise<CryptoKey> {
+    return crypto.subtle.importKey(
+        'raw',
+        encoder.encode(secret),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign', 'verify']
+    );
+}
+
+/**
+ * Issue a session token for a signed-in admin
+ */
+export async function createSessionToken(user: { id: string; name: string; role: AdminRole }): Promise<string> {
+    const secret = process.env.ADMIN_SESSION_SECRET;
+    if (!secret) {
+        throw new Error('ADMIN_SESSION_SECRET not configured');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const session: AdminSession = {
+        sid: crypto.randomUUID(),
+        sub: user.id,
+        name: user.name,
+        role: user.role,
+        iat: now,
+        exp: now + SESSION_TTL_SECONDS,
+    };
+    const payload = toBase64Url(encoder.encode(JSON.stringify(session)));
+
+    const signature = await crypto.subtle.sign('HMAC', await getKey(secret), encoder.encode(payload));
+    return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Check a session token's signature and expiry (null if it is missing, forged or expired).
+ * This can't see sign-outs - routes that read data go through authorizeAdmin for that.
+ */
+export async function verifySessionToken(token: string | undefined): Promise<AdminSession | null> {
+    const secret = process.env.ADMIN_SESSION_SECRET;
+    if (!secret || !token) {
+        return null;
+    }
+
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) {
+        return null;
+    }
+
+    try {
+        const valid = await crypto.subtle.verify(
+            'HMAC',
+            await getKey(secret),
+            fromBase64Url(signature),
+            encoder.encode(payload)
+        );
+        if (!valid) {
+            return null;
+        }
+
+        const session = JSON.parse(decoder.decode(fromBase64Url(payload))) as AdminSession;
+        if (typeof session.exp !== 'number' || session.exp <= Math.floor(Date.now() / 1000)) {
+            return null;
+        }
+
+        return session;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Cookie settings for the session (maxAge 0 clears it)
+ */
+export function getSessionCookieOptions(maxAge: number = SESSION_TTL_SECONDS) {
+    return {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax' as const,
+        path: '/',
+        maxAge,
+    };
+}
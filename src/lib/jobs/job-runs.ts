@@ -0,0 +1,193 @@
+// Scheduled jobs - when each job is due, claiming a run so overlapping cron
+// calls can't both do it, and the jobRuns log the admin page reads
+import { Firestore, Timestamp } from 'firebase-admin/firestore';
+import { getBusinessDateParts, toDateKey } from '../sms/date-utils';
+
+export type JobSchedule =
+    // Every few minutes
+    | { type: 'interval'; minutes: number }
+    // Once a day, from an hour in Brooklyn (0-23)
+    | { type: 'daily'; hour: number }
+    // Once a week on a weekday (0 = Sunday), from an hour in Brooklyn
+    | { type: 'weekly'; weekday: number; hour: number };
+
+export interface JobResult {
+    counts: Record<string, number>;  // e.g., { remindersSent: 3 }
+    errors: string[];                // Problems with single items that didn't stop the job
+}
+
+export interface JobDefinition {
+    id: string;
+    name: string;
+    description: string;
+    schedule: JobSchedule;
+    run: (db: Firestore, now: Date) => Promise<JobResult>;
+}
+
+export type JobRunStatus = 'success' | 'partial' | 'failed';
+
+export interface JobRun {
+    id: string;
+    jobId: string;
+    trigger: 'cron' | 'manual';
+    status: JobRunStatus;
+    counts: Record<string, number>;
+    errors: string[];
+    startedAt: Timestamp;
+    finishedAt: Timestamp;
+    durationMs: number;
+}
+
+// When each job last ran - server-only, used to decide what's due
+export interface JobState {
+    jobId: string;
+    lastStartedAt: Timestamp;
+    lastFinishedAt?: Timestamp;
+    lastSucceededAt?: Timestamp;  // The last run that didn't fail - a failed run is retried
+}
+
+const COLLECTIONS = {
+    JOB_RUNS: 'jobRuns',
+    JOB_STATE: 'jobState',
+};
+
+// Cron calls drift by a minute or two; don't skip an interval run because of it
+const INTERVAL_SLACK_MS = 2 * 60 * 1000;
+
+// A run that started this recently and hasn't finished is still going (one that
+// died mid-way is picked up again after this)
+const RUN_LEASE_MS = 10 * 60 * 1000;
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+function formatHour(hour: number): string {
+    const period = hour < 12 ? 'AM' : 'PM';
+    return `${hour % 12 || 12}:00 ${period}`;
+}
+
+/**
+ * Describe a schedule for the admin page (e.g., "Sundays at 9:00 AM")
+ */
+export function describeSchedule(schedule: JobSchedule): string {
+    if (schedule.type === 'interval') {
+        return `Every ${schedule.minutes} minutes`;
+    }
+    if (schedule.type === 'daily') {
+        return `Daily at ${formatHour(schedule.hour)}`;
+    }
+    return `${WEEKDAY_NAMES[schedule.weekday]}s at ${formatHour(schedule.hour)}`;
+}
+
+/**
+ * Whether a job should run now, given when it last ran successfully. Daily and
+ * weekly jobs run on the first call after their hour, once per Brooklyn day.
+ */
+export function isJobDue(schedule: JobSchedule, now: Date, lastRunAt: Date | null): boolean {
+    if (schedule.type === 'interval') {
+        return !lastRunAt || now.getTime() - lastRunAt.getTime() >= schedule.minutes * 60 * 1000 - INTERVAL_SLACK_MS;
+    }
+
+    const { weekday, hours } = getBusinessDateParts(now);
+    if (hours < schedule.hour || (schedule.type === 'weekly' && weekday !== schedule.weekday)) {
+        return false;
+    }
+    return !lastRunAt || toDateKey(lastRunAt) !== toDateKey(now);
+}
+
+/**
+ * Whether a cron call should start a job: it's due since its last successful
+ * run, and no run is still in progress
+ */
+export function isRunClaimable(schedule: JobSchedule, now: Date, state: JobState | null): boolean {
+    if (!state) {
+        return isJobDue(schedule, now, null);
+    }
+
+    const started = state.lastStartedAt.toMillis();
+    if (started > (state.lastFinishedAt?.toMillis() ?? 0) && now.getTime() - started < RUN_LEASE_MS) {
+        return false;
+    }
+    // Older state documents only know when the job last started
+    return isJobDue(schedule, now, (state.lastSucceededAt ?? state.lastStartedAt).toDate());
+}
+
+/**
+ * Claim a job's run if it is due (or forced). Two overlapping cron calls can't
+ * both claim the same run, and a run still in progress isn't started again.
+ */
+export async function claimJobRun(
+    db: Firestore,
+    job: JobDefinition,
+    now: Date,
+    force: boolean = false
+): Promise<boolean> {
+    const ref = db.collection(COLLECTIONS.JOB_STATE).doc(job.id);
+
+    return db.runTransaction(async (transaction) => {
+        const doc = await transaction.get(ref);
+        if (!force && !isRunClaimable(job.schedule, now, doc.exists ? doc.data() as JobState : null)) {
+            return false;
+        }
+
+        transaction.set(ref, { jobId: job.id, lastStartedAt: Timestamp.fromDate(now) }, { merge: true });
+        return true;
+    });
+}
+
+/**
+ * Run a job and record the run. A job that throws is recorded as failed rather
+ * than stopping the jobs after it, and is due again on the next cron call.
+ */
+export async function runJob(
+    db: Firestore,
+    job: JobDefinition,
+    now: Date,
+    trigger: JobRun['trigger'] = 'cron'
+): Promise<JobRun> {
+    const started = Date.now();
+    let result: JobResult;
+    let status: JobRunStatus;
+    try {
+        result = await job.run(db, now);
+        status = result.errors.length > 0 ? 'partial' : 'success';
+    } catch (error: any) {
+        console.error(`Job ${job.id} failed:`, error);
+        result = { counts: {}, errors: [error.message] };
+        status = 'failed';
+    }
+
+    const ref = db.collection(COLLECTIONS.JOB_RUNS).doc();
+    const run: JobRun = {
+        id: ref.id,
+        jobId: job.id,
+        trigger,
+        status,
+        counts: result.counts,
+        errors: result.errors,
+        startedAt: Timestamp.fromMillis(started),
+        finishedAt: Timestamp.now(),
+        durationMs: Date.now() - started,
+    };
+    await ref.set(run);
+
+    const state: Partial<JobState> = { lastFinishedAt: Timestamp.now() };
+    if (status !== 'failed') {
+        state.lastSucceededAt = Timestamp.fromDate(now);
+    }
+    await db.collection(COLLECTIONS.JOB_STATE).doc(job.id).set(state, { merge: true });
+    return run;
+}
+
+/**
+ * Most recent runs, newest first (optionally of one job)
+ */
+export async function getRecentJobRuns(db: Firestore, limit: number = 50, jobId?: string): Promise<JobRun[]> {
+    const snapshot = jobId
+        ? await db.collection(COLLECTIONS.JOB_RUNS).where('jobId', '==', jobId).get()
+        : await db.collection(COLLECTIONS.JOB_RUNS).orderBy('startedAt', 'desc').limit(limit).get();
+
+    return snapshot.docs
+        .map(doc => doc.data() as JobRun)
+        .sort((a, b) => b.startedAt.toMillis() - a.startedAt.toMillis())
+        .slice(0, limit);
+}
@@ -0,0 +1,323 @@
+// Job registry - every scheduled job, its schedule and what it does.
+// /api/cron runs whichever are due; times are Brooklyn times.
+import { Firestore } from 'firebase-admin/firestore';
+import {
+    getBookingsAwaitingPickup,
+    getBookingsForDate,
+    getBookingsInRange,
+    getBookingsNeedingReminder,
+} from '../sms/booking-handler';
+import {
+    getPickupsForBooking,
+    getPickupsForDate,
+    getPickupsNeedingReminder,
+    isPickupKindOpen,
+    pickupReminderSentUpdate,
+    PICKUP_DAYS_BEFORE_WEDDING,
+} from '../sms/pickup-appointments';
+import { sendReturnReminders } from '../sms/return-reminders';
+import { getOpenDay, getScheduleConfig, getScheduleForDate } from '../sms/schedule-config';
+import { expireWaitlistOffers } from '../sms/waitlist';
+import { BUSINESS_TIME_ZONE, formatDateShort, getBusinessDay, getWeekRange, toBusinessDate, toDateKey } from '../sms/date-utils';
+import { bookingUpdate, dispatchDueMessages, enqueueSms, OutboxMessage } from '../sms/outbox';
+import { Booking } from '../sms/types';
+import {
+    formatBookingForSummary,
+    getDayBeforeReminderTemplate,
+    getPickupOverdueAlertTemplate,
+    getPickupReminderTemplate,
+    getPickupWindowReminderTemplate,
+    getWeeklySummaryTemplate,
+} from '../sms/templates';
+import { JobDefinition, JobResult } from './job-runs';
+
+const MANAGER_PHONE = process.env.MANAGER_PHONE;
+
+// Count a queued text as sent, or as waiting on the outbox to retry it
+function tally(result: JobResult, key: string, message: OutboxMessage) {
+    const counter = message.status === 'sent' ? key : 'retrying';
+    result.counts[counter] = (result.counts[counter] || 0) + 1;
+}
+
+/**
+ * Manager digest - the day before an open day or extra session, tomorrow's
+ * appointments; the morning of one, today's (not on Shabbos - Motzei Shabbos
+ * appointments already went out on Friday)
+ */
+async function sendManagerDigest(db: Firestore, now: Date): Promise<JobResult> {
+    if (!MANAGER_PHONE) {
+        return { counts: {}, errors: ['MANAGER_PHONE not configured'] };
+    }
+
+    const schedule = await getScheduleConfig(db);
+    const today = toBusinessDate(now);
+    const nextDay = toBusinessDate(today, 1);
+    const dayName = (date: Date) =>
+        getOpenDay(schedule, date)?.name || date.toLocaleDateString('en-US', { weekday: 'long', timeZone: BUSINESS_TIME_ZONE });
+
+    let targetDate: Date | null = null;
+    let label = '';
+    if (await getScheduleForDate(db, nextDay, schedule)) {
+        targetDate = nextDay;
+        label = `Tomorrow (${dayName(nextDay)})`;
+    } else if (getBusinessDay(today) !== 6 && await getScheduleForDate(db, today, schedule)) {
+        targetDate = today;
+        label = `Today (${dayName(today)})`;
+    }
+    if (!targetDate) {
+        return { counts: { digestsSent: 0 }, errors: [] };
+    }
+
+    const bookings = await getBookingsForDate(db, targetDate);
+    const pickups = await getPickupsForDate(db, targetDate);
+    if (bookings.length === 0 && pickups.length === 0) {
+        return { counts: { digestsSent: 0, appointments: 0 }, errors: [] };
+    }
+
+    const list = bookings.map(b => formatBookingForSummary(b)).join('\n');
+    const pickupList = pickups.length > 0
+        ? `\n\n📦 Pickups & returns:\n${pickups.map(p => `• ${p.slotTime} - ${p.customerName} (${p.kind})`).join('\n')}`
+        : '';
+    const message = `📋 ${label} Appointments (${bookings.length}):\n\n${list}${pickupList}\n\n👉 Admin: ${process.env.VERCEL_URL || 'your-site.vercel.app'}/admin`;
+
+    const result: JobResult = { counts: { digestsSent: 0, appointments: bookings.length, pickups: pickups.length }, errors: [] };
+    // One digest per target date per day - a retried or forced run doesn't text it again
+    tally(result, 'digestsSent', await enqueueSms(db, {
+        to: MANAGER_PHONE,
+        body: message,
+        type: 'manager',
+        dedupeKey: `digest_${toDateKey(today)}_${toDateKey(targetDate)}`,
+    }));
+    return result;
+}
+
+/**
+ * Remind customers whose fitting is tomorrow
+ */
+async function sendDayBeforeReminders(db: Firestore, now: Date): Promise<JobResult> {
+    const tomorrow = toBusinessDate(now, 1);
+    const result: JobResult = { counts: { remindersSent: 0 }, errors: [] };
+
+    for (const booking of await getBookingsNeedingReminder(db, tomorrow)) {
+        try {
+            const message = await enqueueSms(db, {
+                to: booking.customerPhone,
+                body: getDayBeforeReminderTemplate({
+                    name: booking.customerName,
+                    date: formatDateShort(booking.appointmentDate.toDate()),
+                    time: booking.slotTime,
+                    groupSize: booking.groupSize,
+                }),
+                type: 'day-before-reminder',
+                bookingId: booking.id,
+                dedupeKey: `dayBefore_${booking.id}_${toDateKey(booking.appointmentDate.toDate())}`,
+                onSent: [bookingUpdate(booking.id, { dayBeforeReminderSent: true })],
+            });
+            tally(result, 'remindersSent', message);
+        } catch (error: any) {
+            result.errors.push(`Reminder failed for ${booking.customerPhone}: ${error.message}`);
+        }
+    }
+    return result;
+}
+
+/**
+ * Pickup reminders: tomorrow's pickup and return appointments, brides whose
+ * wedding is two weeks out with a gown chosen but no pickup booked, and a
+ * manager alert once the wedding is within a week
+ */
+async function sendPickupReminders(db: Firestore, now: Date): Promise<JobResult> {
+    const today = toBusinessDate(now);
+    const result: JobResult = {
+        counts: { appointmentReminders: 0, arrangeReminders: 0, managerAlerts: 0 },
+        errors: [],
+    };
+
+    for (const pickup of await getPickupsNeedingReminder(db, toBusinessDate(today, 1))) {
+        try {
+            const message = await enqueueSms(db, {
+                to: pickup.customerPhone,
+                body: getPickupReminderTemplate({
+                    name: pickup.customerName,
+                    kind: pickup.kind,
+                    time: pickup.slotTime,
+                }),
+                type: 'pickup-reminder',
+                bookingId: pickup.bookingId,
+                dedupeKey: `pickupReminder_${pickup.id}_${pickup.dateStr}`,
+                onSent: [pickupReminderSentUpdate(pickup.id)],
+            });
+            tally(result, 'appointmentReminders', message);
+        } catch (error: any) {
+            result.errors.push(`Pickup reminder failed for ${pickup.customerPhone}: ${error.message}`);
+        }
+    }
+
+    // Brides who already booked a pickup time are left alone
+    const canBookPickups = isPickupKindOpen(await getScheduleConfig(db), 'pickup');
+    const awaitingPickup = await getBookingsAwaitingPickup(db, today, toBusinessDate(today, PICKUP_DAYS_BEFORE_WEDDING));
+    const weekOut = toBusinessDate(today, 7);
+    const overdue: Booking[] = [];
+
+    for (const booking of awaitingPickup) {
+        if ((await getPickupsForBooking(db, booking.id)).some(p => p.kind === 'pickup')) {
+            continue;
+        }
+
+        const weddingDate = booking.weddingDate.toDate();
+        if (weddingDate <= weekOut) {
+            if (!booking.pickupEscalationSent) {
+                overdue.push(booking);
+            }
+            continue;
+        }
+        if (booking.pickupReminderSent) {
+            continue;
+        }
+
+        try {
+            const message = await enqueueSms(db, {
+                to: booking.customerPhone,
+                body: getPickupWindowReminderTemplate({
+                    name: booking.customerName,
+                    weddingDate: formatDateShort(weddingDate),
+                    canBook: canBookPickups,
+                }),
+                type: 'arrange-pickup',
+                bookingId: booking.id,
+                dedupeKey: `arrangePickup_${booking.id}_${toDateKey(weddingDate)}`,
+                onSent: [bookingUpdate(booking.id, { pickupReminderSent: true })],
+            });
+            tally(result, 'arrangeReminders', message);
+        } catch (error: any) {
+            result.errors.push(`Arrange-pickup reminder failed for ${booking.customerPhone}: ${error.message}`);
+        }
+    }
+
+    if (MANAGER_PHONE && overdue.length > 0) {
+        const message = await enqueueSms(db, {
+            to: MANAGER_PHONE,
+            body: getPickupOverdueAlertTemplate(overdue.map(b => ({
+                name: b.customerName,
+                phone: b.customerPhone,
+                weddingDate: formatDateShort(b.weddingDate.toDate()),
+            }))),
+            type: 'manager',
+            dedupeKey: `pickupOverdue_${toDateKey(today)}`,
+            onSent: overdue.map(b => bookingUpdate(b.id, { pickupEscalationSent: true })),
+        });
+        tally(result, 'managerAlerts', message);
+    }
+    return result;
+}
+
+/**
+ * The overdue return ladder (see return-reminders)
+ */
+async function sendReturnLadder(db: Firestore): Promise<JobResult> {
+    const schedule = await getScheduleConfig(db);
+    const { reminders, overdueAlerts, retrying } = await sendReturnReminders(db, schedule.returnReminders, MANAGER_PHONE);
+    return { counts: { remindersSent: reminders, overdueAlerts, retrying }, errors: [] };
+}
+
+/**
+ * The week's appointments for the manager
+ */
+async function sendWeeklySummary(db: Firestore, now: Date): Promise<JobResult> {
+    if (!MANAGER_PHONE) {
+        return { counts: {}, errors: ['MANAGER_PHONE not configured'] };
+    }
+
+    const { start, end } = getWeekRange(now);
+    const bookings = await getBookingsInRange(db, start, end);
+    const message = await enqueueSms(db, {
+        to: MANAGER_PHONE,
+        body: getWeeklySummaryTemplate({
+            name: 'Manager',
+            date: '',
+            time: '',
+            appointmentList: bookings.map(b => formatBookingForSummary(b)).join('\n'),
+            count: bookings.length,
+        }),
+        type: 'manager',
+        dedupeKey: `weeklySummary_${toDateKey(start)}`,
+    });
+    const result: JobResult = { counts: { summariesSent: 0, appointments: bookings.length }, errors: [] };
+    tally(result, 'summariesSent', message);
+    return result;
+}
+
+/**
+ * Close waitlist offers nobody accepted and pass the slots on
+ */
+async function expireOffers(db: Firestore): Promise<JobResult> {
+    return { counts: { expiredOffers: await expireWaitlistOffers(db) }, errors: [] };
+}
+
+/**
+ * Retry queued texts Twilio turned down (see outbox)
+ */
+async function retryOutbox(db: Firestore): Promise<JobResult> {
+    const { sent, retrying, failed } = await dispatchDueMessages(db);
+    const errors = failed > 0 ? [`${failed} text(s) failed for good - see Undelivered Texts`] : [];
+    return { counts: { sent, retrying, failed }, errors };
+}
+
+export const JOBS: JobDefinition[] = [
+    {
+        id: 'manager-digest',
+        name: 'Manager digest',
+        description: "Texts the manager the next session's appointments and pickups",
+        schedule: { type: 'daily', hour: 9 },
+        run: sendManagerDigest,
+    },
+    {
+        id: 'day-before-reminders',
+        name: 'Day-before reminders',
+        description: 'Reminds customers whose fitting is tomorrow',
+        schedule: { type: 'daily', hour: 9 },
+        run: sendDayBeforeReminders,
+    },
+    {
+        id: 'pickup-reminders',
+        name: 'Pickup reminders',
+        description: 'Reminds tomorrow\'s pickups and returns, asks brides two weeks out to arrange a pickup, and alerts the manager a week out',
+        schedule: { type: 'daily', hour: 9 },
+        run: sendPickupReminders,
+    },
+    {
+        id: 'return-reminders',
+        name: 'Return reminders',
+        description: 'Texts brides with items still out after the wedding and alerts the manager when a return is overdue',
+        schedule: { type: 'daily', hour: 10 },
+        run: sendReturnLadder,
+    },
+    {
+        id: 'weekly-summary',
+        name: 'Weekly summary',
+        description: "Texts the manager the week's appointments",
+        schedule: { type: 'weekly', weekday: 0, hour: 8 },
+        run: sendWeeklySummary,
+    },
+    {
+        id: 'waitlist-offers',
+        name: 'Waitlist offers',
+        description: 'Closes waitlist offers nobody accepted and offers the slot to the next in line',
+        schedule: { type: 'interval', minutes: 15 },
+        run: expireOffers,
+    },
+    {
+        id: 'outbox',
+        name: 'Text retries',
+        description: 'Sends queued texts that failed earlier, backing off between attempts',
+        schedule: { type: 'interval', minutes: 15 },
+        run: retryOutbox,
+    },
+];
+
+/**
+ * Look up a job by id
+ */
+export function getJob(jobId: string): JobDefinition | undefined {
+    return JOBS.find(job => job.id === jobId);
+}
@@ -0,0 +1,193 @@
+// Block Rules - recurring closures (every Motzei Shabbos in August, the first Wednesday
+// of each month, a list of dates), checked alongside the one-off blocked dates
+import { Firestore, Timestamp } from 'firebase-admin/firestore';
+import {
+    BUSINESS_TIME_ZONE,
+    fromDateKey,
+    getBusinessDateParts,
+    getBusinessDay,
+    toBusinessDate,
+    toDateKey,
+} from './date-utils';
+
+export type BlockRulePattern =
+    // Every week on a weekday (0 = Sunday), between two dates
+    | { type: 'weekly'; weekday: number; startDate: string; endDate: string }
+    // The nth weekday of every month (nth -1 = the last one), optionally between two dates
+    | { type: 'monthly'; weekday: number; nth: number; startDate?: string; endDate?: string }
+    // Any list of dates
+    | { type: 'dates'; dates: string[] };
+
+export interface BlockRule {
+    id: string;
+    pattern: BlockRulePattern;  // Dates are YYYY-MM-DD, Brooklyn days
+    reason?: string;
+    createdAt: Timestamp;
+}
+
+const COLLECTIONS = {
+    BLOCK_RULES: 'blockRules',
+};
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Motzei Shabbos'];
+const NTH_NAMES: Record<number, string> = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', [-1]: 'last' };
+
+function isDateKey(value: unknown): value is string {
+    return typeof value === 'string'
+        && /^\d{4}-\d{2}-\d{2}$/.test(value)
+        && toDateKey(fromDateKey(value)) === value;
+}
+
+function validateRange(startDate: unknown, endDate: unknown) {
+    if (!isDateKey(startDate) || !isDateKey(endDate)) {
+        throw new Error('Choose the dates the rule runs from and until');
+    }
+    if (startDate > endDate) {
+        throw new Error('The rule must end on or after the day it starts');
+    }
+}
+
+/**
+ * Check a pattern from the admin page and strip anything the pattern type doesn't use
+ */
+function normalizePattern(pattern: BlockRulePattern): BlockRulePattern {
+    if (pattern?.type === 'dates') {
+        if (!Array.isArray(pattern.dates) || pattern.dates.length === 0) {
+            throw new Error('Add at least one date');
+        }
+        if (!pattern.dates.every(isDateKey)) {
+            throw new Error('Dates must be YYYY-MM-DD');
+        }
+        return { type: 'dates', dates: [...new Set(pattern.dates)].sort() };
+    }
+
+    if (pattern?.type !== 'weekly' && pattern?.type !== 'monthly') {
+        throw new Error('Unknown kind of rule');
+    }
+    if (!Number.isInteger(pattern.weekday) || pattern.weekday < 0 || pattern.weekday > 6) {
+        throw new Error('Choose a day of the week');
+    }
+
+    if (pattern.type === 'weekly') {
+        validateRange(pattern.startDate, pattern.endDate);
+        return { type: 'weekly', weekday: pattern.weekday, startDate: pattern.startDate, endDate: pattern.endDate };
+    }
+
+    if (!(pattern.nth in NTH_NAMES)) {
+        throw new Error('Choose which week of the month');
+    }
+    const monthly: BlockRulePattern = { type: 'monthly', weekday: pattern.weekday, nth: pattern.nth };
+    if (pattern.startDate || pattern.endDate) {
+        validateRange(pattern.startDate, pattern.endDate);
+        monthly.startDate = pattern.startDate;
+        monthly.endDate = pattern.endDate;
+    }
+    return monthly;
+}
+
+/**
+ * Get all recurring block rules, oldest first
+ */
+export async function getBlockRules(db: Firestore): Promise<BlockRule[]> {
+    const snapshot = await db.collection(COLLECTIONS.BLOCK_RULES).orderBy('createdAt', 'asc').get();
+    return snapshot.docs.map(doc => doc.data() as BlockRule);
+}
+
+/**
+ * Add a recurring block rule (closes whole days)
+ */
+export async function addBlockRule(
+    db: Firestore,
+    pattern: BlockRulePattern,
+    reason?: string
+): Promise<BlockRule> {
+    const ref = db.collection(COLLECTIONS.BLOCK_RULES).doc();
+    const rule: BlockRule = {
+        id: ref.id,
+        pattern: normalizePattern(pattern),
+        createdAt: Timestamp.now(),
+    };
+    if (reason) {
+        rule.reason = reason;
+    }
+
+    await ref.set(rule);
+    return rule;
+}
+
+/**
+ * Remove a recurring block rule
+ */
+export async function removeBlockRule(db: Firestore, ruleId: string): Promise<void> {
+    await db.collection(COLLECTIONS.BLOCK_RULES).doc(ruleId).delete();
+}
+
+/**
+ * Whether a rule closes the Brooklyn day a date falls on
+ */
+export function matchesBlockRule(rule: BlockRule, date: Date): boolean {
+    const pattern = rule.pattern;
+    const dateStr = toDateKey(date);
+
+    if (pattern.type === 'dates') {
+        return pattern.dates.includes(dateStr);
+    }
+    if ((pattern.startDate && dateStr < pattern.startDate) || (pattern.endDate && dateStr > pattern.endDate)) {
+        return false;
+    }
+    if (getBusinessDay(date) !== pattern.weekday) {
+        return false;
+    }
+    if (pattern.type === 'weekly') {
+        return true;
+    }
+
+    const { day } = getBusinessDateParts(date);
+    if (pattern.nth === -1) {
+        // The last one: a week later is already next month
+        return getBusinessDateParts(toBusinessDate(date, 7)).day < day;
+    }
+    return Math.ceil(day / 7) === pattern.nth;
+}
+
+/**
+ * The dates a rule closes, from a date for a number of days (YYYY-MM-DD)
+ */
+export function expandBlockRule(rule: BlockRule, from: Date, days: number): string[] {
+    const dates: string[] = [];
+    for (let i = 0; i < days; i++) {
+        const date = toBusinessDate(from, i);
+        if (matchesBlockRule(rule, date)) {
+            dates.push(toDateKey(date));
+        }
+    }
+    return dates;
+}
+
+function formatRuleDate(dateStr: string): string {
+    return fromDateKey(dateStr).toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+        timeZone: BUSINESS_TIME_ZONE,
+    });
+}
+
+/**
+ * Describe a rule for the schedule page (e.g., "Every Motzei Shabbos, Aug 1, 2026 – Aug 29, 2026")
+ */
+export function describeBlockRule(rule: BlockRule): string {
+    const pattern = rule.pattern;
+    if (pattern.type === 'dates') {
+        return pattern.dates.map(formatRuleDate).join(', ');
+    }
+
+    const range = pattern.startDate && pattern.endDate
+        ? `${formatRuleDate(pattern.startDate)} – ${formatRuleDate(pattern.endDate)}`
+        : '';
+    if (pattern.type === 'weekly') {
+        return `Every ${WEEKDAY_NAMES[pattern.weekday]}, ${range}`;
+    }
+    const monthly = `The ${NTH_NAMES[pattern.nth]} ${WEEKDAY_NAMES[pattern.weekday]} of every month`;
+    return range ? `${monthly}, ${range}` : monthly;
+}
@@ -0,0 +1,97 @@
+// Blocked Bookings - appointments caught by a newly blocked date, and where they could move
+import { Firestore } from 'firebase-admin/firestore';
+import { Booking } from './types';
+import { getAvailableSlotsForDate, getBookingsForDate } from './booking-handler';
+import { getNextSessionDates, getScheduleConfig } from './schedule-config';
+import { getBookingSlotTimes } from './slot-capacity';
+import { formatDateShort, fromDateKey, toDateKey } from './date-utils';
+import { BlockRule, expandBlockRule } from './block-rules';
+
+export interface AlternativeSlot {
+    date: string;      // YYYY-MM-DD
+    slotTime: string;
+    label: string;     // e.g., "Wed, Nov 4 at 11:30 AM"
+}
+
+export interface AffectedBooking {
+    date: string;      // YYYY-MM-DD, the blocked day
+    booking: Booking;
+    suggestions: AlternativeSlot[];
+}
+
+/**
+ * Active bookings on a date that a block takes away - all of them when the whole
+ * day is blocked, otherwise those using a blocked slot
+ */
+export async function getBookingsAffectedByBlock(
+    db: Firestore,
+    date: Date,
+    blockedSlots: string[] = []
+): Promise<Booking[]> {
+    const bookings = await getBookingsForDate(db, date);
+    if (blockedSlots.length === 0) {
+        return bookings;
+    }
+    return bookings.filter(booking => getBookingSlotTimes(booking).some(slot => blockedSlots.includes(slot)));
+}
+
+/**
+ * Open slots a booking could move to: one per date, starting with its own date
+ * (when only some slots were blocked) and then the next sessions, keeping the
+ * same time when it's free
+ */
+export async function suggestAlternativeSlots(
+    db: Firestore,
+    booking: Booking,
+    count: number = 3
+): Promise<AlternativeSlot[]> {
+    const date = booking.appointmentDate.toDate();
+    const config = await getScheduleConfig(db);
+    const candidates = [date, ...(await getNextSessionDates(db, config, date, count + 2))];
+
+    const suggestions: AlternativeSlot[] = [];
+    for (const candidate of candidates) {
+        if (suggestions.length >= count) {
+            break;
+        }
+        const open = await getAvailableSlotsForDate(db, candidate, booking.groupSize);
+        const slotTime = open.includes(booking.slotTime) ? booking.slotTime : open[0];
+        if (slotTime) {
+            suggestions.push({
+                date: toDateKey(candidate),
+                slotTime,
+                label: `${formatDateShort(candidate)} at ${slotTime}`,
+            });
+        }
+    }
+
+    return suggestions;
+}
+
+/**
+ * Bookings a block takes away, each with suggested slots to move to
+ */
+export async function getAffectedBookings(
+    db: Firestore,
+    date: Date,
+    blockedSlots: string[] = []
+): Promise<AffectedBooking[]> {
+    const bookings = await getBookingsAffectedByBlock(db, date, blockedSlots);
+    const affected: AffectedBooking[] = [];
+    for (const booking of bookings) {
+        affected.push({ date: toDateKey(date), booking, suggestions: await suggestAlternativeSlots(db, booking) });
+    }
+    return affected;
+}
+
+/**
+ * Bookings a new recurring block takes away, over the days the schedule page
+ * lists its closures for
+ */
+export async function getAffectedBookingsForRule(db: Firestore, rule: BlockRule, days: number): Promise<AffectedBooking[]> {
+    const affected: AffectedBooking[] = [];
+    for (const dateStr of expandBlockRule(rule, new Date(), days)) {
+        affected.push(...await getAffectedBookings(db, fromDateKey(dateStr)));
+    }
+    return affected;
+}
@@ -1,17 +1,39 @@
 // Booking handler - manages appointment creation and validation
 // Uses Firebase Admin SDK for server-side operations
 
-import { Firestore, Timestamp } from 'firebase-admin/firestore';
-import { Booking, Customer, COLLECTIONS } from './types';
-import { isValidAppointmentTime } from './date-utils';
-
-/**
- * Available time slots
- */
-export const APPOINTMENT_SLOTS = {
-    wednesday: ['11:30 AM', '11:45 AM', '12:00 PM', '12:15 PM'],
-    motzeiShabbos: ['7:30 PM', '7:45 PM', '8:00 PM', '8:15 PM', '8:30 PM', '8:45 PM', '9:00 PM', '9:15 PM'],
-} as const;
+import { Firestore, Timestamp, FieldValue } from 'firebase-admin/firestore';
+import { Booking, BookingActor, Customer, LoanItem, COLLECTIONS } from './types';
+import {
+    DaySchedule,
+    DEFAULT_SLOT_SETTINGS,
+    getScheduleConfig,
+    ScheduleConfig,
+    getDaySchedule,
+    getOpenDays,
+    getScheduleForDate,
+    getSlotTimesForGroup,
+} from './schedule-config';
+import { getGownsByIds } from './gown-inventory';
+import { findGownConflicts, formatGownConflict, syncGownsForBooking } from './gown-reservations';
+import { logBookingGownEvents } from './gown-history';
+import {
+    LoanItemInput,
+    getLoanItems,
+    applyLoanItemState,
+    buildLoanItems,
+    summarizeLoanItems,
+} from './loan-items';
+import { diffBooking, logBookingChange } from './booking-history';
+import { getBusinessDay, toBusinessDate, startOfBusinessDay, endOfBusinessDay, fromDateInput } from './date-utils';
+import {
+    hasSlotRoom,
+    holdsSlot,
+    getBookingSlotTimes,
+    readSlots,
+    claimSlots,
+    releaseSlots,
+    saveSlots,
+} from './slot-capacity';
 
 /**
  * Create or update a customer record
@@ -50,21 +72,67 @@ export async function upsertCustomer(
 }
 
 /**
- * Check if a slot is available
+ * Schedule for an appointment date, if the slot is one we offer that day
+ * (extra sessions count, blocked slots don't)
  */
-export async function isSlotAvailable(
+async function getBookableDay(db: Firestore, config: ScheduleConfig, date: Date, slotTime: string): Promise<DaySchedule | null> {
+    const day = await getScheduleForDate(db, date, config);
+    return day && day.slots.includes(slotTime) ? day : null;
+}
+
+/**
+ * The slots a group starting at slotTime takes on a date, with that day's limits
+ * (null if the slot isn't bookable or the group doesn't fit the day)
+ */
+export async function getSlotsForGroup(
+    db: Firestore,
+    date: Date,
+    slotTime: string,
+    groupSize: number
+): Promise<{ day: DaySchedule; slotTimes: string[] } | null> {
+    const day = await getBookableDay(db, await getScheduleConfig(db), date, slotTime);
+    if (!day) {
+        return null;
+    }
+    try {
+        return { day, slotTimes: getSlotTimesForGroup(day, slotTime, groupSize) };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Whether a group of this size can start at slotTime on a day (enough room in every slot it needs)
+ */
+async function fitsInSlot(
     db: Firestore,
     date: Date,
-    slotTime: string
+    day: DaySchedule,
+    slotTime: string,
+    groupSize: number
 ): Promise<boolean> {
-    if (!isValidAppointmentTime(date, slotTime)) {
+    let slotTimes: string[];
+    try {
+        slotTimes = getSlotTimesForGroup(day, slotTime, groupSize);
+    } catch {
         return false;
     }
+    return hasSlotRoom(db, date, slotTimes, day, groupSize);
+}
 
-    const startOfDay = new Date(date);
-    startOfDay.setHours(0, 0, 0, 0);
-    const endOfDay = new Date(date);
-    endOfDay.setHours(23, 59, 59, 999);
+/**
+ * Check if a slot has room for a group (a single person if no size is given)
+ */
+export async function isSlotAvailable(
+    db: Firestore,
+    date: Date,
+    slotTime: string,
+    groupSize: number = 1
+): Promise<boolean> {
+    const day = await getBookableDay(db, await getScheduleConfig(db), date, slotTime);
+    if (!day) {
+        return false;
+    }
 
     // Safety check: ensure the date is reasonable (not in distant past/future)
     const now = new Date();
@@ -78,38 +146,25 @@ export async function isSlotAvailable(
         console.warn(`[isSlotAvailable] Unusual date detected: ${date.toISOString()}`);
     }
 
-    const snapshot = await db.collection(COLLECTIONS.BOOKINGS)
-        .where('appointmentDate', '>=', Timestamp.fromDate(startOfDay))
-        .where('appointmentDate', '<=', Timestamp.fromDate(endOfDay))
-        .where('slotTime', '==', slotTime)
-        .where('status', 'in', ['pending', 'confirmed'])
-        .limit(1)
-        .get();
-
-    return snapshot.empty;
+    return fitsInSlot(db, date, day, slotTime, groupSize);
 }
 
 /**
- * Get available slots for a given date
+ * Get the slots a group can start at on a given date
  */
 export async function getAvailableSlotsForDate(
     db: Firestore,
-    date: Date
+    date: Date,
+    groupSize: number = 1
 ): Promise<string[]> {
-    const dayOfWeek = date.getDay();
-
-    let possibleSlots: readonly string[];
-    if (dayOfWeek === 3) {
-        possibleSlots = APPOINTMENT_SLOTS.wednesday;
-    } else if (dayOfWeek === 6) {
-        possibleSlots = APPOINTMENT_SLOTS.motzeiShabbos;
-    } else {
+    const day = await getScheduleForDate(db, date);
+    if (!day) {
         return [];
     }
 
     const available: string[] = [];
-    for (const slot of possibleSlots) {
-        if (await isSlotAvailable(db, date, slot)) {
+    for (const slot of day.slots) {
+        if (await fitsInSlot(db, date, day, slot, groupSize)) {
             available.push(slot);
         }
     }
@@ -129,64 +184,58 @@ export async function createBooking(
         slotTime: string;
         groupSize: number;
         weddingDate: Date;
-    }
+        heldFor?: string;        // A place already held in the slot that this booking takes over (a waitlist offer)
+    },
+    actor?: BookingActor
 ): Promise<Booking> {
+    // Both dates are stored as noon Brooklyn time on their day
+    const appointmentDate = toBusinessDate(data.appointmentDate);
+    const weddingDate = toBusinessDate(data.weddingDate);
+
     // Validate dates are reasonable
-    const currentDate = new Date();
-    const yesterday = new Date(currentDate);
-    yesterday.setDate(yesterday.getDate() - 1);
-    const oneYearForward = new Date(currentDate);
-    oneYearForward.setFullYear(currentDate.getFullYear() + 1);
+    const today = startOfBusinessDay(new Date());
+    const oneYearForward = toBusinessDate(today, 365);
 
-    if (data.appointmentDate < yesterday) {
+    if (appointmentDate < today) {
         throw new Error('Appointment date cannot be in the past');
     }
 
-    if (data.appointmentDate > oneYearForward) {
+    if (appointmentDate > oneYearForward) {
         throw new Error('Appointment date must be within the next year');
     }
 
-    if (data.weddingDate < yesterday) {
+    if (weddingDate < today) {
         throw new Error('Wedding date cannot be in the past');
     }
 
-    if (data.weddingDate < data.appointmentDate) {
+    if (weddingDate < appointmentDate) {
         throw new Error('Wedding date must be after appointment date');
     }
 
-    const customer = await upsertCustomer(db, data.customerPhone, data.customerName);
-
-    const isAvailable = await isSlotAvailable(db, data.appointmentDate, data.slotTime);
-    if (!isAvailable) {
+    const day = await getBookableDay(db, await getScheduleConfig(db), appointmentDate, data.slotTime);
+    if (!day) {
         throw new Error('Slot is not available');
     }
 
-    if (data.groupSize > 4 && data.groupSize <= 6) {
-        const slots = data.appointmentDate.getDay() === 3
-            ? APPOINTMENT_SLOTS.wednesday
-            : APPOINTMENT_SLOTS.motzeiShabbos;
-        const lastSlot = slots[slots.length - 1];
+    // Large groups take this slot and the next one
+    const slotTimes = getSlotTimesForGroup(day, data.slotTime, data.groupSize);
 
-        if (data.slotTime !== lastSlot) {
-            throw new Error('Groups of 5-6 need the last slot of the evening');
-        }
-    } else if (data.groupSize > 6) {
-        throw new Error('Maximum group size is 6');
-    }
+    const customer = await upsertCustomer(db, data.customerPhone, data.customerName);
 
     const now = Timestamp.now();
-    const bookingId = `${customer.id}_${data.appointmentDate.getTime()}`;
+    const bookingId = `${customer.id}_${appointmentDate.getTime()}`;
 
     const booking: Booking = {
         id: bookingId,
         customerId: customer.id,
         customerName: data.customerName,
         customerPhone: data.customerPhone,
-        appointmentDate: Timestamp.fromDate(data.appointmentDate),
+        appointmentDate: Timestamp.fromDate(appointmentDate),
         slotTime: data.slotTime,
-        slotDuration: data.groupSize > 4 ? 30 : 15,
+        slotTimes,
+        slotDuration: slotTimes.length * day.slotDuration,
         groupSize: data.groupSize,
-        weddingDate: Timestamp.fromDate(data.weddingDate),
+        weddingDate: Timestamp.fromDate(weddingDate),
         status: 'confirmed',
         gownSelected: false,
         gownPickedUp: false,
@@ -195,11 +244,37 @@ export async function createBooking(
         confirmationSent: false,
         dayBeforeReminderSent: false,
         returnReminderSent: false,
+        returnRemindersSent: 0,
+        returnOverdueAlertSent: false,
+        pickupReminderSent: false,
+        pickupEscalationSent: false,
         createdAt: now,
         updatedAt: now,
     };
+    if (actor) {
+        booking.updatedBy = { id: actor.id, name: actor.name };
+    }
+
+    // Checking the slot and writing the booking happen together, so two channels can't both take it
+    const bookingRef = db.collection(COLLECTIONS.BOOKINGS).doc(bookingId);
+    await db.runTransaction(async (transaction) => {
+        const previous = await transaction.get(bookingRef);
+        if (previous.exists && holdsSlot((previous.data() as Booking).status)) {
+            throw new Error('Slot is not available');
+        }
+
+        const holds = await readSlots(transaction, db, appointmentDate, slotTimes, day);
+        if (data.heldFor) {
+            releaseSlots(holds, appointmentDate, slotTimes, data.heldFor);
+        }
+        claimSlots(holds, appointmentDate, slotTimes, bookingId, data.groupSize);
+        saveSlots(transaction, holds);
+        transaction.set(bookingRef, booking);
+    });
 
-    await db.collection(COLLECTIONS.BOOKINGS).doc(bookingId).set(booking);
+    if (actor) {
+        await logBookingChange(db, bookingId, 'created', actor);
+    }
     return booking;
 }
 
@@ -228,10 +303,8 @@ export async function getBookingsNeedingReminder(
     db: Firestore,
     reminderDate: Date
 ): Promise<Booking[]> {
-    const startOfDay = new Date(reminderDate);
-    startOfDay.setHours(0, 0, 0, 0);
-    const endOfDay = new Date(reminderDate);
-    endOfDay.setHours(23, 59, 59, 999);
+    const startOfDay = startOfBusinessDay(reminderDate);
+    const endOfDay = endOfBusinessDay(reminderDate);
 
     const snapshot = await db.collection(COLLECTIONS.BOOKINGS)
         .where('appointmentDate', '>=', Timestamp.fromDate(startOfDay))
@@ -244,25 +317,23 @@ export async function getBookingsNeedingReminder(
 }
 
 /**
- * Get bookings needing return reminder
+ * Get active bookings with a gown chosen but not yet picked up, whose wedding
+ * falls between two dates (inclusive). Reminder flags are left to the caller.
  */
-export async function getBookingsNeedingReturnReminder(
+export async function getBookingsAwaitingPickup(
     db: Firestore,
-    weddingDate: Date
+    from: Date,
+    to: Date
 ): Promise<Booking[]> {
-    const startOfDay = new Date(weddingDate);
-    startOfDay.setHours(0, 0, 0, 0);
-    const endOfDay = new Date(weddingDate);
-    endOfDay.setHours(23, 59, 59, 999);
-
     const snapshot = await db.collection(COLLECTIONS.BOOKINGS)
-        .where('weddingDate', '>=', Timestamp.fromDate(startOfDay))
-        .where('weddingDate', '<=', Timestamp.fromDate(endOfDay))
-        .where('gownReturned', '==', false)
-        .where('returnReminderSent', '==', false)
+        .where('weddingDate', '>=', Timestamp.fromDate(startOfBusinessDay(from)))
+        .where('weddingDate', '<=', Timestamp.fromDate(endOfBusinessDay(to)))
         .get();
 
-    return snapshot.docs.map((d) => d.data() as Booking);
+    return snapshot.docs
+        .map((d) => d.data() as Booking)
+        .filter(booking => booking.status !== 'cancelled' && booking.gownSelected && !booking.gownPickedUp)
+        .sort((a, b) => a.weddingDate.toMillis() - b.weddingDate.toMillis());
 }
 
 /**
@@ -292,21 +363,50 @@ export async function markReminderSent(
  */
 export async function cancelBooking(
     db: Firestore,
-    bookingId: string
+    bookingId: string,
+    actor?: BookingActor
 ): Promise<Booking | null> {
     const bookingRef = db.collection(COLLECTIONS.BOOKINGS).doc(bookingId);
-    const doc = await bookingRef.get();
 
-    if (!doc.exists) {
-        return null;
-    }
-
-    await bookingRef.update({
+    const updateData: any = {
         status: 'cancelled',
         updatedAt: Timestamp.now()
+    };
+    if (actor) {
+        updateData.updatedBy = { id: actor.id, name: actor.name };
+    }
+
+    // Free the slot in the same transaction that cancels the booking
+    const existing = await db.runTransaction(async (transaction) => {
+        const doc = await transaction.get(bookingRef);
+        if (!doc.exists) {
+            return null;
+        }
+
+        const booking = doc.data() as Booking;
+        if (holdsSlot(booking.status)) {
+            // Releasing never checks limits, so the defaults do
+            const date = booking.appointmentDate.toDate();
+            const slotTimes = getBookingSlotTimes(booking);
+            const holds = await readSlots(transaction, db, date, slotTimes, DEFAULT_SLOT_SETTINGS);
+            releaseSlots(holds, date, slotTimes, bookingId);
+            saveSlots(transaction, holds);
+        }
+        transaction.update(bookingRef, updateData);
+        return booking;
     });
 
-    return { ...doc.data(), status: 'cancelled' } as Booking;
+    if (!existing) {
+        return null;
+    }
+
+    const cancelled = { ...existing, ...updateData } as Booking;
+    await syncGownsForBooking(db, cancelled);
+    if (actor) {
+        await logBookingChange(db, bookingId, 'cancelled', actor, diffBooking(existing, cancelled));
+    }
+
+    return cancelled;
 }
 
 /**
@@ -316,30 +416,69 @@ export async function rescheduleBooking(
     db: Firestore,
     bookingId: string,
     newDate: Date,
-    newSlotTime: string
+    newSlotTime: string,
+    actor?: BookingActor
 ): Promise<Booking | null> {
     const bookingRef = db.collection(COLLECTIONS.BOOKINGS).doc(bookingId);
-    const doc = await bookingRef.get();
-
-    if (!doc.exists) {
-        return null;
-    }
 
-    // Check new slot availability
-    const available = await isSlotAvailable(db, newDate, newSlotTime);
-    if (!available) {
+    const config = await getScheduleConfig(db);
+    newDate = toBusinessDate(newDate);
+    const newDay = await getBookableDay(db, config, newDate, newSlotTime);
+    if (!newDay) {
         throw new Error('New slot is not available');
     }
 
-    await bookingRef.update({
+    const updateData: any = {
         appointmentDate: Timestamp.fromDate(newDate),
         slotTime: newSlotTime,
         dayBeforeReminderSent: false, // Reset reminder
         updatedAt: Timestamp.now()
+    };
+    if (actor) {
+        updateData.updatedBy = { id: actor.id, name: actor.name };
+    }
+
+    // Release the old slot and claim the new one atomically, so a failed move keeps the old place
+    const existing = await db.runTransaction(async (transaction) => {
+        const doc = await transaction.get(bookingRef);
+        if (!doc.exists) {
+            return null;
+        }
+
+        const current = doc.data() as Booking;
+        const newSlotTimes = getSlotTimesForGroup(newDay, newSlotTime, current.groupSize);
+        if (holdsSlot(current.status)) {
+            const oldDate = current.appointmentDate.toDate();
+            const oldSlotTimes = getBookingSlotTimes(current);
+            const holds = await readSlots(transaction, db, oldDate, oldSlotTimes, getDaySchedule(config, oldDate));
+            await readSlots(transaction, db, newDate, newSlotTimes, newDay, holds);
+
+            releaseSlots(holds, oldDate, oldSlotTimes, bookingId);
+            try {
+                claimSlots(holds, newDate, newSlotTimes, bookingId, current.groupSize);
+            } catch {
+                throw new Error('New slot is not available');
+            }
+            saveSlots(transaction, holds);
+        }
+        transaction.update(bookingRef, {
+            ...updateData,
+            slotTimes: newSlotTimes,
+            slotDuration: newSlotTimes.length * newDay.slotDuration,
+        });
+        return current;
     });
 
+    if (!existing) {
+        return null;
+    }
+
     const updated = await bookingRef.get();
-    return updated.data() as Booking;
+    const booking = updated.data() as Booking;
+    if (actor) {
+        await logBookingChange(db, bookingId, 'rescheduled', actor, diffBooking(existing, booking));
+    }
+    return booking;
 }
 
 /**
@@ -350,9 +489,9 @@ export async function updateBooking(
     bookingId: string,
     updates: Partial<{
         gownSelected: boolean;
-        gownPickedUp: boolean;
-        gownReturned: boolean;
-        gownDescription: string;
+        gownPickedUp: boolean;       // Marks every item picked up (or not)
+        gownReturned: boolean;       // Marks every picked-up item returned (or not)
+        items: LoanItemInput[];
         donationPaid: boolean;
         donationAmount: number;
         notes: string;
@@ -360,8 +499,9 @@ export async function updateBooking(
         customerName: string;
         customerPhone: string;
         groupSize: number;
-        weddingDate: Date;
-    }>
+        weddingDate: Date | string;  // YYYY-MM-DD from the admin date picker
+    }>,
+    actor?: BookingActor
 ): Promise<Booking | null> {
     const bookingRef = db.collection(COLLECTIONS.BOOKINGS).doc(bookingId);
     const doc = await bookingRef.get();
@@ -370,16 +510,136 @@ export async function updateBooking(
         return null;
     }
 
-    // Convert Date objects to Timestamps
+    const existing = doc.data() as Booking;
+    const existingItems = getLoanItems(existing);
+
+    // Convert dates to Timestamps (dates arrive as strings when sent over JSON)
     const updateData: any = { ...updates, updatedAt: Timestamp.now() };
-    if (updates.weddingDate instanceof Date) {
-        updateData.weddingDate = Timestamp.fromDate(updates.weddingDate);
+    if (actor) {
+        updateData.updatedBy = { id: actor.id, name: actor.name };
+    }
+    if (updates.weddingDate) {
+        updateData.weddingDate = Timestamp.fromDate(fromDateInput(updates.weddingDate));
+        // A new wedding date gets its own pickup and return reminders
+        if (!updateData.weddingDate.isEqual(existing.weddingDate)) {
+            updateData.pickupReminderSent = false;
+            updateData.pickupEscalationSent = false;
+            updateData.returnReminderSent = false;
+            updateData.returnRemindersSent = 0;
+            updateData.returnOverdueAlertSent = false;
+        }
     }
 
-    await bookingRef.update(updateData);
+    let items: LoanItem[] | undefined;
+    if (updates.items) {
+        const gownIds = updates.items.filter(i => i.type === 'Gown' && i.gownId).map(i => i.gownId as string);
+        if (new Set(gownIds).size !== gownIds.length) {
+            throw new Error('The same gown is listed twice');
+        }
+
+        const gowns = await getGownsByIds(db, gownIds);
+
+        const missing = gownIds.filter(id => !gowns.some(g => g.id === id));
+        if (missing.length > 0) {
+            throw new Error(`Unknown gown: ${missing.join(', ')}`);
+        }
+
+        const retired = gowns.find(g => g.status === 'retired' && !existing.gownIds?.includes(g.id));
+        if (retired) {
+            throw new Error(`Gown ${retired.sku} is retired`);
+        }
+
+        items = buildLoanItems(updates.items, existingItems, gowns);
+    } else if ((updates.gownPickedUp !== undefined || updates.gownReturned !== undefined) && existingItems.length > 0) {
+        const now = Timestamp.now();
+        items = existingItems.map(item => applyLoanItemState(item, {
+            pickedUp: updates.gownPickedUp,
+            returned: updates.gownReturned,
+        }, now));
+    }
+
+    if (items) {
+        const summary = summarizeLoanItems(items);
+        updateData.items = items;
+        updateData.gownIds = summary.gownIds;
+        updateData.gownPickedUp = summary.gownPickedUp;
+        updateData.gownReturned = summary.gownReturned;
+        updateData.gownPickupDate = summary.gownPickupDate || FieldValue.delete();
+        updateData.gownReturnDate = summary.gownReturnDate || FieldValue.delete();
+        if (items.length > 0) {
+            updateData.gownSelected = true;
+        }
+    } else {
+        // Booking with nothing listed yet: stamp the booking-level steps directly
+        if (updates.gownPickedUp && !existing.gownPickedUp) {
+            updateData.gownPickupDate = Timestamp.now();
+        }
+        if (updates.gownReturned && !existing.gownReturned) {
+            updateData.gownReturnDate = Timestamp.now();
+        }
+    }
+
+    // A gown can only be promised to one bride per pickup-to-return window
+    const gownIds: string[] = updateData.gownIds || existing.gownIds || [];
+    const addedGown = gownIds.some(id => !existing.gownIds?.includes(id));
+    if (gownIds.length > 0 && (addedGown || updates.weddingDate)) {
+        const weddingDate = (updateData.weddingDate || existing.weddingDate).toDate();
+        const conflicts = await findGownConflicts(db, gownIds, weddingDate, bookingId);
+        if (conflicts.length > 0) {
+            throw new Error(conflicts.map(formatGownConflict).join('; '));
+        }
+    }
+
+    // Cancelling frees the slot, reactivating has to win it back, and a bigger group needs more room
+    const wasHolding = holdsSlot(existing.status);
+    const willHold = holdsSlot(updates.status ?? existing.status);
+    const groupSize = updates.groupSize ?? existing.groupSize;
+    if (wasHolding !== willHold || (willHold && groupSize !== existing.groupSize)) {
+        const date = existing.appointmentDate.toDate();
+        const config = await getScheduleConfig(db);
+        const day = (await getScheduleForDate(db, date, config)) || getDaySchedule(config, date);
+        const oldSlotTimes = getBookingSlotTimes(existing);
+        const newSlotTimes = day.slots.includes(existing.slotTime)
+            ? getSlotTimesForGroup(day, existing.slotTime, groupSize)
+            : oldSlotTimes;
+        if (willHold) {
+            updateData.slotTimes = newSlotTimes;
+            updateData.slotDuration = newSlotTimes.length * day.slotDuration;
+        }
+
+        await db.runTransaction(async (transaction) => {
+            const holds = await readSlots(transaction, db, date, oldSlotTimes, day);
+            await readSlots(transaction, db, date, newSlotTimes, day, holds);
+            if (wasHolding) {
+                releaseSlots(holds, date, oldSlotTimes, bookingId);
+            }
+            if (willHold) {
+                claimSlots(holds, date, newSlotTimes, bookingId, groupSize);
+            }
+            saveSlots(transaction, holds);
+            transaction.update(bookingRef, updateData);
+        });
+    } else {
+        await bookingRef.update(updateData);
+    }
 
     const updated = await bookingRef.get();
-    return updated.data() as Booking;
+    const booking = updated.data() as Booking;
+
+    const gownsChanged = items !== undefined || updates.status !== undefined;
+    if (gownsChanged) {
+        await syncGownsForBooking(db, booking, existing.gownIds);
+        await logBookingGownEvents(db, existing, booking);
+    }
+
+    if (actor) {
+        const changes = diffBooking(existing, booking);
+        if (changes.length > 0) {
+            await logBookingChange(db, bookingId, 'updated', actor, changes);
+        }
+    }
+
+    return booking;
 }
 
 /**
@@ -466,10 +726,8 @@ export async function getBookingsForDate(
     db: Firestore,
     date: Date
 ): Promise<Booking[]> {
-    const startOfDay = new Date(date);
-    startOfDay.setHours(0, 0, 0, 0);
-    const endOfDay = new Date(date);
-    endOfDay.setHours(23, 59, 59, 999);
+    const startOfDay = startOfBusinessDay(date);
+    const endOfDay = endOfBusinessDay(date);
 
     const snapshot = await db.collection(COLLECTIONS.BOOKINGS)
         .where('appointmentDate', '>=', Timestamp.fromDate(startOfDay))
@@ -482,58 +740,24 @@ export async function getBookingsForDate(
 }
 
 /**
- * Get the next Wednesday date from a given date
- */
-function getNextWednesday(from: Date): Date {
-    const date = new Date(from);
-    const day = date.getDay();
-    const daysUntilWednesday = (3 - day + 7) % 7;
-    date.setDate(date.getDate() + (daysUntilWednesday === 0 ? 0 : daysUntilWednesday));
-    date.setHours(0, 0, 0, 0);
-    return date;
-}
-
-/**
- * Get the next Saturday date from a given date
- */
-function getNextSaturday(from: Date): Date {
-    const date = new Date(from);
-    const day = date.getDay();
-    const daysUntilSaturday = (6 - day + 7) % 7;
-    date.setDate(date.getDate() + (daysUntilSaturday === 0 ? 0 : daysUntilSaturday));
-    date.setHours(0, 0, 0, 0);
-    return date;
-}
-
-/**
- * Get upcoming appointments for the next Wednesday and Motzei Shabbos
+ * Get upcoming appointments for the next occurrence of each open day
  * Returns appointments grouped by date
  */
 export async function getUpcomingAppointments(
     db: Firestore
 ): Promise<{ date: Date; dayLabel: string; bookings: Booking[] }[]> {
-    const now = new Date();
+    const today = toBusinessDate(new Date());
+    const config = await getScheduleConfig(db);
     const results: { date: Date; dayLabel: string; bookings: Booking[] }[] = [];
 
-    // Get next Wednesday (or today if it's Wednesday)
-    const nextWed = getNextWednesday(now);
-    const wedBookings = await getBookingsForDate(db, nextWed);
-    if (wedBookings.length > 0 || nextWed.toDateString() === now.toDateString() || nextWed > now) {
-        results.push({
-            date: nextWed,
-            dayLabel: 'Wednesday',
-            bookings: wedBookings
-        });
-    }
+    // Next occurrence of each open day (today if it's open today)
+    for (const openDay of getOpenDays(config)) {
+        const date = toBusinessDate(today, (openDay.dayOfWeek - getBusinessDay(today) + 7) % 7);
 
-    // Get next Saturday (or today if it's Saturday)
-    const nextSat = getNextSaturday(now);
-    const satBookings = await getBookingsForDate(db, nextSat);
-    if (satBookings.length > 0 || nextSat.toDateString() === now.toDateString() || nextSat > now) {
         results.push({
-            date: nextSat,
-            dayLabel: 'Motzei Shabbos',
-            bookings: satBookings
+            date,
+            dayLabel: openDay.name,
+            bookings: await getBookingsForDate(db, date),
         });
     }
 
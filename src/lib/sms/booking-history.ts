@@ -0,0 +1,117 @@
+// Booking History - who changed what on a booking, stored under each booking
+import { Firestore, Timestamp } from 'firebase-admin/firestore';
+import {
+    Booking,
+    BookingActor,
+    BookingChange,
+    BookingChangeAction,
+    BookingFieldChange,
+    LoanItem,
+    COLLECTIONS,
+} from './types';
+import { toDateKey } from './date-utils';
+
+// Changes made by customers themselves rather than an admin
+export const CUSTOMER_SMS: BookingActor = { id: 'customer-sms', name: 'Customer (SMS)' };
+export const CUSTOMER_PHONE: BookingActor = { id: 'customer-phone', name: 'Customer (phone)' };
+
+// Fields worth showing in the history (gown rollups are covered by items)
+const TRACKED_FIELDS: (keyof Booking)[] = [
+    'customerName',
+    'customerPhone',
+    'appointmentDate',
+    'slotTime',
+    'groupSize',
+    'weddingDate',
+    'status',
+    'items',
+    'gownSelected',
+    'donationPaid',
+    'donationAmount',
+    'notes',
+];
+
+function formatItem(item: LoanItem): string {
+    const state = item.returned ? 'returned' : item.pickedUp ? 'out' : 'waiting';
+    return `${item.description} (${state})`;
+}
+
+/**
+ * Render a field value for display (null when unset)
+ */
+function formatValue(value: unknown): string | null {
+    if (value === undefined || value === null || value === '') {
+        return null;
+    }
+    if (value instanceof Timestamp) {
+        return toDateKey(value.toDate());
+    }
+    if (Array.isArray(value)) {
+        return value.length ? (value as LoanItem[]).map(formatItem).join(', ') : null;
+    }
+    if (typeof value === 'boolean') {
+        return value ? 'yes' : 'no';
+    }
+    return String(value);
+}
+
+/**
+ * List the tracked fields that differ between two versions of a booking
+ */
+export function diffBooking(before: Booking, after: Booking): BookingFieldChange[] {
+    // Bookings without items still track the gown steps on the booking itself
+    const fields: (keyof Booking)[] = after.items?.length
+        ? TRACKED_FIELDS
+        : [...TRACKED_FIELDS, 'gownPickedUp', 'gownReturned'];
+
+    const changes: BookingFieldChange[] = [];
+    for (const field of fields) {
+        const from = formatValue(before[field]);
+        const to = formatValue(after[field]);
+        if (from !== to) {
+            changes.push({ field, from, to });
+        }
+    }
+    return changes;
+}
+
+/**
+ * Append an entry to a booking's history
+ */
+export async function logBookingChange(
+    db: Firestore,
+    bookingId: string,
+    action: BookingChangeAction,
+    by: BookingActor,
+    changes: BookingFieldChange[] = []
+): Promise<BookingChange> {
+    const ref = db.collection(COLLECTIONS.BOOKINGS).doc(bookingId)
+        .collection(COLLECTIONS.BOOKING_CHANGES).doc();
+
+    const entry: BookingChange = {
+        id: ref.id,
+        bookingId,
+        action,
+        by: { id: by.id, name: by.name },
+        changes,
+        createdAt: Timestamp.now(),
+    };
+
+    await ref.set(entry);
+    return entry;
+}
+
+/**
+ * Get a booking's history, newest first
+ */
+export async function getBookingChanges(
+    db: Firestore,
+    bookingId: string
+): Promise<BookingChange[]> {
+    const snapshot = await db.collection(COLLECTIONS.BOOKINGS).doc(bookingId)
+        .collection(COLLECTIONS.BOOKING_CHANGES)
+        .orderBy('createdAt', 'desc')
+        .get();
+
+    return snapshot.docs.map((d) => d.data() as BookingChange);
+}
@@ -0,0 +1,78 @@
+// SMS Consent - the STOP / START / HELP keywords carriers require us to honor.
+// These are checked before a message reaches the parser, so "STOP" is never read
+// as cancelling a booking. CANCEL and YES are left out on purpose: here they mean
+// "cancel my appointment" and "confirm my booking". Twilio's Advanced Opt-Out still
+// counts CANCEL as STOP by default and blocks the number, so when Twilio reports an
+// opt-out (OptOutType on the webhook) we record it whatever the words were.
+import { Firestore, Timestamp } from 'firebase-admin/firestore';
+import { COLLECTIONS, Customer, SmsConsent } from './types';
+
+export type ConsentKeyword = 'stop' | 'start' | 'help';
+
+const KEYWORDS: Record<string, ConsentKeyword> = {
+    STOP: 'stop',
+    STOPALL: 'stop',
+    UNSUBSCRIBE: 'stop',
+    END: 'stop',
+    QUIT: 'stop',
+    START: 'start',
+    UNSTOP: 'start',
+    HELP: 'help',
+    INFO: 'help',
+};
+
+// Twilio's OptOutType values
+const TWILIO_OPT_OUT_TYPES: Record<string, ConsentKeyword> = {
+    STOP: 'stop',
+    START: 'start',
+    HELP: 'help',
+};
+
+const normalizeKeyword = (body: string) => body.trim().replace(/[.!]+$/, '').toUpperCase();
+
+/**
+ * The consent keyword a message is, if the whole message is one (e.g. "Stop",
+ * "STOP." - but not "stop by tomorrow?"), or if Twilio already treated it as one
+ */
+export function matchConsentKeyword(body: string, twilioOptOutType?: string): ConsentKeyword | null {
+    if (twilioOptOutType && TWILIO_OPT_OUT_TYPES[twilioOptOutType.toUpperCase()]) {
+        return TWILIO_OPT_OUT_TYPES[twilioOptOutType.toUpperCase()];
+    }
+    return KEYWORDS[normalizeKeyword(body)] || null;
+}
+
+/**
+ * Record a STOP or START from a number, creating the customer if they never booked
+ */
+export async function setSmsConsent(db: Firestore, phone: string, optedOut: boolean, keyword: string): Promise<void> {
+    const ref = db.collection(COLLECTIONS.CUSTOMERS).doc(phone.replace(/\D/g, ''));
+    const now = Timestamp.now();
+    const smsConsent: SmsConsent = { optedOut, keyword: normalizeKeyword(keyword), changedAt: now };
+
+    const existing = await ref.get();
+    if (existing.exists) {
+        await ref.update({ smsConsent, updatedAt: now });
+        return;
+    }
+
+    const customer: Customer = { id: ref.id, name: '', phone, smsConsent, createdAt: now, updatedAt: now };
+    await ref.set(customer);
+}
+
+/**
+ * Whether a number has texted STOP (and not START since)
+ */
+export async function isOptedOut(db: Firestore, phone: string): Promise<boolean> {
+    const doc = await db.collection(COLLECTIONS.CUSTOMERS).doc(phone.replace(/\D/g, '')).get();
+    return !!(doc.data() as Customer | undefined)?.smsConsent?.optedOut;
+}
+
+/**
+ * Phone numbers that have opted out, for marking them in admin
+ */
+export async function getOptedOutPhones(db: Firestore): Promise<Set<string>> {
+    const snapshot = await db.collection(COLLECTIONS.CUSTOMERS)
+        .where('smsConsent.optedOut', '==', true)
+        .get();
+    return new Set(snapshot.docs.map(doc => (doc.data() as Customer).phone));
+}
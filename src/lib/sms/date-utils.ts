@@ -1,22 +1,138 @@
 // Date utilities for appointment scheduling
+//
+// The Gemach runs on Brooklyn time, but the server (Vercel) runs on UTC, so calendar
+// days are always worked out in America/New_York. A date that stands for a whole day
+// (appointment dates, blocked dates, wedding dates) is the instant of noon Brooklyn
+// time that day - it is on the same calendar day in every US time zone and in UTC.
+
+export const BUSINESS_TIME_ZONE = 'America/New_York';
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const partsFormatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: BUSINESS_TIME_ZONE,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    weekday: 'short',
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+});
 
 /**
- * Parse natural language date to Date object
+ * Brooklyn wall-clock date and time of an instant (month is 1-12, weekday 0 = Sunday)
+ */
+export function getBusinessDateParts(date: Date): {
+    year: number;
+    month: number;
+    day: number;
+    weekday: number;
+    hours: number;
+    minutes: number;
+} {
+    const parts = Object.fromEntries(partsFormatter.formatToParts(date).map(part => [part.type, part.value]));
+    return {
+        year: Number(parts.year),
+        month: Number(parts.month),
+        day: Number(parts.day),
+        weekday: WEEKDAY_NAMES.indexOf(parts.weekday),
+        hours: Number(parts.hour),
+        minutes: Number(parts.minute),
+    };
+}
+
+// Minutes Brooklyn is ahead of UTC at an instant (-300 in winter, -240 in summer)
+function businessOffsetMinutes(date: Date): number {
+    const wholeMinute = new Date(Math.floor(date.getTime() / 60000) * 60000);
+    const p = getBusinessDateParts(wholeMinute);
+    return Math.round((Date.UTC(p.year, p.month - 1, p.day, p.hours, p.minutes) - wholeMinute.getTime()) / 60000);
+}
+
+/**
+ * The instant of a Brooklyn wall-clock time. Days past the end of the month roll
+ * over, so this also does date arithmetic.
+ */
+export function zonedDateTime(year: number, month: number, day: number, hours: number = 0, minutes: number = 0): Date {
+    const asUtc = Date.UTC(year, month - 1, day, hours, minutes);
+    const guess = asUtc - businessOffsetMinutes(new Date(asUtc)) * 60000;
+    // Near a DST change the offset at the guess can differ from the offset at the answer
+    return new Date(asUtc - businessOffsetMinutes(new Date(guess)) * 60000);
+}
+
+/**
+ * Brooklyn calendar date of an instant as YYYY-MM-DD (the key for blocked dates,
+ * extra sessions and slot documents)
+ */
+export function toDateKey(date: Date): string {
+    const { year, month, day } = getBusinessDateParts(date);
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Noon Brooklyn time on a YYYY-MM-DD date (as sent by the admin date pickers)
+ */
+export function fromDateKey(dateKey: string): Date {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    return zonedDateTime(year, month, day, 12);
+}
+
+/**
+ * Noon Brooklyn time on the day a JSON date means. A bare YYYY-MM-DD is read as a
+ * Brooklyn date (new Date() would take it as UTC midnight - the evening before here).
+ */
+export function fromDateInput(value: string | Date): Date {
+    if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        return fromDateKey(value);
+    }
+    return toBusinessDate(new Date(value));
+}
+
+/**
+ * Day of the week in Brooklyn (0 = Sunday)
+ */
+export function getBusinessDay(date: Date): number {
+    return getBusinessDateParts(date).weekday;
+}
+
+/**
+ * Noon Brooklyn time on the day of an instant, moved by a number of days
+ */
+export function toBusinessDate(date: Date, addDays: number = 0): Date {
+    const { year, month, day } = getBusinessDateParts(date);
+    return zonedDateTime(year, month, day + addDays, 12);
+}
+
+/**
+ * First instant of the Brooklyn calendar day
+ */
+export function startOfBusinessDay(date: Date): Date {
+    const { year, month, day } = getBusinessDateParts(date);
+    return zonedDateTime(year, month, day);
+}
+
+/**
+ * Last instant of the Brooklyn calendar day (days are 23 or 25 hours long at DST changes)
+ */
+export function endOfBusinessDay(date: Date): Date {
+    const { year, month, day } = getBusinessDateParts(date);
+    return new Date(zonedDateTime(year, month, day + 1).getTime() - 1);
+}
+
+/**
+ * Parse natural language date to Date object (noon Brooklyn time on that day)
  */
 export function parseDate(dateStr: string, referenceDate: Date = new Date()): Date | null {
     const lower = dateStr.toLowerCase().trim();
-    const today = new Date(referenceDate);
-    today.setHours(0, 0, 0, 0);
+    const today = toBusinessDate(referenceDate);
 
     // Handle relative dates
-    if (lower === 'today') {
+    if (lower === 'today' || lower === 'tonight') {
         return today;
     }
 
     if (lower === 'tomorrow') {
-        const tomorrow = new Date(today);
-        tomorrow.setDate(tomorrow.getDate() + 1);
-        return tomorrow;
+        return toBusinessDate(today, 1);
     }
 
     // Handle "this wednesday", "next wednesday", etc.
@@ -33,17 +149,19 @@ export function parseDate(dateStr: string, referenceDate: Date = new Date()): Da
 
         if (targetDay === -1) return null;
 
-        const result = new Date(today);
-        const currentDay = result.getDay();
-        let daysToAdd = targetDay - currentDay;
+        let daysToAdd = targetDay - getBusinessDay(today);
 
         // If "next" or if the day has passed this week, go to next week
         if (dayMatch[1]?.toLowerCase() === 'next' || daysToAdd <= 0) {
             daysToAdd += 7;
         }
 
-        result.setDate(result.getDate() + daysToAdd);
-        return result;
+        return toBusinessDate(today, daysToAdd);
+    }
+
+    // ISO dates (2026-03-15) would otherwise parse as UTC midnight - the evening before in Brooklyn
+    if (/^\d{4}-\d{2}-\d{2}$/.test(lower)) {
+        return fromDateKey(lower);
     }
 
     // Try to parse as a standard date (only if it includes a year)
@@ -51,9 +169,8 @@ export function parseDate(dateStr: string, referenceDate: Date = new Date()): Da
     if (/\d{4}/.test(dateStr) || /\d{1,2}\/\d{1,2}\/\d{2,4}/.test(dateStr)) {
         const parsed = new Date(dateStr);
         if (!isNaN(parsed.getTime())) {
-            // Normalize to midnight local time
-            parsed.setHours(12, 0, 0, 0);
-            return parsed;
+            // Parsed in server time; keep the date that was written
+            return zonedDateTime(parsed.getFullYear(), parsed.getMonth() + 1, parsed.getDate(), 12);
         }
     }
 
@@ -65,21 +182,23 @@ export function parseDate(dateStr: string, referenceDate: Date = new Date()): Da
         const monthIndex = months.findIndex(m => monthDayMatch[1].startsWith(m.slice(0, 3)));
         if (monthIndex !== -1) {
             const day = parseInt(monthDayMatch[2]);
-            let result = new Date(today.getFullYear(), monthIndex, day, 12, 0, 0, 0); // Noon to avoid timezone issues
+            const inYear = (year: number) => zonedDateTime(year, monthIndex + 1, day, 12);
+            const thisYear = getBusinessDateParts(today).year;
+            let result = inYear(thisYear);
 
             // If date is in the past, assume next year
             if (result < today) {
-                result.setFullYear(result.getFullYear() + 1);
+                result = inYear(thisYear + 1);
             }
 
             // If date is more than 8 months in the future, it's probably meant for this year
             // (handles edge case like saying "January" in December)
             const monthsInFuture = (result.getTime() - today.getTime()) / (1000 * 60 * 60 * 24 * 30);
             if (monthsInFuture > 8) {
-                result.setFullYear(result.getFullYear() - 1);
+                const yearBefore = inYear(getBusinessDateParts(result).year - 1);
                 // But if that puts it in the past, keep the next year
-                if (result < today) {
-                    result.setFullYear(result.getFullYear() + 1);
+                if (yearBefore >= today) {
+                    result = yearBefore;
                 }
             }
 
@@ -110,66 +229,6 @@ export function parseTime(timeStr: string): { hours: number; minutes: number } |
     return { hours, minutes };
 }
 
-/**
- * Check if a date/time is a valid appointment time
- */
-export function isValidAppointmentTime(date: Date, timeStr: string): boolean {
-    const dayOfWeek = date.getDay();
-    const time = parseTime(timeStr);
-
-    if (!time) return false;
-
-    // Wednesday: 11:30 AM – 12:30 PM
-    if (dayOfWeek === 3) {
-        const hour = time.hours;
-        const minute = time.minutes;
-
-        // Valid times: 11:30, 11:45, 12:00, 12:15
-        if (hour === 11 && (minute === 30 || minute === 45)) return true;
-        if (hour === 12 && (minute === 0 || minute === 15)) return true;
-        return false;
-    }
-
-    // Saturday (Motzei Shabbos): 7:30 PM – 9:30 PM
-    if (dayOfWeek === 6) {
-        const hour = time.hours;
-        const minute = time.minutes;
-
-        // Valid times: 7:30, 7:45, 8:00, 8:15, 8:30, 8:45, 9:00, 9:15 (all PM)
-        if (hour >= 19 && hour <= 21) {
-            if (minute === 0 || minute === 15 || minute === 30 || minute === 45) {
-                // 9:30 PM (21:30) is the last slot, so 9:15 (21:15) is the last 15-min slot
-                if (hour === 21 && minute > 15) return false;
-                return true;
-            }
-        }
-        return false;
-    }
-
-    return false; // No appointments on other days
-}
-
-/**
- * Get the next available appointment dates
- */
-export function getNextAvailableDates(referenceDate: Date = new Date(), count: number = 4): Date[] {
-    const dates: Date[] = [];
-    const current = new Date(referenceDate);
-    current.setHours(0, 0, 0, 0);
-
-    while (dates.length < count) {
-        current.setDate(current.getDate() + 1);
-        const day = current.getDay();
-
-        // Wednesday (3) or Saturday (6)
-        if (day === 3 || day === 6) {
-            dates.push(new Date(current));
-        }
-    }
-
-    return dates;
-}
-
 /**
  * Format date for display
  */
@@ -178,6 +237,7 @@ export function formatDate(date: Date): string {
         weekday: 'long',
         month: 'long',
         day: 'numeric',
+        timeZone: BUSINESS_TIME_ZONE,
     });
 }
 
@@ -189,35 +249,25 @@ export function formatDateShort(date: Date): string {
         weekday: 'short',
         month: 'short',
         day: 'numeric',
+        timeZone: BUSINESS_TIME_ZONE,
     });
 }
 
 /**
- * Get week start (Sunday) and end (Saturday) dates
+ * Get week start (Sunday) and end (Saturday) dates, as the first and last
+ * instants of those days in Brooklyn
  */
 export function getWeekRange(referenceDate: Date = new Date()): { start: Date; end: Date } {
-    const start = new Date(referenceDate);
-    start.setHours(0, 0, 0, 0);
-    start.setDate(start.getDate() - start.getDay()); // Go to Sunday
-
-    const end = new Date(start);
-    end.setDate(end.getDate() + 6); // Go to Saturday
-    end.setHours(23, 59, 59, 999);
-
-    return { start, end };
+    const sunday = toBusinessDate(referenceDate, -getBusinessDay(referenceDate));
+    return {
+        start: startOfBusinessDay(sunday),
+        end: endOfBusinessDay(toBusinessDate(sunday, 6)),
+    };
 }
 
 /**
  * Get next week's range
  */
 export function getNextWeekRange(referenceDate: Date = new Date()): { start: Date; end: Date } {
-    const thisWeek = getWeekRange(referenceDate);
-    const start = new Date(thisWeek.start);
-    start.setDate(start.getDate() + 7);
-
-    const end = new Date(start);
-    end.setDate(end.getDate() + 6);
-    end.setHours(23, 59, 59, 999);
-
-    return { start, end };
+    return getWeekRange(toBusinessDate(referenceDate, 7));
 }
@@ -0,0 +1,167 @@
+// Delivery Status - what Twilio tells us happened to a text after it was accepted.
+// Each status callback updates the text's SmsLog; a confirmation or reminder that
+// never reached the phone flags its booking so someone calls the customer instead.
+// Texts must be logged through saveSmsLog so a callback that beat the log isn't lost.
+import { FieldValue, Firestore, Timestamp } from 'firebase-admin/firestore';
+import { COLLECTIONS as SHARED_COLLECTIONS, DeliveryProblem, SmsLog } from './types';
+
+// Texts a customer relies on - losing one of these is worth a phone call
+const FLAGGED_MESSAGE_TYPES = [
+    'confirmation',
+    'booking-rescheduled',
+    'pickup-confirmed',
+    'day-before-reminder',
+    'pickup-reminder',
+    'arrange-pickup',
+    'return-reminder',
+];
+
+// Twilio posts statuses in order but they can arrive out of order; a later
+// callback never moves a text back (e.g. "sent" arriving after "delivered")
+const STATUS_ORDER: Record<string, number> = {
+    accepted: 0,
+    scheduled: 0,
+    queued: 0,
+    sending: 1,
+    sent: 2,
+    delivered: 3,
+    undelivered: 3,
+    failed: 3,
+    canceled: 3,
+};
+
+/**
+ * Whether a callback's status should replace the one already recorded
+ */
+export function isNewerStatus(current: string | undefined, next: string): boolean {
+    if (!current) {
+        return true;
+    }
+    return (STATUS_ORDER[next] ?? 0) > (STATUS_ORDER[current] ?? 0);
+}
+
+export type DeliveryStatusResult =
+    | { outcome: 'recorded'; log: SmsLog }
+    | { outcome: 'stale' }      // Older than the status already recorded
+    | { outcome: 'pending' };   // The text isn't logged yet - applied once it is (see saveSmsLog)
+
+type StatusUpdate = { twilioSid: string; status: string; errorCode?: string };
+
+// A callback for a text whose log entry hasn't been written yet (Twilio can report
+// on a text before sendSms has even returned to us), keyed by sid
+interface PendingDeliveryStatus {
+    twilioSid: string;
+    status: string;
+    errorCode?: string;
+    receivedAt: Timestamp;
+}
+
+const COLLECTIONS = {
+    PENDING_DELIVERY_STATUSES: 'pendingDeliveryStatuses',
+};
+
+/**
+ * Record a Twilio status callback on the text's log entry, and flag the booking
+ * if a confirmation or reminder wasn't delivered. A callback that arrives before
+ * the text is logged is kept until saveSmsLog writes the entry.
+ */
+export async function recordDeliveryStatus(db: Firestore, update: StatusUpdate): Promise<DeliveryStatusResult> {
+    const logQuery = db.collection(SHARED_COLLECTIONS.SMS_LOGS)
+        .where('twilioSid', '==', update.twilioSid)
+        .limit(1);
+    const pendingRef = db.collection(COLLECTIONS.PENDING_DELIVERY_STATUSES).doc(update.twilioSid);
+    const now = Timestamp.now();
+
+    const result = await db.runTransaction(async (transaction): Promise<DeliveryStatusResult> => {
+        const snapshot = await transaction.get(logQuery);
+        if (snapshot.empty) {
+            const pending = await transaction.get(pendingRef);
+            if (!pending.exists || isNewerStatus((pending.data() as PendingDeliveryStatus).status, update.status)) {
+                const report: PendingDeliveryStatus = { twilioSid: update.twilioSid, status: update.status, receivedAt: now };
+                if (update.errorCode) {
+                    report.errorCode = update.errorCode;
+                }
+                transaction.set(pendingRef, report);
+            }
+            return { outcome: 'pending' };
+        }
+
+        const log = snapshot.docs[0].data() as SmsLog;
+        if (!isNewerStatus(log.deliveryStatus, update.status)) {
+            return { outcome: 'stale' };
+        }
+
+        const fields: Partial<SmsLog> = { deliveryStatus: update.status, deliveryUpdatedAt: now };
+        if (update.errorCode) {
+            fields.deliveryErrorCode = update.errorCode;
+        }
+        transaction.update(snapshot.docs[0].ref, fields);
+        return { outcome: 'recorded', log: { ...log, ...fields } };
+    });
+
+    if (result.outcome === 'recorded') {
+        await flagUndelivered(db, result.log, update, now);
+    }
+    return result;
+}
+
+async function flagUndelivered(db: Firestore, log: SmsLog, update: StatusUpdate, now: Timestamp) {
+    const undelivered = update.status === 'undelivered' || update.status === 'failed';
+    if (!undelivered || !log.bookingId || !log.messageType || !FLAGGED_MESSAGE_TYPES.includes(log.messageType)) {
+        return;
+    }
+
+    const problem: DeliveryProblem = {
+        messageType: log.messageType,
+        status: update.status as DeliveryProblem['status'],
+        twilioSid: update.twilioSid,
+        reportedAt: now,
+    };
+    if (update.errorCode) {
+        problem.errorCode = update.errorCode;
+    }
+    await db.collection(SHARED_COLLECTIONS.BOOKINGS).doc(log.bookingId).update({
+        deliveryProblem: problem,
+        updatedAt: now,
+    });
+}
+
+/**
+ * Write an SMS log entry, applying any delivery report that arrived before it
+ */
+export async function saveSmsLog(db: Firestore, log: SmsLog): Promise<void> {
+    const ref = db.collection(SHARED_COLLECTIONS.SMS_LOGS).doc(log.id);
+    if (!log.twilioSid) {
+        await ref.set(log, { merge: true });
+        return;
+    }
+
+    const pendingRef = db.collection(COLLECTIONS.PENDING_DELIVERY_STATUSES).doc(log.twilioSid);
+    const pending = await db.runTransaction(async (transaction) => {
+        const doc = await transaction.get(pendingRef);
+        transaction.set(ref, log, { merge: true });
+        if (!doc.exists) {
+            return null;
+        }
+        transaction.delete(pendingRef);
+        return doc.data() as PendingDeliveryStatus;
+    });
+
+    if (pending) {
+        await recordDeliveryStatus(db, {
+            twilioSid: pending.twilioSid,
+            status: pending.status,
+            errorCode: pending.errorCode,
+        });
+    }
+}
+
+/**
+ * Clear a booking's delivery flag once the customer has been reached
+ */
+export async function clearDeliveryProblem(db: Firestore, bookingId: string): Promise<void> {
+    await db.collection(SHARED_COLLECTIONS.BOOKINGS).doc(bookingId).update({
+        deliveryProblem: FieldValue.delete(),
+        updatedAt: Timestamp.now(),
+    });
+}
@@ -0,0 +1,89 @@
+// Gown History - append-only lifecycle log and usage counters per gown
+import { Firestore, Timestamp, FieldValue } from 'firebase-admin/firestore';
+import { Booking, GownEvent, GownEventType, COLLECTIONS } from './types';
+import { getLoanItems } from './loan-items';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Append an event to a gown's history and bump its usage counters
+ */
+export async function logGownEvent(
+    db: Firestore,
+    gownId: string,
+    type: GownEventType,
+    details?: { bookingId?: string; customerName?: string; daysOut?: number; notes?: string }
+): Promise<GownEvent> {
+    const gownRef = db.collection(COLLECTIONS.GOWNS).doc(gownId);
+    const eventRef = gownRef.collection(COLLECTIONS.GOWN_EVENTS).doc();
+
+    const event: GownEvent = {
+        id: eventRef.id,
+        gownId,
+        type,
+        createdAt: Timestamp.now(),
+    };
+    if (details?.bookingId) event.bookingId = details.bookingId;
+    if (details?.customerName) event.customerName = details.customerName;
+    if (details?.daysOut !== undefined) event.daysOut = details.daysOut;
+    if (details?.notes) event.notes = details.notes;
+
+    const batch = db.batch();
+    batch.set(eventRef, event);
+
+    if (type === 'picked_up') {
+        batch.update(gownRef, { wearCount: FieldValue.increment(1) });
+    } else if (type === 'returned' && details?.daysOut) {
+        batch.update(gownRef, { totalDaysOut: FieldValue.increment(details.daysOut) });
+    }
+
+    await batch.commit();
+    return event;
+}
+
+/**
+ * Get a gown's history, newest first
+ */
+export async function getGownEvents(
+    db: Firestore,
+    gownId: string
+): Promise<GownEvent[]> {
+    const snapshot = await db.collection(COLLECTIONS.GOWNS).doc(gownId)
+        .collection(COLLECTIONS.GOWN_EVENTS)
+        .orderBy('createdAt', 'desc')
+        .get();
+
+    return snapshot.docs.map((d) => d.data() as GownEvent);
+}
+
+/**
+ * Log events for the gown steps a booking update moved forward
+ */
+export async function logBookingGownEvents(
+    db: Firestore,
+    before: Booking,
+    after: Booking
+): Promise<void> {
+    const beforeItems = getLoanItems(before);
+    const details = { bookingId: after.id, customerName: after.customerName };
+
+    for (const item of getLoanItems(after)) {
+        if (!item.gownId) continue;
+        const previous = beforeItems.find(i => i.gownId === item.gownId);
+
+        if (!previous) {
+            await logGownEvent(db, item.gownId, 'selected', details);
+        }
+
+        if (item.pickedUp && !previous?.pickedUp) {
+            await logGownEvent(db, item.gownId, 'picked_up', details);
+        }
+
+        if (item.returned && !previous?.returned) {
+            const daysOut = item.pickedUpAt && item.returnedAt
+                ? Math.max(1, Math.round((item.returnedAt.toMillis() - item.pickedUpAt.toMillis()) / MS_PER_DAY))
+                : undefined;
+            await logGownEvent(db, item.gownId, 'returned', { ...details, daysOut });
+        }
+    }
+}
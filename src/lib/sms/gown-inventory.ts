@@ -0,0 +1,151 @@
+// Gown Inventory - tagged gowns and their link to bookings
+import { Firestore, Timestamp } from 'firebase-admin/firestore';
+import { Gown, GownStatus, COLLECTIONS } from './types';
+
+export type GownInput = Omit<Gown, 'id' | 'status' | 'currentBookingId' | 'createdAt' | 'updatedAt'> & {
+    status?: GownStatus;
+};
+
+/**
+ * Normalize a tag number into a document ID (e.g., " g-12 " -> "G-12")
+ */
+export function normalizeGownTag(sku: string): string {
+    return sku.trim().toUpperCase().replace(/[^A-Z0-9-]/g, '');
+}
+
+/**
+ * Drop undefined fields (Firestore rejects them)
+ */
+function withoutUndefined<T extends object>(data: T): T {
+    return Object.fromEntries(
+        Object.entries(data).filter(([_, v]) => v !== undefined)
+    ) as T;
+}
+
+/**
+ * Get all gowns (optionally filtered by status or size)
+ */
+export async function getGowns(
+    db: Firestore,
+    options?: { status?: GownStatus | 'all'; size?: string }
+): Promise<Gown[]> {
+    let query = db.collection(COLLECTIONS.GOWNS).orderBy('sku', 'asc');
+
+    if (options?.status && options.status !== 'all') {
+        query = query.where('status', '==', options.status) as any;
+    }
+
+    if (options?.size) {
+        query = query.where('size', '==', options.size) as any;
+    }
+
+    const snapshot = await query.get();
+    return snapshot.docs.map((d) => d.data() as Gown);
+}
+
+/**
+ * Get a gown by ID
+ */
+export async function getGownById(
+    db: Firestore,
+    gownId: string
+): Promise<Gown | null> {
+    const doc = await db.collection(COLLECTIONS.GOWNS).doc(gownId).get();
+    return doc.exists ? (doc.data() as Gown) : null;
+}
+
+/**
+ * Get several gowns by ID (missing IDs are skipped)
+ */
+export async function getGownsByIds(
+    db: Firestore,
+    gownIds: string[]
+): Promise<Gown[]> {
+    if (gownIds.length === 0) {
+        return [];
+    }
+
+    const refs = gownIds.map(id => db.collection(COLLECTIONS.GOWNS).doc(id));
+    const docs = await db.getAll(...refs);
+    return docs.filter(d => d.exists).map(d => d.data() as Gown);
+}
+
+/**
+ * Add a gown to the inventory
+ */
+export async function createGown(
+    db: Firestore,
+    data: GownInput
+): Promise<Gown> {
+    const gownId = normalizeGownTag(data.sku || '');
+    if (!gownId) {
+        throw new Error('Tag number is required');
+    }
+
+    if (!data.size?.trim()) {
+        throw new Error('Size is required');
+    }
+
+    const gownRef = db.collection(COLLECTIONS.GOWNS).doc(gownId);
+    const existing = await gownRef.get();
+    if (existing.exists) {
+        throw new Error(`A gown with tag ${gownId} already exists`);
+    }
+
+    const now = Timestamp.now();
+    const gown: Gown = {
+        ...withoutUndefined(data),
+        id: gownId,
+        sku: data.sku.trim(),
+        size: data.size.trim(),
+        photos: data.photos || [],
+        status: data.status || 'available',
+        createdAt: now,
+        updatedAt: now,
+    };
+
+    await gownRef.set(gown);
+    return gown;
+}
+
+/**
+ * Update gown fields (tag number cannot change since it is the ID)
+ */
+export async function updateGown(
+    db: Firestore,
+    gownId: string,
+    updates: Partial<Omit<GownInput, 'sku'>>
+): Promise<Gown | null> {
+    const gownRef = db.collection(COLLECTIONS.GOWNS).doc(gownId);
+    const doc = await gownRef.get();
+
+    if (!doc.exists) {
+        return null;
+    }
+
+    const updateData: any = { ...withoutUndefined(updates), updatedAt: Timestamp.now() };
+    delete updateData.sku;
+    delete updateData.id;
+    delete updateData.currentBookingId;
+
+    await gownRef.update(updateData);
+
+    const updated = await gownRef.get();
+    return updated.data() as Gown;
+}
+
+/**
+ * Delete a gown (only allowed when it is not with a customer)
+ */
+export async function deleteGown(db: Firestore, gownId: string): Promise<void> {
+    const gown = await getGownById(db, gownId);
+    if (!gown) {
+        return;
+    }
+
+    if (gown.status === 'reserved' || gown.status === 'out') {
+        throw new Error('Cannot delete a gown that is reserved or out. Retire it instead.');
+    }
+
+    await db.collection(COLLECTIONS.GOWNS).doc(gownId).delete();
+}
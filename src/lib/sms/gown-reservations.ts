@@ -0,0 +1,209 @@
+// Gown Reservations - occupied windows derived from linked bookings' wedding dates
+import { Firestore, Timestamp, FieldValue } from 'firebase-admin/firestore';
+import { Booking, Gown, COLLECTIONS } from './types';
+import { getGowns, getGownsByIds } from './gown-inventory';
+import { getLoanItems } from './loan-items';
+import { BUSINESS_TIME_ZONE, getBusinessDay, toBusinessDate, startOfBusinessDay, endOfBusinessDay } from './date-utils';
+
+const PICKUP_DAYS_BEFORE_WEDDING = 14;
+
+export interface ReservationWindow {
+    start: Date;  // Pickup (~2 weeks before the wedding)
+    end: Date;    // Return (Motzei Shabbos after the wedding)
+}
+
+export interface GownConflict {
+    gownId: string;
+    sku: string;
+    bookingId: string;
+    customerName: string;
+    window: ReservationWindow;
+}
+
+/**
+ * Compute the window a gown is occupied for a wedding on the given date
+ */
+export function getReservationWindow(weddingDate: Date): ReservationWindow {
+    const start = startOfBusinessDay(toBusinessDate(weddingDate, -PICKUP_DAYS_BEFORE_WEDDING));
+
+    // Motzei Shabbos after the wedding (a Saturday wedding returns the following week)
+    const daysUntilSaturday = (6 - getBusinessDay(weddingDate) + 7) % 7 || 7;
+    const end = endOfBusinessDay(toBusinessDate(weddingDate, daysUntilSaturday));
+
+    return { start, end };
+}
+
+/**
+ * Check whether two reservation windows overlap
+ */
+export function windowsOverlap(a: ReservationWindow, b: ReservationWindow): boolean {
+    return a.start <= b.end && b.start <= a.end;
+}
+
+/**
+ * A booking still holds each gown until that gown comes back (or the booking is called off)
+ */
+function getHeldGownIds(booking: Booking): string[] {
+    if (booking.status === 'cancelled' || booking.status === 'no-show') {
+        return [];
+    }
+
+    return getLoanItems(booking)
+        .filter(i => i.gownId && !i.returned)
+        .map(i => i.gownId as string);
+}
+
+/**
+ * Get active bookings that have a gown linked
+ */
+export async function getReservationsForGown(
+    db: Firestore,
+    gownId: string
+): Promise<Booking[]> {
+    const snapshot = await db.collection(COLLECTIONS.BOOKINGS)
+        .where('gownIds', 'array-contains', gownId)
+        .get();
+
+    return snapshot.docs
+        .map((d) => d.data() as Booking)
+        .filter(b => getHeldGownIds(b).includes(gownId));
+}
+
+/**
+ * Get active gown-holding bookings whose windows could overlap a wedding on the given date
+ */
+async function getReservationsNear(
+    db: Firestore,
+    weddingDate: Date
+): Promise<Booking[]> {
+    // Windows are at most ~3 weeks long, so a 4-week margin on each side covers every overlap
+    const from = new Date(weddingDate);
+    from.setDate(from.getDate() - 28);
+    const to = new Date(weddingDate);
+    to.setDate(to.getDate() + 28);
+
+    const snapshot = await db.collection(COLLECTIONS.BOOKINGS)
+        .where('weddingDate', '>=', Timestamp.fromDate(from))
+        .where('weddingDate', '<=', Timestamp.fromDate(to))
+        .get();
+
+    return snapshot.docs
+        .map((d) => d.data() as Booking)
+        .filter(b => getHeldGownIds(b).length > 0);
+}
+
+/**
+ * Find other bookings whose windows clash with assigning these gowns to a wedding
+ */
+export async function findGownConflicts(
+    db: Firestore,
+    gownIds: string[],
+    weddingDate: Date,
+    excludeBookingId?: string
+): Promise<GownConflict[]> {
+    if (gownIds.length === 0) {
+        return [];
+    }
+
+    const window = getReservationWindow(weddingDate);
+    const nearby = await getReservationsNear(db, weddingDate);
+    const gowns = await getGownsByIds(db, gownIds);
+    const conflicts: GownConflict[] = [];
+
+    for (const booking of nearby) {
+        if (booking.id === excludeBookingId) continue;
+
+        const otherWindow = getReservationWindow(booking.weddingDate.toDate());
+        if (!windowsOverlap(window, otherWindow)) continue;
+
+        for (const gownId of getHeldGownIds(booking)) {
+            if (!gownIds.includes(gownId)) continue;
+            conflicts.push({
+                gownId,
+                sku: gowns.find(g => g.id === gownId)?.sku || gownId,
+                bookingId: booking.id,
+                customerName: booking.customerName,
+                window: otherWindow,
+            });
+        }
+    }
+
+    return conflicts;
+}
+
+/**
+ * Describe a conflict for an admin-facing error message
+ */
+export function formatGownConflict(conflict: GownConflict): string {
+    const fmt = (d: Date) => d.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: BUSINESS_TIME_ZONE });
+    return `Gown ${conflict.sku} is promised to ${conflict.customerName} from ${fmt(conflict.window.start)} to ${fmt(conflict.window.end)}`;
+}
+
+/**
+ * Find gowns (optionally of one size) that are free for a wedding on the given date
+ */
+export async function getGownsFreeForWedding(
+    db: Firestore,
+    weddingDate: Date,
+    options?: { size?: string }
+): Promise<Gown[]> {
+    const gowns = await getGowns(db, { size: options?.size });
+    const window = getReservationWindow(weddingDate);
+    const nearby = await getReservationsNear(db, weddingDate);
+
+    const taken = new Set<string>();
+    for (const booking of nearby) {
+        if (windowsOverlap(window, getReservationWindow(booking.weddingDate.toDate()))) {
+            getHeldGownIds(booking).forEach(id => taken.add(id));
+        }
+    }
+
+    return gowns.filter(g => g.status !== 'retired' && !taken.has(g.id));
+}
+
+/**
+ * Recompute a gown's status from its active reservations.
+ * Out beats reserved; cleaning and retired are left alone unless the gown is out.
+ */
+export async function refreshGownStatus(db: Firestore, gownId: string): Promise<void> {
+    const gownRef = db.collection(COLLECTIONS.GOWNS).doc(gownId);
+    const doc = await gownRef.get();
+    if (!doc.exists) {
+        return;
+    }
+
+    const gown = doc.data() as Gown;
+    const reservations = await getReservationsForGown(db, gownId);
+    const pickedUp = reservations.find(b => getLoanItems(b).some(i => i.gownId === gownId && i.pickedUp));
+    const next = reservations
+        .sort((a, b) => a.weddingDate.toMillis() - b.weddingDate.toMillis())[0];
+    const now = Timestamp.now();
+
+    if (pickedUp) {
+        await gownRef.update({ status: 'out', currentBookingId: pickedUp.id, updatedAt: now });
+    } else if (gown.status === 'cleaning' || gown.status === 'retired') {
+        await gownRef.update({
+            currentBookingId: next ? next.id : FieldValue.delete(),
+            updatedAt: now,
+        });
+    } else if (next) {
+        await gownRef.update({ status: 'reserved', currentBookingId: next.id, updatedAt: now });
+    } else {
+        await gownRef.update({ status: 'available', currentBookingId: FieldValue.delete(), updatedAt: now });
+    }
+}
+
+/**
+ * Bring linked gowns in line with a booking after it changes
+ */
+export async function syncGownsForBooking(
+    db: Firestore,
+    booking: Booking,
+    previousGownIds: string[] = []
+): Promise<void> {
+    const gownIds = new Set([...(booking.gownIds || []), ...previousGownIds]);
+
+    for (const gownId of gownIds) {
+        await refreshGownStatus(db, gownId);
+    }
+}
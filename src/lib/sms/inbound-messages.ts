@@ -0,0 +1,73 @@
+// Inbound Messages - makes Twilio retries of the same MessageSid safe to receive twice
+import { Firestore, Timestamp } from 'firebase-admin/firestore';
+import { InboundMessage, COLLECTIONS } from './types';
+
+// A claim older than this is assumed to belong to a request that died mid-way
+const STALE_CLAIM_MS = 2 * 60 * 1000;
+
+export type InboundClaim =
+    | { status: 'claimed' }
+    | { status: 'in_progress' }
+    | { status: 'replied'; reply: string; replySent: boolean };
+
+/**
+ * Claim a MessageSid for processing.
+ * Returns 'claimed' the first time, the stored reply if it was already handled,
+ * or 'in_progress' while another delivery of the same message is still running.
+ */
+export async function claimInboundMessage(
+    db: Firestore,
+    messageSid: string,
+    phone: string
+): Promise<InboundClaim> {
+    const ref = db.collection(COLLECTIONS.INBOUND_MESSAGES).doc(messageSid);
+
+    return db.runTransaction(async (transaction) => {
+        const doc = await transaction.get(ref);
+        const now = Timestamp.now();
+
+        if (doc.exists) {
+            const record = doc.data() as InboundMessage;
+            if (record.status === 'replied' && record.reply !== undefined) {
+                return { status: 'replied', reply: record.reply, replySent: !!record.replySent };
+            }
+            if (now.toMillis() - record.updatedAt.toMillis() < STALE_CLAIM_MS) {
+                return { status: 'in_progress' };
+            }
+        }
+
+        const record: InboundMessage = {
+            id: messageSid,
+            phone,
+            status: 'processing',
+            createdAt: doc.exists ? (doc.data() as InboundMessage).createdAt : now,
+            updatedAt: now,
+        };
+        transaction.set(ref, record);
+        return { status: 'claimed' };
+    });
+}
+
+/**
+ * Store the reply produced for a message so retries can reuse it
+ */
+export async function recordInboundReply(
+    db: Firestore,
+    messageSid: string,
+    reply: string,
+    replySent: boolean
+): Promise<void> {
+    await db.collection(COLLECTIONS.INBOUND_MESSAGES).doc(messageSid).update({
+        status: 'replied',
+        reply,
+        replySent,
+        updatedAt: Timestamp.now(),
+    });
+}
+
+/**
+ * Drop a claim after a failure so Twilio's retry processes the message again
+ */
+export async function releaseInboundMessage(db: Firestore, messageSid: string): Promise<void> {
+    await db.collection(COLLECTIONS.INBOUND_MESSAGES).doc(messageSid).delete();
+}
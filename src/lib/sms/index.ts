@@ -6,3 +6,10 @@ export * from './message-parser';
 export * from './booking-handler';
 export * from './date-utils';
 export * from './conversation-state';
+export * from './gown-inventory';
+export * from './gown-reservations';
+export * from './gown-history';
+export * from './loan-items';
+export * from './booking-history';
+export * from './inbound-messages';
+export * from './slot-capacity';
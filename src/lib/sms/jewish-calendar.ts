@@ -0,0 +1,295 @@
+// Jewish calendar - Hebrew dates, Yom Tov and seasonal Shabbos times for Brooklyn
+// Everything is computed locally (no network): Hebrew dates with the fixed-calendar
+// arithmetic from Reingold & Dershowitz, sun times with the NOAA almanac formula.
+
+import { getBusinessDateParts, getBusinessDay, toBusinessDate } from './date-utils';
+
+export interface HebrewDate {
+    year: number;
+    month: number;   // NISAN = 1 ... ADAR = 12, ADAR II = 13 (leap years)
+    day: number;
+}
+
+export interface CalendarSettings {
+    blockCholHamoed: boolean;
+    blockSefirah: boolean;            // After Pesach until Lag BaOmer
+    blockThreeWeeks: boolean;         // 17 Tammuz through Tisha B'Av
+    motzeiShabbosAfterTzeis: number;  // Minutes after Shabbos ends before the first slot
+}
+
+export const DEFAULT_CALENDAR_SETTINGS: CalendarSettings = {
+    blockCholHamoed: true,
+    blockSefirah: false,
+    blockThreeWeeks: false,
+    motzeiShabbosAfterTzeis: 15,
+};
+
+export const NISAN = 1;
+export const IYAR = 2;
+export const SIVAN = 3;
+export const TAMMUZ = 4;
+export const AV = 5;
+export const ELUL = 6;
+export const TISHREI = 7;
+const CHESHVAN = 8;
+const KISLEV = 9;
+const TEVES = 10;
+const ADAR = 12;
+const ADAR_II = 13;
+
+// 1327 East 26th Street
+const BROOKLYN = { latitude: 40.6187, longitude: -73.9497 };
+
+// Sun 8.5° below the horizon; candle lighting 18 minutes before sunset
+const TZEIS_ZENITH = 98.5;
+const SUNSET_ZENITH = 90.833;
+const CANDLE_LIGHTING_MINUTES = 18;
+
+// Fixed day number (days since 1 January, year 1) of 1 Tishrei, year 1
+const HEBREW_EPOCH = -1373427;
+// Fixed day number of 1 January 1970
+const UNIX_EPOCH_FIXED = 719163;
+
+// ============================================
+// Hebrew dates
+// ============================================
+
+function isHebrewLeapYear(year: number): boolean {
+    return ((7 * year + 1) % 19 + 19) % 19 < 7;
+}
+
+function lastMonthOfYear(year: number): number {
+    return isHebrewLeapYear(year) ? ADAR_II : ADAR;
+}
+
+// Days from the epoch to Rosh Hashana, before the postponements that depend on year length
+function elapsedDays(year: number): number {
+    const monthsElapsed = Math.floor((235 * year - 234) / 19);
+    const partsElapsed = 12084 + 13753 * monthsElapsed;
+    const days = 29 * monthsElapsed + Math.floor(partsElapsed / 25920);
+    return (3 * (days + 1)) % 7 < 3 ? days + 1 : days;
+}
+
+function yearLengthCorrection(year: number): number {
+    const ny0 = elapsedDays(year - 1);
+    const ny1 = elapsedDays(year);
+    const ny2 = elapsedDays(year + 1);
+    if (ny2 - ny1 === 356) return 2;
+    if (ny1 - ny0 === 382) return 1;
+    return 0;
+}
+
+function newYear(year: number): number {
+    return HEBREW_EPOCH + elapsedDays(year) + yearLengthCorrection(year);
+}
+
+function daysInYear(year: number): number {
+    return newYear(year + 1) - newYear(year);
+}
+
+function daysInMonth(year: number, month: number): number {
+    const length = daysInYear(year);
+    if ([IYAR, TAMMUZ, ELUL, TEVES, ADAR_II].includes(month)) return 29;
+    if (month === ADAR && !isHebrewLeapYear(year)) return 29;
+    if (month === CHESHVAN && length % 10 !== 5) return 29;  // Only long in 355/385-day years
+    if (month === KISLEV && length % 10 === 3) return 29;    // Short in 353/383-day years
+    return 30;
+}
+
+function fixedFromHebrew({ year, month, day }: HebrewDate): number {
+    let fixed = newYear(year) + day - 1;
+    if (month < TISHREI) {
+        for (let m = TISHREI; m <= lastMonthOfYear(year); m++) fixed += daysInMonth(year, m);
+        for (let m = NISAN; m < month; m++) fixed += daysInMonth(year, m);
+    } else {
+        for (let m = TISHREI; m < month; m++) fixed += daysInMonth(year, m);
+    }
+    return fixed;
+}
+
+function fixedFromDate(date: Date): number {
+    const { year, month, day } = getBusinessDateParts(date);
+    return Math.floor(Date.UTC(year, month - 1, day) / 86400000) + UNIX_EPOCH_FIXED;
+}
+
+/**
+ * Hebrew date for the calendar day of a date (the daytime date - the evening
+ * before already belongs to it)
+ */
+export function toHebrewDate(date: Date): HebrewDate {
+    const fixed = fixedFromDate(date);
+    // The average year length gets within a year; settle on the one containing the date
+    let year = Math.floor((fixed - HEBREW_EPOCH) / (35975351 / 98496)) + 1;
+    while (newYear(year) > fixed) year--;
+    while (newYear(year + 1) <= fixed) year++;
+
+    const start = fixed < fixedFromHebrew({ year, month: NISAN, day: 1 }) ? TISHREI : NISAN;
+    let month = start;
+    while (fixed > fixedFromHebrew({ year, month, day: daysInMonth(year, month) })) {
+        month = month === lastMonthOfYear(year) ? NISAN : month + 1;
+    }
+
+    return { year, month, day: fixed - fixedFromHebrew({ year, month, day: 1 }) + 1 };
+}
+
+// ============================================
+// Yom Tov and other periods (Diaspora)
+// ============================================
+
+type DayKey = `${number}-${number}`;
+
+// Days melacha is forbidden, by Hebrew month and day
+const YOM_TOV: Record<DayKey, string> = {
+    '7-1': 'Rosh Hashana',
+    '7-2': 'Rosh Hashana',
+    '7-10': 'Yom Kippur',
+    '7-15': 'Sukkos',
+    '7-16': 'Sukkos',
+    '7-22': 'Shemini Atzeres',
+    '7-23': 'Simchas Torah',
+    '1-15': 'Pesach',
+    '1-16': 'Pesach',
+    '1-21': 'Pesach',
+    '1-22': 'Pesach',
+    '3-6': 'Shavuos',
+    '3-7': 'Shavuos',
+};
+
+function dayKey(hebrew: HebrewDate): DayKey {
+    return `${hebrew.month}-${hebrew.day}`;
+}
+
+/**
+ * Yom Tov falling on a date, if any
+ */
+export function getYomTov(date: Date): string | null {
+    return YOM_TOV[dayKey(toHebrewDate(date))] || null;
+}
+
+function getCholHamoed({ month, day }: HebrewDate): string | null {
+    if (month === NISAN && day >= 17 && day <= 20) return 'Chol Hamoed Pesach';
+    if (month === TISHREI && day >= 17 && day <= 21) return 'Chol Hamoed Sukkos';
+    return null;
+}
+
+function isSefirah({ month, day }: HebrewDate): boolean {
+    return (month === NISAN && day >= 23) || (month === IYAR && day <= 17);
+}
+
+function isThreeWeeks(date: Date, { month, day }: HebrewDate): boolean {
+    if (month === TAMMUZ) return day >= 17;
+    if (month !== AV) return false;
+    // Tisha B'Av on Shabbos is pushed to Sunday
+    return day <= 9 || (day === 10 && getBusinessDay(toBusinessDate(date, -1)) === 6);
+}
+
+/**
+ * Why we're closed on a date, or null if the calendar allows appointments.
+ * Yom Tov and Erev Yom Tov are always closed (an evening appointment on Erev
+ * Yom Tov would be on Yom Tov itself); the other periods follow the settings.
+ */
+export function getClosureReason(date: Date, settings: CalendarSettings = DEFAULT_CALENDAR_SETTINGS): string | null {
+    const hebrew = toHebrewDate(date);
+
+    const yomTov = YOM_TOV[dayKey(hebrew)];
+    if (yomTov) return yomTov;
+
+    const tomorrow = getYomTov(toBusinessDate(date, 1));
+    if (tomorrow) return `Erev ${tomorrow}`;
+
+    const cholHamoed = getCholHamoed(hebrew);
+    if (cholHamoed && settings.blockCholHamoed) return cholHamoed;
+    if (settings.blockSefirah && isSefirah(hebrew)) return 'Sefirah';
+    if (settings.blockThreeWeeks && isThreeWeeks(date, hebrew)) return 'The Three Weeks';
+
+    return null;
+}
+
+/**
+ * Closed dates from a date onward, for showing on the schedule page
+ */
+export function getUpcomingClosures(
+    from: Date,
+    days: number,
+    settings: CalendarSettings = DEFAULT_CALENDAR_SETTINGS
+): { date: Date; reason: string }[] {
+    const closures: { date: Date; reason: string }[] = [];
+    for (let i = 0; i < days; i++) {
+        const date = toBusinessDate(from, i);
+        const reason = getClosureReason(date, settings);
+        if (reason) {
+            closures.push({ date, reason });
+        }
+    }
+    return closures;
+}
+
+// ============================================
+// Sun times for Brooklyn
+// ============================================
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+const normalize = (value: number, range: number) => ((value % range) + range) % range;
+
+// Minutes after local midnight that the sun sets to the given zenith
+function sunsetMinutes(date: Date, zenith: number): number {
+    const { latitude, longitude } = BROOKLYN;
+    const { year, month, day } = getBusinessDateParts(date);
+    const dayOfYear = Math.round((Date.UTC(year, month - 1, day) - Date.UTC(year, 0, 0)) / 86400000);
+
+    const lngHour = longitude / 15;
+    const t = dayOfYear + (18 - lngHour) / 24;
+    const meanAnomaly = 0.9856 * t - 3.289;
+    const trueLongitude = normalize(
+        meanAnomaly + 1.916 * Math.sin(toRadians(meanAnomaly)) + 0.020 * Math.sin(toRadians(2 * meanAnomaly)) + 282.634,
+        360
+    );
+
+    let rightAscension = normalize(toDegrees(Math.atan(0.91764 * Math.tan(toRadians(trueLongitude)))), 360);
+    rightAscension += Math.floor(trueLongitude / 90) * 90 - Math.floor(rightAscension / 90) * 90;
+    rightAscension /= 15;
+
+    const sinDec = 0.39782 * Math.sin(toRadians(trueLongitude));
+    const cosDec = Math.cos(Math.asin(sinDec));
+    const cosHour = (Math.cos(toRadians(zenith)) - sinDec * Math.sin(toRadians(latitude)))
+        / (cosDec * Math.cos(toRadians(latitude)));
+    const hourAngle = toDegrees(Math.acos(Math.max(-1, Math.min(1, cosHour)))) / 15;
+
+    const localMean = hourAngle + rightAscension - 0.06571 * t - 6.622;
+    const utcHours = normalize(localMean - lngHour, 24);
+
+    // Convert to Brooklyn wall-clock time (handles EST/EDT)
+    const local = getBusinessDateParts(new Date(Date.UTC(year, month - 1, day) + utcHours * 3600000));
+    return local.hours * 60 + local.minutes;
+}
+
+/**
+ * Sunset in Brooklyn, in minutes after midnight
+ */
+export function getSunset(date: Date): number {
+    return sunsetMinutes(date, SUNSET_ZENITH);
+}
+
+/**
+ * Nightfall (tzeis) in Brooklyn, in minutes after midnight
+ */
+export function getTzeis(date: Date): number {
+    return sunsetMinutes(date, TZEIS_ZENITH);
+}
+
+/**
+ * Candle lighting in Brooklyn, in minutes after midnight
+ */
+export function getCandleLighting(date: Date): number {
+    return getSunset(date) - CANDLE_LIGHTING_MINUTES;
+}
+
+/**
+ * Earliest a Motzei Shabbos slot can start: tzeis plus the configured gap,
+ * rounded up to the quarter hour
+ */
+export function getMotzeiShabbosStart(date: Date, settings: CalendarSettings = DEFAULT_CALENDAR_SETTINGS): number {
+    const earliest = getTzeis(date) + settings.motzeiShabbosAfterTzeis;
+    return Math.ceil(earliest / 15) * 15;
+}
@@ -0,0 +1,144 @@
+// Loan Items - the gown and accessories a booking takes home, tracked per item
+import { randomUUID } from 'crypto';
+import { Timestamp } from 'firebase-admin/firestore';
+import { Booking, Gown, LoanItem } from './types';
+import type { ItemType } from '../types';
+
+export const LOAN_ITEM_TYPES: ItemType[] = ['Gown', 'Accessory', 'Other'];
+
+// What the admin dashboard sends (timestamps are always set on the server)
+export interface LoanItemInput {
+    id?: string;
+    type: ItemType;
+    description?: string;
+    gownId?: string;
+    pickedUp?: boolean;
+    returned?: boolean;
+}
+
+/**
+ * Get a booking's items, synthesizing them for bookings made before items existed
+ */
+export function getLoanItems(booking: Booking): LoanItem[] {
+    if (booking.items) {
+        return booking.items;
+    }
+
+    const legacy = (description: string, gownId?: string): LoanItem => {
+        const item: LoanItem = {
+            id: gownId || 'gown',
+            type: 'Gown',
+            description,
+            pickedUp: booking.gownPickedUp,
+            returned: booking.gownReturned,
+        };
+        if (gownId) item.gownId = gownId;
+        if (booking.gownPickupDate) item.pickedUpAt = booking.gownPickupDate;
+        if (booking.gownReturnDate) item.returnedAt = booking.gownReturnDate;
+        return item;
+    };
+
+    if (booking.gownIds?.length) {
+        return booking.gownIds.map(id => legacy(`Gown ${id}`, id));
+    }
+    if (booking.gownSelected || booking.gownPickedUp) {
+        return [legacy(booking.gownDescription || 'Gown')];
+    }
+    return [];
+}
+
+/**
+ * Items that went home and have not come back yet
+ */
+export function getItemsOut(items: LoanItem[]): LoanItem[] {
+    return items.filter(i => i.pickedUp && !i.returned);
+}
+
+/**
+ * True once something went home and all of it has come back
+ */
+export function allItemsReturned(items: LoanItem[]): boolean {
+    return items.some(i => i.pickedUp) && getItemsOut(items).length === 0;
+}
+
+/**
+ * Describe a gown item from its inventory record
+ */
+export function describeGown(gown: Gown): string {
+    return `Gown ${gown.sku} (size ${gown.size})`;
+}
+
+/**
+ * Set an item's picked-up/returned state, stamping when each step happens.
+ * An item can only be returned once it was picked up.
+ */
+export function applyLoanItemState(
+    item: LoanItem,
+    state: { pickedUp?: boolean; returned?: boolean },
+    now: Timestamp = Timestamp.now()
+): LoanItem {
+    const pickedUp = state.pickedUp ?? item.pickedUp;
+    const returned = pickedUp && (state.returned ?? item.returned);
+    const next: LoanItem = { ...item, pickedUp, returned };
+
+    if (pickedUp && !item.pickedUp) next.pickedUpAt = now;
+    if (!pickedUp) delete next.pickedUpAt;
+    if (returned && !item.returned) next.returnedAt = now;
+    if (!returned) delete next.returnedAt;
+
+    return next;
+}
+
+/**
+ * Build the stored item list from dashboard input, keeping timestamps from the existing items
+ */
+export function buildLoanItems(
+    input: LoanItemInput[],
+    existing: LoanItem[],
+    gowns: Gown[]
+): LoanItem[] {
+    const now = Timestamp.now();
+
+    return input.map((raw) => {
+        if (!LOAN_ITEM_TYPES.includes(raw.type)) {
+            throw new Error(`Unknown item type: ${raw.type}`);
+        }
+
+        const gown = raw.type === 'Gown' && raw.gownId
+            ? gowns.find(g => g.id === raw.gownId)
+            : undefined;
+        const description = raw.description?.trim() || (gown ? describeGown(gown) : '');
+        if (!description) {
+            throw new Error('Each item needs a description');
+        }
+
+        const previous = existing.find(i => i.id === raw.id);
+        const base: LoanItem = previous
+            ? { ...previous, type: raw.type, description }
+            : { id: raw.gownId || randomUUID(), type: raw.type, description, pickedUp: false, returned: false };
+        if (gown) base.gownId = gown.id;
+        else delete base.gownId;
+
+        return applyLoanItemState(base, { pickedUp: raw.pickedUp, returned: raw.returned }, now);
+    });
+}
+
+/**
+ * Booking-level gown fields rolled up from its items
+ */
+export function summarizeLoanItems(items: LoanItem[]): Pick<Booking, 'gownIds' | 'gownPickedUp' | 'gownReturned'> & {
+    gownPickupDate: Timestamp | null;
+    gownReturnDate: Timestamp | null;
+} {
+    const pickups = items.map(i => i.pickedUpAt).filter((t): t is Timestamp => !!t);
+    const returns = items.map(i => i.returnedAt).filter((t): t is Timestamp => !!t);
+    const gownReturned = allItemsReturned(items);
+
+    return {
+        gownIds: items.filter(i => i.type === 'Gown' && i.gownId).map(i => i.gownId as string),
+        gownPickedUp: items.some(i => i.pickedUp),
+        gownPickupDate: pickups.length ? pickups.reduce((a, b) => (a.toMillis() <= b.toMillis() ? a : b)) : null,
+        gownReturned,
+        gownReturnDate: gownReturned && returns.length ? returns.reduce((a, b) => (a.toMillis() >= b.toMillis() ? a : b)) : null,
+    };
+}
@@ -2,6 +2,7 @@
 
 import OpenAI from 'openai';
 import { ConversationState } from './types';
+import { DateOverride, ScheduleConfig, describeHours, describeOpenDays, describeGroupRules } from './schedule-config';
 
 const openai = new OpenAI({
     apiKey: process.env.OPENAI_API_KEY,
@@ -11,7 +12,7 @@ const openai = new OpenAI({
 const REQUIRED_FIELDS = ['name', 'appointmentDate', 'groupSize', 'weddingDate', 'phone'] as const;
 
 export interface ParsedMessage {
-    intent: 'booking' | 'question' | 'confirmation' | 'cancellation' | 'greeting' | 'unknown';
+    intent: 'booking' | 'question' | 'confirmation' | 'cancellation' | 'waitlist' | 'pickup' | 'greeting' | 'unknown';
     extractedData: Partial<{
         name: string;
         appointmentDate: string;  // Natural language date
@@ -19,6 +20,7 @@ export interface ParsedMessage {
         groupSize: number;
         weddingDate: string;      // Natural language date
         phone: string;
+        pickupKind: 'pickup' | 'return';  // When arranging a gown pickup or drop-off
     }>;
     question?: string;  // If intent is 'question', what are they asking
     confidence: number; // 0-1
@@ -30,7 +32,9 @@ export interface ParsedMessage {
  */
 export async function parseMessage(
     message: string,
-    existingState?: ConversationState | null
+    schedule: ScheduleConfig,
+    existingState?: ConversationState | null,
+    extraSessions: DateOverride[] = []
 ): Promise<ParsedMessage> {
     const existingData = existingState?.collectedData || {};
 
@@ -39,13 +43,12 @@ export async function parseMessage(
 Your job is to parse incoming SMS messages and extract booking information.
 
 APPOINTMENT HOURS (important - only these times are valid):
-- Wednesday: 11:30 AM – 12:30 PM
-- Motzei Shabbos (Saturday night): 7:30 PM – 9:30 PM
+${describeHours(schedule, extraSessions).map(line => `- ${line}`).join('\n')}
 
 REQUIRED BOOKING INFO:
 1. Name
-2. Appointment date and time (must be Wed or Motzei Shabbos)
-3. Number of people in group (max 4, or 6 for 30-min slot)
+2. Appointment date and time (must be ${describeOpenDays(schedule)}${extraSessions.length > 0 ? ', or one of the extra sessions' : ''})
+3. Number of people in group (${describeGroupRules(schedule)})
 4. Wedding date
 5. Phone number
 
@@ -54,14 +57,15 @@ ${JSON.stringify(existingData, null, 2)}
 
 Respond in JSON format:
 {
-  "intent": "booking" | "question" | "confirmation" | "cancellation" | "greeting" | "unknown",
+  "intent": "booking" | "question" | "confirmation" | "cancellation" | "waitlist" | "pickup" | "greeting" | "unknown",
   "extractedData": {
     "name": "if found",
     "appointmentDate": "natural language date like 'this Wednesday' or 'January 25'",
     "slotTime": "if specified, like '11:30 AM' or '7:30 PM'",
     "groupSize": number,
     "weddingDate": "natural language date",
-    "phone": "if found"
+    "phone": "if found",
+    "pickupKind": "pickup" | "return", if arranging a time to pick up or drop off the gown
   },
   "question": "if intent is question, what are they asking about",
   "confidence": 0.0-1.0
@@ -73,6 +77,9 @@ RULES:
 - If they're asking about hours, location, sizes, etc., intent is "question"
 - If they say "yes", "confirm", "sounds good", intent is "confirmation"
 - If they say "cancel", intent is "cancellation"
+- If they want to join the waitlist or be told when a spot opens up, intent is "waitlist"
+- If they want to arrange a time to pick up their gown (or drop it off after the wedding), intent is "pickup" - put the day in appointmentDate and the time in slotTime. Questions about the pickup policy are still "question"
+- If EXISTING DATA has a pickupKind and they reply with a day or time, intent is "pickup"
 - If just "hi", "hello", intent is "greeting"`;
 
     try {
@@ -114,6 +121,15 @@ function fallbackParse(message: string): ParsedMessage {
         return { intent: 'cancellation', extractedData: {}, confidence: 0.6 };
     }
 
+    if (lower.includes('waitlist') || lower.includes('wait list')) {
+        return { intent: 'waitlist', extractedData: {}, confidence: 0.6 };
+    }
+
+    if (/\b(pick ?up|drop ?off)\b/.test(lower) && !lower.includes('?')) {
+        const pickupKind = /\bdrop ?off\b/.test(lower) ? 'return' : 'pickup';
+        return { intent: 'pickup', extractedData: { pickupKind }, confidence: 0.5 };
+    }
+
     if (['yes', 'confirm', 'sounds good', 'perfect', 'great'].some(w => lower.includes(w))) {
         return { intent: 'confirmation', extractedData: {}, confidence: 0.6 };
     }
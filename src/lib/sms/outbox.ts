@@ -0,0 +1,263 @@
+// Outbox - every text we send on our own (reminders, notices, offers) goes through
+// here. A message is tried straight away and retried with backoff if Twilio turns
+// it down; what it marks on the booking is only written once Twilio accepts it.
+import { Firestore, Timestamp } from 'firebase-admin/firestore';
+import { COLLECTIONS as SHARED_COLLECTIONS, SmsLog } from './types';
+import { sendSms } from './twilio-sender';
+import { saveSmsLog } from './delivery-status';
+
+export type OutboxMessageType =
+    | 'day-before-reminder'
+    | 'pickup-reminder'
+    | 'arrange-pickup'
+    | 'return-reminder'
+    | 'booking-cancelled'
+    | 'booking-rescheduled'
+    | 'pickup-confirmed'
+    | 'waitlist-offer'
+    | 'waitlist-expired'
+    | 'manager';
+
+export type OutboxStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+// A field update applied once the message is accepted, e.g. a reminder flag
+// (the document's updatedAt is stamped with the send time)
+export interface OutboxUpdate {
+    path: string;                      // Document path, e.g. "bookings/abc"
+    fields: Record<string, unknown>;
+}
+
+export interface OutboxMessage {
+    id: string;
+    to: string;
+    body: string;
+    type: OutboxMessageType;
+    bookingId?: string;
+    onSent: OutboxUpdate[];
+    status: OutboxStatus;
+    attempts: number;
+    nextAttemptAt: Timestamp;
+    lastError?: string;
+    twilioSid?: string;
+    sentAt?: Timestamp;
+    createdAt: Timestamp;
+    updatedAt: Timestamp;
+}
+
+export interface OutboxRequest {
+    to: string;
+    body: string;
+    type: OutboxMessageType;
+    bookingId?: string;
+    dedupeKey?: string;                // The same key is only ever queued once
+    onSent?: OutboxUpdate[];
+}
+
+const COLLECTIONS = {
+    OUTBOX: 'outbox',
+};
+
+// Minutes to wait before each retry; the message fails after the last one
+const RETRY_DELAYS_MINUTES = [1, 5, 30, 120];
+
+// A send that never finished (the function died) is tried again after this
+const STALE_SENDING_MS = 5 * 60 * 1000;
+
+/**
+ * Update a booking once the message is accepted (e.g. { dayBeforeReminderSent: true })
+ */
+export function bookingUpdate(bookingId: string, fields: Record<string, unknown>): OutboxUpdate {
+    return { path: `${SHARED_COLLECTIONS.BOOKINGS}/${bookingId}`, fields };
+}
+
+/**
+ * Queue a text and try to send it right away. With a dedupeKey, a message that
+ * was already queued (in any state) is returned instead of sending it again.
+ */
+export async function enqueueSms(db: Firestore, request: OutboxRequest): Promise<OutboxMessage> {
+    const ref = request.dedupeKey
+        ? db.collection(COLLECTIONS.OUTBOX).doc(request.dedupeKey)
+        : db.collection(COLLECTIONS.OUTBOX).doc();
+
+    const created = await db.runTransaction(async (transaction) => {
+        const doc = await transaction.get(ref);
+        if (doc.exists) {
+            return null;
+        }
+
+        const now = Timestamp.now();
+        const message: OutboxMessage = {
+            id: ref.id,
+            to: request.to,
+            body: request.body,
+            type: request.type,
+            onSent: request.onSent || [],
+            status: 'pending',
+            attempts: 0,
+            nextAttemptAt: now,
+            createdAt: now,
+            updatedAt: now,
+        };
+        if (request.bookingId) {
+            message.bookingId = request.bookingId;
+        }
+        transaction.set(ref, message);
+        return message;
+    });
+
+    if (!created) {
+        return (await ref.get()).data() as OutboxMessage;
+    }
+    return (await dispatchMessage(db, created.id)) || created;
+}
+
+function isDue(message: OutboxMessage, now: number): boolean {
+    if (message.status === 'pending') {
+        return message.nextAttemptAt.toMillis() <= now;
+    }
+    return message.status === 'sending' && now - message.updatedAt.toMillis() > STALE_SENDING_MS;
+}
+
+/**
+ * Try to send one queued message. Returns the message as it ends up, or null if
+ * it wasn't due (already sent, waiting for its retry, or being sent elsewhere).
+ */
+export async function dispatchMessage(db: Firestore, messageId: string): Promise<OutboxMessage | null> {
+    const ref = db.collection(COLLECTIONS.OUTBOX).doc(messageId);
+
+    const claimed = await db.runTransaction(async (transaction) => {
+        const doc = await transaction.get(ref);
+        if (!doc.exists) {
+            return null;
+        }
+        const message = doc.data() as OutboxMessage;
+        if (!isDue(message, Date.now())) {
+            return null;
+        }
+
+        const update = { status: 'sending' as const, attempts: message.attempts + 1, updatedAt: Timestamp.now() };
+        transaction.update(ref, update);
+        return { ...message, ...update };
+    });
+    if (!claimed) {
+        return null;
+    }
+
+    const result = await sendSms(claimed.to, claimed.body);
+    const now = Timestamp.now();
+
+    if (result.success) {
+        const update: Partial<OutboxMessage> = { status: 'sent', sentAt: now, updatedAt: now };
+        if (result.messageSid) {
+            update.twilioSid = result.messageSid;
+        }
+
+        // Recorded as sent on its own first - if a follow-up update fails, the text
+        // must still never be sent again
+        await ref.update(update);
+        for (const onSent of claimed.onSent) {
+            try {
+                await db.doc(onSent.path).update({ ...onSent.fields, updatedAt: now });
+            } catch (error) {
+                console.error(`Outbox message ${claimed.id} sent, but updating ${onSent.path} failed:`, error);
+            }
+        }
+        const sent = { ...claimed, ...update };
+        await logOutbound(db, sent);
+        return sent;
+    }
+
+    // Retrying won't help a number that texted STOP
+    const retryDelay = result.optedOut ? undefined : RETRY_DELAYS_MINUTES[claimed.attempts - 1];
+    const update: Partial<OutboxMessage> = retryDelay === undefined
+        ? { status: 'failed', lastError: result.error || 'Unknown error', updatedAt: now }
+        : {
+            status: 'pending',
+            lastError: result.error || 'Unknown error',
+            nextAttemptAt: Timestamp.fromMillis(now.toMillis() + retryDelay * 60 * 1000),
+            updatedAt: now,
+        };
+    await ref.update(update);
+    return { ...claimed, ...update };
+}
+
+// The SMS log entry for a sent message
+function outboundLog(message: OutboxMessage): SmsLog {
+    const sentAt = message.sentAt ?? message.updatedAt;
+    const log: SmsLog = {
+        id: `${sentAt.toMillis()}_outbound_${message.id}`,
+        direction: 'outbound',
+        phone: message.to,
+        message: message.body,
+        messageType: message.type,
+        createdAt: sentAt,
+    };
+    if (message.twilioSid) {
+        log.twilioSid = message.twilioSid;
+    }
+    if (message.bookingId) {
+        log.bookingId = message.bookingId;
+    }
+    return log;
+}
+
+// Outbound texts show up in the SMS log alongside conversation replies, where
+// Twilio's delivery reports find them by twilioSid (see delivery-status)
+async function logOutbound(db: Firestore, message: OutboxMessage) {
+    try {
+        await saveSmsLog(db, outboundLog(message));
+    } catch (error) {
+        console.error('Failed to log outbound message:', error);
+    }
+}
+
+/**
+ * Send every queued message whose retry time has come. Run regularly from cron.
+ */
+export async function dispatchDueMessages(db: Firestore): Promise<{ sent: number; retrying: number; failed: number }> {
+    const snapshot = await db.collection(COLLECTIONS.OUTBOX)
+        .where('status', 'in', ['pending', 'sending'])
+        .get();
+
+    const now = Date.now();
+    const due = snapshot.docs
+        .map(doc => doc.data() as OutboxMessage)
+        .filter(message => isDue(message, now))
+        .sort((a, b) => a.createdAt.toMillis() - b.createdAt.toMillis());
+
+    const counts = { sent: 0, retrying: 0, failed: 0 };
+    for (const message of due) {
+        const result = await dispatchMessage(db, message.id);
+        if (result?.status === 'sent') counts.sent++;
+        else if (result?.status === 'pending') counts.retrying++;
+        else if (result?.status === 'failed') counts.failed++;
+    }
+    return counts;
+}
+
+/**
+ * Messages that haven't gone out - failed for good, or still retrying - newest first
+ */
+export async function getUndeliveredMessages(db: Firestore): Promise<OutboxMessage[]> {
+    const snapshot = await db.collection(COLLECTIONS.OUTBOX)
+        .where('status', 'in', ['pending', 'sending', 'failed'])
+        .get();
+
+    return snapshot.docs
+        .map(doc => doc.data() as OutboxMessage)
+        .sort((a, b) => b.createdAt.toMillis() - a.createdAt.toMillis());
+}
+
+/**
+ * Give a failed message a fresh set of attempts and try it now
+ */
+export async function retryMessage(db: Firestore, messageId: string): Promise<OutboxMessage | null> {
+    const ref = db.collection(COLLECTIONS.OUTBOX).doc(messageId);
+    const doc = await ref.get();
+    if (!doc.exists || (doc.data() as OutboxMessage).status !== 'failed') {
+        throw new Error('Only failed messages can be retried');
+    }
+
+    await ref.update({ status: 'pending', attempts: 0, nextAttemptAt: Timestamp.now(), updatedAt: Timestamp.now() });
+    return dispatchMessage(db, messageId);
+}
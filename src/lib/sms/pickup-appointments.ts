@@ -0,0 +1,391 @@
+// Pickup Appointments - short handoffs to take a gown home before the wedding (and,
+// optionally, to drop it back off), booked against their own hours and capacity
+import { Firestore, Timestamp } from 'firebase-admin/firestore';
+import { Booking, BookingActor, COLLECTIONS as BOOKING_COLLECTIONS } from './types';
+import { getBookingById } from './booking-handler';
+import { ScheduleConfig, getNextPickupDates, getPickupSlotsForDate, getScheduleConfig } from './schedule-config';
+import { formatDateShort, parseTime, toBusinessDate, toDateKey } from './date-utils';
+import { OutboxUpdate } from './outbox';
+
+export type PickupKind = 'pickup' | 'return';
+
+export interface PickupAppointment {
+    id: string;                  // `${bookingId}_${kind}` - one of each per booking
+    bookingId: string;
+    kind: PickupKind;
+    customerName: string;
+    customerPhone: string;
+    date: Timestamp;             // Noon Brooklyn time on the day
+    dateStr: string;             // YYYY-MM-DD
+    slotTime: string;
+    status: 'scheduled' | 'cancelled';
+    reminderSent: boolean;
+    createdAt: Timestamp;
+    updatedAt: Timestamp;
+    updatedBy?: BookingActor;
+}
+
+// Who holds a handoff time - written only inside pickup transactions
+interface PickupSlot {
+    id: string;                  // `${dateStr}_${slot}`, e.g. "2026-01-14_1230PM"
+    dateStr: string;
+    slotTime: string;
+    appointmentIds: string[];
+    updatedAt: Timestamp;
+}
+
+export interface PickupRequest {
+    bookingId: string;
+    kind: PickupKind;
+    date: Date;
+    slotTime: string;
+}
+
+// Gowns go home at most two weeks before the wedding
+export const PICKUP_DAYS_BEFORE_WEDDING = 14;
+
+const COLLECTIONS = {
+    PICKUPS: 'pickups',
+    PICKUP_SLOTS: 'pickupSlots',
+};
+
+export const PICKUP_LABELS: Record<PickupKind, string> = {
+    pickup: 'gown pickup',
+    return: 'gown return',
+};
+
+function pickupSlotId(dateStr: string, slotTime: string): string {
+    return `${dateStr}_${slotTime.replace(/[^0-9A-Za-z]/g, '')}`;
+}
+
+function minutesOf(slotTime: string): number {
+    const time = parseTime(slotTime);
+    return time ? time.hours * 60 + time.minutes : 0;
+}
+
+/**
+ * Check a date against the wedding: pickups from two weeks before up to the
+ * wedding itself, returns from the wedding on
+ */
+function validatePickupDate(kind: PickupKind, date: Date, booking: Booking) {
+    const dateStr = toDateKey(date);
+    const wedding = booking.weddingDate.toDate();
+
+    if (dateStr < toDateKey(new Date())) {
+        throw new Error('That date has already passed');
+    }
+    if (kind === 'pickup') {
+        const earliest = toBusinessDate(wedding, -PICKUP_DAYS_BEFORE_WEDDING);
+        if (dateStr < toDateKey(earliest)) {
+            throw new Error(`Gowns can be picked up from ${formatDateShort(earliest)}, two weeks before the wedding`);
+        }
+        if (dateStr > toDateKey(wedding)) {
+            throw new Error('The pickup has to be before the wedding');
+        }
+    } else if (dateStr < toDateKey(wedding)) {
+        throw new Error('Returns are booked for after the wedding');
+    }
+}
+
+/**
+ * Whether this kind of handoff can be booked at all
+ */
+export function isPickupKindOpen(config: ScheduleConfig, kind: PickupKind): boolean {
+    return config.pickups.enabled && (kind === 'pickup' || config.pickups.returns);
+}
+
+/**
+ * The slot a customer meant (e.g., "10:15" or "7:40pm"), out of the times offered
+ */
+export function matchPickupSlot(slots: string[], text: string): string | null {
+    if (slots.includes(text)) {
+        return text;
+    }
+    const time = parseTime(text);
+    if (!time) {
+        return null;
+    }
+    const hasPeriod = /am|pm/i.test(text);
+    return slots.find(slot => {
+        const candidate = parseTime(slot)!;
+        return candidate.minutes === time.minutes && (hasPeriod
+            ? candidate.hours === time.hours
+            : candidate.hours % 12 === time.hours % 12);
+    }) || null;
+}
+
+/**
+ * Handoff times on a date that still have room
+ */
+export async function getAvailablePickupSlots(
+    db: Firestore,
+    date: Date,
+    config?: ScheduleConfig
+): Promise<string[]> {
+    const schedule = config || await getScheduleConfig(db);
+    const slots = await getPickupSlotsForDate(db, date, schedule);
+    if (slots.length === 0) {
+        return [];
+    }
+
+    const snapshot = await db.collection(COLLECTIONS.PICKUP_SLOTS)
+        .where('dateStr', '==', toDateKey(date))
+        .get();
+    const taken = new Map(snapshot.docs.map(doc => {
+        const slot = doc.data() as PickupSlot;
+        return [slot.slotTime, slot.appointmentIds.length];
+    }));
+
+    return slots.filter(slot => (taken.get(slot) || 0) < schedule.pickups.perSlot);
+}
+
+/**
+ * The next days a booking's pickup (two weeks before the wedding up to the day)
+ * or return (the wedding on) can be booked, with the times still open
+ */
+export async function getPickupOptions(
+    db: Firestore,
+    booking: Booking,
+    kind: PickupKind,
+    config: ScheduleConfig,
+    count: number = 3
+): Promise<{ date: Date; slots: string[] }[]> {
+    const wedding = booking.weddingDate.toDate();
+    const earliest = kind === 'pickup' ? toBusinessDate(wedding, -PICKUP_DAYS_BEFORE_WEDDING) : toBusinessDate(wedding);
+    const today = toBusinessDate(new Date());
+    const from = earliest > today ? earliest : today;
+
+    // getNextPickupDates starts the day after
+    const dates = await getNextPickupDates(db, config, toBusinessDate(from, -1), count + 2);
+    const options: { date: Date; slots: string[] }[] = [];
+    for (const date of dates) {
+        if (options.length >= count || (kind === 'pickup' && toDateKey(date) > toDateKey(wedding))) {
+            break;
+        }
+        const slots = await getAvailablePickupSlots(db, date, config);
+        if (slots.length > 0) {
+            options.push({ date, slots });
+        }
+    }
+    return options;
+}
+
+/**
+ * Book (or move) a booking's pickup or return. Each booking has at most one of
+ * each, so booking again replaces the earlier time.
+ */
+export async function schedulePickup(
+    db: Firestore,
+    request: PickupRequest,
+    actor?: BookingActor
+): Promise<PickupAppointment> {
+    const config = await getScheduleConfig(db);
+    if (!isPickupKindOpen(config, request.kind)) {
+        throw new Error(`We're not booking ${PICKUP_LABELS[request.kind]}s right now`);
+    }
+
+    const booking = await getBookingById(db, request.bookingId);
+    if (!booking || booking.status === 'cancelled') {
+        throw new Error('Booking not found');
+    }
+
+    const date = toBusinessDate(request.date);
+    const dateStr = toDateKey(date);
+    validatePickupDate(request.kind, date, booking);
+
+    const slots = await getPickupSlotsForDate(db, date, config);
+    if (!slots.includes(request.slotTime)) {
+        throw new Error('That pickup time is not available');
+    }
+
+    const id = `${booking.id}_${request.kind}`;
+    const ref = db.collection(COLLECTIONS.PICKUPS).doc(id);
+    const slotRef = db.collection(COLLECTIONS.PICKUP_SLOTS).doc(pickupSlotId(dateStr, request.slotTime));
+
+    return db.runTransaction(async (transaction) => {
+        const existingDoc = await transaction.get(ref);
+        const existing = existingDoc.exists ? existingDoc.data() as PickupAppointment : null;
+        const oldSlotRef = existing?.status === 'scheduled'
+            ? db.collection(COLLECTIONS.PICKUP_SLOTS).doc(pickupSlotId(existing.dateStr, existing.slotTime))
+            : null;
+
+        // All reads before any writes
+        const slotDoc = await transaction.get(slotRef);
+        const oldSlotDoc = oldSlotRef && oldSlotRef.id !== slotRef.id ? await transaction.get(oldSlotRef) : null;
+
+        const holders = slotDoc.exists ? (slotDoc.data() as PickupSlot).appointmentIds : [];
+        const others = holders.filter(holder => holder !== id);
+        if (others.length >= config.pickups.perSlot) {
+            throw new Error('That pickup time is not available');
+        }
+
+        if (oldSlotDoc?.exists) {
+            const oldSlot = oldSlotDoc.data() as PickupSlot;
+            transaction.update(oldSlotDoc.ref, {
+                appointmentIds: oldSlot.appointmentIds.filter(holder => holder !== id),
+                updatedAt: Timestamp.now(),
+            });
+        }
+        const slot: PickupSlot = {
+            id: slotRef.id,
+            dateStr,
+            slotTime: request.slotTime,
+            appointmentIds: [...others, id],
+            updatedAt: Timestamp.now(),
+        };
+        transaction.set(slotRef, slot);
+
+        const now = Timestamp.now();
+        const appointment: PickupAppointment = {
+            id,
+            bookingId: booking.id,
+            kind: request.kind,
+            customerName: booking.customerName,
+            customerPhone: booking.customerPhone,
+            date: Timestamp.fromDate(date),
+            dateStr,
+            slotTime: request.slotTime,
+            status: 'scheduled',
+            reminderSent: false,
+            createdAt: existing?.createdAt || now,
+            updatedAt: now,
+        };
+        if (actor) {
+            appointment.updatedBy = { id: actor.id, name: actor.name };
+        }
+        transaction.set(ref, appointment);
+        return appointment;
+    });
+}
+
+/**
+ * Cancel a pickup or return and free its time
+ */
+export async function cancelPickup(
+    db: Firestore,
+    appointmentId: string,
+    actor?: BookingActor
+): Promise<PickupAppointment | null> {
+    const ref = db.collection(COLLECTIONS.PICKUPS).doc(appointmentId);
+
+    return db.runTransaction(async (transaction) => {
+        const doc = await transaction.get(ref);
+        if (!doc.exists) {
+            return null;
+        }
+
+        const appointment = doc.data() as PickupAppointment;
+        if (appointment.status === 'scheduled') {
+            const slotRef = db.collection(COLLECTIONS.PICKUP_SLOTS).doc(pickupSlotId(appointment.dateStr, appointment.slotTime));
+            const slotDoc = await transaction.get(slotRef);
+            if (slotDoc.exists) {
+                transaction.update(slotRef, {
+                    appointmentIds: (slotDoc.data() as PickupSlot).appointmentIds.filter(holder => holder !== appointmentId),
+                    updatedAt: Timestamp.now(),
+                });
+            }
+        }
+
+        const updateData: Partial<PickupAppointment> = { status: 'cancelled', updatedAt: Timestamp.now() };
+        if (actor) {
+            updateData.updatedBy = { id: actor.id, name: actor.name };
+        }
+        transaction.update(ref, updateData);
+        return { ...appointment, ...updateData };
+    });
+}
+
+/**
+ * Cancel a booking's pickup and return along with it, freeing their times.
+ * Called from wherever a booking is cancelled (like the waitlist, kept out of
+ * cancelBooking so booking-handler doesn't import this module).
+ */
+export async function cancelPickupsForBooking(db: Firestore, bookingId: string, actor?: BookingActor): Promise<void> {
+    for (const appointment of await getPickupsForBooking(db, bookingId)) {
+        await cancelPickup(db, appointment.id, actor);
+    }
+}
+
+/**
+ * Scheduled pickups and returns between two dates (inclusive), in time order
+ */
+export async function getPickupsInRange(db: Firestore, start: Date, end: Date): Promise<PickupAppointment[]> {
+    const snapshot = await db.collection(COLLECTIONS.PICKUPS)
+        .where('dateStr', '>=', toDateKey(start))
+        .where('dateStr', '<=', toDateKey(end))
+        .get();
+
+    return snapshot.docs
+        .map(doc => doc.data() as PickupAppointment)
+        .filter(appointment => appointment.status === 'scheduled')
+        .sort((a, b) => a.dateStr.localeCompare(b.dateStr) || minutesOf(a.slotTime) - minutesOf(b.slotTime));
+}
+
+/**
+ * Scheduled pickups and returns on a date
+ */
+export async function getPickupsForDate(db: Firestore, date: Date): Promise<PickupAppointment[]> {
+    return getPickupsInRange(db, date, date);
+}
+
+/**
+ * A booking's pickup and return, when scheduled
+ */
+export async function getPickupsForBooking(db: Firestore, bookingId: string): Promise<PickupAppointment[]> {
+    const docs = await Promise.all((['pickup', 'return'] as PickupKind[]).map(kind =>
+        db.collection(COLLECTIONS.PICKUPS).doc(`${bookingId}_${kind}`).get()
+    ));
+    return docs
+        .filter(doc => doc.exists)
+        .map(doc => doc.data() as PickupAppointment)
+        .filter(appointment => appointment.status === 'scheduled');
+}
+
+/**
+ * Pickups and returns on a date that haven't been reminded yet
+ */
+export async function getPickupsNeedingReminder(db: Firestore, date: Date): Promise<PickupAppointment[]> {
+    const pending = (await getPickupsForDate(db, date)).filter(appointment => !appointment.reminderSent);
+
+    // Nothing to remind about if the booking is gone or the gown already went home
+    const needed: PickupAppointment[] = [];
+    for (const appointment of pending) {
+        const booking = await getBookingById(db, appointment.bookingId);
+        if (!booking || booking.status === 'cancelled') {
+            continue;
+        }
+        if (appointment.kind === 'pickup' && booking.gownPickedUp) {
+            continue;
+        }
+        needed.push(appointment);
+    }
+    return needed;
+}
+
+/**
+ * Marks a pickup or return reminder as sent once the outbox gets it out
+ */
+export function pickupReminderSentUpdate(appointmentId: string): OutboxUpdate {
+    return { path: `${COLLECTIONS.PICKUPS}/${appointmentId}`, fields: { reminderSent: true } };
+}
+
+/**
+ * The booking a customer is arranging a handoff for: the one with the nearest
+ * wedding whose gown isn't back yet
+ */
+export async function findBookingForPickup(db: Firestore, phone: string): Promise<Booking | null> {
+    const snapshot = await db.collection(BOOKING_COLLECTIONS.BOOKINGS)
+        .where('customerPhone', '==', phone)
+        .get();
+
+    const today = toDateKey(new Date());
+    const bookings = snapshot.docs
+        .map(doc => doc.data() as Booking)
+        .filter(booking => booking.status !== 'cancelled' && !booking.gownReturned)
+        .sort((a, b) => a.weddingDate.toMillis() - b.weddingDate.toMillis());
+
+    // Prefer a wedding still ahead; otherwise the most recent one (a return)
+    return bookings.find(booking => toDateKey(booking.weddingDate.toDate()) >= today)
+        || bookings[bookings.length - 1]
+        || null;
+}
@@ -0,0 +1,160 @@
+// Return Reminders - the overdue ladder for items still out after the wedding.
+// Each configured day after the wedding sends a firmer text, and past the alert
+// day the manager is told once and the booking shows as overdue.
+import { Firestore } from 'firebase-admin/firestore';
+import { Booking, COLLECTIONS } from './types';
+import { ReturnReminderSettings } from './schedule-config';
+import { getItemsOut, getLoanItems } from './loan-items';
+import { fromDateKey, toBusinessDate, toDateKey } from './date-utils';
+import { bookingUpdate, enqueueSms } from './outbox';
+import {
+    getReturnFollowUpTemplate,
+    getReturnOverdueAlertTemplate,
+    getReturnReminderTemplate,
+} from './templates';
+
+export interface OutstandingReturn {
+    booking: Booking;
+    items: string[];      // Descriptions of what is still out
+    daysLate: number;     // Days since the wedding
+    step: number;         // Reminders due by now (0 = none yet)
+    overdue: boolean;     // Past the manager alert day
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Brooklyn days from the wedding to a date (0 on the wedding day itself)
+ */
+export function getDaysSinceWedding(booking: Booking, today: Date = new Date()): number {
+    const wedding = fromDateKey(toDateKey(booking.weddingDate.toDate()));
+    return Math.round((fromDateKey(toDateKey(today)).getTime() - wedding.getTime()) / DAY_MS);
+}
+
+/**
+ * How many of the reminders are due this many days after the wedding
+ */
+export function getReturnStep(settings: ReturnReminderSettings, daysLate: number): number {
+    return settings.reminderDays.filter(days => days <= daysLate).length;
+}
+
+/**
+ * Days late and whether the return counts as overdue (past the manager alert day)
+ */
+export function getReturnStatus(
+    booking: Booking,
+    settings: ReturnReminderSettings,
+    today: Date = new Date()
+): { daysLate: number; overdue: boolean } {
+    const daysLate = getDaysSinceWedding(booking, today);
+    return { daysLate, overdue: daysLate >= settings.managerAlertDays };
+}
+
+// Bookings saved before the ladder only know whether the first reminder went out
+function remindersSent(booking: Booking): number {
+    return booking.returnRemindersSent ?? (booking.returnReminderSent ? 1 : 0);
+}
+
+/**
+ * Active bookings with items still out after the wedding, most days late first
+ */
+export async function getOutstandingReturns(
+    db: Firestore,
+    settings: ReturnReminderSettings,
+    today: Date = new Date()
+): Promise<OutstandingReturn[]> {
+    const snapshot = await db.collection(COLLECTIONS.BOOKINGS)
+        .where('gownPickedUp', '==', true)
+        .where('gownReturned', '==', false)
+        .get();
+
+    const outstanding: OutstandingReturn[] = [];
+    for (const doc of snapshot.docs) {
+        const booking = doc.data() as Booking;
+        const { daysLate, overdue } = getReturnStatus(booking, settings, today);
+        const items = getItemsOut(getLoanItems(booking)).map(item => item.description);
+        if (booking.status === 'cancelled' || daysLate < 1 || items.length === 0) {
+            continue;
+        }
+        outstanding.push({
+            booking,
+            items,
+            daysLate,
+            step: getReturnStep(settings, daysLate),
+            overdue,
+        });
+    }
+
+    return outstanding.sort((a, b) => b.daysLate - a.daysLate);
+}
+
+/**
+ * Send the return reminders that are due, one per bride (the latest step, so a
+ * missed day never sends a pile at once), and alert the manager about newly
+ * overdue returns. Run once a day.
+ */
+export async function sendReturnReminders(
+    db: Firestore,
+    settings: ReturnReminderSettings,
+    managerPhone?: string
+): Promise<{ reminders: number; overdueAlerts: number; retrying: number }> {
+    const today = toBusinessDate(new Date());
+    const outstanding = await getOutstandingReturns(db, settings, today);
+    let reminders = 0;
+    let retrying = 0;
+
+    for (const { booking, items, daysLate, step } of outstanding) {
+        if (step <= remindersSent(booking)) {
+            continue;
+        }
+
+        const message = step === 1
+            ? getReturnReminderTemplate({ name: booking.customerName, date: '', time: '', items })
+            : getReturnFollowUpTemplate({
+                name: booking.customerName,
+                items,
+                daysLate,
+                final: step === settings.reminderDays.length,
+            });
+
+        // The step only counts once Twilio accepts the text; until then the
+        // outbox retries it and the same step isn't queued twice
+        const queued = await enqueueSms(db, {
+            to: booking.customerPhone,
+            body: message,
+            type: 'return-reminder',
+            bookingId: booking.id,
+            dedupeKey: `return_${booking.id}_${toDateKey(booking.weddingDate.toDate())}_${step}`,
+            onSent: [bookingUpdate(booking.id, { returnReminderSent: true, returnRemindersSent: step })],
+        });
+        if (queued.status === 'sent') reminders++;
+        else retrying++;
+    }
+
+    const newlyOverdue = outstanding.filter(o => o.overdue && !o.booking.returnOverdueAlertSent);
+    if (!managerPhone || newlyOverdue.length === 0) {
+        return { reminders, overdueAlerts: 0, retrying };
+    }
+
+    // One alert per booking, so each is queued exactly once even if a run dies
+    // before the flag is written or two runs overlap
+    let overdueAlerts = 0;
+    for (const { booking, daysLate, items } of newlyOverdue) {
+        const alert = await enqueueSms(db, {
+            to: managerPhone,
+            body: getReturnOverdueAlertTemplate([{
+                name: booking.customerName,
+                phone: booking.customerPhone,
+                daysLate,
+                items,
+            }]),
+            type: 'manager',
+            bookingId: booking.id,
+            dedupeKey: `return-overdue-${booking.id}_${toDateKey(booking.weddingDate.toDate())}`,
+            onSent: [bookingUpdate(booking.id, { returnOverdueAlertSent: true })],
+        });
+        if (alert.status === 'sent') overdueAlerts++;
+        else retrying++;
+    }
+    return { reminders, overdueAlerts, retrying };
+}
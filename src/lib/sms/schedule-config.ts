@@ -1,18 +1,94 @@
 // Schedule Configuration - Manage available slots and blocked dates
 import { Firestore, Timestamp } from 'firebase-admin/firestore';
+import {
+    parseDate,
+    parseTime,
+    formatDate,
+    getWeekRange,
+    getNextWeekRange,
+    getBusinessDay,
+    toBusinessDate,
+    toDateKey,
+    startOfBusinessDay,
+} from './date-utils';
+import {
+    CalendarSettings,
+    DEFAULT_CALENDAR_SETTINGS,
+    getCandleLighting,
+    getClosureReason,
+    getMotzeiShabbosStart,
+} from './jewish-calendar';
+import { BlockRule, getBlockRules, matchesBlockRule } from './block-rules';
 
-export interface ScheduleConfig {
-    wednesday: {
-        enabled: boolean;
-        slots: string[];
-    };
-    saturday: {
-        enabled: boolean;
-        slots: string[];
-    };
+export interface TimeWindow {
+    start: string;           // e.g., "7:30 PM"
+    end: string;             // e.g., "9:30 PM" (last slot ends by then)
+}
+
+export interface DaySchedule {
+    enabled: boolean;
+    windows: TimeWindow[];   // Opening hours; slots are cut from these
+    slots: string[];         // Slot start times generated from windows
+    slotDuration: number;    // Minutes per slot
+    maxParties: number;      // Groups that can be fitted in the same slot
+    maxPeople: number;       // People the fitting room holds at once
+    largeGroupSize: number;  // Groups bigger than this take two back-to-back slots
+    maxGroupSize: number;    // Largest group we book at all
+}
+
+export type SlotSettings = Omit<DaySchedule, 'enabled' | 'windows' | 'slots'>;
+
+export type ScheduleDay = 'sunday' | 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday';
+
+// Gown pickups and drop-off returns - quick handoffs with their own hours and capacity
+export interface PickupSettings {
+    enabled: boolean;
+    returns: boolean;                                     // Also book drop-off returns
+    windows: Partial<Record<ScheduleDay, TimeWindow[]>>;  // Handoff hours by weekday
+    slotDuration: number;                                 // Minutes per handoff
+    perSlot: number;                                      // Handoffs at the same time
+}
+
+// Texts to brides who still have items out after the wedding
+export interface ReturnReminderSettings {
+    reminderDays: number[];    // Days after the wedding to text, each one firmer than the last
+    managerAlertDays: number;  // Days after the wedding the manager is told it's overdue
+}
+
+export interface ScheduleConfig extends Record<ScheduleDay, DaySchedule> {
+    calendar: CalendarSettings;  // Yom Tov closures and Motzei Shabbos timing
+    pickups: PickupSettings;
+    returnReminders: ReturnReminderSettings;
     updatedAt: Timestamp;
 }
 
+export type ScheduleConfigUpdate = Partial<Record<ScheduleDay, Partial<DaySchedule>>> & {
+    calendar?: Partial<CalendarSettings>;
+    pickups?: Partial<PickupSettings>;
+    returnReminders?: Partial<ReturnReminderSettings>;
+};
+
+export interface OpenDay {
+    day: ScheduleDay;
+    dayOfWeek: number;       // 0 = Sunday
+    name: string;            // e.g., "Motzei Shabbos"
+    longName: string;        // e.g., "Motzei Shabbos (Saturday night)"
+    schedule: DaySchedule;
+}
+
+// In week order, indexed by getBusinessDay()
+const SCHEDULE_DAYS: Record<ScheduleDay, Omit<OpenDay, 'schedule'>> = {
+    sunday: { day: 'sunday', dayOfWeek: 0, name: 'Sunday', longName: 'Sunday' },
+    monday: { day: 'monday', dayOfWeek: 1, name: 'Monday', longName: 'Monday' },
+    tuesday: { day: 'tuesday', dayOfWeek: 2, name: 'Tuesday', longName: 'Tuesday' },
+    wednesday: { day: 'wednesday', dayOfWeek: 3, name: 'Wednesday', longName: 'Wednesday' },
+    thursday: { day: 'thursday', dayOfWeek: 4, name: 'Thursday', longName: 'Thursday' },
+    friday: { day: 'friday', dayOfWeek: 5, name: 'Friday', longName: 'Friday' },
+    saturday: { day: 'saturday', dayOfWeek: 6, name: 'Motzei Shabbos', longName: 'Motzei Shabbos (Saturday night)' },
+};
+
+const DAY_KEYS = Object.keys(SCHEDULE_DAYS) as ScheduleDay[];
+
 export interface BlockedDate {
     id: string;
     date: Timestamp;
@@ -22,23 +98,210 @@ export interface BlockedDate {
     createdAt: Timestamp;
 }
 
+// Extra hours on one date, on top of (or instead of) the weekly schedule
+export interface DateOverride {
+    id: string;
+    date: Timestamp;
+    dateStr: string;         // YYYY-MM-DD format for easy lookup
+    windows: TimeWindow[];   // Extra sessions; the weekday's slot settings apply
+    reason?: string;         // e.g., "Before Pesach"
+    createdAt: Timestamp;
+    updatedAt: Timestamp;
+}
+
 const COLLECTIONS = {
     SCHEDULE_CONFIG: 'scheduleConfig',
     BLOCKED_DATES: 'blockedDates',
+    DATE_OVERRIDES: 'dateOverrides',
+};
+
+// One group per 15-minute slot; groups of 5-6 take two slots
+export const DEFAULT_SLOT_SETTINGS: SlotSettings = {
+    slotDuration: 15,
+    maxParties: 1,
+    maxPeople: 6,
+    largeGroupSize: 4,
+    maxGroupSize: 6,
+};
+
+const CLOSED_DAY: DaySchedule = {
+    enabled: false,
+    windows: [],
+    slots: [],
+    ...DEFAULT_SLOT_SETTINGS,
+};
+
+// Handoffs right after the fitting hours
+export const DEFAULT_PICKUP_SETTINGS: PickupSettings = {
+    enabled: true,
+    returns: true,
+    windows: {
+        wednesday: [{ start: '12:30 PM', end: '1:00 PM' }],
+        saturday: [{ start: '9:30 PM', end: '10:00 PM' }],
+    },
+    slotDuration: 10,
+    perSlot: 2,
+};
+
+// A thank-you the day after, a nudge after Motzei Shabbos, then a firm one
+export const DEFAULT_RETURN_REMINDER_SETTINGS: ReturnReminderSettings = {
+    reminderDays: [1, 5, 10],
+    managerAlertDays: 14,
 };
 
-// Default configuration
+// Default configuration: Wednesday late morning and Motzei Shabbos
 const DEFAULT_CONFIG: Omit<ScheduleConfig, 'updatedAt'> = {
+    sunday: CLOSED_DAY,
+    monday: CLOSED_DAY,
+    tuesday: CLOSED_DAY,
     wednesday: {
+        ...CLOSED_DAY,
         enabled: true,
+        windows: [{ start: '11:30 AM', end: '12:30 PM' }],
         slots: ['11:30 AM', '11:45 AM', '12:00 PM', '12:15 PM'],
     },
+    thursday: CLOSED_DAY,
+    friday: CLOSED_DAY,
     saturday: {
+        ...CLOSED_DAY,
         enabled: true,
+        windows: [{ start: '7:30 PM', end: '9:30 PM' }],
         slots: ['7:30 PM', '7:45 PM', '8:00 PM', '8:15 PM', '8:30 PM', '8:45 PM', '9:00 PM', '9:15 PM'],
     },
+    calendar: DEFAULT_CALENDAR_SETTINGS,
+    pickups: DEFAULT_PICKUP_SETTINGS,
+    returnReminders: DEFAULT_RETURN_REMINDER_SETTINGS,
 };
 
+/**
+ * Slot start times that fit inside the windows, in time order
+ */
+function generateSlots(windows: TimeWindow[], slotDuration: number): string[] {
+    const starts = new Set<number>();
+    for (const window of windows) {
+        const start = minutesOf(window.start);
+        const end = minutesOf(window.end);
+        if (start === null || end === null) continue;
+        for (let time = start; time + slotDuration <= end; time += slotDuration) {
+            starts.add(time);
+        }
+    }
+    return [...starts].sort((a, b) => a - b).map(formatMinutes);
+}
+
+/**
+ * Windows covering a saved slot list (configs saved before windows existed)
+ */
+function windowsFromSlots(slots: string[], slotDuration: number): TimeWindow[] {
+    const times = slots.map(minutesOf).filter((m): m is number => m !== null).sort((a, b) => a - b);
+    const windows: TimeWindow[] = [];
+    let runStart = times[0];
+    times.forEach((time, i) => {
+        const next = times[i + 1];
+        if (next !== time + slotDuration) {
+            windows.push({ start: formatMinutes(runStart), end: formatMinutes(time + slotDuration) });
+            runStart = next;
+        }
+    });
+    return windows;
+}
+
+/**
+ * Fill in days and settings missing from configs saved before they existed,
+ * and cut slots from each day's windows
+ */
+function withDefaults(config: ScheduleConfigUpdate): Omit<ScheduleConfig, 'updatedAt'> {
+    const result = {
+        calendar: { ...DEFAULT_CALENDAR_SETTINGS, ...config.calendar },
+        pickups: { ...DEFAULT_PICKUP_SETTINGS, ...config.pickups },
+        returnReminders: { ...DEFAULT_RETURN_REMINDER_SETTINGS, ...config.returnReminders },
+    } as Omit<ScheduleConfig, 'updatedAt'>;
+    for (const day of DAY_KEYS) {
+        const stored = config[day];
+        const merged = { ...DEFAULT_CONFIG[day], ...stored };
+        if (stored && !stored.windows) {
+            merged.windows = windowsFromSlots(stored.slots || [], merged.slotDuration);
+        }
+        result[day] = { ...merged, slots: generateSlots(merged.windows, merged.slotDuration) };
+    }
+    return result;
+}
+
+function validateCalendarSettings(calendar: CalendarSettings) {
+    const gap = calendar.motzeiShabbosAfterTzeis;
+    if (!Number.isInteger(gap) || gap < 0 || gap > 180) {
+        throw new Error('Minutes after Shabbos ends must be a whole number from 0 to 180');
+    }
+}
+
+function validateDaySchedule(day: DaySchedule, label: string) {
+    const positive: (keyof SlotSettings)[] = ['slotDuration', 'maxParties', 'maxPeople', 'largeGroupSize', 'maxGroupSize'];
+    for (const field of positive) {
+        if (!Number.isInteger(day[field]) || day[field] < 1) {
+            throw new Error(`${label}: ${field} must be a whole number of at least 1`);
+        }
+    }
+    if (day.maxGroupSize > day.maxPeople) {
+        throw new Error(`${label}: the largest group cannot be bigger than the room holds`);
+    }
+
+    validateWindows(day.windows, day.slotDuration, label);
+    if (day.enabled && day.windows.length === 0) {
+        throw new Error(`${label}: add opening times or turn the day off`);
+    }
+}
+
+function validateWindows(windows: TimeWindow[], slotDuration: number, label: string) {
+    const ranges = windows.map(window => {
+        const start = minutesOf(window.start);
+        const end = minutesOf(window.end);
+        if (start === null || end === null) {
+            throw new Error(`${label}: "${start === null ? window.start : window.end}" is not a valid time`);
+        }
+        if (end - start < slotDuration) {
+            throw new Error(`${label}: ${window.start} – ${window.end} is too short for a ${slotDuration}-minute slot`);
+        }
+        return { start, end };
+    }).sort((a, b) => a.start - b.start);
+
+    if (ranges.some((range, i) => i > 0 && range.start < ranges[i - 1].end)) {
+        throw new Error(`${label}: opening times overlap`);
+    }
+}
+
+function validatePickupSettings(pickups: PickupSettings) {
+    for (const field of ['slotDuration', 'perSlot'] as const) {
+        if (!Number.isInteger(pickups[field]) || pickups[field] < 1) {
+            throw new Error(`Pickups: ${field} must be a whole number of at least 1`);
+        }
+    }
+    for (const day of DAY_KEYS) {
+        validateWindows(pickups.windows[day] || [], pickups.slotDuration, `Pickups on ${SCHEDULE_DAYS[day].longName}`);
+    }
+    if (pickups.enabled && DAY_KEYS.every(day => !pickups.windows[day]?.length)) {
+        throw new Error('Pickups: add handoff hours or turn pickups off');
+    }
+}
+
+function validateReturnReminderSettings(settings: ReturnReminderSettings) {
+    if (!Array.isArray(settings.reminderDays)
+        || !settings.reminderDays.every(days => Number.isInteger(days) && days >= 1)) {
+        throw new Error('Return reminders: days after the wedding must be whole numbers of at least 1');
+    }
+    if (!Number.isInteger(settings.managerAlertDays) || settings.managerAlertDays < 1) {
+        throw new Error('Return reminders: days before telling the manager must be a whole number of at least 1');
+    }
+}
+
+/**
+ * Validated windows in a consistent format ("7:30 PM"), in time order
+ */
+function normalizeWindows(windows: TimeWindow[]): TimeWindow[] {
+    return windows
+        .map(window => ({ start: formatMinutes(minutesOf(window.start)!), end: formatMinutes(minutesOf(window.end)!) }))
+        .sort((a, b) => minutesOf(a.start)! - minutesOf(b.start)!);
+}
+
 /**
  * Get schedule configuration
  */
@@ -53,29 +316,218 @@ export async function getScheduleConfig(db: Firestore): Promise<ScheduleConfig>
         };
     }
 
-    return doc.data() as ScheduleConfig;
+    const config = doc.data() as ScheduleConfig;
+    return { ...withDefaults(config), updatedAt: config.updatedAt };
 }
 
 /**
- * Update schedule configuration
+ * Update schedule configuration. Days and settings left out keep their values;
+ * slots are always regenerated from the windows.
  */
 export async function updateScheduleConfig(
     db: Firestore,
-    updates: Partial<Omit<ScheduleConfig, 'updatedAt'>>
+    updates: ScheduleConfigUpdate
 ): Promise<ScheduleConfig> {
     const configRef = db.collection(COLLECTIONS.SCHEDULE_CONFIG).doc('default');
     const existing = await configRef.get();
 
-    const newConfig: ScheduleConfig = {
-        ...(existing.exists ? existing.data() as ScheduleConfig : DEFAULT_CONFIG),
-        ...updates,
-        updatedAt: Timestamp.now(),
-    };
+    const current = withDefaults(existing.exists ? existing.data() as ScheduleConfig : DEFAULT_CONFIG);
+    const calendar = { ...current.calendar, ...updates.calendar };
+    validateCalendarSettings(calendar);
+
+    const pickups = { ...current.pickups, ...updates.pickups };
+    validatePickupSettings(pickups);
+    pickups.windows = Object.fromEntries(
+        DAY_KEYS
+            .filter(day => pickups.windows[day]?.length)
+            .map(day => [day, normalizeWindows(pickups.windows[day]!)])
+    );
+
+    const returnReminders = { ...current.returnReminders, ...updates.returnReminders };
+    validateReturnReminderSettings(returnReminders);
+    returnReminders.reminderDays = [...new Set(returnReminders.reminderDays)].sort((a, b) => a - b);
+
+    const newConfig = { calendar, pickups, returnReminders, updatedAt: Timestamp.now() } as ScheduleConfig;
+    for (const day of DAY_KEYS) {
+        const { slots, ...update } = updates[day] || {};
+        const merged = { ...current[day], ...update };
+        validateDaySchedule(merged, SCHEDULE_DAYS[day].longName);
+
+        const windows = normalizeWindows(merged.windows);
+        newConfig[day] = { ...merged, windows, slots: generateSlots(windows, merged.slotDuration) };
+    }
 
     await configRef.set(newConfig);
     return newConfig;
 }
 
+/**
+ * Days with appointments, in week order (enabled and with at least one slot)
+ */
+export function getOpenDays(config: ScheduleConfig): OpenDay[] {
+    return DAY_KEYS
+        .map(day => ({ ...SCHEDULE_DAYS[day], schedule: config[day] }))
+        .filter(openDay => openDay.schedule.enabled && openDay.schedule.slots.length > 0);
+}
+
+/**
+ * The open day a date falls on, if any
+ */
+export function getOpenDay(config: ScheduleConfig, date: Date): OpenDay | null {
+    return getOpenDays(config).find(openDay => openDay.dayOfWeek === getBusinessDay(date)) || null;
+}
+
+/**
+ * Schedule for the day of the week a date falls on (including days we're closed)
+ */
+export function getDaySchedule(config: ScheduleConfig, date: Date): DaySchedule {
+    return config[DAY_KEYS[getBusinessDay(date)]];
+}
+
+/**
+ * The next open dates after referenceDate
+ */
+export function getNextOpenDates(config: ScheduleConfig, referenceDate: Date = new Date(), count: number = 4): Date[] {
+    const dates: Date[] = [];
+    let current = toBusinessDate(referenceDate);
+
+    if (getOpenDays(config).length === 0) {
+        return dates;
+    }
+
+    while (dates.length < count) {
+        current = toBusinessDate(current, 1);
+        if (getOpenDay(config, current)) {
+            dates.push(current);
+        }
+    }
+
+    return dates;
+}
+
+/**
+ * Parse an appointment date. Besides everything parseDate understands, "next available"
+ * and "this week" / "next week" resolve to the first open day they can mean.
+ */
+export function parseAppointmentDate(config: ScheduleConfig, dateStr: string, referenceDate: Date = new Date()): Date | null {
+    const lower = dateStr.toLowerCase().trim();
+    const today = toBusinessDate(referenceDate);
+
+    // getNextOpenDates starts the day after, so search from the day before
+    const firstOpenFrom = (from: Date): Date | null => {
+        return getNextOpenDates(config, toBusinessDate(from, -1), 1)[0] || null;
+    };
+
+    if (/\b(next|first|earliest|soonest) (available|opening|open day)\b|\basap\b/.test(lower)) {
+        return firstOpenFrom(today);
+    }
+
+    const weekMatch = lower.match(/^(this|next) week$/);
+    if (weekMatch) {
+        const week = weekMatch[1] === 'this' ? getWeekRange(today) : getNextWeekRange(today);
+        const first = firstOpenFrom(week.start < today ? today : week.start);
+        return first && first <= week.end ? first : null;
+    }
+
+    return parseDate(dateStr, referenceDate);
+}
+
+function minutesOf(slotTime: string): number | null {
+    const time = parseTime(slotTime);
+    return time ? time.hours * 60 + time.minutes : null;
+}
+
+function formatMinutes(total: number): string {
+    const hours = Math.floor(total / 60) % 24;
+    const minutes = total % 60;
+    const period = hours >= 12 ? 'PM' : 'AM';
+    return `${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${period}`;
+}
+
+/**
+ * Opening hours of a day, one range per window (e.g., "11:30 AM – 12:30 PM, 7:30 PM – 9:00 PM")
+ */
+export function formatDayHours(day: DaySchedule): string {
+    return day.windows.map(window => `${window.start} – ${window.end}`).join(', ');
+}
+
+/**
+ * Hours for prompts and FAQ replies, one line per open day (e.g., "Wednesday: 11:30 AM – 12:30 PM"),
+ * followed by any upcoming extra sessions
+ */
+export function describeHours(config: ScheduleConfig, extraSessions: DateOverride[] = []): string[] {
+    const lines = [
+        ...getOpenDays(config).map(openDay => `${openDay.longName}: ${formatDayHours(openDay.schedule)}`),
+        ...extraSessions.map(session =>
+            `Extra session ${formatDate(session.date.toDate())}: ${session.windows.map(w => `${w.start} – ${w.end}`).join(', ')}`
+        ),
+    ];
+    if (config.saturday.enabled) {
+        lines.push(`Motzei Shabbos starts later in the summer - ${config.calendar.motzeiShabbosAfterTzeis} minutes after Shabbos ends`);
+    }
+    lines.push('Closed on Yom Tov and Erev Yom Tov');
+    return lines;
+}
+
+/**
+ * Pickup hours for prompts and FAQ replies, one line per day (e.g., "Wednesday: 12:30 PM – 1:00 PM")
+ */
+export function describePickupHours(config: ScheduleConfig): string[] {
+    if (!config.pickups.enabled) {
+        return [];
+    }
+    return DAY_KEYS
+        .filter(day => config.pickups.windows[day]?.length)
+        .map(day => `${SCHEDULE_DAYS[day].longName}: ${config.pickups.windows[day]!.map(w => `${w.start} – ${w.end}`).join(', ')}`);
+}
+
+/**
+ * Open days as a phrase (e.g., "Wednesday or Motzei Shabbos")
+ */
+export function describeOpenDays(config: ScheduleConfig, conjunction: 'or' | 'and' = 'or'): string {
+    const names = getOpenDays(config).map(openDay => openDay.name);
+    if (names.length <= 1) {
+        return names[0] || 'no days at the moment';
+    }
+    return `${names.slice(0, -1).join(', ')} ${conjunction} ${names[names.length - 1]}`;
+}
+
+/**
+ * Group size policy (e.g., "Max 4 people per group. Groups of 5-6 get a 30-minute appointment...")
+ */
+export function describeGroupRules(config: ScheduleConfig): string {
+    const day = getOpenDays(config)[0]?.schedule || DEFAULT_SLOT_SETTINGS;
+    const rules = [`Max ${day.largeGroupSize} people per group.`];
+    if (day.maxGroupSize > day.largeGroupSize) {
+        const range = day.maxGroupSize === day.largeGroupSize + 1
+            ? `${day.maxGroupSize}`
+            : `${day.largeGroupSize + 1}-${day.maxGroupSize}`;
+        rules.push(`Groups of ${range} get a ${day.slotDuration * 2}-minute appointment (two back-to-back slots).`);
+    }
+    rules.push(`We cannot accommodate groups larger than ${day.maxGroupSize}.`);
+    return rules.join(' ');
+}
+
+/**
+ * Slots a group occupies when starting at slotTime: one slot, or two back-to-back
+ * slots for groups bigger than largeGroupSize. Throws if the group can't start there.
+ */
+export function getSlotTimesForGroup(day: DaySchedule, slotTime: string, groupSize: number): string[] {
+    if (groupSize > day.maxGroupSize) {
+        throw new Error(`Maximum group size is ${day.maxGroupSize}`);
+    }
+    if (groupSize <= day.largeGroupSize) {
+        return [slotTime];
+    }
+
+    const start = minutesOf(slotTime);
+    const next = day.slots.find(slot => start !== null && minutesOf(slot) === start + day.slotDuration);
+    if (!day.slots.includes(slotTime) || !next) {
+        throw new Error(`Groups of ${day.largeGroupSize + 1}-${day.maxGroupSize} need two back-to-back slots`);
+    }
+    return [slotTime, next];
+}
+
 /**
  * Get blocked date by date string
  */
@@ -97,9 +549,7 @@ export async function getBlockedDates(
     let query = db.collection(COLLECTIONS.BLOCKED_DATES).orderBy('date', 'asc');
 
     if (options?.futureOnly) {
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-        query = query.where('date', '>=', Timestamp.fromDate(today)) as any;
+        query = query.where('date', '>=', Timestamp.fromDate(startOfBusinessDay(new Date()))) as any;
     }
 
     if (options?.limit) {
@@ -118,10 +568,10 @@ export async function blockDate(
     date: Date,
     options?: { reason?: string; blockedSlots?: string[] }
 ): Promise<BlockedDate> {
-    const dateStr = date.toISOString().split('T')[0];
+    const dateStr = toDateKey(date);
     const blockedDate: BlockedDate = {
         id: dateStr,
-        date: Timestamp.fromDate(date),
+        date: Timestamp.fromDate(toBusinessDate(date)),
         dateStr,
         reason: options?.reason,
         blockedSlots: options?.blockedSlots || [], // Empty = whole day
@@ -140,15 +590,230 @@ export async function unblockDate(db: Firestore, dateStr: string): Promise<void>
 }
 
 /**
- * Check if a date is blocked (whole day or specific slot)
+ * Get the extra sessions on a date, if any
+ */
+export async function getDateOverride(
+    db: Firestore,
+    dateStr: string
+): Promise<DateOverride | null> {
+    const doc = await db.collection(COLLECTIONS.DATE_OVERRIDES).doc(dateStr).get();
+    return doc.exists ? (doc.data() as DateOverride) : null;
+}
+
+/**
+ * Get all dates with extra sessions (optionally filter future only)
+ */
+export async function getDateOverrides(
+    db: Firestore,
+    options?: { futureOnly?: boolean; limit?: number }
+): Promise<DateOverride[]> {
+    let query = db.collection(COLLECTIONS.DATE_OVERRIDES).orderBy('date', 'asc');
+
+    if (options?.futureOnly) {
+        query = query.where('date', '>=', Timestamp.fromDate(startOfBusinessDay(new Date()))) as any;
+    }
+
+    if (options?.limit) {
+        query = query.limit(options.limit) as any;
+    }
+
+    const snapshot = await query.get();
+    return snapshot.docs.map(doc => doc.data() as DateOverride);
+}
+
+/**
+ * Add an extra session on a date - a whole session on a day we're usually closed,
+ * or more hours on an open day (e.g., running Motzei Shabbos until 10:30 PM)
+ */
+export async function addExtraSession(
+    db: Firestore,
+    date: Date,
+    window: TimeWindow,
+    reason?: string
+): Promise<DateOverride> {
+    const dateStr = toDateKey(date);
+    const ref = db.collection(COLLECTIONS.DATE_OVERRIDES).doc(dateStr);
+    const [config, existing] = await Promise.all([getScheduleConfig(db), ref.get()]);
+    const current = existing.exists ? (existing.data() as DateOverride) : null;
+
+    const windows = [...(current?.windows || []), window];
+    validateDaySchedule({ ...getDaySchedule(config, date), enabled: true, windows }, dateStr);
+
+    const now = Timestamp.now();
+    const override: DateOverride = {
+        id: dateStr,
+        date: Timestamp.fromDate(toBusinessDate(date)),
+        dateStr,
+        windows: normalizeWindows(windows),
+        createdAt: current?.createdAt || now,
+        updatedAt: now,
+    };
+    const note = reason || current?.reason;
+    if (note) {
+        override.reason = note;
+    }
+
+    await ref.set(override);
+    return override;
+}
+
+/**
+ * Remove all extra sessions on a date
+ */
+export async function removeDateOverride(db: Firestore, dateStr: string): Promise<void> {
+    await db.collection(COLLECTIONS.DATE_OVERRIDES).doc(dateStr).delete();
+}
+
+/**
+ * Keep a day's windows clear of Shabbos: Friday hours stop at candle lighting,
+ * and Motzei Shabbos hours move later (keeping their length) when Shabbos ends late
+ */
+function fitAroundShabbos(config: ScheduleConfig, date: Date, windows: TimeWindow[]): TimeWindow[] {
+    const ranges = windows
+        .map(window => ({ start: minutesOf(window.start)!, end: minutesOf(window.end)! }))
+        .filter(range => range.start !== null && range.end !== null);
+
+    if (getBusinessDay(date) === 5) {
+        const candleLighting = getCandleLighting(date);
+        return ranges
+            .map(range => ({ start: range.start, end: Math.min(range.end, candleLighting) }))
+            .filter(range => range.end > range.start)
+            .map(range => ({ start: formatMinutes(range.start), end: formatMinutes(range.end) }));
+    }
+
+    if (getBusinessDay(date) === 6 && ranges.length > 0) {
+        const earliest = getMotzeiShabbosStart(date, config.calendar);
+        const shift = Math.max(0, earliest - Math.min(...ranges.map(range => range.start)));
+        return ranges.map(range => ({ start: formatMinutes(range.start + shift), end: formatMinutes(range.end + shift) }));
+    }
+
+    return windows;
+}
+
+/**
+ * The schedule in force on a date: the weekday's hours plus any extra sessions,
+ * fitted around Shabbos, less blocked slots. Null when there is nothing to book
+ * that day - including Yom Tov and other closures from the Jewish calendar,
+ * unless useCalendar is off.
+ */
+function applyDateChanges(
+    config: ScheduleConfig,
+    date: Date,
+    override: DateOverride | null,
+    blocked: BlockedDate | null,
+    useCalendar: boolean = true
+): DaySchedule | null {
+    if (blocked && blocked.blockedSlots.length === 0) {
+        return null;
+    }
+    if (useCalendar && getClosureReason(date, config.calendar)) {
+        return null;
+    }
+
+    const weekly = getOpenDay(config, date)?.schedule;
+    const day = getDaySchedule(config, date);
+    const windows = fitAroundShabbos(config, date, [...(weekly?.windows || []), ...(override?.windows || [])]);
+    const slots = generateSlots(windows, day.slotDuration)
+        .filter(slot => !blocked?.blockedSlots.includes(slot));
+
+    return slots.length > 0 ? { ...day, enabled: true, windows, slots } : null;
+}
+
+/**
+ * How a date is blocked once recurring rules are counted: a whole-day block, by
+ * hand or from a rule, wins over blocking single slots
+ */
+function withBlockRules(date: Date, blocked: BlockedDate | null, rules: BlockRule[]): BlockedDate | null {
+    if (blocked && blocked.blockedSlots.length === 0) {
+        return blocked;
+    }
+    const rule = rules.find(r => matchesBlockRule(r, date));
+    if (!rule) {
+        return blocked;
+    }
+
+    const dateStr = toDateKey(date);
+    return {
+        id: dateStr,
+        date: Timestamp.fromDate(toBusinessDate(date)),
+        dateStr,
+        reason: rule.reason,
+        blockedSlots: [],
+        createdAt: rule.createdAt,
+    };
+}
+
+/**
+ * Blocking in force on a date, from blocked dates and recurring rules
+ */
+async function getBlockForDate(db: Firestore, date: Date): Promise<BlockedDate | null> {
+    const [blocked, rules] = await Promise.all([
+        getBlockedDate(db, toDateKey(date)),
+        getBlockRules(db),
+    ]);
+    return withBlockRules(date, blocked, rules);
+}
+
+/**
+ * Schedule for an appointment date, honoring extra sessions, blocked dates and
+ * recurring block rules (null when closed). Pass the config if it has already been loaded.
+ */
+export async function getScheduleForDate(
+    db: Firestore,
+    date: Date,
+    config?: ScheduleConfig
+): Promise<DaySchedule | null> {
+    const [schedule, override, blocked] = await Promise.all([
+        config || getScheduleConfig(db),
+        getDateOverride(db, toDateKey(date)),
+        getBlockForDate(db, date),
+    ]);
+    return applyDateChanges(schedule, date, override, blocked);
+}
+
+/**
+ * The next dates with something to book after referenceDate, counting extra
+ * sessions and skipping blocked dates
+ */
+export async function getNextSessionDates(
+    db: Firestore,
+    config: ScheduleConfig,
+    referenceDate: Date = new Date(),
+    count: number = 4
+): Promise<Date[]> {
+    const [overrides, blockedDates, rules] = await Promise.all([
+        getDateOverrides(db, { futureOnly: true }),
+        getBlockedDates(db, { futureOnly: true }),
+        getBlockRules(db),
+    ]);
+    const overrideByDate = new Map(overrides.map(o => [o.dateStr, o]));
+    const blockedByDate = new Map(blockedDates.map(b => [b.dateStr, b]));
+
+    const dates: Date[] = [];
+    let current = toBusinessDate(referenceDate);
+
+    // Look up to a year ahead, in case everything is closed
+    for (let i = 0; i < 366 && dates.length < count; i++) {
+        current = toBusinessDate(current, 1);
+        const dateStr = toDateKey(current);
+        const blocked = withBlockRules(current, blockedByDate.get(dateStr) || null, rules);
+        if (applyDateChanges(config, current, overrideByDate.get(dateStr) || null, blocked)) {
+            dates.push(current);
+        }
+    }
+
+    return dates;
+}
+
+/**
+ * Check if a date is blocked (whole day or specific slot), by hand or by a recurring rule
  */
 export async function isDateBlocked(
     db: Firestore,
     date: Date,
     slotTime?: string
 ): Promise<{ blocked: boolean; reason?: string }> {
-    const dateStr = date.toISOString().split('T')[0];
-    const blocked = await getBlockedDate(db, dateStr);
+    const blocked = await getBlockForDate(db, date);
 
     if (!blocked) {
         return { blocked: false };
@@ -168,43 +833,90 @@ export async function isDateBlocked(
 }
 
 /**
- * Get available slots for a date considering config and blocked dates
+ * Get available slots for a date considering config, extra sessions, blocked dates,
+ * recurring block rules and the Jewish calendar
  */
 export async function getConfiguredSlotsForDate(
     db: Firestore,
     date: Date
-): Promise<{ slots: string[]; blocked: boolean; reason?: string }> {
-    const dayOfWeek = date.getDay();
-    const config = await getScheduleConfig(db);
+): Promise<{ slots: string[]; allSlots: string[]; blocked: boolean; reason?: string; override?: DateOverride }> {
+    const [config, override, blockedInfo] = await Promise.all([
+        getScheduleConfig(db),
+        getDateOverride(db, toDateKey(date)),
+        getBlockForDate(db, date),
+    ]);
+
+    // Everything scheduled that day, before blocking
+    const scheduled = applyDateChanges(config, date, override, null, false);
+    const allSlots = scheduled ? [...scheduled.slots] : [];
+    const extra = override ? { override } : {};
 
-    // Check if it's a valid day
-    let dayConfig: { enabled: boolean; slots: string[] } | null = null;
-    if (dayOfWeek === 3) {
-        dayConfig = config.wednesday;
-    } else if (dayOfWeek === 6) {
-        dayConfig = config.saturday;
+    // Whole day blocked, by hand or by the calendar
+    if (blockedInfo && blockedInfo.blockedSlots.length === 0) {
+        return { slots: [], allSlots, blocked: true, reason: blockedInfo.reason, ...extra };
     }
+    const closure = getClosureReason(date, config.calendar);
+    if (closure && allSlots.length > 0) {
+        return { slots: [], allSlots, blocked: true, reason: closure, ...extra };
+    }
+
+    // Specific slots blocked
+    const day = applyDateChanges(config, date, override, blockedInfo);
+    return { slots: day ? [...day.slots] : [], allSlots, blocked: false, ...extra };
+}
 
-    if (!dayConfig || !dayConfig.enabled) {
-        return { slots: [], blocked: false };
+/**
+ * Handoff times on a date, fitted around Shabbos, with nothing when the whole
+ * day is blocked or the calendar is closed
+ */
+function pickupSlots(config: ScheduleConfig, date: Date, blocked: BlockedDate | null): string[] {
+    const pickups = config.pickups;
+    if (!pickups.enabled || (blocked && blocked.blockedSlots.length === 0) || getClosureReason(date, config.calendar)) {
+        return [];
     }
 
-    // Check if date is blocked
-    const dateStr = date.toISOString().split('T')[0];
-    const blockedInfo = await getBlockedDate(db, dateStr);
+    const windows = fitAroundShabbos(config, date, pickups.windows[DAY_KEYS[getBusinessDay(date)]] || []);
+    return generateSlots(windows, pickups.slotDuration);
+}
 
-    if (blockedInfo) {
-        // Whole day blocked
-        if (blockedInfo.blockedSlots.length === 0) {
-            return { slots: [], blocked: true, reason: blockedInfo.reason };
-        }
+/**
+ * Pickup and return times on a date (that weekday's handoff hours). None when
+ * pickups are off, the day is blocked or the calendar is closed.
+ */
+export async function getPickupSlotsForDate(
+    db: Firestore,
+    date: Date,
+    config?: ScheduleConfig
+): Promise<string[]> {
+    const [schedule, blocked] = await Promise.all([
+        config || getScheduleConfig(db),
+        getBlockForDate(db, date),
+    ]);
+    return pickupSlots(schedule, date, blocked);
+}
 
-        // Specific slots blocked
-        const availableSlots = dayConfig.slots.filter(
-            slot => !blockedInfo.blockedSlots.includes(slot)
-        );
-        return { slots: availableSlots, blocked: false };
-    }
+/**
+ * The next dates with pickup hours after referenceDate (up to eight weeks ahead)
+ */
+export async function getNextPickupDates(
+    db: Firestore,
+    config: ScheduleConfig,
+    referenceDate: Date = new Date(),
+    count: number = 3
+): Promise<Date[]> {
+    const [blockedDates, rules] = await Promise.all([
+        getBlockedDates(db, { futureOnly: true }),
+        getBlockRules(db),
+    ]);
+    const blockedByDate = new Map(blockedDates.map(b => [b.dateStr, b]));
 
-    return { slots: [...dayConfig.slots], blocked: false };
+    const dates: Date[] = [];
+    for (let i = 1; i <= 56 && dates.length < count; i++) {
+        const date = toBusinessDate(referenceDate, i);
+        const blocked = withBlockRules(date, blockedByDate.get(toDateKey(date)) || null, rules);
+        if (pickupSlots(config, date, blocked).length > 0) {
+            dates.push(date);
+        }
+    }
+    return dates;
 }
@@ -0,0 +1,191 @@
+// Slot Capacity - one document per date/slot so checking and taking a slot is a single transaction
+import { Firestore, Timestamp, Transaction, DocumentReference, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { Booking, SlotCapacity, COLLECTIONS } from './types';
+import type { SlotSettings } from './schedule-config';
+import { toDateKey, startOfBusinessDay, endOfBusinessDay } from './date-utils';
+
+const ACTIVE_STATUSES: Booking['status'][] = ['pending', 'confirmed'];
+
+export type SlotLimits = Pick<SlotSettings, 'maxParties' | 'maxPeople'>;
+
+export interface SlotHold {
+    ref: DocumentReference;
+    dateStr: string;
+    slotTime: string;
+    limits: SlotLimits;
+    parties: Record<string, number>;
+    changed: boolean;
+}
+
+// Slots read in one transaction, keyed by document ID so overlapping old/new slots are shared
+export type SlotHolds = Map<string, SlotHold>;
+
+/**
+ * Whether a booking status takes up its slot
+ */
+export function holdsSlot(status: Booking['status']): boolean {
+    return ACTIVE_STATUSES.includes(status);
+}
+
+/**
+ * Slots a booking occupies (older bookings only recorded the starting slot)
+ */
+export function getBookingSlotTimes(booking: Pick<Booking, 'slotTime' | 'slotTimes'>): string[] {
+    return booking.slotTimes?.length ? booking.slotTimes : [booking.slotTime];
+}
+
+/**
+ * Calendar date of an appointment as YYYY-MM-DD (same day boundaries as the booking queries)
+ */
+export function getSlotDateStr(date: Date): string {
+    return toDateKey(date);
+}
+
+/**
+ * Document ID for a date/slot (e.g., "2026-01-14_1130AM")
+ */
+export function getSlotId(date: Date, slotTime: string): string {
+    return `${getSlotDateStr(date)}_${slotTime.replace(/[^0-9A-Za-z]/g, '')}`;
+}
+
+function slotRef(db: Firestore, date: Date, slotTime: string) {
+    return db.collection(COLLECTIONS.SLOT_CAPACITY).doc(getSlotId(date, slotTime));
+}
+
+/**
+ * Active bookings starting in a slot, for slots booked before capacity documents existed
+ */
+function legacySlotQuery(db: Firestore, date: Date, slotTime: string) {
+    const startOfDay = startOfBusinessDay(date);
+    const endOfDay = endOfBusinessDay(date);
+
+    return db.collection(COLLECTIONS.BOOKINGS)
+        .where('appointmentDate', '>=', Timestamp.fromDate(startOfDay))
+        .where('appointmentDate', '<=', Timestamp.fromDate(endOfDay))
+        .where('slotTime', '==', slotTime)
+        .where('status', 'in', ACTIVE_STATUSES);
+}
+
+function partiesFromBookings(docs: QueryDocumentSnapshot[]): Record<string, number> {
+    return Object.fromEntries(docs.map(d => [d.id, (d.data() as Booking).groupSize || 1]));
+}
+
+/**
+ * Whether a group of this size still fits in a slot
+ */
+export function hasRoom(
+    parties: Record<string, number>,
+    limits: SlotLimits,
+    groupSize: number,
+    bookingId?: string
+): boolean {
+    const others = Object.entries(parties).filter(([id]) => id !== bookingId);
+    const people = others.reduce((sum, [, size]) => sum + size, 0);
+    return others.length + 1 <= limits.maxParties && people + groupSize <= limits.maxPeople;
+}
+
+/**
+ * Whether a group fits in every one of these slots (not transactional - use for listing only)
+ */
+export async function hasSlotRoom(
+    db: Firestore,
+    date: Date,
+    slotTimes: string[],
+    limits: SlotLimits,
+    groupSize: number
+): Promise<boolean> {
+    for (const slotTime of slotTimes) {
+        const doc = await slotRef(db, date, slotTime).get();
+        const parties = doc.exists
+            ? (doc.data() as SlotCapacity).parties
+            : partiesFromBookings((await legacySlotQuery(db, date, slotTime).get()).docs);
+
+        if (!hasRoom(parties, limits, groupSize)) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * Read slots inside a transaction. Read every slot the transaction touches before
+ * claiming or releasing any, since Firestore transactions need all reads before writes.
+ */
+export async function readSlots(
+    transaction: Transaction,
+    db: Firestore,
+    date: Date,
+    slotTimes: string[],
+    limits: SlotLimits,
+    holds: SlotHolds = new Map()
+): Promise<SlotHolds> {
+    for (const slotTime of slotTimes) {
+        const ref = slotRef(db, date, slotTime);
+        if (holds.has(ref.id)) {
+            continue;
+        }
+
+        const doc = await transaction.get(ref);
+        // First booking through this slot since capacity documents were added - seed from existing bookings
+        const parties = doc.exists
+            ? { ...(doc.data() as SlotCapacity).parties }
+            : partiesFromBookings((await transaction.get(legacySlotQuery(db, date, slotTime))).docs);
+
+        holds.set(ref.id, { ref, dateStr: getSlotDateStr(date), slotTime, limits, parties, changed: false });
+    }
+    return holds;
+}
+
+/**
+ * Take a place in each slot for a booking; throws if any of them is full
+ */
+export function claimSlots(
+    holds: SlotHolds,
+    date: Date,
+    slotTimes: string[],
+    bookingId: string,
+    groupSize: number
+): void {
+    const slots = slotTimes.map(slotTime => holds.get(getSlotId(date, slotTime)) as SlotHold);
+    if (slots.some(slot => !hasRoom(slot.parties, slot.limits, groupSize, bookingId))) {
+        throw new Error('Slot is not available');
+    }
+
+    for (const slot of slots) {
+        slot.parties[bookingId] = groupSize;
+        slot.changed = true;
+    }
+}
+
+/**
+ * Give up a booking's place in each slot
+ */
+export function releaseSlots(holds: SlotHolds, date: Date, slotTimes: string[], bookingId: string): void {
+    for (const slotTime of slotTimes) {
+        const slot = holds.get(getSlotId(date, slotTime));
+        if (slot && bookingId in slot.parties) {
+            delete slot.parties[bookingId];
+            slot.changed = true;
+        }
+    }
+}
+
+/**
+ * Write every slot changed by claimSlots/releaseSlots
+ */
+export function saveSlots(transaction: Transaction, holds: SlotHolds): void {
+    for (const slot of holds.values()) {
+        if (!slot.changed) {
+            continue;
+        }
+
+        const data: SlotCapacity = {
+            id: slot.ref.id,
+            dateStr: slot.dateStr,
+            slotTime: slot.slotTime,
+            parties: slot.parties,
+            updatedAt: Timestamp.now(),
+        };
+        transaction.set(slot.ref, data);
+    }
+}
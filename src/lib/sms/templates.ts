@@ -3,6 +3,9 @@
 
 import { Booking } from './types';
 import { formatPhoneDisplay } from './twilio-sender';
+import { DateOverride, ScheduleConfig, describeHours, describeGroupRules } from './schedule-config';
+import { formatDateShort } from './date-utils';
+import type { PickupKind } from './pickup-appointments';
 
 export interface TemplateData {
     name: string;
@@ -12,6 +15,7 @@ export interface TemplateData {
     weddingDate?: string;
     appointmentList?: string;
     count?: number;
+    items?: string[];
 }
 
 /**
@@ -47,16 +51,51 @@ See you soon, ${data.name}!`;
  * Return reminder - sent day after wedding
  */
 export function getReturnReminderTemplate(data: TemplateData): string {
+    const whatToReturn = data.items?.length
+        ? `the following by this Motzaei Shabbos with your donation:\n${data.items.map(item => `• ${item}`).join('\n')}`
+        : 'your gown by this Motzaei Shabbos with your donation.';
+
     return `Mazel Tov ${data.name}! 🎉
 
 We hope your simcha was beautiful!
 
-Please return your gown by this Motzaei Shabbos with your donation.
+Please return ${whatToReturn}
 The door to the Gemach is always open—you can return anytime.
 
 Thank you for choosing Gelber Gown Gemach!`;
 }
 
+/**
+ * Later return reminders - firmer with each step, the last one asking them to call
+ */
+export function getReturnFollowUpTemplate(data: { name: string; items: string[]; daysLate: number; final: boolean }): string {
+    const list = data.items.map(item => `• ${item}`).join('\n');
+    if (data.final) {
+        return `${data.name}, it has been ${data.daysLate} days since your wedding and we still have not received:
+${list}
+
+Other kallahs are waiting for these. Please return them right away, or call us today if something is wrong.
+
+Gelber Gown Gemach`;
+    }
+    return `Hi ${data.name}, a reminder that these are still out from your wedding:
+${list}
+
+Please drop them off with your donation this week—the door is always open.
+
+Thank you!`;
+}
+
+/**
+ * Manager alert - items still out well past the wedding
+ */
+export function getReturnOverdueAlertTemplate(bookings: { name: string; phone: string; daysLate: number; items: string[] }[]): string {
+    const list = bookings
+        .map(b => `• ${b.name} (${b.phone}) - ${b.daysLate} days: ${b.items.join(', ')}`)
+        .join('\n');
+    return `⚠️ Overdue returns (${bookings.length}):\n\n${list}`;
+}
+
 /**
  * Weekly summary for manager - sent Sunday morning
  */
@@ -100,32 +139,38 @@ Or text all 5 items:
 /**
  * Slot unavailable - when requested time is taken
  */
-export function getSlotUnavailableTemplate(requestedTime: string, alternatives: string[]): string {
+export function getSlotUnavailableTemplate(requestedTime: string, alternatives: string[], waitlistDate?: string): string {
     const altList = alternatives.slice(0, 3).join('\n');
+    const waitlist = waitlistDate
+        ? `\n\nOr reply WAITLIST and we'll text you if a spot opens up on ${waitlistDate}.`
+        : '';
 
     return `Sorry, ${requestedTime} is not available.
 
 Here are some open slots:
 ${altList}
 
-Reply with your preferred time!`;
+Reply with your preferred time!${waitlist}`;
 }
 
 /**
  * FAQ response - when someone asks a question
  */
-export function getFaqResponse(question: string): string | null {
+export function getFaqResponse(
+    question: string,
+    schedule: ScheduleConfig,
+    extraSessions: DateOverride[] = []
+): string | null {
     const faqs: Record<string, string> = {
         hours: `Appointment hours (by appointment only):
-• Wednesday: 11:30 AM – 12:30 PM
-• Motzaei Shabbos: 7:30 PM – 9:30 PM`,
+${describeHours(schedule, extraSessions).map(line => `• ${line}`).join('\n')}`,
 
         location: `📍 1327 East 26th Street, Brooklyn, NY 11210
 Enter through the garage at the end of the driveway (left side of house)`,
 
         sizes: `We carry gowns from little girls up to 1X.`,
 
-        pickup: `You can pick up your gown 2 weeks before your wedding. Text to arrange a pickup time!`,
+        pickup: `You can pick up your gown 2 weeks before your wedding. Text PICKUP to choose a pickup time!`,
 
         return: `Please return gowns by Motzaei Shabbos after your wedding with your donation. The door is always open.`,
 
@@ -140,7 +185,7 @@ Recommended seamstresses:
 • Tzivi Fromowitz: 347-743-7335
 • Esti Kohnfelder: 718-810-7110`,
 
-        group: `Max 4 people per group. Groups of 6 need a 30-min slot or the last slot of the evening.`,
+        group: describeGroupRules(schedule),
     };
 
     // Match keywords to FAQ topics
@@ -193,7 +238,10 @@ Or ask me any questions about our policies!`;
 /**
  * Admin cancelled appointment
  */
-export function getAdminCancelledTemplate(data: { name: string; date: string }): string {
+export function getAdminCancelledTemplate(data: { name: string; date: string; alternatives?: string[] }): string {
+    if (data.alternatives?.length) {
+        return `Hi ${data.name}, your Gelber Gown Gemach appointment on ${data.date} has been cancelled - we're closed that day, sorry! We have openings ${data.alternatives.join(' or ')}. Reply to rebook.`;
+    }
     return `Hi ${data.name}, your Gelber Gown Gemach appointment on ${data.date} has been cancelled. Please text us to rebook if needed.`;
 }
 
@@ -211,6 +259,110 @@ export function getCustomerCancelledTemplate(data: { date: string }): string {
     return `Your appointment on ${data.date} has been cancelled. Text anytime to book a new appointment!`;
 }
 
+/**
+ * Pickup or return booked
+ */
+export function getPickupConfirmedTemplate(data: { name: string; kind: PickupKind; date: string; time: string }): string {
+    const what = data.kind === 'pickup' ? 'gown pickup' : 'gown drop-off';
+    return `Hi ${data.name}! Your ${what} is set for ${data.date} at ${data.time}.
+
+📍 1327 East 26th Street, Brooklyn (garage entrance, left side)
+
+Need a different time? Just text us.`;
+}
+
+/**
+ * Open pickup or return times to choose from
+ */
+export function getPickupTimesTemplate(data: { kind: PickupKind; options: { date: string; slots: string[] }[] }): string {
+    const what = data.kind === 'pickup' ? 'pickup' : 'drop-off';
+    if (data.options.length === 0) {
+        return `Sorry, there are no ${what} times open right now. Please call 718-614-8390 and we'll work something out.`;
+    }
+
+    const lines = data.options.map(option => `${option.date}: ${option.slots.join(', ')}`).join('\n');
+    return `Here are the open ${what} times:
+${lines}
+
+Reply with the day and time that works for you!`;
+}
+
+/**
+ * Pickup or return reminder - sent the day before
+ */
+export function getPickupReminderTemplate(data: { name: string; kind: PickupKind; time: string }): string {
+    const what = data.kind === 'pickup'
+        ? 'to pick up your gown'
+        : 'to drop off your gown (please bring your donation)';
+    return `Reminder: ${data.name}, you're coming TOMORROW at ${data.time} ${what}. See you at 1327 East 26th Street (garage entrance, left side)!`;
+}
+
+/**
+ * Time to arrange a pickup - sent about two weeks before the wedding
+ */
+export function getPickupWindowReminderTemplate(data: { name: string; weddingDate: string; canBook: boolean }): string {
+    const how = data.canBook
+        ? 'Text PICKUP to choose a pickup time.'
+        : 'Reply to this message to arrange a pickup time.';
+    return `Hi ${data.name}! Your wedding on ${data.weddingDate} is coming up - mazel tov! 🎉
+
+It's time to pick up your gown. ${how}`;
+}
+
+/**
+ * Manager alert - chosen gowns still here with the wedding less than a week away
+ */
+export function getPickupOverdueAlertTemplate(bookings: { name: string; phone: string; weddingDate: string }[]): string {
+    const list = bookings.map(b => `• ${b.name} (${b.phone}) - wedding ${b.weddingDate}`).join('\n');
+    return `⚠️ Gowns not picked up yet, wedding within a week (${bookings.length}):\n\n${list}`;
+}
+
+/**
+ * Joined the waitlist for a fully booked date
+ */
+export function getWaitlistJoinedTemplate(data: { name: string; date: string }): string {
+    return `You're on the waitlist for ${data.date}, ${data.name}! If a spot opens up we'll text you right away.`;
+}
+
+/**
+ * A slot opened up for someone on the waitlist
+ */
+export function getWaitlistOfferTemplate(data: { name: string; date: string; time: string; minutes: number }): string {
+    const window = data.minutes % 60 === 0
+        ? `${data.minutes / 60} ${data.minutes === 60 ? 'hour' : 'hours'}`
+        : `${data.minutes} minutes`;
+
+    return `Good news ${data.name}! A spot opened up at Gelber Gown Gemach on ${data.date} at ${data.time}. Reply YES within ${window} to book it - after that it goes to the next person on the waitlist.`;
+}
+
+/**
+ * A waitlist offer ran out before it was accepted
+ */
+export function getWaitlistOfferExpiredTemplate(data: { date: string }): string {
+    return `The ${data.date} spot has gone to the next person on the waitlist. Text us anytime to book another date!`;
+}
+
+/**
+ * Replied STOP - the last text we send until they text START
+ */
+export function getOptOutTemplate(): string {
+    return `You've been unsubscribed from Gelber Gown Gemach texts and won't get any more reminders. Your appointments are unchanged. Reply START to resubscribe, or call 718-614-8390.`;
+}
+
+/**
+ * Replied START after opting out
+ */
+export function getOptInTemplate(): string {
+    return `You're resubscribed to Gelber Gown Gemach texts - we'll send your reminders again. Reply STOP anytime to unsubscribe.`;
+}
+
+/**
+ * Replied HELP
+ */
+export function getHelpTemplate(): string {
+    return `Gelber Gown Gemach: text us to book or change an appointment, or call 718-614-8390. Reply STOP to unsubscribe, START to resubscribe.`;
+}
+
 /**
  * Unknown question fallback
  */
@@ -222,11 +374,7 @@ export function getUnknownQuestionTemplate(): string {
  * Format booking for summary list
  */
 export function formatBookingForSummary(booking: Booking): string {
-    const date = booking.appointmentDate.toDate().toLocaleDateString('en-US', {
-        weekday: 'short',
-        month: 'short',
-        day: 'numeric',
-    });
+    const date = formatDateShort(booking.appointmentDate.toDate());
 
     return `• ${date} ${booking.slotTime} - ${booking.customerName} (${booking.groupSize}p)`;
 }
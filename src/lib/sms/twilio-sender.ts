@@ -1,6 +1,8 @@
 // Twilio SMS sender utility
 
 import twilio from 'twilio';
+import { getFirestore } from 'firebase-admin/firestore';
+import { isOptedOut } from './consent';
 
 // Initialize Twilio client (lazy)
 let twilioClient: twilio.Twilio | null = null;
@@ -24,17 +26,37 @@ function getClient() {
     return twilioClient;
 }
 
+// Twilio reports delivery (or not) to /api/sms/status; it needs a public URL,
+// so nothing is reported when PUBLIC_BASE_URL isn't set (e.g. local dev)
+function getStatusCallback(): { statusCallback?: string } {
+    const baseUrl = process.env.PUBLIC_BASE_URL;
+    return baseUrl ? { statusCallback: `${baseUrl.replace(/\/$/, '')}/api/sms/status` } : {};
+}
+
 export interface SendSmsResult {
     success: boolean;
     messageSid?: string;
     error?: string;
+    optedOut?: boolean;          // Refused - the number texted STOP
+}
+
+export interface SendSmsOptions {
+    // A direct reply to a text the customer just sent (including the STOP
+    // confirmation) - goes out even to a number that has opted out
+    transactional?: boolean;
 }
 
 /**
- * Send an SMS message via Twilio
+ * Send an SMS message via Twilio. Anything that isn't a reply is refused for
+ * numbers that have texted STOP.
  */
-export async function sendSms(to: string, body: string): Promise<SendSmsResult> {
+export async function sendSms(to: string, body: string, options: SendSmsOptions = {}): Promise<SendSmsResult> {
     try {
+        if (!options.transactional && await isOptedOut(getFirestore(), normalizePhone(to))) {
+            console.log('[TWILIO] Not sending to opted-out number:', normalizePhone(to));
+            return { success: false, optedOut: true, error: 'Recipient has opted out of texts (replied STOP)' };
+        }
+
         const client = getClient();
         const twilioPhone = process.env.TWILIO_PHONE_NUMBER;
 
@@ -51,6 +73,7 @@ export async function sendSms(to: string, body: string): Promise<SendSmsResult>
             body,
             from: twilioPhone,
             to: normalizedTo,
+            ...getStatusCallback(),
         });
 
         console.log(`SMS sent to ${normalizedTo}: ${message.sid}`);
@@ -68,6 +91,43 @@ export async function sendSms(to: string, body: string): Promise<SendSmsResult>
     }
 }
 
+/**
+ * The URL Twilio signed. Behind Vercel's proxy request.url may not match,
+ * so prefer PUBLIC_BASE_URL when it is set.
+ */
+export function getPublicUrl(request: Request): string {
+    const url = new URL(request.url);
+    const baseUrl = process.env.PUBLIC_BASE_URL;
+    if (baseUrl) {
+        return `${baseUrl.replace(/\/$/, '')}${url.pathname}${url.search}`;
+    }
+
+    const host = request.headers.get('x-forwarded-host') || request.headers.get('host') || url.host;
+    const proto = request.headers.get('x-forwarded-proto') || url.protocol.replace(':', '');
+    return `${proto}://${host}${url.pathname}${url.search}`;
+}
+
+/**
+ * Check the X-Twilio-Signature header of a webhook request.
+ * `url` must be the public URL Twilio posted to (including any query string).
+ */
+export function isValidTwilioSignature(
+    signature: string | null,
+    url: string,
+    params: Record<string, string>
+): boolean {
+    const authToken = process.env.TWILIO_AUTH_TOKEN;
+    if (!authToken) {
+        console.error('[TWILIO] TWILIO_AUTH_TOKEN not configured, rejecting webhook');
+        return false;
+    }
+    if (!signature) {
+        return false;
+    }
+
+    return twilio.validateRequest(authToken, signature, url, params);
+}
+
 /**
  * Normalize phone number to E.164 format
  */
@@ -2,16 +2,25 @@
 // Uses Firebase Admin SDK types for server-side operations
 
 import { Timestamp } from 'firebase-admin/firestore';
+import type { ItemType } from '../types';
 
 // Customer record - stored when someone first texts
 export interface Customer {
   id: string;
   name: string;
   phone: string;
+  smsConsent?: SmsConsent;     // Unset until they text STOP or START
   createdAt: Timestamp;
   updatedAt: Timestamp;
 }
 
+// Whether a customer still wants our texts, as they last told us by keyword
+export interface SmsConsent {
+  optedOut: boolean;
+  keyword: string;             // What they texted, e.g. "STOP", "UNSTOP"
+  changedAt: Timestamp;
+}
+
 // Booking record - each appointment
 export interface Booking {
   id: string;
@@ -22,8 +31,9 @@ export interface Booking {
   // Appointment details
   appointmentDate: Timestamp;  // The date of the visit
   slotTime: string;            // e.g., "11:30 AM", "7:30 PM"
-  slotDuration: number;        // 15 or 30 minutes
-  groupSize: number;           // Max 4, or 6 for 30-min slots
+  slotTimes?: string[];        // Every slot held - two back-to-back slots for large groups
+  slotDuration: number;        // Minutes, e.g. 15, or 30 for two slots
+  groupSize: number;           // Large groups take two slots (see ScheduleConfig)
 
   // Wedding details
   weddingDate: Timestamp;
@@ -31,12 +41,17 @@ export interface Booking {
   // Status tracking
   status: 'pending' | 'confirmed' | 'completed' | 'cancelled' | 'no-show';
 
+  // Loaned items (gown, veil, slip, flower-girl dresses...), each tracked on its own
+  items?: LoanItem[];
+
   // Gown tracking (3-step: Selected -> Picked Up -> Returned)
-  gownSelected: boolean;       // Step 1: They chose a gown during appointment
-  gownDescription?: string;    // What gown they chose (e.g., "White A-line, size 8")
-  gownPickedUp: boolean;       // Step 2: They took it home (~2 weeks before wedding)
+  // With items, these are rollups kept in sync by updateBooking so they stay queryable
+  gownSelected: boolean;       // Step 1: They chose something during appointment
+  gownIds?: string[];          // Tagged gowns among the items (for array-contains queries)
+  gownDescription?: string;    // Legacy free-text description from before the inventory existed
+  gownPickedUp: boolean;       // Step 2: Something went home (~2 weeks before wedding)
   gownPickupDate?: Timestamp;
-  gownReturned: boolean;       // Step 3: They returned it after wedding
+  gownReturned: boolean;       // Step 3: Everything that went home came back
   gownReturnDate?: Timestamp;
   donationAmount?: number;
   donationPaid: boolean;
@@ -45,11 +60,100 @@ export interface Booking {
   confirmationSent: boolean;
   dayBeforeReminderSent: boolean;
   returnReminderSent: boolean;
+  returnRemindersSent?: number;      // Steps of the overdue return ladder sent so far
+  returnOverdueAlertSent?: boolean;  // Manager told the return is overdue
+  pickupReminderSent?: boolean;      // Texted to arrange pickup as the wedding nears
+  pickupEscalationSent?: boolean;    // Manager told the gown is still here a week out
+  deliveryProblem?: DeliveryProblem; // A confirmation or reminder never reached the phone
 
   // Metadata
   createdAt: Timestamp;
   updatedAt: Timestamp;
+  updatedBy?: BookingActor;    // Who made the latest change
+  notes?: string;
+}
+
+// A text Twilio reported as undelivered - cleared once someone has called the customer
+export interface DeliveryProblem {
+  messageType: string;         // e.g., "confirmation", "day-before-reminder"
+  status: 'undelivered' | 'failed';
+  errorCode?: string;          // Twilio error code, e.g. "30003" (unreachable)
+  twilioSid: string;
+  reportedAt: Timestamp;
+}
+
+// Who changed a booking - an admin account, or the customer over SMS/phone
+export interface BookingActor {
+  id: string;
+  name: string;
+}
+
+// Booking change log entry - append-only history stored under each booking
+export type BookingChangeAction = 'created' | 'updated' | 'cancelled' | 'rescheduled';
+
+export interface BookingFieldChange {
+  field: string;
+  from: string | null;
+  to: string | null;
+}
+
+export interface BookingChange {
+  id: string;
+  bookingId: string;
+  action: BookingChangeAction;
+  by: BookingActor;
+  changes: BookingFieldChange[];
+  createdAt: Timestamp;
+}
+
+// One item loaned out with a booking
+export interface LoanItem {
+  id: string;
+  type: ItemType;
+  description: string;         // e.g., "Cathedral veil", "Gown G-12 (size 8)"
+  gownId?: string;             // Inventory gown, for type 'Gown'
+  pickedUp: boolean;
+  pickedUpAt?: Timestamp;
+  returned: boolean;
+  returnedAt?: Timestamp;
+}
+
+// Gown inventory record - one per physical, tagged gown
+export type GownStatus = 'available' | 'reserved' | 'out' | 'cleaning' | 'retired';
+
+export interface Gown {
+  id: string;                  // Normalized tag number, also the document ID
+  sku: string;                 // Tag number as written on the gown
+  size: string;                // e.g., "8", "Girls 6", "1X"
+  silhouette?: string;         // e.g., "A-line", "Ball gown"
+  neckline?: string;
+  sleeve?: string;
+  color?: string;
+  condition?: string;          // e.g., "Excellent", "Needs repair"
+  photos: string[];            // Photo URLs
+  status: GownStatus;
+  currentBookingId?: string;   // Booking the gown is reserved for or out with
+  wearCount?: number;          // Times picked up
+  totalDaysOut?: number;       // Days spent with brides, summed on each return
+  notes?: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+// Gown lifecycle event - append-only history stored under each gown
+export type GownEventType = 'selected' | 'picked_up' | 'returned' | 'sent_to_cleaner' | 'repaired' | 'retired';
+
+export const GOWN_EVENT_TYPES: GownEventType[] = ['selected', 'picked_up', 'returned', 'sent_to_cleaner', 'repaired', 'retired'];
+
+export interface GownEvent {
+  id: string;
+  gownId: string;
+  type: GownEventType;
+  bookingId?: string;
+  customerName?: string;
+  daysOut?: number;            // Set on 'returned' events
   notes?: string;
+  createdAt: Timestamp;
 }
 
 // Conversation state for multi-turn SMS interactions
@@ -64,6 +168,7 @@ export interface ConversationState {
     groupSize: number;
     weddingDate: string;
     phone: string;
+    pickupKind: 'pickup' | 'return';  // Arranging a gown pickup or drop-off rather than a fitting
   }>;
   missingFields: string[];
   lastMessageAt: Timestamp;
@@ -78,7 +183,33 @@ export interface SmsLog {
   message: string;
   twilioSid?: string;
   parsedIntent?: string;
+  bookingId?: string;          // Outbound texts about a booking
+  messageType?: string;        // Outbound: "confirmation", "reply", or the outbox type
+  deliveryStatus?: string;     // Latest Twilio status: queued, sent, delivered, undelivered, failed
+  deliveryErrorCode?: string;
+  deliveryUpdatedAt?: Timestamp;
+  createdAt: Timestamp;
+}
+
+// Who holds a date/slot - written only inside booking transactions so two
+// channels (SMS, phone, admin) can never both take the last place
+export interface SlotCapacity {
+  id: string;                  // `${dateStr}_${slot}`, e.g. "2026-01-14_1130AM"
+  dateStr: string;             // YYYY-MM-DD
+  slotTime: string;            // e.g., "11:30 AM"
+  parties: Record<string, number>;  // Active booking ID -> people in that group
+  updatedAt: Timestamp;
+}
+
+// Idempotency record for an inbound Twilio message, keyed by MessageSid
+export interface InboundMessage {
+  id: string;                  // Twilio MessageSid
+  phone: string;
+  status: 'processing' | 'replied';
+  reply?: string;              // Reply produced the first time the message was handled
+  replySent?: boolean;         // Whether that reply was delivered
   createdAt: Timestamp;
+  updatedAt: Timestamp;
 }
 
 // Firestore collection names
@@ -87,4 +218,9 @@ export const COLLECTIONS = {
   BOOKINGS: 'bookings',
   CONVERSATIONS: 'conversations',
   SMS_LOGS: 'smsLogs',
+  INBOUND_MESSAGES: 'inboundMessages',
+  SLOT_CAPACITY: 'slotCapacity',
+  GOWNS: 'gowns',
+  GOWN_EVENTS: 'events',  // Subcollection of gowns
+  BOOKING_CHANGES: 'changes',  // Subcollection of bookings
 } as const;
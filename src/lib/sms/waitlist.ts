@@ -0,0 +1,310 @@
+// Waitlist - customers waiting for a place on a fully booked date. When a slot
+// frees up the first one in line who fits is texted an offer, which passes to the
+// next person if it isn't accepted in time.
+import { Firestore, Timestamp } from 'firebase-admin/firestore';
+import { Booking, BookingActor } from './types';
+import { createBooking, getAvailableSlotsForDate, getSlotsForGroup } from './booking-handler';
+import { DEFAULT_SLOT_SETTINGS } from './schedule-config';
+import { claimSlots, readSlots, releaseSlots, saveSlots } from './slot-capacity';
+import { formatDateShort, fromDateKey, toDateKey } from './date-utils';
+import { enqueueSms } from './outbox';
+import { getWaitlistOfferExpiredTemplate, getWaitlistOfferTemplate } from './templates';
+
+export type WaitlistStatus = 'waiting' | 'offered' | 'booked' | 'expired';
+
+export interface WaitlistEntry {
+    id: string;                  // `${dateStr}_${phone digits}` - one place per customer per date
+    customerPhone: string;
+    customerName: string;
+    dateStr: string;             // YYYY-MM-DD, the Brooklyn day they want
+    groupSize: number;
+    weddingDate: Timestamp;
+    joinedBy: BookingActor;      // Customer (SMS) or Customer (phone)
+    status: WaitlistStatus;
+    offeredSlot?: string;        // Set while an offer is out
+    offeredSlotTimes?: string[]; // Slots held for the offer (two for large groups)
+    offerExpiresAt?: Timestamp;
+    bookingId?: string;          // Set once the offer is accepted
+    createdAt: Timestamp;
+    updatedAt: Timestamp;
+}
+
+export interface WaitlistRequest {
+    customerPhone: string;
+    customerName: string;
+    date: Date;
+    groupSize: number;
+    weddingDate: Date;
+}
+
+// How long a customer has to accept an offered slot
+export const OFFER_WINDOW_MINUTES = 120;
+
+const COLLECTIONS = {
+    WAITLIST: 'waitlist',
+};
+
+function isActive(entry: WaitlistEntry): boolean {
+    return entry.status === 'waiting' || entry.status === 'offered';
+}
+
+function isOfferOpen(entry: WaitlistEntry, now: number = Date.now()): boolean {
+    return entry.status === 'offered' && !!entry.offerExpiresAt && entry.offerExpiresAt.toMillis() > now;
+}
+
+// An offer holds its place in slotCapacity like a booking, under this party key,
+// so no other channel can book the slot while the customer decides
+function offerHoldId(entryId: string): string {
+    return `offer_${entryId}`;
+}
+
+/**
+ * Offer a slot to a waiting customer, holding it for them in the same transaction.
+ * Returns null if they're no longer waiting; throws if the slot filled up.
+ */
+async function reserveOffer(db: Firestore, entry: WaitlistEntry, slotTime: string): Promise<WaitlistEntry | null> {
+    const date = fromDateKey(entry.dateStr);
+    const plan = await getSlotsForGroup(db, date, slotTime, entry.groupSize);
+    if (!plan) {
+        throw new Error('Slot is not available');
+    }
+
+    const ref = db.collection(COLLECTIONS.WAITLIST).doc(entry.id);
+    return db.runTransaction(async (transaction) => {
+        const doc = await transaction.get(ref);
+        if (!doc.exists || (doc.data() as WaitlistEntry).status !== 'waiting') {
+            return null;
+        }
+
+        const holds = await readSlots(transaction, db, date, plan.slotTimes, plan.day);
+        claimSlots(holds, date, plan.slotTimes, offerHoldId(entry.id), entry.groupSize);
+        saveSlots(transaction, holds);
+
+        const offer: Partial<WaitlistEntry> = {
+            status: 'offered',
+            offeredSlot: slotTime,
+            offeredSlotTimes: plan.slotTimes,
+            offerExpiresAt: Timestamp.fromMillis(Date.now() + OFFER_WINDOW_MINUTES * 60 * 1000),
+            updatedAt: Timestamp.now(),
+        };
+        transaction.update(ref, offer);
+        return { ...(doc.data() as WaitlistEntry), ...offer };
+    });
+}
+
+/**
+ * Close an offer - booked, back to waiting, or expired - and free whatever it
+ * still holds. Returns false if the offer was already closed.
+ */
+async function closeOffer(db: Firestore, entry: WaitlistEntry, update: Partial<WaitlistEntry>): Promise<boolean> {
+    const ref = db.collection(COLLECTIONS.WAITLIST).doc(entry.id);
+    const date = fromDateKey(entry.dateStr);
+
+    return db.runTransaction(async (transaction) => {
+        const doc = await transaction.get(ref);
+        if (!doc.exists || (doc.data() as WaitlistEntry).status !== 'offered') {
+            return false;
+        }
+
+        // Releasing never checks limits, so the defaults do
+        const slotTimes = (doc.data() as WaitlistEntry).offeredSlotTimes || [];
+        const holds = await readSlots(transaction, db, date, slotTimes, DEFAULT_SLOT_SETTINGS);
+        releaseSlots(holds, date, slotTimes, offerHoldId(entry.id));
+        saveSlots(transaction, holds);
+
+        transaction.update(ref, { ...update, updatedAt: Timestamp.now() });
+        return true;
+    });
+}
+
+/**
+ * Put a customer on the waitlist for a date. Joining again while already waiting
+ * keeps their place in line.
+ */
+export async function joinWaitlist(
+    db: Firestore,
+    request: WaitlistRequest,
+    actor: BookingActor
+): Promise<WaitlistEntry> {
+    const dateStr = toDateKey(request.date);
+    if (dateStr < toDateKey(new Date())) {
+        throw new Error('That date has already passed');
+    }
+
+    const id = `${dateStr}_${request.customerPhone.replace(/\D/g, '')}`;
+    const ref = db.collection(COLLECTIONS.WAITLIST).doc(id);
+
+    return db.runTransaction(async (transaction) => {
+        const doc = await transaction.get(ref);
+        if (doc.exists && isActive(doc.data() as WaitlistEntry)) {
+            return doc.data() as WaitlistEntry;
+        }
+
+        const now = Timestamp.now();
+        const entry: WaitlistEntry = {
+            id,
+            customerPhone: request.customerPhone,
+            customerName: request.customerName,
+            dateStr,
+            groupSize: request.groupSize,
+            weddingDate: Timestamp.fromDate(request.weddingDate),
+            joinedBy: { id: actor.id, name: actor.name },
+            status: 'waiting',
+            createdAt: now,
+            updatedAt: now,
+        };
+        transaction.set(ref, entry);
+        return entry;
+    });
+}
+
+/**
+ * Customers still waiting (or holding an offer) for a date, first in line first
+ */
+export async function getWaitlistForDate(db: Firestore, date: Date): Promise<WaitlistEntry[]> {
+    const snapshot = await db.collection(COLLECTIONS.WAITLIST)
+        .where('dateStr', '==', toDateKey(date))
+        .get();
+
+    return snapshot.docs
+        .map(doc => doc.data() as WaitlistEntry)
+        .filter(isActive)
+        .sort((a, b) => a.createdAt.toMillis() - b.createdAt.toMillis());
+}
+
+/**
+ * Offer the open slots on a date to the waitlist, in order. Someone whose group
+ * doesn't fit what's open is skipped, not passed over for good. Call this after
+ * a cancellation or reschedule frees a place.
+ */
+export async function offerFreedSlots(db: Firestore, date: Date): Promise<WaitlistEntry[]> {
+    if (toDateKey(date) < toDateKey(new Date())) {
+        return [];
+    }
+
+    const entries = await getWaitlistForDate(db, date);
+
+    // Open offers already hold their slots, so availability skips them
+    const offered: WaitlistEntry[] = [];
+    for (const entry of entries) {
+        if (entry.status !== 'waiting') {
+            continue;
+        }
+
+        // Someone else may take a listed slot first - then try the next one
+        let offer: WaitlistEntry | null = null;
+        for (const slotTime of await getAvailableSlotsForDate(db, fromDateKey(entry.dateStr), entry.groupSize)) {
+            try {
+                offer = await reserveOffer(db, entry, slotTime);
+                break;
+            } catch (error: any) {
+                if (!error.message?.includes('not available')) {
+                    throw error;
+                }
+            }
+        }
+        if (!offer?.offeredSlot) {
+            continue;
+        }
+
+        await enqueueSms(db, {
+            to: entry.customerPhone,
+            body: getWaitlistOfferTemplate({
+                name: entry.customerName,
+                date: formatDateShort(fromDateKey(entry.dateStr)),
+                time: offer.offeredSlot,
+                minutes: OFFER_WINDOW_MINUTES,
+            }),
+            type: 'waitlist-offer',
+        });
+        offered.push(offer);
+    }
+
+    return offered;
+}
+
+/**
+ * The offer a customer can still accept, if any
+ */
+export async function getOpenOffer(db: Firestore, phone: string): Promise<WaitlistEntry | null> {
+    const snapshot = await db.collection(COLLECTIONS.WAITLIST)
+        .where('customerPhone', '==', phone)
+        .where('status', '==', 'offered')
+        .get();
+
+    const now = Date.now();
+    const offers = snapshot.docs
+        .map(doc => doc.data() as WaitlistEntry)
+        .filter(entry => isOfferOpen(entry, now))
+        .sort((a, b) => a.dateStr.localeCompare(b.dateStr));
+    return offers[0] || null;
+}
+
+/**
+ * Book the offered slot, taking over the place held for it. If that fails the
+ * customer goes back to waiting (keeping their place) and the error is passed on.
+ */
+export async function acceptWaitlistOffer(
+    db: Firestore,
+    entry: WaitlistEntry,
+    actor: BookingActor
+): Promise<Booking> {
+    if (!isOfferOpen(entry) || !entry.offeredSlot) {
+        throw new Error('This offer has expired');
+    }
+
+    try {
+        const booking = await createBooking(db, {
+            customerPhone: entry.customerPhone,
+            customerName: entry.customerName,
+            appointmentDate: fromDateKey(entry.dateStr),
+            slotTime: entry.offeredSlot,
+            groupSize: entry.groupSize,
+            weddingDate: entry.weddingDate.toDate(),
+            heldFor: offerHoldId(entry.id),
+        }, actor);
+
+        await closeOffer(db, entry, { status: 'booked', bookingId: booking.id });
+        return booking;
+    } catch (error) {
+        await closeOffer(db, entry, { status: 'waiting' });
+        throw error;
+    }
+}
+
+/**
+ * Close offers nobody accepted in time and pass their slots down the line.
+ * Run regularly from cron.
+ */
+export async function expireWaitlistOffers(db: Firestore): Promise<number> {
+    const snapshot = await db.collection(COLLECTIONS.WAITLIST)
+        .where('status', '==', 'offered')
+        .get();
+
+    const now = Date.now();
+    const expired = snapshot.docs
+        .map(doc => doc.data() as WaitlistEntry)
+        .filter(entry => !isOfferOpen(entry, now));
+
+    let closed = 0;
+    for (const entry of expired) {
+        if (!await closeOffer(db, entry, { status: 'expired' })) {
+            continue;
+        }
+        closed++;
+        await enqueueSms(db, {
+            to: entry.customerPhone,
+            body: getWaitlistOfferExpiredTemplate({
+                date: formatDateShort(fromDateKey(entry.dateStr)),
+            }),
+            type: 'waitlist-expired',
+        });
+    }
+
+    const dates = [...new Set(expired.map(entry => entry.dateStr))];
+    for (const dateStr of dates) {
+        await offerFreedSlots(db, fromDateKey(dateStr));
+    }
+
+    return closed;
+}
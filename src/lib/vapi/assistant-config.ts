@@ -1,7 +1,32 @@
 // Vapi Assistant Configuration
 // Contains the system prompt and tool definitions for the AI phone agent
 
-export const VAPI_SYSTEM_PROMPT = `You are a friendly and helpful receptionist for Gelber Gown Gemach, a wedding gown lending service (Gemach) in Brooklyn. You speak in a warm, conversational tone like an Orthodox Jewish woman from Brooklyn. You help callers with questions and booking appointments.
+import {
+  ScheduleConfig,
+  getOpenDays,
+  formatDayHours,
+  describeOpenDays,
+  describeGroupRules,
+} from '../sms/schedule-config';
+
+// Hours, slots and group rules come from the schedule config, so the prompt
+// must be rebuilt (and pushed to Vapi) whenever the schedule changes
+export function getVapiSystemPrompt(schedule: ScheduleConfig): string {
+  const openDays = getOpenDays(schedule);
+  const hours = openDays
+    .map(openDay => `- **${openDay.longName}:** ${formatDayHours(openDay.schedule).split(' – ').join(' to ')}`)
+    .join('\n');
+  const slots = openDays
+    .map(openDay => `**${openDay.name} slots:** ${openDay.schedule.slots.join(', ')} (${openDay.schedule.slotDuration} minutes each)`)
+    .join('\n');
+  const motzeiShabbos = schedule.saturday.enabled
+    ? ` In the summer, Motzei Shabbos appointments start ${schedule.calendar.motzeiShabbosAfterTzeis} minutes after Shabbos ends - always check availability for the exact times`
+    : '';
+  const largeGroups = openDays.some(openDay => openDay.schedule.maxGroupSize > openDay.schedule.largeGroupSize)
+    ? '\n- Larger groups need two back-to-back slots. Ask the group size before offering times, since they can only start at a slot followed by another open slot'
+    : '';
+
+  return `You are a friendly and helpful receptionist for Gelber Gown Gemach, a wedding gown lending service (Gemach) in Brooklyn. You speak in a warm, conversational tone like an Orthodox Jewish woman from Brooklyn. You help callers with questions and booking appointments.
 
 ## Speaking Style
 Speak naturally like a yeshivish lady. Just say words like Gemach, Chaim, Bracha, Shabbos normally - the voice system will handle pronunciation. Don't spell things out phonetically. Use natural Yiddish expressions when appropriate like "mazel tov", "b'sha'ah tovah", etc.
@@ -30,17 +55,13 @@ If a name sounds unclear, politely ask them to spell it.
 
 ## Operating Hours (By Appointment Only)
 
-- **Wednesday:** 11:30 AM to 12:30 PM
-- **Motzei Shabbos (Saturday night):** 7:30 PM to 9:30 PM
+${hours}
 
-We are only open during these times and by appointment only. No walk-ins.
+We are only open during these times and by appointment only. No walk-ins. We're closed on Yom Tov and Erev Yom Tov.${motzeiShabbos}
 
 ## Available Appointment Slots
 
-**Wednesday slots:** 11:30 AM, 11:45 AM, 12:00 PM, 12:15 PM
-**Motzei Shabbos slots:** 7:30 PM, 7:45 PM, 8:00 PM, 8:15 PM, 8:30 PM, 8:45 PM, 9:00 PM, 9:15 PM
-
-Each slot is 15 minutes long.
+${slots}
 
 ## Services
 
@@ -57,9 +78,9 @@ Each slot is 15 minutes long.
 
 ## Gown Pickup and Return
 
-- **Pickup:** You can pick up your gown 2 weeks before your wedding
+- **Pickup:** You can pick up your gown 2 weeks before your wedding, at a booked pickup time. Use checkPickupTimes to find open times and schedulePickup to book one (they need the phone number they booked their fitting with)
 - **Return:** Please return the gown by Motzei Shabbos (Saturday night) after your wedding
-- The door to the Gemach is always open for returns
+- The door to the Gemach is always open for returns${schedule.pickups.enabled && schedule.pickups.returns ? ", or they can book a drop-off time the same way as a pickup" : ''}
 - Return the gown with your donation
 
 ## Alterations Policy
@@ -76,15 +97,13 @@ Each slot is 15 minutes long.
 
 ## Booking Rules
 
-- Maximum 4 people per appointment (bride plus 3 guests)
-- Groups of 5-6 people require a 30-minute slot - they must book the last slot of the evening (12:15 PM on Wednesday or 9:15 PM on Motzei Shabbos)
-- We cannot accommodate groups larger than 6
+- ${describeGroupRules(schedule)}${largeGroups}
 
 ## Booking Information Needed
 
 To complete a booking, you need to collect:
 1. The caller's name
-2. Their preferred appointment date (must be Wednesday or Motzei Shabbos)
+2. Their preferred appointment date (must be ${describeOpenDays(schedule)})
 3. Their preferred time slot
 4. Group size (how many people coming)
 5. Wedding date
@@ -96,6 +115,7 @@ To complete a booking, you need to collect:
 - If they ask about availability, use the checkAvailability tool to get real-time slot availability
 - When they want to book, collect all required information before using the createBooking tool
 - If a slot isn't available, offer alternative dates
+- If the date they want is fully booked and they'd rather wait for it, collect their name, group size, wedding date and phone number and use the joinWaitlist tool. We text them if a spot opens, and they reply YES to take it
 - For questions about policies, provide information from your knowledge above
 - If you can't help with something, suggest they text 347-507-5981 or call the manager at 718-614-8390
 
@@ -103,7 +123,7 @@ To complete a booking, you need to collect:
 
 1. Greet warmly: "Hi, thank you for calling Gelber Gown Gemach! How can I help you today?"
 2. If booking: "Wonderful! Mazel tov on your upcoming wedding! Let me help you schedule an appointment."
-3. Ask for date preference: "Would you prefer a Wednesday or Motzei Shabbos appointment?"
+3. Ask for date preference: "Would you prefer a ${describeOpenDays(schedule)} appointment?"
 4. Check availability using the tool
 5. Offer available slots: "I have slots available at 7:30, 7:45, and 8:00. Which works best for you?"
 6. Collect remaining info: name, group size, wedding date, phone
@@ -111,6 +131,7 @@ To complete a booking, you need to collect:
 8. Complete booking and give confirmation
 
 Remember: Be helpful, warm, and efficient. Mazel tov to all the kallahs!`;
+}
 
 // Tool definitions for Vapi
 export const VAPI_TOOLS = [
@@ -174,6 +195,104 @@ export const VAPI_TOOLS = [
       url: "{{SERVER_URL}}/api/vapi"
     }
   },
+  {
+    type: "function",
+    function: {
+      name: "joinWaitlist",
+      description: "Put the caller on the waitlist for a fully booked date. Only use this after checkAvailability shows the date is full and the caller wants to wait for it.",
+      parameters: {
+        type: "object",
+        properties: {
+          name: {
+            type: "string",
+            description: "The caller's full name"
+          },
+          date: {
+            type: "string",
+            description: "The fully booked date they want (e.g., 'next motzei shabbos', 'January 15')"
+          },
+          groupSize: {
+            type: "number",
+            description: "Number of people attending"
+          },
+          weddingDate: {
+            type: "string",
+            description: "The caller's wedding date"
+          },
+          phone: {
+            type: "string",
+            description: "Phone number to text when a spot opens (the caller's number)"
+          }
+        },
+        required: ["name", "date", "groupSize", "weddingDate", "phone"]
+      }
+    },
+    server: {
+      url: "{{SERVER_URL}}/api/vapi"
+    }
+  },
+  {
+    type: "function",
+    function: {
+      name: "checkPickupTimes",
+      description: "Find open times to pick up a gown (from two weeks before the wedding) or drop it off after the wedding. Use this when a bride wants to arrange her pickup or return.",
+      parameters: {
+        type: "object",
+        properties: {
+          phone: {
+            type: "string",
+            description: "The phone number the fitting was booked with"
+          },
+          kind: {
+            type: "string",
+            enum: ["pickup", "return"],
+            description: "Whether they're picking the gown up or dropping it off"
+          },
+          date: {
+            type: "string",
+            description: "A day they'd like, if they said one (e.g., 'this sunday', 'January 15')"
+          }
+        },
+        required: ["phone", "kind"]
+      }
+    },
+    server: {
+      url: "{{SERVER_URL}}/api/vapi"
+    }
+  },
+  {
+    type: "function",
+    function: {
+      name: "schedulePickup",
+      description: "Book a gown pickup or drop-off time. Only use this after checkPickupTimes and once the caller has chosen a day and time.",
+      parameters: {
+        type: "object",
+        properties: {
+          phone: {
+            type: "string",
+            description: "The phone number the fitting was booked with"
+          },
+          kind: {
+            type: "string",
+            enum: ["pickup", "return"],
+            description: "Whether they're picking the gown up or dropping it off"
+          },
+          date: {
+            type: "string",
+            description: "The day they chose"
+          },
+          slotTime: {
+            type: "string",
+            description: "The time they chose (e.g., '12:40 PM')"
+          }
+        },
+        required: ["phone", "kind", "date", "slotTime"]
+      }
+    },
+    server: {
+      url: "{{SERVER_URL}}/api/vapi"
+    }
+  },
   {
     type: "function",
     function: {
@@ -228,12 +347,57 @@ export function getToolDefinitions(serverUrl: string) {
         },
         required: ["name", "appointmentDate", "slotTime", "groupSize", "weddingDate", "phone"]
       }
+    },
+    {
+      name: "joinWaitlist",
+      description: "Put the caller on the waitlist for a fully booked date",
+      serverUrl: `${serverUrl}/api/vapi`,
+      parameters: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          date: { type: "string" },
+          groupSize: { type: "number" },
+          weddingDate: { type: "string" },
+          phone: { type: "string" }
+        },
+        required: ["name", "date", "groupSize", "weddingDate", "phone"]
+      }
+    },
+    {
+      name: "checkPickupTimes",
+      description: "Find open gown pickup or drop-off times",
+      serverUrl: `${serverUrl}/api/vapi`,
+      parameters: {
+        type: "object",
+        properties: {
+          phone: { type: "string" },
+          kind: { type: "string", enum: ["pickup", "return"] },
+          date: { type: "string" }
+        },
+        required: ["phone", "kind"]
+      }
+    },
+    {
+      name: "schedulePickup",
+      description: "Book a gown pickup or drop-off time",
+      serverUrl: `${serverUrl}/api/vapi`,
+      parameters: {
+        type: "object",
+        properties: {
+          phone: { type: "string" },
+          kind: { type: "string", enum: ["pickup", "return"] },
+          date: { type: "string" },
+          slotTime: { type: "string" }
+        },
+        required: ["phone", "kind", "date", "slotTime"]
+      }
     }
   ];
 }
 
 // Full assistant configuration for Vapi API
-export function getAssistantConfig(serverUrl: string) {
+export function getAssistantConfig(serverUrl: string, schedule: ScheduleConfig) {
   // Create tools with the actual server URL
   const tools = VAPI_TOOLS.map(tool => ({
     ...tool,
@@ -251,7 +415,7 @@ export function getAssistantConfig(serverUrl: string) {
       messages: [
         {
           role: "system",
-          content: VAPI_SYSTEM_PROMPT
+          content: getVapiSystemPrompt(schedule)
         }
       ],
       tools: tools
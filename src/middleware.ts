@@ -0,0 +1,31 @@
+// Guards the admin dashboard and every admin API route behind a signed session cookie
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE, verifySessionToken } from '@/lib/auth/session';
+
+// Reachable without a session so admins can sign in
+const PUBLIC_PATHS = ['/admin/login', '/api/admin/auth'];
+
+export async function middleware(request: NextRequest) {
+    const { pathname } = request.nextUrl;
+
+    if (PUBLIC_PATHS.includes(pathname)) {
+        return NextResponse.next();
+    }
+
+    const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+    if (session) {
+        return NextResponse.next();
+    }
+
+    if (pathname.startsWith('/api/')) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const loginUrl = new URL('/admin/login', request.url);
+    loginUrl.searchParams.set('next', pathname);
+    return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+    matcher: ['/admin/:path*', '/api/admin/:path*'],
+};
@@ -0,0 +1,28 @@
+// SMS consent keyword tests - no emulator needed
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { matchConsentKeyword } from '../src/lib/sms/consent';
+
+describe('matchConsentKeyword', () => {
+    it('recognizes the carrier keywords in any case', () => {
+        assert.equal(matchConsentKeyword('STOP'), 'stop');
+        assert.equal(matchConsentKeyword(' stop. '), 'stop');
+        assert.equal(matchConsentKeyword('Unsubscribe'), 'stop');
+        assert.equal(matchConsentKeyword('unstop'), 'start');
+        assert.equal(matchConsentKeyword('Start!'), 'start');
+        assert.equal(matchConsentKeyword('help'), 'help');
+    });
+
+    it('leaves booking replies and longer messages to the parser', () => {
+        assert.equal(matchConsentKeyword('CANCEL'), null);
+        assert.equal(matchConsentKeyword('YES'), null);
+        assert.equal(matchConsentKeyword('Can I stop by tomorrow?'), null);
+        assert.equal(matchConsentKeyword('stop my appointment'), null);
+    });
+
+    it("follows Twilio's opt-out handling when it reports one", () => {
+        assert.equal(matchConsentKeyword('CANCEL', 'STOP'), 'stop');
+        assert.equal(matchConsentKeyword('Yes', 'START'), 'start');
+        assert.equal(matchConsentKeyword('CANCEL', undefined), null);
+    });
+});
@@ -0,0 +1,98 @@
+// Business time zone tests - pure date arithmetic, no emulator needed.
+// The server runs on UTC (as on Vercel), so every date here has to come out in Brooklyn time.
+process.env.TZ = 'UTC';
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+    endOfBusinessDay,
+    formatDate,
+    fromDateInput,
+    fromDateKey,
+    getBusinessDay,
+    getWeekRange,
+    parseDate,
+    startOfBusinessDay,
+    toBusinessDate,
+    toDateKey,
+} from '../src/lib/sms/date-utils';
+
+const at = (iso: string) => new Date(iso);
+
+// DST starts Sunday 2026-03-08 at 2 AM and ends Sunday 2026-11-01 at 2 AM
+describe('calendar days in Brooklyn', () => {
+    it('keys a late-evening instant to the Brooklyn day, not the UTC one', () => {
+        assert.equal(toDateKey(at('2026-03-08T04:30:00Z')), '2026-03-07');  // 11:30 PM EST
+        assert.equal(toDateKey(at('2026-03-08T05:30:00Z')), '2026-03-08');
+        assert.equal(toDateKey(at('2026-11-01T03:30:00Z')), '2026-10-31');  // 11:30 PM EDT
+        assert.equal(toDateKey(at('2026-11-02T04:30:00Z')), '2026-11-01');  // 11:30 PM EST
+    });
+
+    it('gives the Brooklyn weekday', () => {
+        assert.equal(getBusinessDay(at('2026-03-08T02:00:00Z')), 6);  // Saturday 9 PM
+        assert.equal(getBusinessDay(at('2026-03-08T16:00:00Z')), 0);
+    });
+
+    it('has a 23-hour day when DST starts', () => {
+        const day = at('2026-03-08T16:00:00Z');
+        assert.equal(startOfBusinessDay(day).toISOString(), '2026-03-08T05:00:00.000Z');
+        assert.equal(endOfBusinessDay(day).toISOString(), '2026-03-09T03:59:59.999Z');
+    });
+
+    it('has a 25-hour day when DST ends', () => {
+        const day = at('2026-11-01T17:00:00Z');
+        assert.equal(startOfBusinessDay(day).toISOString(), '2026-11-01T04:00:00.000Z');
+        assert.equal(endOfBusinessDay(day).toISOString(), '2026-11-02T04:59:59.999Z');
+    });
+
+    it('puts date keys at noon Brooklyn time on either side of a change', () => {
+        assert.equal(fromDateKey('2026-03-07').toISOString(), '2026-03-07T17:00:00.000Z');
+        assert.equal(fromDateKey('2026-03-08').toISOString(), '2026-03-08T16:00:00.000Z');
+        assert.equal(fromDateKey('2026-10-31').toISOString(), '2026-10-31T16:00:00.000Z');
+        assert.equal(fromDateKey('2026-11-01').toISOString(), '2026-11-01T17:00:00.000Z');
+    });
+
+    it('moves by calendar days across a change', () => {
+        const saturday = fromDateKey('2026-10-31');
+        assert.equal(toBusinessDate(saturday, 1).toISOString(), '2026-11-01T17:00:00.000Z');
+        assert.equal(toBusinessDate(at('2026-11-01T03:30:00Z')).toISOString(), '2026-10-31T16:00:00.000Z');
+        assert.equal(toDateKey(toBusinessDate(fromDateKey('2026-03-07'), 1)), '2026-03-08');
+    });
+
+    it('reads a date picker value as that Brooklyn day', () => {
+        assert.equal(toDateKey(fromDateInput('2026-11-15')), '2026-11-15');
+        assert.equal(fromDateInput('2026-11-15').toISOString(), '2026-11-15T17:00:00.000Z');
+        assert.equal(toDateKey(fromDateInput('2026-11-15T02:00:00.000Z')), '2026-11-14');
+        assert.equal(toDateKey(fromDateInput(at('2026-11-15T16:00:00Z'))), '2026-11-15');
+    });
+});
+
+describe('parseDate', () => {
+    // Saturday 11:30 PM in Brooklyn, already Sunday in UTC
+    const lateSaturday = at('2026-11-01T03:30:00Z');
+
+    it('counts from the Brooklyn day', () => {
+        assert.equal(toDateKey(parseDate('today', lateSaturday)!), '2026-10-31');
+        assert.equal(toDateKey(parseDate('tomorrow', lateSaturday)!), '2026-11-01');
+        assert.equal(toDateKey(parseDate('wednesday', lateSaturday)!), '2026-11-04');
+        assert.equal(toDateKey(parseDate('motzei shabbos', lateSaturday)!), '2026-11-07');
+    });
+
+    it('keeps written dates on the day written', () => {
+        assert.equal(toDateKey(parseDate('2026-03-08')!), '2026-03-08');
+        assert.equal(toDateKey(parseDate('March 8, 2026')!), '2026-03-08');
+        assert.equal(toDateKey(parseDate('March 8', at('2026-02-01T12:00:00Z'))!), '2026-03-08');
+    });
+});
+
+describe('formatting and weeks', () => {
+    it('formats the Brooklyn day', () => {
+        assert.equal(formatDate(at('2026-11-01T03:30:00Z')), 'Saturday, October 31');
+    });
+
+    it('runs the week from Sunday to Saturday midnight in Brooklyn', () => {
+        const { start, end } = getWeekRange(at('2026-03-08T02:00:00Z'));
+        assert.equal(start.toISOString(), '2026-03-01T05:00:00.000Z');
+        assert.equal(end.toISOString(), '2026-03-08T04:59:59.999Z');
+    });
+});
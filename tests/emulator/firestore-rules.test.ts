@@ -0,0 +1,118 @@
+// Firestore security rules tests - run against the local emulator with `npm run test:emulator`
+import { readFileSync } from 'fs';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import {
+    assertFails,
+    assertSucceeds,
+    initializeTestEnvironment,
+    RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+
+// Every document path the rules know about, with a sample document
+const DOCUMENTS: Record<string, Record<string, unknown>> = {
+    'customers/17185550100': { name: 'Test Bride', phone: '+17185550100' },
+    'bookings/17185550100_1': { customerName: 'Test Bride', status: 'confirmed' },
+    'bookings/17185550100_1/changes/c1': { action: 'created' },
+    'conversations/+17185550100': { state: 'idle' },
+    'smsLogs/log1': { direction: 'inbound', message: 'Hi' },
+    'scheduleConfig/default': { wednesday: { enabled: true } },
+    'blockedDates/2026-04-01': { reason: 'Pesach' },
+    'blockRules/summer': { pattern: { type: 'weekly', weekday: 6, startDate: '2026-08-01', endDate: '2026-08-31' } },
+    'dateOverrides/2026-03-26': { windows: [{ start: '7:30 PM', end: '9:30 PM' }] },
+    'waitlist/2026-03-28_17185550100': { customerName: 'Test Bride', status: 'waiting' },
+    'pickups/17185550100_1_pickup': { customerName: 'Test Bride', kind: 'pickup', status: 'scheduled' },
+    'jobRuns/run1': { jobId: 'day-before-reminders', status: 'success' },
+    'outbox/dayBefore_abc_2026-01-14': { to: '+17185550100', status: 'failed' },
+    'gowns/G-12': { sku: 'G-12', size: '8' },
+    'gowns/G-12/events/e1': { type: 'selected' },
+};
+
+// Never readable from a client, not even by admins
+const SERVER_ONLY: Record<string, Record<string, unknown>> = {
+    'adminUsers/owner': { name: 'Owner', passwordHash: 'scrypt$x$y' },
+    'loginAttempts/abc': { failures: 3 },
+    'revokedSessions/3f2a': { sub: 'owner' },
+    'pendingDeliveryStatuses/SM123': { status: 'failed' },
+    'inboundMessages/SM123': { status: 'replied', reply: 'Hi!' },
+    'slotCapacity/2026-01-14_1130AM': { capacity: 1, bookingIds: [] },
+    'pickupSlots/2026-01-14_1230PM': { appointmentIds: [] },
+    'jobState/day-before-reminders': { jobId: 'day-before-reminders' },
+};
+
+let testEnv: RulesTestEnvironment;
+
+before(async () => {
+    testEnv = await initializeTestEnvironment({
+        projectId: 'demo-gelber-rules',
+        firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+    });
+});
+
+after(async () => {
+    await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+    await testEnv.clearFirestore();
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+        const db = context.firestore();
+        for (const [path, data] of Object.entries({ ...DOCUMENTS, ...SERVER_ONLY })) {
+            await db.doc(path).set(data);
+        }
+    });
+});
+
+const adminDb = () => testEnv.authenticatedContext('owner', { admin: true }).firestore();
+const signedInDb = () => testEnv.authenticatedContext('someone').firestore();
+const anonymousDb = () => testEnv.unauthenticatedContext().firestore();
+
+describe('reads', () => {
+    for (const path of Object.keys(DOCUMENTS)) {
+        it(`admins can read ${path}`, async () => {
+            await assertSucceeds(adminDb().doc(path).get());
+        });
+
+        it(`signed-in users without the admin claim cannot read ${path}`, async () => {
+            await assertFails(signedInDb().doc(path).get());
+        });
+
+        it(`anonymous users cannot read ${path}`, async () => {
+            await assertFails(anonymousDb().doc(path).get());
+        });
+    }
+
+    it('admins can query bookings', async () => {
+        await assertSucceeds(adminDb().collection('bookings').where('status', '==', 'confirmed').get());
+    });
+
+    it('non-admins cannot query bookings', async () => {
+        await assertFails(signedInDb().collection('bookings').get());
+    });
+
+    for (const path of Object.keys(SERVER_ONLY)) {
+        it(`nobody can read ${path}`, async () => {
+            await assertFails(adminDb().doc(path).get());
+            await assertFails(signedInDb().doc(path).get());
+        });
+    }
+});
+
+describe('writes', () => {
+    for (const path of Object.keys({ ...DOCUMENTS, ...SERVER_ONLY })) {
+        it(`admins cannot create, update or delete ${path}`, async () => {
+            const db = adminDb();
+            await assertFails(db.doc(`${path}-new`).set({ created: true }));
+            await assertFails(db.doc(path).update({ changed: true }));
+            await assertFails(db.doc(path).delete());
+        });
+
+        it(`anonymous users cannot write ${path}`, async () => {
+            await assertFails(anonymousDb().doc(path).set({ hijacked: true }));
+        });
+    }
+
+    it('unknown collections are closed', async () => {
+        await assertFails(adminDb().doc('somethingElse/x').get());
+        await assertFails(adminDb().doc('somethingElse/x').set({ a: 1 }));
+    });
+});
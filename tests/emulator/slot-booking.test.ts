@@ -0,0 +1,816 @@
+// Slot booking concurrency tests - run against the local emulator with `npm run test:emulator`
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import { initializeApp, getApps } from 'firebase-admin/app';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import {
+    createBooking,
+    cancelBooking,
+    getBookingsAwaitingPickup,
+    rescheduleBooking,
+    updateBooking,
+    isSlotAvailable,
+    getAvailableSlotsForDate,
+} from '../../src/lib/sms/booking-handler';
+import { getSlotId } from '../../src/lib/sms/slot-capacity';
+import {
+    getScheduleConfig,
+    updateScheduleConfig,
+    addExtraSession,
+    blockDate,
+    getConfiguredSlotsForDate,
+    getNextSessionDates,
+    isDateBlocked,
+} from '../../src/lib/sms/schedule-config';
+import { addBlockRule } from '../../src/lib/sms/block-rules';
+import { getAffectedBookings, getAffectedBookingsForRule } from '../../src/lib/sms/blocked-bookings';
+import {
+    acceptWaitlistOffer,
+    expireWaitlistOffers,
+    getOpenOffer,
+    getWaitlistForDate,
+    joinWaitlist,
+    offerFreedSlots,
+} from '../../src/lib/sms/waitlist';
+import {
+    cancelPickup,
+    cancelPickupsForBooking,
+    getAvailablePickupSlots,
+    getPickupOptions,
+    getPickupsForBooking,
+    getPickupsNeedingReminder,
+    schedulePickup,
+} from '../../src/lib/sms/pickup-appointments';
+import {
+    bookingUpdate,
+    dispatchDueMessages,
+    dispatchMessage,
+    enqueueSms,
+    getUndeliveredMessages,
+    retryMessage,
+} from '../../src/lib/sms/outbox';
+import { clearDeliveryProblem, recordDeliveryStatus, saveSmsLog } from '../../src/lib/sms/delivery-status';
+import { isOptedOut, setSmsConsent } from '../../src/lib/sms/consent';
+import { CUSTOMER_SMS } from '../../src/lib/sms/booking-history';
+import { getCandleLighting, getMotzeiShabbosStart, getUpcomingClosures, getYomTov } from '../../src/lib/sms/jewish-calendar';
+import { fromDateKey, getBusinessDay, toBusinessDate, toDateKey } from '../../src/lib/sms/date-utils';
+import { COLLECTIONS, SlotCapacity } from '../../src/lib/sms/types';
+
+const PROJECT_ID = 'demo-gelber-booking';
+
+if (!process.env.FIRESTORE_EMULATOR_HOST) {
+    throw new Error('FIRESTORE_EMULATOR_HOST is not set - run through `npm run test:emulator`');
+}
+if (!getApps().length) {
+    initializeApp({ projectId: PROJECT_ID });
+}
+const db = getFirestore();
+
+// A Wednesday a couple of weeks out (noon Brooklyn time), so every date check in
+// createBooking passes. Weeks with Yom Tov between Wednesday and Sunday are skipped.
+function upcomingWednesday(weeksAhead = 2): Date {
+    const today = new Date();
+    let date = toBusinessDate(today, ((3 - getBusinessDay(today) + 7) % 7) + weeksAhead * 7);
+    while (getUpcomingClosures(date, 5).length > 0) {
+        date = toBusinessDate(date, 7);
+    }
+    return date;
+}
+
+function bookingRequest(phone: string, appointmentDate: Date, slotTime: string, groupSize = 2) {
+    const weddingDate = toBusinessDate(appointmentDate, 30);
+    return {
+        customerPhone: phone,
+        customerName: `Kallah ${phone.slice(-4)}`,
+        appointmentDate,
+        slotTime,
+        groupSize,
+        weddingDate,
+    };
+}
+
+async function getSlot(date: Date, slotTime: string): Promise<SlotCapacity | undefined> {
+    const doc = await db.collection(COLLECTIONS.SLOT_CAPACITY).doc(getSlotId(date, slotTime)).get();
+    return doc.data() as SlotCapacity | undefined;
+}
+
+async function bookingIdsIn(date: Date, slotTime: string): Promise<string[] | undefined> {
+    const slot = await getSlot(date, slotTime);
+    return slot && Object.keys(slot.parties);
+}
+
+async function clearCollection(name: string) {
+    const snapshot = await db.collection(name).get();
+    await Promise.all(snapshot.docs.map(d => d.ref.delete()));
+}
+
+beforeEach(async () => {
+    await clearCollection(COLLECTIONS.BOOKINGS);
+    await clearCollection(COLLECTIONS.CUSTOMERS);
+    await clearCollection(COLLECTIONS.SLOT_CAPACITY);
+    await clearCollection('scheduleConfig');
+    await clearCollection('dateOverrides');
+    await clearCollection('blockedDates');
+    await clearCollection('blockRules');
+    await clearCollection('waitlist');
+    await clearCollection('pickups');
+    await clearCollection('pickupSlots');
+    await clearCollection('outbox');
+    await clearCollection(COLLECTIONS.SMS_LOGS);
+    await clearCollection('pendingDeliveryStatuses');
+});
+
+describe('createBooking', () => {
+    it('lets exactly one of several simultaneous requests take a slot', async () => {
+        const date = upcomingWednesday();
+        const phones = ['+17185550101', '+17185550102', '+17185550103', '+17185550104', '+17185550105'];
+
+        const results = await Promise.allSettled(
+            phones.map(phone => createBooking(db, bookingRequest(phone, date, '11:30 AM')))
+        );
+
+        const booked = results.filter(r => r.status === 'fulfilled');
+        const rejected = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+        assert.equal(booked.length, 1);
+        assert.equal(rejected.length, phones.length - 1);
+        for (const result of rejected) {
+            assert.match(result.reason.message, /not available/);
+        }
+
+        assert.equal((await bookingIdsIn(date, '11:30 AM'))?.length, 1);
+
+        const active = await db.collection(COLLECTIONS.BOOKINGS).where('status', '==', 'confirmed').get();
+        assert.equal(active.size, 1);
+    });
+
+    it('counts bookings made before slot documents existed', async () => {
+        const date = upcomingWednesday();
+        await createBooking(db, bookingRequest('+17185550111', date, '11:45 AM'));
+        await db.collection(COLLECTIONS.SLOT_CAPACITY).doc(getSlotId(date, '11:45 AM')).delete();
+
+        assert.equal(await isSlotAvailable(db, date, '11:45 AM'), false);
+        await assert.rejects(
+            createBooking(db, bookingRequest('+17185550112', date, '11:45 AM')),
+            /not available/
+        );
+
+        // The failed attempt wrote nothing
+        assert.equal(await getSlot(date, '11:45 AM'), undefined);
+    });
+});
+
+describe('cancelBooking', () => {
+    it('frees the slot for the next caller', async () => {
+        const date = upcomingWednesday();
+        const first = await createBooking(db, bookingRequest('+17185550121', date, '12:00 PM'));
+
+        await cancelBooking(db, first.id);
+
+        assert.equal(await isSlotAvailable(db, date, '12:00 PM'), true);
+        await createBooking(db, bookingRequest('+17185550122', date, '12:00 PM'));
+        assert.equal((await bookingIdsIn(date, '12:00 PM'))?.length, 1);
+    });
+
+    it('frees the slot when an admin sets the status to cancelled, and reclaims it on reactivation', async () => {
+        const date = upcomingWednesday();
+        const booking = await createBooking(db, bookingRequest('+17185550123', date, '12:15 PM'));
+
+        await updateBooking(db, booking.id, { status: 'cancelled' });
+        assert.equal((await bookingIdsIn(date, '12:15 PM'))?.length, 0);
+
+        await updateBooking(db, booking.id, { status: 'confirmed' });
+        assert.deepEqual(await bookingIdsIn(date, '12:15 PM'), [booking.id]);
+    });
+
+    it('saves a YYYY-MM-DD wedding date as that day in Brooklyn', async () => {
+        const booking = await createBooking(db, bookingRequest('+17185550124', upcomingWednesday(), '12:30 PM'));
+        const weddingKey = toDateKey(toBusinessDate(booking.weddingDate.toDate(), 7));
+
+        const updated = await updateBooking(db, booking.id, { weddingDate: weddingKey });
+        assert.equal(toDateKey(updated!.weddingDate.toDate()), weddingKey);
+    });
+});
+
+describe('rescheduleBooking', () => {
+    it('moves the booking between slots in one step', async () => {
+        const date = upcomingWednesday();
+        const booking = await createBooking(db, bookingRequest('+17185550131', date, '11:30 AM'));
+
+        await rescheduleBooking(db, booking.id, date, '11:45 AM');
+
+        assert.deepEqual(await bookingIdsIn(date, '11:30 AM'), []);
+        assert.deepEqual(await bookingIdsIn(date, '11:45 AM'), [booking.id]);
+    });
+
+    it('keeps the old slot when the new one is taken', async () => {
+        const date = upcomingWednesday();
+        const moving = await createBooking(db, bookingRequest('+17185550141', date, '11:30 AM'));
+        await createBooking(db, bookingRequest('+17185550142', date, '11:45 AM'));
+
+        await assert.rejects(rescheduleBooking(db, moving.id, date, '11:45 AM'), /not available/);
+
+        assert.deepEqual(await bookingIdsIn(date, '11:30 AM'), [moving.id]);
+        const doc = await db.collection(COLLECTIONS.BOOKINGS).doc(moving.id).get();
+        assert.equal(doc.data()?.slotTime, '11:30 AM');
+    });
+
+    it('lets only one of two simultaneous moves into the same slot succeed', async () => {
+        const date = upcomingWednesday();
+        const nextWeek = upcomingWednesday(3);
+        const a = await createBooking(db, bookingRequest('+17185550151', date, '11:30 AM'));
+        const b = await createBooking(db, bookingRequest('+17185550152', date, '11:45 AM'));
+
+        const results = await Promise.allSettled([
+            rescheduleBooking(db, a.id, nextWeek, '12:00 PM'),
+            rescheduleBooking(db, b.id, nextWeek, '12:00 PM'),
+        ]);
+
+        assert.equal(results.filter(r => r.status === 'fulfilled').length, 1);
+        assert.equal((await bookingIdsIn(nextWeek, '12:00 PM'))?.length, 1);
+
+        // The loser still holds its original slot
+        const loser = results[0].status === 'rejected' ? a : b;
+        const loserSlot = loser === a ? '11:30 AM' : '11:45 AM';
+        assert.deepEqual(await bookingIdsIn(date, loserSlot), [loser.id]);
+    });
+
+    it('does not let a new booking and a reschedule both take the last place', async () => {
+        const date = upcomingWednesday();
+        const moving = await createBooking(db, bookingRequest('+17185550161', date, '11:30 AM'));
+
+        const results = await Promise.allSettled([
+            rescheduleBooking(db, moving.id, date, '12:15 PM'),
+            createBooking(db, bookingRequest('+17185550162', date, '12:15 PM')),
+        ]);
+
+        assert.equal(results.filter(r => r.status === 'fulfilled').length, 1);
+        assert.equal((await bookingIdsIn(date, '12:15 PM'))?.length, 1);
+    });
+});
+
+describe('slot capacity', () => {
+    it('fits several small groups in one slot up to the party and people limits', async () => {
+        await updateScheduleConfig(db, { wednesday: { maxParties: 2, maxPeople: 6 } });
+        const date = upcomingWednesday();
+
+        await createBooking(db, bookingRequest('+17185550171', date, '11:30 AM', 3));
+        assert.equal(await isSlotAvailable(db, date, '11:30 AM', 3), true);
+        assert.equal(await isSlotAvailable(db, date, '11:30 AM', 4), false);
+
+        await createBooking(db, bookingRequest('+17185550172', date, '11:30 AM', 3));
+        await assert.rejects(
+            createBooking(db, bookingRequest('+17185550173', date, '11:30 AM', 1)),
+            /not available/
+        );
+        assert.equal((await bookingIdsIn(date, '11:30 AM'))?.length, 2);
+    });
+
+    it('gives a large group two back-to-back slots anywhere in the evening', async () => {
+        const date = upcomingWednesday();
+        const booking = await createBooking(db, bookingRequest('+17185550181', date, '11:30 AM', 5));
+
+        assert.deepEqual(booking.slotTimes, ['11:30 AM', '11:45 AM']);
+        assert.equal(booking.slotDuration, 30);
+        assert.deepEqual(await bookingIdsIn(date, '11:30 AM'), [booking.id]);
+        assert.deepEqual(await bookingIdsIn(date, '11:45 AM'), [booking.id]);
+        assert.equal(await isSlotAvailable(db, date, '11:45 AM'), false);
+
+        await cancelBooking(db, booking.id);
+        assert.deepEqual(await bookingIdsIn(date, '11:45 AM'), []);
+    });
+
+    it('does not start a large group in the last slot or over a taken one', async () => {
+        const date = upcomingWednesday();
+        await createBooking(db, bookingRequest('+17185550191', date, '12:00 PM', 2));
+
+        await assert.rejects(
+            createBooking(db, bookingRequest('+17185550192', date, '12:15 PM', 6)),
+            /back-to-back/
+        );
+        await assert.rejects(
+            createBooking(db, bookingRequest('+17185550193', date, '11:45 AM', 6)),
+            /not available/
+        );
+        assert.deepEqual(await getAvailableSlotsForDate(db, date, 6), ['11:30 AM']);
+    });
+});
+
+describe('weekly schedule', () => {
+    it('opens any weekday with slots cut from its hours', async () => {
+        const sunday = toBusinessDate(upcomingWednesday(), 4);
+        assert.deepEqual(await getAvailableSlotsForDate(db, sunday), []);
+
+        await updateScheduleConfig(db, {
+            sunday: { enabled: true, windows: [{ start: '7pm', end: '8:10 pm' }], slotDuration: 20 },
+        });
+        assert.deepEqual(await getAvailableSlotsForDate(db, sunday), ['7:00 PM', '7:20 PM', '7:40 PM']);
+
+        const booking = await createBooking(db, bookingRequest('+17185550201', sunday, '7:20 PM'));
+        assert.equal(booking.slotDuration, 20);
+        assert.deepEqual(await getAvailableSlotsForDate(db, sunday), ['7:00 PM', '7:40 PM']);
+    });
+
+    it('rejects overlapping hours', async () => {
+        await assert.rejects(
+            updateScheduleConfig(db, {
+                tuesday: {
+                    enabled: true,
+                    windows: [{ start: '7:00 PM', end: '8:00 PM' }, { start: '7:30 PM', end: '9:00 PM' }],
+                },
+            }),
+            /overlap/
+        );
+    });
+
+    it('reads a config saved as slot lists before hours existed', async () => {
+        await db.collection('scheduleConfig').doc('default').set({
+            wednesday: { enabled: true, slots: ['11:30 AM', '11:45 AM', '1:00 PM'] },
+        });
+
+        const config = await getScheduleConfig(db);
+        assert.deepEqual(config.wednesday.windows, [
+            { start: '11:30 AM', end: '12:00 PM' },
+            { start: '1:00 PM', end: '1:15 PM' },
+        ]);
+        assert.deepEqual(config.wednesday.slots, ['11:30 AM', '11:45 AM', '1:00 PM']);
+        assert.equal(config.saturday.enabled, true);
+        assert.equal(config.sunday.enabled, false);
+    });
+});
+
+describe('extra sessions', () => {
+    it('opens a session on a day we are usually closed', async () => {
+        const thursday = toBusinessDate(upcomingWednesday(), 1);
+        await assert.rejects(
+            createBooking(db, bookingRequest('+17185550211', thursday, '7:30 PM')),
+            /not available/
+        );
+
+        await addExtraSession(db, thursday, { start: '7:30 PM', end: '8:00 PM' }, 'Before Pesach');
+        assert.deepEqual(await getAvailableSlotsForDate(db, thursday), ['7:30 PM', '7:45 PM']);
+
+        await createBooking(db, bookingRequest('+17185550211', thursday, '7:30 PM'));
+        assert.deepEqual(await getAvailableSlotsForDate(db, thursday), ['7:45 PM']);
+    });
+
+    it('extends a regular day, letting a large group run past the usual end', async () => {
+        const date = upcomingWednesday();
+        await addExtraSession(db, date, { start: '12:30 PM', end: '1:00 PM' });
+
+        const booking = await createBooking(db, bookingRequest('+17185550221', date, '12:15 PM', 5));
+        assert.deepEqual(booking.slotTimes, ['12:15 PM', '12:30 PM']);
+
+        const configured = await getConfiguredSlotsForDate(db, date);
+        assert.deepEqual(configured.allSlots, ['11:30 AM', '11:45 AM', '12:00 PM', '12:15 PM', '12:30 PM', '12:45 PM']);
+    });
+
+    it('does not book on a blocked date', async () => {
+        const date = upcomingWednesday();
+        await blockDate(db, date, { reason: 'Chol Hamoed' });
+
+        assert.deepEqual(await getAvailableSlotsForDate(db, date), []);
+        await assert.rejects(
+            createBooking(db, bookingRequest('+17185550231', date, '11:30 AM')),
+            /not available/
+        );
+    });
+});
+
+describe('Jewish calendar', () => {
+    // Minutes after midnight as a slot time (e.g., 1290 -> "9:30 PM")
+    const slotTime = (minutes: number) => {
+        const hours = Math.floor(minutes / 60);
+        return `${hours % 12 || 12}:${String(minutes % 60).padStart(2, '0')} ${hours < 12 ? 'AM' : 'PM'}`;
+    };
+
+    it('closes Yom Tov even when the day is open and has an extra session', async () => {
+        let date = upcomingWednesday();
+        while (!getYomTov(date)) {
+            date = toBusinessDate(date, 1);
+        }
+        await addExtraSession(db, date, { start: '7:30 PM', end: '8:00 PM' });
+
+        const configured = await getConfiguredSlotsForDate(db, date);
+        assert.equal(configured.blocked, true);
+        assert.equal(configured.reason, getYomTov(date));
+        assert.deepEqual(configured.slots, []);
+        assert.deepEqual(await getAvailableSlotsForDate(db, date), []);
+    });
+
+    it('starts Motzei Shabbos slots after Shabbos ends in the summer', async () => {
+        const summer = fromDateKey('2027-06-19');
+        const start = getMotzeiShabbosStart(summer);
+        assert.ok(start > 19 * 60 + 30);
+
+        const configured = await getConfiguredSlotsForDate(db, summer);
+        assert.equal(configured.slots.length, 8);
+        assert.equal(configured.slots[0], slotTime(start));
+
+        const winter = fromDateKey('2026-12-19');
+        assert.equal((await getConfiguredSlotsForDate(db, winter)).slots[0], '7:30 PM');
+    });
+
+    it('ends Friday hours at candle lighting', async () => {
+        await updateScheduleConfig(db, {
+            friday: { enabled: true, windows: [{ start: '3:00 PM', end: '6:00 PM' }] },
+        });
+        const friday = fromDateKey('2026-12-18');
+        const candleLighting = getCandleLighting(friday);
+
+        const expected: string[] = [];
+        for (let start = 15 * 60; start + 15 <= candleLighting; start += 15) {
+            expected.push(slotTime(start));
+        }
+        assert.ok(expected.length > 0);
+        assert.deepEqual((await getConfiguredSlotsForDate(db, friday)).slots, expected);
+    });
+});
+
+describe('recurring blocks', () => {
+    it('closes a weekday between two dates', async () => {
+        const first = upcomingWednesday();
+        const second = toBusinessDate(first, 7);
+        const after = toBusinessDate(first, 14);
+        await addBlockRule(db, { type: 'weekly', weekday: 3, startDate: toDateKey(first), endDate: toDateKey(second) }, 'Summer break');
+
+        assert.deepEqual(await getAvailableSlotsForDate(db, first), []);
+        assert.deepEqual(await getAvailableSlotsForDate(db, second), []);
+        assert.notDeepEqual(await getAvailableSlotsForDate(db, after), []);
+        assert.deepEqual(await isDateBlocked(db, second), { blocked: true, reason: 'Summer break' });
+
+        const configured = await getConfiguredSlotsForDate(db, first);
+        assert.equal(configured.blocked, true);
+        assert.equal(configured.reason, 'Summer break');
+        await assert.rejects(
+            createBooking(db, bookingRequest('+17185550241', first, '11:30 AM')),
+            /not available/
+        );
+    });
+
+    it('closes the nth weekday of the month', async () => {
+        await addBlockRule(db, { type: 'monthly', weekday: 3, nth: 1 });
+
+        const date = upcomingWednesday();
+        const day = Number(toDateKey(date).slice(-2));
+        assert.equal((await isDateBlocked(db, date)).blocked, day <= 7);
+        assert.equal((await isDateBlocked(db, toBusinessDate(date, 1))).blocked, false);
+    });
+
+    it('skips listed dates when looking for the next session', async () => {
+        const wednesday = upcomingWednesday();
+        const saturday = toBusinessDate(wednesday, 3);
+        await addBlockRule(db, { type: 'dates', dates: [toDateKey(wednesday), toDateKey(saturday)] });
+
+        const next = await getNextSessionDates(db, await getScheduleConfig(db), toBusinessDate(wednesday, -1), 1);
+        assert.equal(toDateKey(next[0]), toDateKey(toBusinessDate(wednesday, 7)));
+    });
+
+    it('rejects a weekly rule without dates', async () => {
+        await assert.rejects(
+            addBlockRule(db, { type: 'weekly', weekday: 6, startDate: '', endDate: '' }),
+            /from and until/
+        );
+    });
+});
+
+describe('bookings on a blocked date', () => {
+    it('lists only the bookings in blocked slots', async () => {
+        const date = upcomingWednesday();
+        const blocked = await createBooking(db, bookingRequest('+17185550251', date, '11:30 AM'));
+        await createBooking(db, bookingRequest('+17185550252', date, '12:00 PM'));
+        await blockDate(db, date, { blockedSlots: ['11:30 AM'] });
+
+        const affected = await getAffectedBookings(db, date, ['11:30 AM']);
+        assert.deepEqual(affected.map(a => a.booking.id), [blocked.id]);
+
+        // Another slot the same day comes first, then one per later session
+        const suggestions = affected[0].suggestions;
+        assert.equal(suggestions.length, 3);
+        assert.equal(suggestions[0].date, toDateKey(date));
+        assert.notEqual(suggestions[0].slotTime, '11:30 AM');
+        assert.equal(new Set(suggestions.map(s => s.date)).size, 3);
+        assert.ok(suggestions.slice(1).every(s => s.date > toDateKey(date)));
+    });
+
+    it('suggests other days when the whole day is blocked', async () => {
+        const date = upcomingWednesday();
+        await createBooking(db, bookingRequest('+17185550253', date, '11:30 AM'));
+        await createBooking(db, bookingRequest('+17185550254', date, '12:00 PM'));
+        await blockDate(db, date, { reason: 'Simcha' });
+
+        const affected = await getAffectedBookings(db, date);
+        assert.equal(affected.length, 2);
+        for (const { suggestions } of affected) {
+            assert.ok(suggestions.length > 0);
+            assert.ok(suggestions.every(s => s.date > toDateKey(date)));
+        }
+    });
+
+    it('lists the bookings on every date a new recurring block closes', async () => {
+        const first = upcomingWednesday();
+        const second = upcomingWednesday(3);
+        const onFirst = await createBooking(db, bookingRequest('+17185550255', first, '11:30 AM'));
+        const onSecond = await createBooking(db, bookingRequest('+17185550256', second, '12:00 PM'));
+        await createBooking(db, bookingRequest('+17185550257', upcomingWednesday(5), '11:30 AM'));
+
+        const rule = await addBlockRule(db, { type: 'dates', dates: [toDateKey(first), toDateKey(second)] });
+        const affected = await getAffectedBookingsForRule(db, rule, 180);
+        assert.deepEqual(affected.map(a => [a.date, a.booking.id]), [
+            [toDateKey(first), onFirst.id],
+            [toDateKey(second), onSecond.id],
+        ]);
+    });
+});
+
+describe('waitlist', () => {
+    // A date with a single open slot, already taken
+    async function fullyBookedDate(phone: string) {
+        const date = upcomingWednesday();
+        const { allSlots } = await getConfiguredSlotsForDate(db, date);
+        await blockDate(db, date, { blockedSlots: allSlots.slice(1) });
+        const booking = await createBooking(db, bookingRequest(phone, date, allSlots[0]));
+        return { date, slotTime: allSlots[0], booking };
+    }
+
+    function waitlistRequest(phone: string, date: Date) {
+        const { appointmentDate, ...rest } = bookingRequest(phone, date, '');
+        return { ...rest, date: appointmentDate };
+    }
+
+    it('offers a freed slot to the first in line and books it on accept', async () => {
+        const { date, slotTime, booking } = await fullyBookedDate('+17185550261');
+        const first = await joinWaitlist(db, waitlistRequest('+17185550262', date), CUSTOMER_SMS);
+        await joinWaitlist(db, waitlistRequest('+17185550263', date), CUSTOMER_SMS);
+        assert.deepEqual(await offerFreedSlots(db, date), []);
+
+        await cancelBooking(db, booking.id);
+        const offered = await offerFreedSlots(db, date);
+        assert.deepEqual(offered.map(entry => entry.id), [first.id]);
+        assert.equal(offered[0].offeredSlot, slotTime);
+
+        // Held for them while the offer is open
+        assert.deepEqual(await offerFreedSlots(db, date), []);
+        assert.equal(await getOpenOffer(db, '+17185550263'), null);
+
+        const offer = await getOpenOffer(db, '+17185550262');
+        assert.ok(offer);
+        const accepted = await acceptWaitlistOffer(db, offer, CUSTOMER_SMS);
+        assert.deepEqual(await bookingIdsIn(date, slotTime), [accepted.id]);
+        assert.equal((await getWaitlistForDate(db, date)).length, 1);
+    });
+
+    it('holds the offered slot against every other channel until the offer closes', async () => {
+        const { date, slotTime, booking } = await fullyBookedDate('+17185550268');
+        const first = await joinWaitlist(db, waitlistRequest('+17185550269', date), CUSTOMER_SMS);
+        await cancelBooking(db, booking.id);
+
+        // Two cancellations landing together still make one offer
+        const [a, b] = await Promise.all([offerFreedSlots(db, date), offerFreedSlots(db, date)]);
+        assert.equal(a.length + b.length, 1);
+        assert.deepEqual(await getAvailableSlotsForDate(db, date), []);
+        await assert.rejects(
+            createBooking(db, bookingRequest('+17185550270', date, slotTime)),
+            /not available/
+        );
+
+        await db.collection('waitlist').doc(first.id).update({ offerExpiresAt: Timestamp.fromMillis(Date.now() - 1000) });
+        await expireWaitlistOffers(db);
+        assert.deepEqual(await getAvailableSlotsForDate(db, date), [slotTime]);
+    });
+
+    it('passes an offer nobody accepted to the next person', async () => {
+        const { date, slotTime, booking } = await fullyBookedDate('+17185550264');
+        const first = await joinWaitlist(db, waitlistRequest('+17185550265', date), CUSTOMER_SMS);
+        await joinWaitlist(db, waitlistRequest('+17185550266', date), CUSTOMER_SMS);
+        await cancelBooking(db, booking.id);
+        await offerFreedSlots(db, date);
+
+        await db.collection('waitlist').doc(first.id).update({ offerExpiresAt: Timestamp.fromMillis(Date.now() - 1000) });
+        assert.equal(await expireWaitlistOffers(db), 1);
+
+        assert.equal(await getOpenOffer(db, '+17185550265'), null);
+        assert.equal((await getOpenOffer(db, '+17185550266'))?.offeredSlot, slotTime);
+    });
+
+    it('keeps one place per customer per date', async () => {
+        const date = upcomingWednesday();
+        const first = await joinWaitlist(db, waitlistRequest('+17185550267', date), CUSTOMER_SMS);
+        const again = await joinWaitlist(db, waitlistRequest('+17185550267', date), CUSTOMER_SMS);
+
+        assert.equal(again.createdAt.toMillis(), first.createdAt.toMillis());
+        assert.equal((await getWaitlistForDate(db, date)).length, 1);
+    });
+});
+
+describe('pickup appointments', () => {
+    // A booking with its first open pickup day (in the two weeks before the wedding)
+    async function bookingWithPickupDay(phone: string) {
+        const booking = await createBooking(db, bookingRequest(phone, upcomingWednesday(), '11:30 AM'));
+        const config = await getScheduleConfig(db);
+        const [option] = await getPickupOptions(db, booking, 'pickup', config);
+        assert.ok(option);
+        return { booking, date: option.date, slotTime: option.slots[0] };
+    }
+
+    it('books no more handoffs at a time than the setting allows', async () => {
+        await updateScheduleConfig(db, { pickups: { perSlot: 1 } });
+        const { booking, date, slotTime } = await bookingWithPickupDay('+17185550301');
+        const other = await createBooking(db, bookingRequest('+17185550302', booking.appointmentDate.toDate(), '11:45 AM'));
+
+        const results = await Promise.allSettled([booking, other].map(b =>
+            schedulePickup(db, { bookingId: b.id, kind: 'pickup', date, slotTime })
+        ));
+        assert.equal(results.filter(r => r.status === 'fulfilled').length, 1);
+        assert.ok(!(await getAvailablePickupSlots(db, date)).includes(slotTime));
+    });
+
+    it('moves a pickup to the new time and frees it on cancel', async () => {
+        const { booking, date } = await bookingWithPickupDay('+17185550303');
+        await updateScheduleConfig(db, { pickups: { perSlot: 1 } });
+        const [first, second] = await getAvailablePickupSlots(db, date);
+
+        await schedulePickup(db, { bookingId: booking.id, kind: 'pickup', date, slotTime: first });
+        const moved = await schedulePickup(db, { bookingId: booking.id, kind: 'pickup', date, slotTime: second });
+        const open = await getAvailablePickupSlots(db, date);
+        assert.ok(open.includes(first));
+        assert.ok(!open.includes(second));
+        assert.equal((await getPickupsForBooking(db, booking.id)).length, 1);
+
+        await cancelPickup(db, moved.id);
+        assert.ok((await getAvailablePickupSlots(db, date)).includes(second));
+        assert.deepEqual(await getPickupsForBooking(db, booking.id), []);
+    });
+
+    it('drops the pickup and its reminder when the booking is cancelled', async () => {
+        const { booking, date, slotTime } = await bookingWithPickupDay('+17185550309');
+        await updateScheduleConfig(db, { pickups: { perSlot: 1 } });
+        await schedulePickup(db, { bookingId: booking.id, kind: 'pickup', date, slotTime });
+        assert.equal((await getPickupsNeedingReminder(db, date)).length, 1);
+
+        // Still scheduled (say it was cancelled elsewhere) - no reminder either way
+        await cancelBooking(db, booking.id);
+        assert.deepEqual(await getPickupsNeedingReminder(db, date), []);
+
+        await cancelPickupsForBooking(db, booking.id);
+        assert.deepEqual(await getPickupsForBooking(db, booking.id), []);
+        assert.ok((await getAvailablePickupSlots(db, date)).includes(slotTime));
+    });
+
+    it('finds chosen gowns not yet picked up by wedding date', async () => {
+        const date = upcomingWednesday();
+        const chosen = await createBooking(db, bookingRequest('+17185550305', date, '11:30 AM'));
+        const pickedUp = await createBooking(db, bookingRequest('+17185550306', date, '11:45 AM'));
+        const cancelled = await createBooking(db, bookingRequest('+17185550307', date, '12:00 PM'));
+        await createBooking(db, bookingRequest('+17185550308', date, '12:15 PM'));
+        await updateBooking(db, chosen.id, { gownSelected: true });
+        await updateBooking(db, pickedUp.id, { gownSelected: true, gownPickedUp: true });
+        await updateBooking(db, cancelled.id, { gownSelected: true });
+        await cancelBooking(db, cancelled.id);
+
+        const wedding = chosen.weddingDate.toDate();
+        const awaiting = await getBookingsAwaitingPickup(db, toBusinessDate(wedding, -14), wedding);
+        assert.deepEqual(awaiting.map(b => b.id), [chosen.id]);
+        assert.deepEqual(await getBookingsAwaitingPickup(db, toBusinessDate(wedding, 1), toBusinessDate(wedding, 7)), []);
+    });
+
+    it('keeps pickups before the wedding and returns after it', async () => {
+        const { booking, date, slotTime } = await bookingWithPickupDay('+17185550304');
+        await assert.rejects(
+            schedulePickup(db, { bookingId: booking.id, kind: 'return', date, slotTime }),
+            /after the wedding/
+        );
+        await assert.rejects(
+            schedulePickup(db, { bookingId: booking.id, kind: 'pickup', date: booking.appointmentDate.toDate(), slotTime }),
+            /two weeks before the wedding/
+        );
+    });
+});
+
+// Twilio isn't configured under the emulator, so every send here fails
+describe('outbox', () => {
+    async function makeDue(messageId: string) {
+        await db.collection('outbox').doc(messageId).update({ nextAttemptAt: Timestamp.fromMillis(Date.now() - 1000) });
+    }
+
+    it('holds the reminder flag back until the text goes out', async () => {
+        const booking = await createBooking(db, bookingRequest('+17185550401', upcomingWednesday(), '11:30 AM'));
+        const request = {
+            to: booking.customerPhone,
+            body: 'See you tomorrow',
+            type: 'day-before-reminder' as const,
+            bookingId: booking.id,
+            dedupeKey: `dayBefore_${booking.id}`,
+            onSent: [bookingUpdate(booking.id, { dayBeforeReminderSent: true })],
+        };
+
+        const message = await enqueueSms(db, request);
+        assert.equal(message.status, 'pending');
+        assert.equal(message.attempts, 1);
+        assert.ok(message.lastError);
+        assert.ok(message.nextAttemptAt.toMillis() > Date.now());
+        assert.equal((await db.collection(COLLECTIONS.BOOKINGS).doc(booking.id).get()).data()?.dayBeforeReminderSent, false);
+
+        // Not due yet, and queueing it again doesn't send twice
+        assert.equal(await dispatchMessage(db, message.id), null);
+        assert.equal((await enqueueSms(db, request)).attempts, 1);
+    });
+
+    it('gives up after the last retry until retried by hand', async () => {
+        const message = await enqueueSms(db, { to: '+17185550402', body: 'Hi', type: 'manager' });
+        for (let i = 0; i < 4; i++) {
+            await makeDue(message.id);
+            await dispatchDueMessages(db);
+        }
+
+        const [failed] = await getUndeliveredMessages(db);
+        assert.equal(failed.status, 'failed');
+        assert.equal(failed.attempts, 5);
+        assert.deepEqual(await dispatchDueMessages(db), { sent: 0, retrying: 0, failed: 0 });
+
+        const retried = await retryMessage(db, message.id);
+        assert.equal(retried?.status, 'pending');
+        assert.equal(retried?.attempts, 1);
+        await assert.rejects(retryMessage(db, message.id), /Only failed messages/);
+    });
+
+    it('stops texting a number that replied STOP until it replies START', async () => {
+        await setSmsConsent(db, '+17185550403', true, 'stop');
+        assert.equal(await isOptedOut(db, '+17185550403'), true);
+
+        const message = await enqueueSms(db, { to: '+17185550403', body: 'Reminder', type: 'day-before-reminder' });
+        assert.equal(message.status, 'failed');
+        assert.match(message.lastError || '', /opted out/);
+
+        await setSmsConsent(db, '+17185550403', false, 'start');
+        assert.equal(await isOptedOut(db, '+17185550403'), false);
+    });
+});
+
+describe('delivery reports', () => {
+    async function logText(twilioSid: string, fields: Record<string, string> = {}) {
+        await db.collection(COLLECTIONS.SMS_LOGS).doc(twilioSid).set({
+            id: twilioSid,
+            direction: 'outbound',
+            phone: '+17185550501',
+            message: 'Hi',
+            twilioSid,
+            createdAt: Timestamp.now(),
+            ...fields,
+        });
+    }
+
+    it('flags the booking when a reminder never arrives', async () => {
+        const booking = await createBooking(db, bookingRequest('+17185550501', upcomingWednesday(), '11:30 AM'));
+        await logText('SM1', { bookingId: booking.id, messageType: 'day-before-reminder' });
+
+        await recordDeliveryStatus(db, { twilioSid: 'SM1', status: 'sent' });
+        const result = await recordDeliveryStatus(db, { twilioSid: 'SM1', status: 'undelivered', errorCode: '30003' });
+        assert.equal(result.outcome === 'recorded' && result.log.deliveryStatus, 'undelivered');
+
+        const flagged = (await db.collection(COLLECTIONS.BOOKINGS).doc(booking.id).get()).data();
+        assert.equal(flagged?.deliveryProblem.messageType, 'day-before-reminder');
+        assert.equal(flagged?.deliveryProblem.errorCode, '30003');
+
+        await clearDeliveryProblem(db, booking.id);
+        assert.equal((await db.collection(COLLECTIONS.BOOKINGS).doc(booking.id).get()).data()?.deliveryProblem, undefined);
+    });
+
+    it('ignores late callbacks and texts that need no follow-up', async () => {
+        const booking = await createBooking(db, bookingRequest('+17185550502', upcomingWednesday(), '11:45 AM'));
+        await logText('SM2', { bookingId: booking.id, messageType: 'confirmation' });
+        await logText('SM3', { messageType: 'reply' });
+
+        await recordDeliveryStatus(db, { twilioSid: 'SM2', status: 'delivered' });
+        assert.deepEqual(await recordDeliveryStatus(db, { twilioSid: 'SM2', status: 'sent' }), { outcome: 'stale' });
+        assert.equal((await db.collection(COLLECTIONS.SMS_LOGS).doc('SM2').get()).data()?.deliveryStatus, 'delivered');
+
+        await recordDeliveryStatus(db, { twilioSid: 'SM3', status: 'failed' });
+        assert.deepEqual(await recordDeliveryStatus(db, { twilioSid: 'SM-unknown', status: 'failed' }), { outcome: 'pending' });
+        assert.equal((await db.collection(COLLECTIONS.BOOKINGS).doc(booking.id).get()).data()?.deliveryProblem, undefined);
+    });
+
+    it('keeps a report that arrives before the text is logged', async () => {
+        const booking = await createBooking(db, bookingRequest('+17185550503', upcomingWednesday(), '12:00 PM'));
+
+        assert.deepEqual(await recordDeliveryStatus(db, { twilioSid: 'SM4', status: 'failed', errorCode: '30005' }), { outcome: 'pending' });
+        assert.deepEqual(await recordDeliveryStatus(db, { twilioSid: 'SM4', status: 'sent' }), { outcome: 'pending' });
+
+        await saveSmsLog(db, {
+            id: 'SM4',
+            direction: 'outbound',
+            phone: '+17185550503',
+            message: 'Confirmed!',
+            twilioSid: 'SM4',
+            bookingId: booking.id,
+            messageType: 'confirmation',
+            createdAt: Timestamp.now(),
+        });
+
+        const log = (await db.collection(COLLECTIONS.SMS_LOGS).doc('SM4').get()).data();
+        assert.equal(log?.deliveryStatus, 'failed');
+        const problem = (await db.collection(COLLECTIONS.BOOKINGS).doc(booking.id).get()).data()?.deliveryProblem;
+        assert.equal(problem.messageType, 'confirmation');
+        assert.equal(problem.errorCode, '30005');
+        assert.equal((await db.collection('pendingDeliveryStatuses').doc('SM4').get()).exists, false);
+    });
+});
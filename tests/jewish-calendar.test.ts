@@ -0,0 +1,83 @@
+// Jewish calendar tests - pure date arithmetic, no emulator needed
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+    DEFAULT_CALENDAR_SETTINGS,
+    NISAN,
+    TAMMUZ,
+    TISHREI,
+    getClosureReason,
+    getMotzeiShabbosStart,
+    getSunset,
+    getTzeis,
+    getUpcomingClosures,
+    getYomTov,
+    toHebrewDate,
+} from '../src/lib/sms/jewish-calendar';
+import { toDateKey, zonedDateTime } from '../src/lib/sms/date-utils';
+
+// Noon Brooklyn time, so the tests hold wherever they run
+const day = (year: number, month: number, date: number) => zonedDateTime(year, month, date, 12);
+
+describe('toHebrewDate', () => {
+    it('converts known dates', () => {
+        assert.deepEqual(toHebrewDate(day(2026, 9, 12)), { year: 5787, month: TISHREI, day: 1 });
+        assert.deepEqual(toHebrewDate(day(2026, 10, 19)), { year: 5787, month: 8, day: 8 });
+        assert.deepEqual(toHebrewDate(day(2026, 4, 2)), { year: 5786, month: NISAN, day: 15 });
+        assert.deepEqual(toHebrewDate(day(2025, 7, 13)), { year: 5785, month: TAMMUZ, day: 17 });
+    });
+
+    it('uses Adar II in a leap year', () => {
+        assert.deepEqual(toHebrewDate(day(2024, 3, 24)), { year: 5784, month: 13, day: 14 });
+    });
+});
+
+describe('getClosureReason', () => {
+    it('closes Yom Tov and the day before', () => {
+        assert.equal(getYomTov(day(2026, 9, 21)), 'Yom Kippur');
+        assert.equal(getClosureReason(day(2026, 9, 20)), 'Erev Yom Kippur');
+        assert.equal(getClosureReason(day(2026, 9, 26)), 'Sukkos');
+        assert.equal(getClosureReason(day(2026, 4, 1)), 'Erev Pesach');
+        assert.equal(getClosureReason(day(2026, 10, 19)), null);
+    });
+
+    it('closes Chol Hamoed only when configured', () => {
+        const cholHamoed = day(2026, 9, 29);
+        assert.equal(getClosureReason(cholHamoed), 'Chol Hamoed Sukkos');
+        assert.equal(getClosureReason(cholHamoed, { ...DEFAULT_CALENDAR_SETTINGS, blockCholHamoed: false }), null);
+    });
+
+    it('closes Sefirah and the Three Weeks only when configured', () => {
+        const sefirah = day(2026, 4, 20);
+        const threeWeeks = day(2026, 7, 20);
+        assert.equal(getClosureReason(sefirah), null);
+        assert.equal(getClosureReason(threeWeeks), null);
+        assert.equal(getClosureReason(sefirah, { ...DEFAULT_CALENDAR_SETTINGS, blockSefirah: true }), 'Sefirah');
+        assert.equal(
+            getClosureReason(threeWeeks, { ...DEFAULT_CALENDAR_SETTINGS, blockThreeWeeks: true }),
+            'The Three Weeks'
+        );
+    });
+
+    it('lists every day of Sukkos through Simchas Torah', () => {
+        const closures = getUpcomingClosures(day(2026, 9, 24), 11);
+        assert.deepEqual(closures.map(c => toDateKey(c.date).slice(-2)), ['25', '26', '27', '28', '29', '30', '01', '02', '03', '04']);
+        assert.equal(closures[closures.length - 1].reason, 'Simchas Torah');
+    });
+});
+
+describe('sun times', () => {
+    it('puts sunset at the right Brooklyn wall-clock time through the year', () => {
+        // Within a few minutes of published times, on both sides of the DST change
+        assert.ok(Math.abs(getSunset(day(2026, 6, 20)) - (20 * 60 + 30)) <= 3);
+        assert.ok(Math.abs(getSunset(day(2026, 12, 19)) - (16 * 60 + 30)) <= 3);
+    });
+
+    it('starts Motzei Shabbos on the quarter hour after tzeis plus the gap', () => {
+        const summer = day(2026, 6, 20);
+        const start = getMotzeiShabbosStart(summer);
+        assert.equal(start % 15, 0);
+        assert.ok(start >= getTzeis(summer) + DEFAULT_CALENDAR_SETTINGS.motzeiShabbosAfterTzeis);
+        assert.ok(start < getTzeis(summer) + DEFAULT_CALENDAR_SETTINGS.motzeiShabbosAfterTzeis + 15);
+    });
+});
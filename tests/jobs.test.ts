@@ -0,0 +1,77 @@
+// Scheduled job tests - when a job is due, no emulator needed.
+// The server runs on UTC (as on Vercel), so schedules are checked in Brooklyn time.
+process.env.TZ = 'UTC';
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Timestamp } from 'firebase-admin/firestore';
+import { describeSchedule, isJobDue, isRunClaimable } from '../src/lib/jobs/job-runs';
+import { JOBS } from '../src/lib/jobs/registry';
+
+const at = (iso: string) => new Date(iso);
+const ts = (iso: string) => Timestamp.fromDate(at(iso));
+
+describe('isJobDue', () => {
+    const daily = { type: 'daily', hour: 9 } as const;
+
+    it('runs a daily job once, on the first call after its Brooklyn hour', () => {
+        assert.equal(isJobDue(daily, at('2026-06-10T12:45:00Z'), null), false);  // 8:45 AM EDT
+        assert.equal(isJobDue(daily, at('2026-06-10T13:00:00Z'), null), true);
+        assert.equal(isJobDue(daily, at('2026-06-10T13:15:00Z'), at('2026-06-10T13:00:00Z')), false);
+        assert.equal(isJobDue(daily, at('2026-06-11T13:00:00Z'), at('2026-06-10T13:00:00Z')), true);
+    });
+
+    it('counts a late-evening run as that Brooklyn day, not the next UTC one', () => {
+        // Run by hand at 11 PM EDT on the 10th (03:00 UTC on the 11th)
+        assert.equal(isJobDue(daily, at('2026-06-11T13:00:00Z'), at('2026-06-11T03:00:00Z')), true);
+    });
+
+    it('runs a weekly job only on its weekday', () => {
+        const weekly = { type: 'weekly', weekday: 0, hour: 8 } as const;
+        assert.equal(isJobDue(weekly, at('2026-06-13T13:00:00Z'), null), false);  // Saturday
+        assert.equal(isJobDue(weekly, at('2026-06-14T13:00:00Z'), null), true);   // Sunday 9 AM
+        assert.equal(isJobDue(weekly, at('2026-06-14T18:00:00Z'), at('2026-06-14T13:00:00Z')), false);
+    });
+
+    it('allows a little drift between interval runs', () => {
+        const interval = { type: 'interval', minutes: 15 } as const;
+        assert.equal(isJobDue(interval, at('2026-06-10T13:14:00Z'), at('2026-06-10T13:00:00Z')), true);
+        assert.equal(isJobDue(interval, at('2026-06-10T13:05:00Z'), at('2026-06-10T13:00:00Z')), false);
+    });
+});
+
+describe('isRunClaimable', () => {
+    const daily = { type: 'daily', hour: 9 } as const;
+
+    it('retries a failed daily run on the next call', () => {
+        const failed = {
+            jobId: 'day-before-reminders',
+            lastStartedAt: ts('2026-06-10T13:00:00Z'),
+            lastFinishedAt: ts('2026-06-10T13:00:30Z'),
+            lastSucceededAt: ts('2026-06-09T13:00:00Z'),
+        };
+        assert.equal(isRunClaimable(daily, at('2026-06-10T13:15:00Z'), failed), true);
+
+        const succeeded = { ...failed, lastSucceededAt: ts('2026-06-10T13:00:00Z') };
+        assert.equal(isRunClaimable(daily, at('2026-06-10T13:15:00Z'), succeeded), false);
+    });
+
+    it('leaves a run in progress alone until it would have timed out', () => {
+        const running = {
+            jobId: 'day-before-reminders',
+            lastStartedAt: ts('2026-06-10T13:00:00Z'),
+            lastFinishedAt: ts('2026-06-09T13:00:30Z'),
+            lastSucceededAt: ts('2026-06-09T13:00:00Z'),
+        };
+        assert.equal(isRunClaimable(daily, at('2026-06-10T13:05:00Z'), running), false);
+        assert.equal(isRunClaimable(daily, at('2026-06-10T13:15:00Z'), running), true);
+    });
+});
+
+describe('job registry', () => {
+    it('gives every job a unique id and a readable schedule', () => {
+        assert.equal(new Set(JOBS.map(job => job.id)).size, JOBS.length);
+        assert.equal(describeSchedule({ type: 'weekly', weekday: 0, hour: 8 }), 'Sundays at 8:00 AM');
+        assert.equal(describeSchedule({ type: 'daily', hour: 13 }), 'Daily at 1:00 PM');
+    });
+});
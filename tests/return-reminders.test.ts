@@ -0,0 +1,52 @@
+// Overdue return ladder tests - pure day counting, no emulator needed.
+// The server runs on UTC (as on Vercel), so days are counted in Brooklyn time.
+process.env.TZ = 'UTC';
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Timestamp } from 'firebase-admin/firestore';
+import { getDaysSinceWedding, getReturnStatus, getReturnStep } from '../src/lib/sms/return-reminders';
+import { DEFAULT_RETURN_REMINDER_SETTINGS } from '../src/lib/sms/schedule-config';
+import { fromDateKey } from '../src/lib/sms/date-utils';
+import type { Booking } from '../src/lib/sms/types';
+
+function weddingOn(dateStr: string): Booking {
+    return { weddingDate: Timestamp.fromDate(fromDateKey(dateStr)) } as Booking;
+}
+
+describe('days since the wedding', () => {
+    it('counts Brooklyn days, whatever the time of day', () => {
+        const booking = weddingOn('2026-03-10');
+        assert.equal(getDaysSinceWedding(booking, new Date('2026-03-10T23:00:00Z')), 0);
+        assert.equal(getDaysSinceWedding(booking, new Date('2026-03-11T04:30:00Z')), 1);  // 12:30 AM EDT
+        assert.equal(getDaysSinceWedding(booking, new Date('2026-03-20T15:00:00Z')), 10);
+    });
+
+    it('is not thrown off by the clocks changing', () => {
+        const booking = weddingOn('2026-10-28');
+        assert.equal(getDaysSinceWedding(booking, fromDateKey('2026-11-04')), 7);
+    });
+});
+
+describe('reminder steps', () => {
+    const settings = { reminderDays: [1, 5, 10], managerAlertDays: 14 };
+
+    it('moves up a step on each configured day', () => {
+        assert.equal(getReturnStep(settings, 0), 0);
+        assert.equal(getReturnStep(settings, 1), 1);
+        assert.equal(getReturnStep(settings, 4), 1);
+        assert.equal(getReturnStep(settings, 5), 2);
+        assert.equal(getReturnStep(settings, 30), 3);
+    });
+
+    it('flags a return overdue from the manager alert day', () => {
+        const booking = weddingOn('2026-06-01');
+        assert.deepEqual(getReturnStatus(booking, settings, fromDateKey('2026-06-14')), { daysLate: 13, overdue: false });
+        assert.deepEqual(getReturnStatus(booking, settings, fromDateKey('2026-06-15')), { daysLate: 14, overdue: true });
+    });
+
+    it('defaults to reminders before the manager is told', () => {
+        const { reminderDays, managerAlertDays } = DEFAULT_RETURN_REMINDER_SETTINGS;
+        assert.ok(reminderDays.every(days => days < managerAlertDays));
+    });
+});